@@ -1,9 +1,38 @@
 import path from 'path'
-import { app, ipcMain } from 'electron'
+import { app, dialog, ipcMain } from 'electron'
 import serve from 'electron-serve'
-import { createWindow } from './helpers'
+import {
+  createWindow,
+  registerMediaSchemes,
+  handleLocalMediaProtocol,
+  handleHlsStreamProtocol,
+  handleOfflineMediaProtocol,
+} from './helpers'
+import {
+  registerS3Handlers,
+  registerReviewHandlers,
+  registerMaintenanceHandlers,
+  registerModerationHandlers,
+  registerOfflineHandlers,
+  registerUploadQueueHandlers,
+} from './handlers'
+import { assertAwsConfig } from './config/env'
+import { transcodeQueue } from './services/transcode-jobs'
+import { uploadQueue } from './services/upload-queue'
+import { s3Service } from './services/s3-service'
 
 const isProd = process.env.NODE_ENV === 'production'
+/** How often trashed videos past their retention period are purged */
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * Purges expired videos from every user's trash, logging rather than throwing on failure
+ */
+const purgeExpiredTrash = () => {
+  s3Service
+    .purgeExpiredTrash()
+    .catch((error) => console.error('Error purging trash:', error))
+}
 
 if (isProd) {
   serve({ directory: 'app' })
@@ -11,9 +40,31 @@ if (isProd) {
   app.setPath('userData', `${app.getPath('userData')} (development)`)
 }
 
+registerMediaSchemes()
+
 ;(async () => {
   await app.whenReady()
 
+  try {
+    assertAwsConfig()
+  } catch (error) {
+    dialog.showErrorBox('Configuration error', error instanceof Error ? error.message : String(error))
+  }
+
+  handleLocalMediaProtocol()
+  handleHlsStreamProtocol()
+  handleOfflineMediaProtocol()
+  registerS3Handlers()
+  registerReviewHandlers()
+  registerMaintenanceHandlers()
+  registerModerationHandlers()
+  registerOfflineHandlers()
+  registerUploadQueueHandlers()
+  transcodeQueue.resumePending()
+  uploadQueue.resumePending()
+  purgeExpiredTrash()
+  setInterval(purgeExpiredTrash, TRASH_PURGE_INTERVAL_MS)
+
   const mainWindow = createWindow('main', {
     width: 1000,
     height: 600,
@@ -0,0 +1,127 @@
+import type { ContentField, ContentFilterAction } from '../../renderer/types/types';
+import { getStorageProvider } from '../services/storage';
+
+/**
+ * Content filter settings. Defaults below are merged with `config/content-filter.json` in
+ * storage, so the rules can be changed for every client without a new build.
+ * @interface ContentFilterConfig
+ * @property {string[]} blocklist - Words and phrases that may not be used, matched as whole words in any case
+ * @property {string[]} allowedLinkDomains - Domains, and their subdomains, whose links are always allowed
+ * @property {Record<ContentField, number>} maxLinks - Most links of other domains allowed in each field
+ * @property {number} maxRepeatedCharacters - Longest run of the same character, e.g. "!!!!!!"
+ * @property {number} maxRepeatedWords - Most times a word may follow itself
+ * @property {number} maxUppercaseRatio - Largest share of capital letters, applied to text with 20 letters or more
+ * @property {Record<ContentField, number>} maxLengths - Longest text allowed in each field, in characters
+ * @property {Record<string, ContentFilterAction>} actions - What happens when a guideline is broken, by guideline ID
+ */
+export interface ContentFilterConfig {
+    blocklist: string[];
+    allowedLinkDomains: string[];
+    maxLinks: Record<ContentField, number>;
+    maxRepeatedCharacters: number;
+    maxRepeatedWords: number;
+    maxUppercaseRatio: number;
+    maxLengths: Record<ContentField, number>;
+    actions: Record<string, ContentFilterAction>;
+}
+
+/** Key of the content filter overrides file in storage */
+const FILTER_CONFIG_KEY = 'config/content-filter.json';
+/** How long the overrides file is cached */
+const CACHE_MS = 60 * 1000;
+
+const ACTIONS: ContentFilterAction[] = ['reject', 'mask', 'hold'];
+
+const DEFAULT_CONTENT_FILTER_CONFIG: ContentFilterConfig = {
+    blocklist: ['fuck', 'fucking', 'motherfucker', 'shit', 'bullshit', 'cunt', 'bitch', 'asshole', 'bastard', 'dickhead'],
+    allowedLinkDomains: [],
+    maxLinks: {
+        reviewComment: 0,
+        reply: 0,
+        videoTitle: 0,
+        videoDescription: 3
+    },
+    maxRepeatedCharacters: 6,
+    maxRepeatedWords: 3,
+    maxUppercaseRatio: 0.7,
+    maxLengths: {
+        reviewComment: 2000,
+        reply: 2000,
+        videoTitle: 100,
+        videoDescription: 5000
+    },
+    actions: {
+        'respectful-language': 'mask',
+        'no-links': 'hold',
+        'no-spam': 'hold',
+        'length-limits': 'reject'
+    }
+};
+
+let cached: { config: ContentFilterConfig; expiresAt: number } | null = null;
+
+/**
+ * Keeps the overrides of a per-field or per-guideline setting that have the expected type
+ * @param {Record<string, T>} defaults - The default values
+ * @param {unknown} overrides - The stored values
+ * @param {(value: unknown) => boolean} valid - Whether a stored value may be used
+ * @returns {Record<string, T>} The defaults with the valid overrides applied
+ */
+const mergeRecord = <T>(defaults: Record<string, T>, overrides: unknown, valid: (value: unknown) => boolean): Record<string, T> => {
+    const merged = { ...defaults };
+    if (overrides && typeof overrides === 'object') {
+        Object.entries(overrides).forEach(([key, value]) => {
+            if (valid(value)) {
+                merged[key] = value as T;
+            }
+        });
+    }
+    return merged;
+};
+
+const isCount = (value: unknown): boolean => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Loads the content filter settings, merging stored overrides over the defaults. Overrides
+ * of the wrong type are ignored.
+ * @async
+ * @returns {Promise<ContentFilterConfig>} The effective settings
+ */
+export const loadContentFilterConfig = async (): Promise<ContentFilterConfig> => {
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.config;
+    }
+
+    let overrides: Record<string, unknown> = {};
+    try {
+        const contents = await getStorageProvider().get(FILTER_CONFIG_KEY);
+        overrides = contents ? JSON.parse(contents.toString('utf-8')) : {};
+    } catch (error) {
+        console.error('Error reading content filter config, using defaults:', error);
+    }
+
+    const defaults = DEFAULT_CONTENT_FILTER_CONFIG;
+    const config: ContentFilterConfig = {
+        blocklist: isStringList(overrides.blocklist) ? overrides.blocklist : defaults.blocklist,
+        allowedLinkDomains: isStringList(overrides.allowedLinkDomains)
+            ? overrides.allowedLinkDomains.map(domain => domain.toLowerCase())
+            : defaults.allowedLinkDomains,
+        maxLinks: mergeRecord(defaults.maxLinks, overrides.maxLinks, isCount) as Record<ContentField, number>,
+        maxRepeatedCharacters: isCount(overrides.maxRepeatedCharacters) && Number(overrides.maxRepeatedCharacters) > 0
+            ? Number(overrides.maxRepeatedCharacters)
+            : defaults.maxRepeatedCharacters,
+        maxRepeatedWords: isCount(overrides.maxRepeatedWords) && Number(overrides.maxRepeatedWords) > 0
+            ? Number(overrides.maxRepeatedWords)
+            : defaults.maxRepeatedWords,
+        maxUppercaseRatio: typeof overrides.maxUppercaseRatio === 'number' && overrides.maxUppercaseRatio > 0
+            ? Math.min(overrides.maxUppercaseRatio, 1)
+            : defaults.maxUppercaseRatio,
+        maxLengths: mergeRecord(defaults.maxLengths, overrides.maxLengths, value => isCount(value) && Number(value) > 0) as Record<ContentField, number>,
+        actions: mergeRecord(defaults.actions, overrides.actions, value => ACTIONS.includes(value as ContentFilterAction))
+    };
+
+    cached = { config, expiresAt: Date.now() + CACHE_MS };
+    return config;
+};
@@ -0,0 +1,26 @@
+/**
+ * AWS, storage and transcoding configuration for the main process.
+ * Values are inlined at build time by nextron.config.js and never reach the renderer bundle.
+ */
+export const ENV = {
+    AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID || '',
+    AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY || '',
+    AWS_REGION: process.env.NEXT_PUBLIC_AWS_REGION || '',
+    AWS_BUCKET_NAME: process.env.NEXT_PUBLIC_AWS_BUCKET_NAME || '',
+    STORAGE_PROVIDER: (process.env.STORAGE_PROVIDER || 's3') as 's3' | 'local',
+    LOCAL_STORAGE_DIR: process.env.LOCAL_STORAGE_DIR || '',
+    S3_ENDPOINT: process.env.S3_ENDPOINT || '',
+    S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === 'true',
+    DYNAMODB_ENDPOINT: process.env.DYNAMODB_ENDPOINT || '',
+    FFMPEG_PATH: process.env.FFMPEG_PATH || ''
+} as const;
+
+/**
+ * Throws if the AWS configuration needed by the main process is incomplete
+ * @throws {Error} If a required value is missing
+ */
+export const assertAwsConfig = (): void => {
+    if (!ENV.AWS_REGION || !ENV.AWS_ACCESS_KEY_ID || !ENV.AWS_SECRET_ACCESS_KEY) {
+        throw new Error('AWS configuration is missing. Please check your environment variables.');
+    }
+};
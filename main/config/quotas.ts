@@ -0,0 +1,84 @@
+import { getStorageProvider } from '../services/storage';
+
+const GB = 1024 * 1024 * 1024;
+
+/**
+ * Storage quota settings. Defaults below are merged with `config/quotas.json` in storage,
+ * so limits can be changed for every client without a new build.
+ * @interface QuotaConfig
+ * @property {number} poolBytes - Capacity shared by all users
+ * @property {string} defaultTier - Tier for users without an entry in `users`
+ * @property {Record<string, number>} tiers - Quota in bytes per tier
+ * @property {Record<string, {tier?: string, limitBytes?: number}>} users - Per-user tier or explicit limit, keyed by username
+ * @property {number[]} warningThresholds - Fractions of the quota at which users are warned
+ */
+export interface QuotaConfig {
+    poolBytes: number;
+    defaultTier: string;
+    tiers: Record<string, number>;
+    users: Record<string, { tier?: string; limitBytes?: number }>;
+    warningThresholds: number[];
+}
+
+/** Key of the quota overrides file in storage */
+const QUOTA_CONFIG_KEY = 'config/quotas.json';
+/** How long the overrides file is cached */
+const CACHE_MS = 60 * 1000;
+
+const DEFAULT_QUOTA_CONFIG: QuotaConfig = {
+    poolBytes: 4 * GB,
+    defaultTier: 'standard',
+    tiers: {
+        standard: 1 * GB,
+        premium: 3 * GB
+    },
+    users: {},
+    warningThresholds: [0.75, 0.9]
+};
+
+let cached: { config: QuotaConfig; expiresAt: number } | null = null;
+
+/**
+ * Loads the quota configuration, merging stored overrides over the defaults
+ * @async
+ * @returns {Promise<QuotaConfig>} The effective configuration
+ */
+export const loadQuotaConfig = async (): Promise<QuotaConfig> => {
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.config;
+    }
+
+    let overrides: Partial<QuotaConfig> = {};
+    try {
+        const contents = await getStorageProvider().get(QUOTA_CONFIG_KEY);
+        overrides = contents ? JSON.parse(contents.toString('utf-8')) : {};
+    } catch (error) {
+        console.error('Error reading quota config, using defaults:', error);
+    }
+
+    const config: QuotaConfig = {
+        ...DEFAULT_QUOTA_CONFIG,
+        ...overrides,
+        tiers: { ...DEFAULT_QUOTA_CONFIG.tiers, ...overrides.tiers },
+        users: { ...overrides.users },
+        warningThresholds: [...(overrides.warningThresholds || DEFAULT_QUOTA_CONFIG.warningThresholds)].sort((a, b) => a - b)
+    };
+
+    cached = { config, expiresAt: Date.now() + CACHE_MS };
+    return config;
+};
+
+/**
+ * Resolves the tier and quota of a user
+ * @param {QuotaConfig} config - The effective quota configuration
+ * @param {string} username - Username of the user
+ * @returns {{tier: string, limitBytes: number}} The user's tier and quota in bytes
+ */
+export const resolveUserQuota = (config: QuotaConfig, username: string): { tier: string; limitBytes: number } => {
+    const entry = config.users[username] || {};
+    const tier = entry.tier && config.tiers[entry.tier] !== undefined ? entry.tier : config.defaultTier;
+    return {
+        tier,
+        limitBytes: entry.limitBytes ?? config.tiers[tier] ?? 0
+    };
+};
@@ -0,0 +1,44 @@
+import type { ReplyPolicy } from '../../renderer/types/types';
+import { getStorageProvider } from '../services/storage';
+
+/** Key of the reply policy overrides file in storage */
+const POLICY_CONFIG_KEY = 'config/reply-policy.json';
+/** How long the overrides file is cached */
+const CACHE_MS = 60 * 1000;
+
+const POLICIES: ReplyPolicy[] = ['owner', 'ownerAndReviewer', 'everyone'];
+
+/**
+ * Who may reply when nothing is configured. Overridden by the `policy` field of
+ * `config/reply-policy.json` in storage, so it can be changed for every client without a
+ * new build.
+ */
+const DEFAULT_REPLY_POLICY: ReplyPolicy = 'ownerAndReviewer';
+
+let cached: { policy: ReplyPolicy; expiresAt: number } | null = null;
+
+/**
+ * Loads the reply policy. A stored policy that is not one of the known ones is ignored.
+ * @async
+ * @returns {Promise<ReplyPolicy>} The effective policy
+ */
+export const loadReplyPolicy = async (): Promise<ReplyPolicy> => {
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.policy;
+    }
+
+    let overrides: { policy?: unknown } = {};
+    try {
+        const contents = await getStorageProvider().get(POLICY_CONFIG_KEY);
+        overrides = contents ? JSON.parse(contents.toString('utf-8')) : {};
+    } catch (error) {
+        console.error('Error reading reply policy, using the default:', error);
+    }
+
+    const policy = POLICIES.includes(overrides.policy as ReplyPolicy)
+        ? overrides.policy as ReplyPolicy
+        : DEFAULT_REPLY_POLICY;
+
+    cached = { policy, expiresAt: Date.now() + CACHE_MS };
+    return policy;
+};
@@ -0,0 +1,55 @@
+import type { VideoPolicy } from '../../renderer/types/types';
+import { getStorageProvider } from '../services/storage';
+
+const GB = 1024 * 1024 * 1024;
+
+/** Key of the upload policy overrides file in storage */
+const POLICY_CONFIG_KEY = 'config/upload-policy.json';
+/** How long the overrides file is cached */
+const CACHE_MS = 60 * 1000;
+
+/**
+ * Limits applied when nothing is configured. Defaults below are merged with
+ * `config/upload-policy.json` in storage, so limits can be changed for every client
+ * without a new build.
+ */
+const DEFAULT_VIDEO_POLICY: VideoPolicy = {
+    maxFileSize: 2 * GB,
+    maxDurationSeconds: 2 * 60 * 60,
+    maxWidth: 3840,
+    maxHeight: 2160,
+    maxBitrate: 50 * 1000 * 1000
+};
+
+let cached: { policy: VideoPolicy; expiresAt: number } | null = null;
+
+/**
+ * Loads the upload policy, merging stored overrides over the defaults. Overrides that
+ * are not positive numbers are ignored.
+ * @async
+ * @returns {Promise<VideoPolicy>} The effective policy
+ */
+export const loadVideoPolicy = async (): Promise<VideoPolicy> => {
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.policy;
+    }
+
+    let overrides: Partial<VideoPolicy> = {};
+    try {
+        const contents = await getStorageProvider().get(POLICY_CONFIG_KEY);
+        overrides = contents ? JSON.parse(contents.toString('utf-8')) : {};
+    } catch (error) {
+        console.error('Error reading upload policy, using defaults:', error);
+    }
+
+    const policy = { ...DEFAULT_VIDEO_POLICY };
+    (Object.keys(DEFAULT_VIDEO_POLICY) as Array<keyof VideoPolicy>).forEach(limit => {
+        const value = overrides[limit];
+        if (typeof value === 'number' && value > 0) {
+            policy[limit] = value;
+        }
+    });
+
+    cached = { policy, expiresAt: Date.now() + CACHE_MS };
+    return policy;
+};
@@ -0,0 +1,6 @@
+export * from './s3-handlers'
+export * from './review-handlers'
+export * from './maintenance-handlers'
+export * from './moderation-handlers'
+export * from './offline-handlers'
+export * from './upload-queue-handlers'
@@ -0,0 +1,31 @@
+import { ipcMain } from 'electron'
+import { scanConsistency, repairConsistency } from '../services/consistency-check'
+import { requireGroup, ADMIN_GROUP } from '../services/auth'
+import { s3Service } from '../services/s3-service'
+import { reviewService } from '../services/review-service'
+import type { ConsistencyIssue } from '../../renderer/types/types'
+
+/**
+ * Registers the IPC handlers for maintenance tools. Every call requires a member of the admin group.
+ */
+export const registerMaintenanceHandlers = () => {
+  ipcMain.handle('maintenance:scanConsistency', async (_event, accessToken: string) => {
+    await requireGroup(accessToken, ADMIN_GROUP)
+    return scanConsistency()
+  })
+
+  ipcMain.handle('maintenance:repairConsistency', async (_event, accessToken: string, issues: ConsistencyIssue[]) => {
+    await requireGroup(accessToken, ADMIN_GROUP)
+    return repairConsistency(issues)
+  })
+
+  ipcMain.handle('maintenance:migrateMetadata', async (_event, accessToken: string) => {
+    await requireGroup(accessToken, ADMIN_GROUP)
+    return s3Service.migrateAllMetadata()
+  })
+
+  ipcMain.handle('maintenance:mergeDuplicateReviews', async (_event, accessToken: string) => {
+    await requireGroup(accessToken, ADMIN_GROUP)
+    return reviewService.mergeDuplicateReviews()
+  })
+}
@@ -0,0 +1,32 @@
+import { ipcMain } from 'electron'
+import { moderationService } from '../services/moderation-service'
+import { resolveIdentity, requireGroup, MODERATOR_GROUP } from '../services/auth'
+import type { ModerationTarget, ModerationAction, ReportReason } from '../../renderer/types/types'
+
+/**
+ * Registers the IPC handlers for reporting and moderating reviews. Any signed-in user can
+ * report; the queue, decisions and log require a member of the moderator group.
+ */
+export const registerModerationHandlers = () => {
+  ipcMain.handle(
+    'moderation:report',
+    async (_event, accessToken: string, target: ModerationTarget, reason: ReportReason, note?: string) =>
+      moderationService.reportContent(target, reason, note, await resolveIdentity(accessToken))
+  )
+
+  ipcMain.handle('moderation:getQueue', async (_event, accessToken: string) => {
+    await requireGroup(accessToken, MODERATOR_GROUP)
+    return moderationService.getQueue()
+  })
+
+  ipcMain.handle(
+    'moderation:moderate',
+    async (_event, accessToken: string, target: ModerationTarget, action: ModerationAction, note?: string) =>
+      moderationService.moderate(target, action, note, await requireGroup(accessToken, MODERATOR_GROUP))
+  )
+
+  ipcMain.handle('moderation:getLog', async (_event, accessToken: string, options: { cursor?: string; limit?: number }) => {
+    await requireGroup(accessToken, MODERATOR_GROUP)
+    return moderationService.getLog(options)
+  })
+}
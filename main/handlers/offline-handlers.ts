@@ -0,0 +1,73 @@
+import path from 'path'
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import { offlineLibrary } from '../services/offline-library'
+import { s3Service } from '../services/s3-service'
+import { resolveIdentity, resolveKnownIdentity } from '../services/auth'
+
+/**
+ * Resolves the username behind an optional access token
+ * @param {string | null} accessToken - Cognito access token, or null when signed out
+ * @returns {Promise<string | null>} The username, or null when signed out
+ */
+const resolveUsername = async (accessToken: string | null) =>
+  accessToken ? (await resolveIdentity(accessToken)).username : null
+
+/**
+ * Resolves the username behind an optional access token, also without a connection when
+ * Cognito has verified the token before
+ * @param {string | null} accessToken - Cognito access token, or null when signed out
+ * @returns {Promise<string | null>} The username, or null when signed out
+ */
+const resolveKnownUsername = async (accessToken: string | null) =>
+  accessToken ? (await resolveKnownIdentity(accessToken)).username : null
+
+/**
+ * Registers the IPC handlers for the offline library and for saving videos to disk.
+ * Reading the library works without a connection; downloading needs one. Each user
+ * only sees and removes the videos they downloaded.
+ */
+export const registerOfflineHandlers = () => {
+  ipcMain.handle('offline:download', async (event, accessToken: string | null, videoId: string) => {
+    const username = await resolveUsername(accessToken)
+    return offlineLibrary.download(videoId, username, (progress) => {
+      if (!event.sender.isDestroyed()) {
+        event.sender.send('offline:downloadProgress', videoId, progress)
+      }
+    })
+  })
+
+  ipcMain.handle('offline:getLibrary', async (_event, accessToken: string | null) =>
+    offlineLibrary.getLibrary(await resolveKnownUsername(accessToken)))
+
+  ipcMain.handle('offline:remove', async (_event, accessToken: string | null, videoId: string) =>
+    offlineLibrary.remove(videoId, await resolveKnownUsername(accessToken)))
+
+  ipcMain.handle('offline:saveAs', async (event, accessToken: string | null, videoId: string) => {
+    try {
+      const username = await resolveUsername(accessToken)
+      const metadata = await s3Service.readVideoMetadata(videoId)
+      if (!metadata) {
+        throw new Error('Video not found')
+      }
+
+      const extension = path.extname(metadata.videoKey)
+      const window = BrowserWindow.fromWebContents(event.sender)
+      const options = {
+        defaultPath: `${metadata.title.replace(/[\\/:*?"<>|]/g, '_')}${extension}`,
+        filters: extension ? [{ name: 'Video', extensions: [extension.slice(1)] }] : [],
+      }
+      const { canceled, filePath } = window
+        ? await dialog.showSaveDialog(window, options)
+        : await dialog.showSaveDialog(options)
+      if (canceled || !filePath) {
+        return { success: false, canceled: true }
+      }
+
+      await offlineLibrary.exportOriginal(videoId, username, filePath)
+      return { success: true, filePath }
+    } catch (error) {
+      console.error('Save as error:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+}
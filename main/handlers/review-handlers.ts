@@ -0,0 +1,72 @@
+import { ipcMain } from 'electron'
+import { reviewService } from '../services/review-service'
+import { resolveIdentity } from '../services/auth'
+import { s3Service } from '../services/s3-service'
+import type { Review, NewReply, UpdateReviewData, HelpfulVote, ReviewListOptions } from '../../renderer/types/types'
+
+/**
+ * Registers the IPC handlers that expose the review service to the renderer.
+ * Mutating calls take the user's access token and act as the verified user.
+ */
+export const registerReviewHandlers = () => {
+  ipcMain.handle(
+    'reviews:createReview',
+    async (_event, accessToken: string, review: Omit<Review, 'id' | 'createdAt' | 'updatedAt'>) =>
+      reviewService.createReview(review, await resolveIdentity(accessToken))
+  )
+
+  ipcMain.handle(
+    'reviews:getVideoReviews',
+    async (_event, accessToken: string | null, videoId: string, options: ReviewListOptions) =>
+      reviewService.getVideoReviews(videoId, accessToken ? await resolveIdentity(accessToken) : null, options)
+  )
+
+  ipcMain.handle(
+    'reviews:getReviewChanges',
+    async (_event, accessToken: string | null, videoId: string, changeToken: string, knownIds: string[]) =>
+      reviewService.getReviewChanges(videoId, accessToken ? await resolveIdentity(accessToken) : null, changeToken, knownIds)
+  )
+
+  ipcMain.handle('reviews:getUserReview', async (_event, accessToken: string, videoId: string) =>
+    reviewService.getUserReview(videoId, await resolveIdentity(accessToken))
+  )
+
+  ipcMain.handle('reviews:updateReview', async (_event, accessToken: string, reviewId: string, data: UpdateReviewData) =>
+    reviewService.updateReview(reviewId, data, await resolveIdentity(accessToken))
+  )
+
+  ipcMain.handle('reviews:deleteReview', async (_event, accessToken: string, reviewId: string) =>
+    reviewService.deleteReview(reviewId, await resolveIdentity(accessToken))
+  )
+
+  ipcMain.handle('reviews:addReply', async (_event, accessToken: string, reviewId: string, reply: NewReply) =>
+    reviewService.addReply(reviewId, reply, await resolveIdentity(accessToken))
+  )
+
+  ipcMain.handle(
+    'reviews:editReply',
+    async (_event, accessToken: string, reviewId: string, replyId: string, content: string) =>
+      reviewService.editReply(reviewId, replyId, content, await resolveIdentity(accessToken))
+  )
+
+  ipcMain.handle('reviews:deleteReply', async (_event, accessToken: string, reviewId: string, replyId: string) =>
+    reviewService.deleteReply(reviewId, replyId, await resolveIdentity(accessToken))
+  )
+
+  ipcMain.handle('reviews:voteOnReview', async (_event, accessToken: string, reviewId: string, vote: HelpfulVote | null) =>
+    reviewService.voteOnReview(reviewId, vote, await resolveIdentity(accessToken))
+  )
+
+  ipcMain.handle('reviews:getRatingSummary', (_event, videoId: string) => reviewService.getRatingSummary(videoId))
+
+  ipcMain.handle('reviews:getRatingHistory', async (_event, accessToken: string, videoId: string) => {
+    const identity = await resolveIdentity(accessToken)
+    const video = await s3Service.readVideoMetadata(videoId)
+    if (!video || video.userId !== identity.username) {
+      throw new Error('Only the owner of a video can see its rating history')
+    }
+    return reviewService.getRatingHistory(videoId)
+  })
+
+  ipcMain.handle('reviews:getAverageRating', (_event, videoId: string) => reviewService.getAverageRating(videoId))
+}
@@ -0,0 +1,167 @@
+import { BrowserWindow, ipcMain, IpcMainInvokeEvent } from 'electron'
+import { s3Service, VideoUploadOptions, ThumbnailFile } from '../services/s3-service'
+import { UploadController } from '../services/video-upload'
+import { transcodeQueue } from '../services/transcode-jobs'
+import { resolveIdentity } from '../services/auth'
+import type { NewVideoMetadata, VideoListOptions, VideoMetadataUpdate, VideoEditBase } from '../../renderer/types/types'
+
+/** Controllers of uploads currently running, keyed by the ID the renderer assigned */
+const controllers = new Map<string, UploadController>()
+
+/**
+ * Creates a controller for an upload and forwards its progress and status to the renderer
+ * @param {IpcMainInvokeEvent} event - The invoke event of the renderer that started the upload
+ * @param {string} uploadId - ID the renderer uses to refer to the upload
+ * @returns {VideoUploadOptions} Options to pass to the S3 service
+ */
+const trackUpload = (event: IpcMainInvokeEvent, uploadId: string): VideoUploadOptions => {
+  const controller = new UploadController()
+  controllers.set(uploadId, controller)
+
+  controller.onStatusChange((status) => {
+    if (!event.sender.isDestroyed()) {
+      event.sender.send('s3:uploadStatus', uploadId, status)
+    }
+  })
+
+  return {
+    controller,
+    onProgress: (progress) => {
+      if (!event.sender.isDestroyed()) {
+        event.sender.send('s3:uploadProgress', uploadId, progress)
+      }
+    },
+  }
+}
+
+/**
+ * Registers the IPC handlers that expose S3Service to the renderer.
+ * Mutating calls take the user's access token and act as the verified user.
+ */
+export const registerS3Handlers = () => {
+  transcodeQueue.onStatus((videoId, status) => {
+    BrowserWindow.getAllWindows().forEach((window) => {
+      window.webContents.send('s3:transcodeStatus', videoId, status)
+    })
+  })
+
+  ipcMain.handle(
+    's3:uploadVideo',
+    async (event, accessToken: string, uploadId: string, filePath: string, key: string, metadata: NewVideoMetadata) => {
+      const identity = await resolveIdentity(accessToken)
+      try {
+        const result = await s3Service.uploadVideo(
+          filePath,
+          key,
+          { ...metadata, userId: identity.username },
+          trackUpload(event, uploadId)
+        )
+        if (result.success) {
+          await transcodeQueue.enqueue(metadata.id, filePath)
+        }
+        return result
+      } finally {
+        controllers.delete(uploadId)
+      }
+    }
+  )
+
+  ipcMain.handle('s3:resumeVideoUpload', async (event, accessToken: string, uploadId: string, videoKey: string) => {
+    const identity = await resolveIdentity(accessToken)
+    const pending = s3Service.getPendingUploads().find((item) => item.videoKey === videoKey)
+    if (pending && pending.metadata.userId !== identity.username) {
+      throw new Error('Unauthorized to resume this upload')
+    }
+    try {
+      const result = await s3Service.resumeVideoUpload(videoKey, trackUpload(event, uploadId))
+      if (result.success && pending) {
+        await transcodeQueue.enqueue(pending.metadata.id, pending.filePath)
+      }
+      return result
+    } finally {
+      controllers.delete(uploadId)
+    }
+  })
+
+  ipcMain.handle('s3:controlUpload', (_event, uploadId: string, action: 'pause' | 'resume' | 'cancel') => {
+    const controller = controllers.get(uploadId)
+    if (!controller) return
+    if (action === 'pause') controller.pause()
+    if (action === 'resume') controller.resume()
+    if (action === 'cancel') controller.cancel()
+  })
+
+  ipcMain.handle('s3:validateVideo', (_event, filePath: string) => s3Service.validateVideo(filePath))
+
+  ipcMain.handle('s3:findDuplicates', async (_event, accessToken: string, filePath: string) => {
+    const identity = await resolveIdentity(accessToken)
+    return s3Service.findDuplicates(filePath, identity.username)
+  })
+
+  ipcMain.handle('s3:getPendingUploads', async (_event, accessToken: string) => {
+    const identity = await resolveIdentity(accessToken)
+    return s3Service.getPendingUploads().filter((item) => item.metadata.userId === identity.username)
+  })
+
+  ipcMain.handle('s3:discardPendingUpload', async (_event, accessToken: string, videoKey: string) => {
+    const identity = await resolveIdentity(accessToken)
+    const pending = s3Service.getPendingUploads().find((item) => item.videoKey === videoKey)
+    if (pending && pending.metadata.userId !== identity.username) {
+      throw new Error('Unauthorized to discard this upload')
+    }
+    await s3Service.discardPendingUpload(videoKey)
+  })
+
+  ipcMain.handle(
+    's3:uploadThumbnail',
+    async (_event, accessToken: string, data: Uint8Array, contentType: string, fileName: string, videoId: string) => {
+      const identity = await resolveIdentity(accessToken)
+      return s3Service.uploadThumbnail({ data, contentType, fileName }, videoId, identity.username)
+    }
+  )
+
+  ipcMain.handle('s3:listVideos', async (_event, accessToken: string | null, options: VideoListOptions) => {
+    const identity = accessToken ? await resolveIdentity(accessToken) : null
+    return s3Service.listVideos(options, identity ? identity.username : null)
+  })
+
+  ipcMain.handle(
+    's3:updateVideoMetadata',
+    async (
+      _event,
+      accessToken: string,
+      videoId: string,
+      updates: VideoMetadataUpdate,
+      thumbnail?: ThumbnailFile,
+      expected?: VideoEditBase
+    ) => {
+      const identity = await resolveIdentity(accessToken)
+      return s3Service.updateVideoMetadata(videoId, updates, identity.username, thumbnail, expected)
+    }
+  )
+
+  ipcMain.handle('s3:trashVideo', async (_event, accessToken: string, videoId: string) => {
+    const identity = await resolveIdentity(accessToken)
+    return s3Service.trashVideo(videoId, identity.username)
+  })
+
+  ipcMain.handle('s3:restoreVideo', async (_event, accessToken: string, videoId: string) => {
+    const identity = await resolveIdentity(accessToken)
+    return s3Service.restoreVideo(videoId, identity.username)
+  })
+
+  ipcMain.handle('s3:deleteVideo', async (_event, accessToken: string, videoId: string) => {
+    const identity = await resolveIdentity(accessToken)
+    return s3Service.deleteVideo(videoId, identity.username)
+  })
+
+  ipcMain.handle('s3:checkStorageLimit', async (_event, accessToken: string, fileSize: number) => {
+    const identity = await resolveIdentity(accessToken)
+    return s3Service.checkStorageLimit(identity.username, fileSize)
+  })
+
+  ipcMain.handle('s3:getStorageInfo', async (_event, accessToken: string) => {
+    const identity = await resolveIdentity(accessToken)
+    return s3Service.getStorageInfo(identity.username)
+  })
+}
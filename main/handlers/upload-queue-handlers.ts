@@ -0,0 +1,61 @@
+import { BrowserWindow, ipcMain } from 'electron'
+import { uploadQueue } from '../services/upload-queue'
+import { ThumbnailFile } from '../services/s3-service'
+import { resolveIdentity } from '../services/auth'
+import type { NewVideoMetadata, UploadQueueSettings } from '../../renderer/types/types'
+
+/**
+ * Sends an event to every open window
+ * @param {string} channel - The event channel
+ * @param {unknown[]} args - The event arguments
+ */
+const broadcast = (channel: string, ...args: unknown[]) => {
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send(channel, ...args)
+  })
+}
+
+/**
+ * Registers the IPC handlers of the background upload queue. Changes are broadcast
+ * without their contents; each window lists its own user's queue again.
+ */
+export const registerUploadQueueHandlers = () => {
+  uploadQueue.onChange(() => broadcast('uploadQueue:changed'))
+  uploadQueue.onProgress((itemId, progress) => broadcast('uploadQueue:progress', itemId, progress))
+
+  ipcMain.handle('uploadQueue:list', async (_event, accessToken: string) => {
+    const identity = await resolveIdentity(accessToken)
+    return uploadQueue.list(identity.username)
+  })
+
+  ipcMain.handle(
+    'uploadQueue:add',
+    async (_event, accessToken: string, filePath: string, metadata: NewVideoMetadata, thumbnail?: ThumbnailFile) => {
+      const identity = await resolveIdentity(accessToken)
+      return uploadQueue.add(filePath, { ...metadata, userId: identity.username }, thumbnail)
+    }
+  )
+
+  ipcMain.handle(
+    'uploadQueue:control',
+    async (_event, accessToken: string, itemId: string, action: 'pause' | 'resume' | 'retry' | 'cancel' | 'remove') => {
+      const identity = await resolveIdentity(accessToken)
+      if (action === 'pause') uploadQueue.pause(itemId, identity.username)
+      if (action === 'resume') uploadQueue.resume(itemId, identity.username)
+      if (action === 'retry') uploadQueue.retry(itemId, identity.username)
+      if (action === 'cancel') await uploadQueue.cancel(itemId, identity.username)
+      if (action === 'remove') await uploadQueue.remove(itemId, identity.username)
+    }
+  )
+
+  ipcMain.handle('uploadQueue:clearFinished', async (_event, accessToken: string) => {
+    const identity = await resolveIdentity(accessToken)
+    await uploadQueue.clearFinished(identity.username)
+  })
+
+  ipcMain.handle('uploadQueue:getSettings', () => uploadQueue.getSettings())
+
+  ipcMain.handle('uploadQueue:updateSettings', (_event, settings: UploadQueueSettings) =>
+    uploadQueue.updateSettings(settings)
+  )
+}
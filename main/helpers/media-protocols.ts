@@ -0,0 +1,170 @@
+import fs from 'fs'
+import { Readable } from 'stream'
+import { protocol } from 'electron'
+import { getStorageProvider, LocalStorageProvider, LOCAL_MEDIA_SCHEME } from '../services/storage'
+import { HLS_STREAM_SCHEME, verifyStreamGrant } from '../services/transcoder'
+import { offlineLibrary, OFFLINE_MEDIA_SCHEME } from '../services/offline-library'
+import { s3Service } from '../services/s3-service'
+
+const MEDIA_PRIVILEGES = { standard: true, secure: true, supportFetchAPI: true, stream: true, corsEnabled: true }
+
+/** How long a decision to let a user stream a video is reused, so every segment does not re-read the metadata */
+const STREAM_ACCESS_CACHE_MS = 30 * 1000
+
+const streamAccess = new Map<string, { allowed: boolean; expiresAt: number }>()
+
+/**
+ * Checks whether a user may stream a video, by the same rule as listing and downloading it:
+ * owners always, anyone else only while it is public and not in the trash
+ * @param {string} videoId - ID of the video
+ * @param {string | null} username - Username of the user the stream URL was issued to, or null
+ * @returns {Promise<boolean>} Whether the user may stream it
+ */
+const mayStream = async (videoId: string, username: string | null): Promise<boolean> => {
+  const cacheKey = JSON.stringify([videoId, username])
+  const cached = streamAccess.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.allowed
+  }
+
+  const metadata = await s3Service.readVideoMetadata(videoId)
+  const allowed = metadata !== null &&
+    (metadata.userId === username || (metadata.isPublic && !metadata.deletedAt))
+  streamAccess.set(cacheKey, { allowed, expiresAt: Date.now() + STREAM_ACCESS_CACHE_MS })
+  return allowed
+}
+
+/**
+ * Marks the media schemes as privileged so <video> can stream and seek in them, and hls.js
+ * can fetch playlists and segments. Must be called once, before the app is ready.
+ */
+export const registerMediaSchemes = () => {
+  protocol.registerSchemesAsPrivileged([
+    { scheme: LOCAL_MEDIA_SCHEME, privileges: MEDIA_PRIVILEGES },
+    { scheme: HLS_STREAM_SCHEME, privileges: MEDIA_PRIVILEGES },
+    { scheme: OFFLINE_MEDIA_SCHEME, privileges: MEDIA_PRIVILEGES },
+  ])
+}
+
+/**
+ * Responds with a file from disk, honouring Range requests for video seeking. Ranges past the
+ * end of the file are answered with a 416.
+ * @param {Request} request - The protocol request
+ * @param {string} filePath - Absolute path of the file
+ * @returns {Promise<Response>} The response, or a 404 if the file does not exist
+ */
+const serveFile = async (request: Request, filePath: string): Promise<Response> => {
+  let size: number
+  try {
+    size = (await fs.promises.stat(filePath)).size
+  } catch {
+    return new Response('Not found', { status: 404 })
+  }
+
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') || '')
+  let start = 0
+  let end = size - 1
+  if (range && range[1]) {
+    start = Number(range[1])
+    end = range[2] ? Math.min(Number(range[2]), size - 1) : size - 1
+  } else if (range && range[2]) {
+    // A suffix range asks for the last N bytes
+    start = Math.max(size - Number(range[2]), 0)
+  }
+  if (range && (start >= size || start > end || (!range[1] && !Number(range[2])))) {
+    return new Response('Range not satisfiable', {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${size}` },
+    })
+  }
+
+  const body = Readable.toWeb(fs.createReadStream(filePath, { start, end })) as ReadableStream
+
+  return new Response(body, {
+    status: range ? 206 : 200,
+    headers: {
+      'Accept-Ranges': 'bytes',
+      // Lets the renderer draw frames of local videos to a canvas for thumbnails
+      'Access-Control-Allow-Origin': '*',
+      'Content-Length': String(end - start + 1),
+      ...(range ? { 'Content-Range': `bytes ${start}-${end}/${size}` } : {}),
+    },
+  })
+}
+
+/**
+ * Serves files of the local storage provider, honouring Range requests for video seeking.
+ * Does nothing when another provider is configured.
+ */
+export const handleLocalMediaProtocol = () => {
+  const provider = getStorageProvider()
+  if (!(provider instanceof LocalStorageProvider)) return
+
+  protocol.handle(LOCAL_MEDIA_SCHEME, async (request) => {
+    const url = new URL(request.url)
+    const key = url.pathname.replace(/^\//, '').split('/').map(decodeURIComponent).join('/')
+
+    try {
+      return await serveFile(request, provider.resolvePath(key))
+    } catch {
+      return new Response('Not found', { status: 404 })
+    }
+  })
+}
+
+/**
+ * Serves HLS playlists and segments from the configured storage provider. Playlists refer to
+ * segments by relative path, which signed URLs cannot serve, so they are read through the main
+ * process instead. Only keys under `renditions/` are served, behind a grant from `getHlsUrl`,
+ * and only to users who may watch the video.
+ */
+export const handleHlsStreamProtocol = () => {
+  protocol.handle(HLS_STREAM_SCHEME, async (request) => {
+    const url = new URL(request.url)
+    const [grant, ...segments] = url.pathname.replace(/^\//, '').split('/').map(decodeURIComponent)
+    const key = segments.join('/')
+    const access = verifyStreamGrant(grant)
+    if (!access || segments[0] !== 'renditions' || !segments[1] || segments.includes('..')) {
+      return new Response('Not found', { status: 404 })
+    }
+    if (!(await mayStream(segments[1], access.username).catch(() => false))) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    const contents = await getStorageProvider().get(key).catch(() => null)
+    if (!contents) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    return new Response(contents, {
+      headers: {
+        'Content-Type': key.endsWith('.m3u8') ? 'application/vnd.apple.mpegurl' : 'video/mp2t',
+        'Access-Control-Allow-Origin': '*',
+      },
+    })
+  })
+}
+
+/**
+ * Serves videos and thumbnails of the offline library, as `offline-media://video/<grant>/<videoId>`
+ * and `offline-media://thumbnail/<grant>/<videoId>`, behind a grant naming a user who downloaded the video
+ */
+export const handleOfflineMediaProtocol = () => {
+  protocol.handle(OFFLINE_MEDIA_SCHEME, async (request) => {
+    const url = new URL(request.url)
+    const kind = url.hostname
+    const [grant, videoId] = url.pathname.replace(/^\//, '').split('/').map(decodeURIComponent)
+    const access = verifyStreamGrant(grant || '')
+    if (!access || !videoId || (kind !== 'video' && kind !== 'thumbnail')) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    let filePath: string | null = null
+    try {
+      filePath = offlineLibrary.resolveFile(kind, videoId, access.username)
+    } catch {
+      filePath = null
+    }
+    return filePath ? serveFile(request, filePath) : new Response('Not found', { status: 404 })
+  })
+}
@@ -1,20 +1,213 @@
-import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
+import { contextBridge, ipcRenderer, IpcRendererEvent, webUtils } from 'electron'
+import type {
+  VideoListOptions,
+  VideoPage,
+  VideoMetadataUpdate,
+  VideoEditBase,
+  UpdateVideoResult,
+  UploadResult,
+  NewVideoMetadata,
+  PendingUpload,
+  UploadProgress,
+  UploadStatus,
+  TranscodeStatus,
+  StorageInfo,
+  Review,
+  Reply,
+  NewReply,
+  UpdateReviewData,
+  HelpfulVote,
+  ReviewListOptions,
+  ReviewPage,
+  ReviewChanges,
+  RatingSummary,
+  RatingHistoryPoint,
+  ConsistencyIssue,
+  ConsistencyReport,
+  RepairResult,
+  MetadataMigrationReport,
+  ReviewMergeReport,
+  ModerationTarget,
+  ModerationAction,
+  ModerationQueueItem,
+  ModerationLogPage,
+  ReportReason,
+  ReportResult,
+  OfflineVideo,
+  OfflineLibraryInfo,
+  SaveVideoResult,
+  UploadQueueItem,
+  UploadQueueSettings,
+  DuplicateCheck,
+  VideoValidationResult,
+} from '../renderer/types/types'
+
+/**
+ * Invokes a main process handler, stripping Electron's "Error invoking remote method" prefix
+ * so the renderer sees the original error message.
+ */
+const invoke = async <T>(channel: string, ...args: unknown[]): Promise<T> => {
+  try {
+    return await ipcRenderer.invoke(channel, ...args)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''))
+  }
+}
+
+/**
+ * Subscribes to a main process event and returns a function that removes the listener
+ */
+const subscribe = <T extends unknown[]>(channel: string, callback: (...args: T) => void) => {
+  const subscription = (_event: IpcRendererEvent, ...args: unknown[]) => callback(...(args as T))
+  ipcRenderer.on(channel, subscription)
+
+  return () => {
+    ipcRenderer.removeListener(channel, subscription)
+  }
+}
 
 const handler = {
   send(channel: string, value: unknown) {
     ipcRenderer.send(channel, value)
   },
   on(channel: string, callback: (...args: unknown[]) => void) {
-    const subscription = (_event: IpcRendererEvent, ...args: unknown[]) =>
-      callback(...args)
-    ipcRenderer.on(channel, subscription)
-
-    return () => {
-      ipcRenderer.removeListener(channel, subscription)
-    }
+    return subscribe(channel, callback)
   },
 }
 
+const s3 = {
+  getPathForFile: (file: File): string => webUtils.getPathForFile(file),
+  uploadVideo: (accessToken: string, uploadId: string, filePath: string, key: string, metadata: NewVideoMetadata) =>
+    invoke<UploadResult>('s3:uploadVideo', accessToken, uploadId, filePath, key, metadata),
+  resumeVideoUpload: (accessToken: string, uploadId: string, videoKey: string) =>
+    invoke<UploadResult>('s3:resumeVideoUpload', accessToken, uploadId, videoKey),
+  controlUpload: (uploadId: string, action: 'pause' | 'resume' | 'cancel') =>
+    invoke<void>('s3:controlUpload', uploadId, action),
+  onUploadProgress: (callback: (uploadId: string, progress: UploadProgress) => void) =>
+    subscribe('s3:uploadProgress', callback),
+  onUploadStatus: (callback: (uploadId: string, status: UploadStatus) => void) =>
+    subscribe('s3:uploadStatus', callback),
+  onTranscodeStatus: (callback: (videoId: string, status: TranscodeStatus) => void) =>
+    subscribe('s3:transcodeStatus', callback),
+  validateVideo: (filePath: string) => invoke<VideoValidationResult>('s3:validateVideo', filePath),
+  findDuplicates: (accessToken: string, filePath: string) =>
+    invoke<DuplicateCheck>('s3:findDuplicates', accessToken, filePath),
+  getPendingUploads: (accessToken: string) => invoke<PendingUpload[]>('s3:getPendingUploads', accessToken),
+  discardPendingUpload: (accessToken: string, videoKey: string) =>
+    invoke<void>('s3:discardPendingUpload', accessToken, videoKey),
+  uploadThumbnail: (accessToken: string, data: Uint8Array, contentType: string, fileName: string, videoId: string) =>
+    invoke<UploadResult>('s3:uploadThumbnail', accessToken, data, contentType, fileName, videoId),
+  listVideos: (accessToken: string | null, options: VideoListOptions) =>
+    invoke<VideoPage>('s3:listVideos', accessToken, options),
+  updateVideoMetadata: (
+    accessToken: string,
+    videoId: string,
+    updates: VideoMetadataUpdate,
+    thumbnail?: { data: Uint8Array; contentType: string; fileName: string },
+    expected?: VideoEditBase
+  ) => invoke<UpdateVideoResult>('s3:updateVideoMetadata', accessToken, videoId, updates, thumbnail, expected),
+  trashVideo: (accessToken: string, videoId: string) =>
+    invoke<{ success: boolean; error?: string }>('s3:trashVideo', accessToken, videoId),
+  restoreVideo: (accessToken: string, videoId: string) =>
+    invoke<{ success: boolean; error?: string }>('s3:restoreVideo', accessToken, videoId),
+  deleteVideo: (accessToken: string, videoId: string) =>
+    invoke<{ success: boolean; error?: string }>('s3:deleteVideo', accessToken, videoId),
+  checkStorageLimit: (accessToken: string, fileSize: number) =>
+    invoke<boolean>('s3:checkStorageLimit', accessToken, fileSize),
+  getStorageInfo: (accessToken: string) => invoke<StorageInfo>('s3:getStorageInfo', accessToken),
+}
+
+const reviews = {
+  createReview: (accessToken: string, review: Omit<Review, 'id' | 'createdAt' | 'updatedAt'>) =>
+    invoke<Review>('reviews:createReview', accessToken, review),
+  getVideoReviews: (accessToken: string | null, videoId: string, options: ReviewListOptions) =>
+    invoke<ReviewPage>('reviews:getVideoReviews', accessToken, videoId, options),
+  getReviewChanges: (accessToken: string | null, videoId: string, changeToken: string, knownIds: string[]) =>
+    invoke<ReviewChanges>('reviews:getReviewChanges', accessToken, videoId, changeToken, knownIds),
+  getUserReview: (accessToken: string, videoId: string) =>
+    invoke<Review | null>('reviews:getUserReview', accessToken, videoId),
+  updateReview: (accessToken: string, reviewId: string, data: UpdateReviewData) =>
+    invoke<Review>('reviews:updateReview', accessToken, reviewId, data),
+  deleteReview: (accessToken: string, reviewId: string) => invoke<void>('reviews:deleteReview', accessToken, reviewId),
+  addReply: (accessToken: string, reviewId: string, reply: NewReply) =>
+    invoke<Reply>('reviews:addReply', accessToken, reviewId, reply),
+  editReply: (accessToken: string, reviewId: string, replyId: string, content: string) =>
+    invoke<Reply>('reviews:editReply', accessToken, reviewId, replyId, content),
+  deleteReply: (accessToken: string, reviewId: string, replyId: string) =>
+    invoke<Reply[]>('reviews:deleteReply', accessToken, reviewId, replyId),
+  voteOnReview: (accessToken: string, reviewId: string, vote: HelpfulVote | null) =>
+    invoke<Review>('reviews:voteOnReview', accessToken, reviewId, vote),
+  getRatingSummary: (videoId: string) => invoke<RatingSummary>('reviews:getRatingSummary', videoId),
+  getRatingHistory: (accessToken: string, videoId: string) =>
+    invoke<RatingHistoryPoint[]>('reviews:getRatingHistory', accessToken, videoId),
+  getAverageRating: (videoId: string) =>
+    invoke<{ average: number; count: number }>('reviews:getAverageRating', videoId),
+}
+
+const maintenance = {
+  scanConsistency: (accessToken: string) =>
+    invoke<ConsistencyReport>('maintenance:scanConsistency', accessToken),
+  repairConsistency: (accessToken: string, issues: ConsistencyIssue[]) =>
+    invoke<RepairResult>('maintenance:repairConsistency', accessToken, issues),
+  migrateMetadata: (accessToken: string) =>
+    invoke<MetadataMigrationReport>('maintenance:migrateMetadata', accessToken),
+  mergeDuplicateReviews: (accessToken: string) =>
+    invoke<ReviewMergeReport>('maintenance:mergeDuplicateReviews', accessToken),
+}
+
+const moderation = {
+  report: (accessToken: string, target: ModerationTarget, reason: ReportReason, note?: string) =>
+    invoke<ReportResult>('moderation:report', accessToken, target, reason, note),
+  getQueue: (accessToken: string) => invoke<ModerationQueueItem[]>('moderation:getQueue', accessToken),
+  moderate: (accessToken: string, target: ModerationTarget, action: ModerationAction, note?: string) =>
+    invoke<void>('moderation:moderate', accessToken, target, action, note),
+  getLog: (accessToken: string, options: { cursor?: string; limit?: number }) =>
+    invoke<ModerationLogPage>('moderation:getLog', accessToken, options),
+}
+
+const offline = {
+  download: (accessToken: string | null, videoId: string) =>
+    invoke<OfflineVideo>('offline:download', accessToken, videoId),
+  onDownloadProgress: (callback: (videoId: string, progress: number) => void) =>
+    subscribe('offline:downloadProgress', callback),
+  getLibrary: (accessToken: string | null) => invoke<OfflineLibraryInfo>('offline:getLibrary', accessToken),
+  remove: (accessToken: string | null, videoId: string) => invoke<void>('offline:remove', accessToken, videoId),
+  saveAs: (accessToken: string | null, videoId: string) =>
+    invoke<SaveVideoResult>('offline:saveAs', accessToken, videoId),
+}
+
+const uploadQueue = {
+  list: (accessToken: string) => invoke<UploadQueueItem[]>('uploadQueue:list', accessToken),
+  add: (
+    accessToken: string,
+    filePath: string,
+    metadata: NewVideoMetadata,
+    thumbnail?: { data: Uint8Array; contentType: string; fileName: string }
+  ) => invoke<UploadQueueItem>('uploadQueue:add', accessToken, filePath, metadata, thumbnail),
+  control: (accessToken: string, itemId: string, action: 'pause' | 'resume' | 'retry' | 'cancel' | 'remove') =>
+    invoke<void>('uploadQueue:control', accessToken, itemId, action),
+  clearFinished: (accessToken: string) => invoke<void>('uploadQueue:clearFinished', accessToken),
+  getSettings: () => invoke<UploadQueueSettings>('uploadQueue:getSettings'),
+  updateSettings: (settings: UploadQueueSettings) =>
+    invoke<UploadQueueSettings>('uploadQueue:updateSettings', settings),
+  onChanged: (callback: () => void) => subscribe('uploadQueue:changed', callback),
+  onProgress: (callback: (itemId: string, progress: number) => void) =>
+    subscribe('uploadQueue:progress', callback),
+}
+
 contextBridge.exposeInMainWorld('ipc', handler)
+contextBridge.exposeInMainWorld('s3', s3)
+contextBridge.exposeInMainWorld('reviews', reviews)
+contextBridge.exposeInMainWorld('maintenance', maintenance)
+contextBridge.exposeInMainWorld('moderation', moderation)
+contextBridge.exposeInMainWorld('offline', offline)
+contextBridge.exposeInMainWorld('uploadQueue', uploadQueue)
 
 export type IpcHandler = typeof handler
+export type S3Api = typeof s3
+export type ReviewsApi = typeof reviews
+export type MaintenanceApi = typeof maintenance
+export type ModerationApi = typeof moderation
+export type OfflineApi = typeof offline
+export type UploadQueueApi = typeof uploadQueue
@@ -0,0 +1,190 @@
+import {
+    CognitoIdentityProviderClient,
+    GetUserCommand
+} from '@aws-sdk/client-cognito-identity-provider';
+import { createHash } from 'crypto';
+import Store from 'electron-store';
+import { ENV } from '../config/env';
+
+/**
+ * Identity of the signed-in user, resolved from their Cognito access token
+ * @interface AuthIdentity
+ * @property {string} userId - Cognito `sub` of the user, used as the owner of reviews
+ * @property {string} username - Cognito username, used as the owner of videos
+ * @property {string} email - Email address of the user
+ * @property {string[]} groups - Cognito groups the user belongs to
+ */
+export interface AuthIdentity {
+    userId: string;
+    username: string;
+    email: string;
+    groups: string[];
+}
+
+/** Cognito group whose members may run maintenance tools */
+export const ADMIN_GROUP = 'admin';
+
+/** Cognito group whose members review reported content */
+export const MODERATOR_GROUP = 'moderator';
+
+/** How long a verified token is trusted before Cognito is asked again */
+const IDENTITY_CACHE_MS = 5 * 60 * 1000;
+
+const cognitoClient = new CognitoIdentityProviderClient({ region: ENV.AWS_REGION });
+const identityCache = new Map<string, { identity: AuthIdentity; expiresAt: number }>();
+
+type KnownIdentities = Record<string, { identity: AuthIdentity; expiresAt: number }>;
+
+let knownIdentityStore: Store<{ identities: KnownIdentities }> | null = null;
+
+/**
+ * Opens the store of identities Cognito has verified on first use, after the userData path has been set
+ * @returns {Store<{ identities: KnownIdentities }>} The store
+ */
+const getKnownIdentityStore = () => {
+    if (!knownIdentityStore) {
+        knownIdentityStore = new Store<{ identities: KnownIdentities }>({
+            name: 'known-identities',
+            defaults: { identities: {} }
+        });
+    }
+    return knownIdentityStore;
+};
+
+/**
+ * Gets the key a token's identity is remembered under, so the token itself is not written to disk
+ * @param {string} accessToken - Cognito access token
+ * @returns {string} The key
+ */
+const knownIdentityKey = (accessToken: string): string => createHash('sha256').update(accessToken).digest('hex');
+
+/**
+ * Reads the `cognito:groups` claim of an access token. Only called after Cognito has
+ * accepted the token, so the payload does not need its signature checked again.
+ * @param {string} accessToken - Cognito access token
+ * @returns {string[]} The groups, or an empty list if the claim is missing
+ */
+const readGroups = (accessToken: string): string[] => {
+    try {
+        const payload = JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString('utf-8'));
+        return Array.isArray(payload['cognito:groups']) ? payload['cognito:groups'] : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Reads the `exp` claim of an access token
+ * @param {string} accessToken - Cognito access token
+ * @returns {number} When the token expires, in milliseconds, or 0 if the claim is missing
+ */
+const readExpiry = (accessToken: string): number => {
+    try {
+        const payload = JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString('utf-8'));
+        return typeof payload.exp === 'number' ? payload.exp * 1000 : 0;
+    } catch {
+        return 0;
+    }
+};
+
+/**
+ * Remembers an identity Cognito has verified until its token expires, dropping expired ones
+ * @param {string} accessToken - Cognito access token
+ * @param {AuthIdentity | null} identity - The verified identity, or null to forget a rejected token
+ */
+const rememberIdentity = (accessToken: string, identity: AuthIdentity | null) => {
+    const { [knownIdentityKey(accessToken)]: _previous, ...others } = getKnownIdentityStore().get('identities');
+    const identities: KnownIdentities = {};
+    Object.keys(others).forEach(key => {
+        if (others[key].expiresAt > Date.now()) {
+            identities[key] = others[key];
+        }
+    });
+
+    const expiresAt = readExpiry(accessToken);
+    if (identity && expiresAt > Date.now()) {
+        identities[knownIdentityKey(accessToken)] = { identity, expiresAt };
+    }
+    getKnownIdentityStore().set('identities', identities);
+};
+
+/**
+ * Resolves the user behind an access token by asking Cognito, so the renderer cannot
+ * impersonate another user by sending a different user ID.
+ * @async
+ * @param {string} accessToken - Cognito access token of the signed-in user
+ * @returns {Promise<AuthIdentity>} The verified identity
+ * @throws {Error} If the token is missing, expired or revoked
+ */
+export const resolveIdentity = async (accessToken: string): Promise<AuthIdentity> => {
+    if (!accessToken) {
+        throw new Error('Not signed in');
+    }
+
+    const cached = identityCache.get(accessToken);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.identity;
+    }
+
+    try {
+        const response = await cognitoClient.send(new GetUserCommand({ AccessToken: accessToken }));
+        const attribute = (name: string) =>
+            response.UserAttributes?.find(item => item.Name === name)?.Value || '';
+
+        const identity: AuthIdentity = {
+            userId: attribute('sub'),
+            username: response.Username || '',
+            email: attribute('email'),
+            groups: readGroups(accessToken)
+        };
+
+        identityCache.set(accessToken, { identity, expiresAt: Date.now() + IDENTITY_CACHE_MS });
+        rememberIdentity(accessToken, identity);
+        return identity;
+    } catch (error) {
+        identityCache.delete(accessToken);
+        // Cognito answered, so the token was rejected rather than unverifiable
+        if ((error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode) {
+            rememberIdentity(accessToken, null);
+        }
+        console.error('Error verifying access token:', error);
+        throw new Error('Session expired. Please sign in again.');
+    }
+};
+
+/**
+ * Resolves the user behind an access token like `resolveIdentity`, but also without a
+ * connection: a token Cognito has accepted before and not rejected since is trusted until it
+ * expires. Only for features that work offline, such as the offline library.
+ * @async
+ * @param {string} accessToken - Cognito access token of the signed-in user
+ * @returns {Promise<AuthIdentity>} The verified identity
+ * @throws {Error} If the token is missing, expired or revoked, or Cognito cannot be reached and has not seen it
+ */
+export const resolveKnownIdentity = async (accessToken: string): Promise<AuthIdentity> => {
+    try {
+        return await resolveIdentity(accessToken);
+    } catch (error) {
+        const known = getKnownIdentityStore().get('identities')[knownIdentityKey(accessToken)];
+        if (known && known.expiresAt > Date.now()) {
+            return known.identity;
+        }
+        throw error;
+    }
+};
+
+/**
+ * Resolves the user behind an access token and checks that they belong to a group
+ * @async
+ * @param {string} accessToken - Cognito access token of the signed-in user
+ * @param {string} group - The required Cognito group
+ * @returns {Promise<AuthIdentity>} The verified identity
+ * @throws {Error} If the token is invalid or the user is not in the group
+ */
+export const requireGroup = async (accessToken: string, group: string): Promise<AuthIdentity> => {
+    const identity = await resolveIdentity(accessToken);
+    if (!identity.groups.includes(group)) {
+        throw new Error('Unauthorized');
+    }
+    return identity;
+};
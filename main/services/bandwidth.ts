@@ -0,0 +1,70 @@
+import { Transform } from 'stream';
+import { setTimeout as delay } from 'timers/promises';
+
+/**
+ * Token bucket shared by every running upload, so a limit applies to their combined rate
+ * rather than to each upload separately. Bytes taken beyond what the bucket holds are owed,
+ * and the caller waits until the debt has been paid off at the configured rate.
+ * @class BandwidthLimiter
+ */
+class BandwidthLimiter {
+    private bytesPerSecond = 0;
+    private available = 0;
+    private refilledAt = Date.now();
+
+    /**
+     * Gets the current limit
+     * @returns {number} Bytes per second, or 0 for unlimited
+     */
+    getLimit(): number {
+        return this.bytesPerSecond;
+    }
+
+    /**
+     * Changes the limit. Takes effect for the next bytes taken.
+     * @param {number} bytesPerSecond - Bytes per second, or 0 for unlimited
+     */
+    setLimit(bytesPerSecond: number): void {
+        this.bytesPerSecond = Math.max(0, Math.floor(bytesPerSecond));
+        this.available = 0;
+        this.refilledAt = Date.now();
+    }
+
+    /**
+     * Waits until the given number of bytes may be sent
+     * @async
+     * @param {number} bytes - Number of bytes about to be sent
+     * @param {AbortSignal} [signal] - Stops waiting when aborted
+     * @returns {Promise<void>}
+     * @throws {Error} If the signal is aborted while waiting
+     */
+    async take(bytes: number, signal?: AbortSignal): Promise<void> {
+        if (this.bytesPerSecond === 0) return;
+
+        const now = Date.now();
+        this.available = Math.min(
+            this.bytesPerSecond,
+            this.available + ((now - this.refilledAt) / 1000) * this.bytesPerSecond
+        );
+        this.refilledAt = now;
+        this.available -= bytes;
+
+        if (this.available < 0) {
+            await delay((-this.available / this.bytesPerSecond) * 1000, undefined, { signal });
+        }
+    }
+
+    /**
+     * Creates a stream that passes chunks through no faster than the limit allows
+     * @returns {Transform} The throttling stream
+     */
+    throttle(): Transform {
+        return new Transform({
+            transform: (chunk: Buffer, _encoding, callback) => {
+                this.take(chunk.length).then(() => callback(null, chunk), callback);
+            }
+        });
+    }
+}
+
+export const uploadBandwidth = new BandwidthLimiter();
@@ -0,0 +1,345 @@
+import type {
+    ConsistencyIssue,
+    ConsistencyReport,
+    RepairResult
+} from '../../renderer/types/types';
+import { getStorageProvider } from './storage';
+import type { StorageObject } from './storage';
+import { s3Service } from './s3-service';
+import { reviewService } from './review-service';
+import { videoCatalog } from './video-catalog';
+import type { CatalogEntry } from './video-catalog';
+import { deleteRenditions } from './transcoder';
+import { parseVideoMetadata, StoredVideoMetadata, QUARANTINE_PREFIX } from './metadata-schema';
+
+/**
+ * Objects younger than this are not reported as orphans, since the upload that wrote them
+ * may still be about to store the metadata that refers to them
+ */
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Gets the video ID from a `metadata/<id>.json` key
+ * @param {string} key - Key of the metadata file
+ * @returns {string} The video ID
+ */
+const videoIdFromMetadataKey = (key: string): string =>
+    key.slice(key.lastIndexOf('/') + 1, -'.json'.length);
+
+/**
+ * Gets whatever file keys can still be found in a metadata record that failed validation,
+ * so the files it refers to are not reported as orphans
+ * @param {Buffer | null} contents - The file contents
+ * @returns {string[]} The video and thumbnail keys found
+ */
+const salvageKeys = (contents: Buffer | null): string[] => {
+    try {
+        const record = contents ? JSON.parse(contents.toString('utf-8')) : null;
+        return [record?.videoKey, record?.thumbnailKey].filter((key): key is string => typeof key === 'string' && key !== '');
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Checks whether an object was written recently enough that it may belong to an upload in progress
+ * @param {StorageObject} object - The object
+ * @returns {boolean} Whether the object is within the grace period
+ */
+const isRecent = (object: StorageObject): boolean =>
+    Boolean(object.lastModified && Date.now() - object.lastModified.getTime() < ORPHAN_GRACE_MS);
+
+/**
+ * Serializes a value with object keys in sorted order, so records written by different code
+ * paths compare equal when their contents are
+ * @param {unknown} value - The value
+ * @returns {string} The JSON
+ */
+const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        return `{${Object.keys(record).sort().filter(key => record[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+/**
+ * Checks whether a catalog entry still matches the video's metadata
+ * @param {CatalogEntry} entry - The catalog entry
+ * @param {StoredVideoMetadata} metadata - The video's metadata
+ * @returns {boolean} Whether they list the same details
+ */
+const matchesMetadata = (entry: CatalogEntry, metadata: StoredVideoMetadata): boolean => {
+    const { schemaVersion: _entryVersion, ...listed } = entry as StoredVideoMetadata;
+    const { schemaVersion: _version, ...stored } = metadata;
+    return canonicalJson(listed) === canonicalJson(stored);
+};
+
+/**
+ * Gets a key identifying an issue, used to match a requested repair against a fresh scan
+ * @param {ConsistencyIssue} issue - The issue
+ * @returns {string} The identifying key
+ */
+const issueKey = (issue: ConsistencyIssue): string => `${issue.kind}:${issue.key}`;
+
+/**
+ * Scans `videos/`, `thumbnails/`, `renditions/`, `metadata/`, the catalog and the Reviews table,
+ * and reports orphaned objects, dangling references and catalog entries that do not match the
+ * metadata. Nothing is changed. Files and reviews
+ * of quarantined records are not reported, so they are kept until the record is dealt with.
+ * @async
+ * @returns {Promise<ConsistencyReport>} Everything found to be inconsistent
+ * @throws {Error} If storage or the Reviews table cannot be read
+ */
+export const scanConsistency = async (): Promise<ConsistencyReport> => {
+    const storage = getStorageProvider();
+    const [videoObjects, thumbnailObjects, renditionObjects, metadataObjects, quarantinedObjects, reviews, catalogEntries] = await Promise.all([
+        storage.list('videos/'),
+        storage.list('thumbnails/'),
+        storage.list('renditions/'),
+        storage.list('metadata/'),
+        storage.list(QUARANTINE_PREFIX),
+        reviewService.listReviewReferences(),
+        videoCatalog.all()
+    ]);
+
+    const issues: ConsistencyIssue[] = [];
+    const videos = new Map<string, StoredVideoMetadata>();
+    // IDs whose metadata exists but cannot be read or is quarantined; their files and reviews are not orphans
+    const unreadableIds = new Set<string>();
+    const salvagedKeys = new Set<string>();
+
+    for (const object of quarantinedObjects.filter(item => item.key.endsWith('.json'))) {
+        unreadableIds.add(videoIdFromMetadataKey(object.key));
+        salvageKeys(await storage.get(object.key).catch(() => null)).forEach(key => salvagedKeys.add(key));
+    }
+
+    for (const object of metadataObjects.filter(item => item.key.endsWith('.json'))) {
+        const videoId = videoIdFromMetadataKey(object.key);
+        let contents: Buffer | null = null;
+        try {
+            contents = await storage.get(object.key);
+            if (contents) {
+                videos.set(videoId, parseVideoMetadata(contents).metadata);
+            }
+        } catch (error) {
+            unreadableIds.add(videoId);
+            salvageKeys(contents).forEach(key => salvagedKeys.add(key));
+            issues.push({
+                kind: 'unreadableMetadata',
+                key: object.key,
+                videoId,
+                description: `Metadata file is unreadable or invalid: ${error instanceof Error ? error.message : String(error)}`,
+                repairable: false
+            });
+        }
+    }
+
+    const knownVideo = (videoId: string) => videos.has(videoId) || unreadableIds.has(videoId);
+    const videoKeys = new Set(videoObjects.map(object => object.key));
+    const thumbnailKeys = new Set(thumbnailObjects.map(object => object.key));
+    const referencedVideoKeys = new Set(Array.from(videos.values()).map(video => video.videoKey).concat(Array.from(salvagedKeys)));
+    const referencedThumbnailKeys = new Set(Array.from(videos.values()).map(video => video.thumbnailKey).concat(Array.from(salvagedKeys)));
+    const pendingVideoKeys = new Set(s3Service.getPendingUploads().map(upload => upload.videoKey));
+
+    videos.forEach((video, videoId) => {
+        if (!video.videoKey || !videoKeys.has(video.videoKey)) {
+            issues.push({
+                kind: 'missingVideo',
+                key: videoId,
+                videoId,
+                description: `"${video.title}" refers to a video file that does not exist (${video.videoKey || 'no key'})`,
+                repairable: true
+            });
+        }
+        if (video.thumbnailKey && !thumbnailKeys.has(video.thumbnailKey)) {
+            issues.push({
+                kind: 'missingThumbnail',
+                key: videoId,
+                videoId,
+                description: `"${video.title}" refers to a thumbnail that does not exist (${video.thumbnailKey})`,
+                repairable: true
+            });
+        }
+    });
+
+    videoObjects
+        .filter(object => !referencedVideoKeys.has(object.key) && !pendingVideoKeys.has(object.key) && !isRecent(object))
+        .forEach(object => issues.push({
+            kind: 'orphanVideo',
+            key: object.key,
+            description: 'Video file is not referenced by any metadata',
+            repairable: true
+        }));
+
+    thumbnailObjects
+        .filter(object => !referencedThumbnailKeys.has(object.key) && !isRecent(object))
+        .forEach(object => issues.push({
+            kind: 'orphanThumbnail',
+            key: object.key,
+            description: 'Thumbnail is not referenced by any metadata',
+            repairable: true
+        }));
+
+    const renditionIds = new Set(renditionObjects.map(object => object.key.split('/')[1]));
+    renditionIds.forEach(videoId => {
+        const objects = renditionObjects.filter(object => object.key.startsWith(`renditions/${videoId}/`));
+        if (!knownVideo(videoId) && !objects.some(isRecent)) {
+            issues.push({
+                kind: 'orphanRenditions',
+                key: `renditions/${videoId}/`,
+                videoId,
+                description: `${objects.length} transcoded file(s) belong to a video that no longer exists`,
+                repairable: true
+            });
+        }
+    });
+
+    reviews
+        .filter(review => !knownVideo(review.videoId))
+        .forEach(review => issues.push({
+            kind: 'orphanReview',
+            key: review.id,
+            videoId: review.videoId,
+            description: `Review belongs to a video that no longer exists (${review.videoId})`,
+            repairable: true
+        }));
+
+    catalogEntries
+        .filter(entry => !knownVideo(entry.id))
+        .forEach(entry => issues.push({
+            kind: 'staleCatalogEntry',
+            key: entry.id,
+            videoId: entry.id,
+            description: `Catalog lists "${entry.title}", which has no metadata file`,
+            repairable: true
+        }));
+
+    const catalogById = new Map(catalogEntries.map(entry => [entry.id, entry]));
+    videos.forEach((video, videoId) => {
+        const entry = catalogById.get(videoId);
+        if (!entry) {
+            issues.push({
+                kind: 'missingCatalogEntry',
+                key: videoId,
+                videoId,
+                description: `"${video.title}" has metadata but is not listed in the catalog`,
+                repairable: true
+            });
+        } else if (!matchesMetadata(entry, video)) {
+            issues.push({
+                kind: 'outdatedCatalogEntry',
+                key: videoId,
+                videoId,
+                description: `Catalog entry of "${video.title}" differs from its metadata`,
+                repairable: true
+            });
+        }
+    });
+
+    return {
+        scannedAt: new Date().toISOString(),
+        scanned: {
+            videos: videoObjects.length,
+            thumbnails: thumbnailObjects.length,
+            renditions: renditionIds.size,
+            metadata: metadataObjects.length,
+            reviews: reviews.length,
+            catalog: catalogEntries.length
+        },
+        issues
+    };
+};
+
+/**
+ * Repairs the given issues. Storage is scanned again first and only issues that are still
+ * present are repaired, so a stale report cannot delete something that has since been fixed.
+ * - orphaned videos, thumbnails and renditions are deleted
+ * - videos whose file is missing are deleted along with their thumbnail, renditions and reviews
+ * - missing thumbnails are cleared from the metadata
+ * - orphaned reviews are deleted
+ * - stale, missing and outdated catalog entries are fixed by rebuilding the catalog
+ * @async
+ * @param {ConsistencyIssue[]} issues - Issues the user confirmed should be repaired
+ * @returns {Promise<RepairResult>} What was repaired, skipped and failed
+ * @throws {Error} If the fresh scan fails
+ */
+export const repairConsistency = async (issues: ConsistencyIssue[]): Promise<RepairResult> => {
+    const current = new Set((await scanConsistency()).issues.filter(issue => issue.repairable).map(issueKey));
+    const storage = getStorageProvider();
+    const result: RepairResult = { repaired: 0, skipped: 0, failed: [] };
+    const orphanReviews: ConsistencyIssue[] = [];
+    const catalogIssues: ConsistencyIssue[] = [];
+
+    for (const issue of issues) {
+        if (!current.has(issueKey(issue))) {
+            result.skipped++;
+            continue;
+        }
+
+        try {
+            switch (issue.kind) {
+                case 'orphanVideo':
+                case 'orphanThumbnail':
+                    await storage.delete(issue.key);
+                    break;
+                case 'orphanRenditions':
+                    await deleteRenditions(issue.videoId!);
+                    break;
+                case 'missingVideo': {
+                    const metadata = await s3Service.readVideoMetadata(issue.key);
+                    if (metadata) {
+                        await s3Service.removeVideoFiles(metadata);
+                    }
+                    break;
+                }
+                case 'missingThumbnail':
+                    await s3Service.clearThumbnail(issue.key);
+                    break;
+                case 'orphanReview':
+                    // Deleted together below, in batches
+                    orphanReviews.push(issue);
+                    continue;
+                case 'staleCatalogEntry':
+                case 'missingCatalogEntry':
+                case 'outdatedCatalogEntry':
+                    // Fixed together below, by one rebuild
+                    catalogIssues.push(issue);
+                    continue;
+                default:
+                    result.skipped++;
+                    continue;
+            }
+            result.repaired++;
+        } catch (error) {
+            result.failed.push({ issue, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+    }
+
+    if (orphanReviews.length > 0) {
+        try {
+            await reviewService.deleteReviewsById(orphanReviews.map(issue => issue.key));
+            await reviewService.deleteRatingAggregates(Array.from(new Set(orphanReviews.map(issue => issue.videoId!))));
+            result.repaired += orphanReviews.length;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            orphanReviews.forEach(issue => result.failed.push({ issue, error: message }));
+        }
+    }
+
+    if (catalogIssues.length > 0) {
+        try {
+            await videoCatalog.rebuild();
+            result.repaired += catalogIssues.length;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            catalogIssues.forEach(issue => result.failed.push({ issue, error: message }));
+        }
+    }
+
+    return result;
+};
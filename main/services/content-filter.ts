@@ -0,0 +1,248 @@
+import type { ContentField, ContentFilterAction, ContentViolation } from '../../renderer/types/types';
+import { ContentFilterConfig, loadContentFilterConfig } from '../config/content-filter';
+
+/**
+ * What a rule found wrong with some text
+ * @interface ContentMatch
+ * @property {string} problem - What is wrong, completing "…breaks the guideline: "
+ * @property {(text: string) => string} [mask] - Replaces the offending parts; without it, masking falls back to rejecting
+ */
+export interface ContentMatch {
+    problem: string;
+    mask?: (text: string) => string;
+}
+
+/**
+ * A check enforcing one of the community guidelines
+ * @interface ContentRule
+ * @property {string} guideline - ID of the guideline, its key in the `actions` setting and its anchor on the guidelines page
+ * @property {string} title - Name of the guideline as the guidelines page shows it
+ * @property {(text: string, field: ContentField, config: ContentFilterConfig) => ContentMatch | null} check - Checks the text; null if it is fine
+ */
+export interface ContentRule {
+    guideline: string;
+    title: string;
+    check: (text: string, field: ContentField, config: ContentFilterConfig) => ContentMatch | null;
+}
+
+/**
+ * The text as it may be saved
+ * @interface FilteredContent
+ * @property {string} text - The text, with offending parts masked
+ * @property {boolean} held - Whether it must stay hidden until a moderator approves it
+ * @property {ContentViolation[]} violations - Guidelines the text broke
+ */
+export interface FilteredContent {
+    text: string;
+    held: boolean;
+    violations: ContentViolation[];
+}
+
+/**
+ * Thrown when text breaks a guideline whose action is to reject it
+ * @class ContentPolicyError
+ * @extends Error
+ */
+export class ContentPolicyError extends Error {
+    /** The guidelines that caused the rejection */
+    readonly violations: ContentViolation[];
+
+    /**
+     * @param {ContentViolation[]} violations - The guidelines that caused the rejection
+     */
+    constructor(violations: ContentViolation[]) {
+        super(violations.map(violation => violation.message).join(' '));
+        this.name = 'ContentPolicyError';
+        this.violations = violations;
+    }
+}
+
+/** How each field is referred to in messages */
+const FIELD_NAMES: Record<ContentField, string> = {
+    reviewComment: 'Your review',
+    reply: 'Your reply',
+    videoTitle: 'The title',
+    videoDescription: 'The description'
+};
+
+/** Fields that can wait for a moderator; video text breaking a "hold" guideline is rejected instead */
+const HOLDABLE_FIELDS: ContentField[] = ['reviewComment', 'reply'];
+
+/** Letters commonly swapped for look-alike digits and symbols to get past a blocklist */
+const LOOKALIKES: Record<string, string> = {
+    a: 'a@4',
+    e: 'e3',
+    i: 'i1!',
+    l: 'l1',
+    o: 'o0',
+    s: 's$5',
+    t: 't7'
+};
+
+/** Web addresses, with or without a scheme */
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]*[^\s<>".,;:!?)]|\b(?:[a-z0-9-]+\.)+(?:com|net|org|info|biz|io|co|me|ly|gg|tv|xyz|ru|cn|top|site|online|shop)\b(?:\/(?:[^\s<>"]*[^\s<>".,;:!?)])?)?/gi;
+
+/**
+ * Escapes a string for use in a regular expression
+ * @param {string} value - The string
+ * @returns {string} The escaped string
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds a pattern matching any blocked word or phrase as a whole word, in any case and with
+ * look-alike characters
+ * @param {string[]} blocklist - The blocked words and phrases
+ * @returns {RegExp | null} The pattern, or null if the list is empty
+ */
+const blocklistPattern = (blocklist: string[]): RegExp | null => {
+    const terms = blocklist.map(term => term.trim().toLowerCase()).filter(Boolean);
+    if (terms.length === 0) {
+        return null;
+    }
+
+    const alternatives = terms.map(term => Array.from(term).map(character => {
+        if (/\s/.test(character)) return '\\s+';
+        return LOOKALIKES[character] ? `[${escapeRegExp(LOOKALIKES[character])}]` : escapeRegExp(character);
+    }).join(''));
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+};
+
+/**
+ * Gets the host a link points at
+ * @param {string} link - The link as written
+ * @returns {string} The host in lower case
+ */
+const hostOf = (link: string): string =>
+    link.replace(/^https?:\/\//i, '').split(/[/?#:]/)[0].toLowerCase();
+
+/**
+ * Finds the links in some text that are not to an allowed domain
+ * @param {string} text - The text
+ * @param {string[]} allowedDomains - Domains whose links are allowed
+ * @returns {string[]} The links
+ */
+const findLinks = (text: string, allowedDomains: string[]): string[] =>
+    (text.match(LINK_PATTERN) || []).filter(link => {
+        const host = hostOf(link);
+        return !allowedDomains.some(domain => host === domain || host.endsWith(`.${domain}`));
+    });
+
+/** The rules every text is checked against, in order */
+const rules: ContentRule[] = [
+    {
+        guideline: 'length-limits',
+        title: 'Keep it concise',
+        check: (text, field, config) => {
+            const limit = config.maxLengths[field];
+            return text.length > limit
+                ? { problem: `it is ${text.length} characters long; the limit is ${limit}`, mask: value => value.slice(0, limit) }
+                : null;
+        }
+    },
+    {
+        guideline: 'respectful-language',
+        title: 'Be respectful',
+        check: (text, _field, config) => {
+            const pattern = blocklistPattern(config.blocklist);
+            if (!pattern || text.search(pattern) === -1) {
+                return null;
+            }
+            return {
+                problem: 'it contains language that is not allowed',
+                mask: value => value.replace(pattern, word => word[0] + '*'.repeat(word.length - 1))
+            };
+        }
+    },
+    {
+        guideline: 'no-links',
+        title: 'No links or advertising',
+        check: (text, field, config) => {
+            const links = findLinks(text, config.allowedLinkDomains);
+            const limit = config.maxLinks[field];
+            if (links.length <= limit) {
+                return null;
+            }
+            return {
+                problem: limit === 0 ? 'links are not allowed here' : `it contains ${links.length} links; the limit is ${limit}`,
+                mask: value => value.replace(LINK_PATTERN, link => findLinks(link, config.allowedLinkDomains).length > 0 ? '[link removed]' : link)
+            };
+        }
+    },
+    {
+        guideline: 'no-spam',
+        title: 'No spam',
+        check: (text, _field, config) => {
+            if (new RegExp(`(\\S)\\1{${config.maxRepeatedCharacters},}`, 'u').test(text)) {
+                return { problem: 'it repeats the same character too many times' };
+            }
+            if (new RegExp(`(?<![\\p{L}\\p{N}])([\\p{L}\\p{N}]+)(?:\\s+\\1){${config.maxRepeatedWords + 1},}(?![\\p{L}\\p{N}])`, 'iu').test(text)) {
+                return { problem: 'it repeats the same word too many times' };
+            }
+            const letters = text.match(new RegExp('\\p{L}', 'gu')) || [];
+            const capitals = text.match(new RegExp('\\p{Lu}', 'gu')) || [];
+            if (letters.length >= 20 && capitals.length / letters.length > config.maxUppercaseRatio) {
+                return { problem: 'it is written mostly in capital letters' };
+            }
+            return null;
+        }
+    }
+];
+
+export const contentFilter = {
+    /**
+     * Checks text against the community guidelines and applies the configured action for each
+     * guideline it breaks. Masking is applied where the rule can mask, otherwise the text is
+     * rejected; text that cannot be held (video titles and descriptions) is rejected instead.
+     * @async
+     * @param {ContentField} field - What the text is
+     * @param {string} text - The text
+     * @returns {Promise<FilteredContent>} The text as it may be saved, and what was done to it
+     * @throws {ContentPolicyError} If the text breaks a guideline whose action is to reject it
+     */
+    async check(field: ContentField, text: string): Promise<FilteredContent> {
+        const config = await loadContentFilterConfig();
+        const violations: ContentViolation[] = [];
+        let filtered = text;
+
+        for (const rule of rules) {
+            const match = rule.check(filtered, field, config);
+            if (!match) continue;
+
+            let action: ContentFilterAction = config.actions[rule.guideline] || 'reject';
+            if ((action === 'mask' && !match.mask) || (action === 'hold' && !HOLDABLE_FIELDS.includes(field))) {
+                action = 'reject';
+            }
+            if (action === 'mask') {
+                filtered = match.mask!(filtered);
+            }
+            violations.push({
+                guideline: rule.guideline,
+                action,
+                message: `${FIELD_NAMES[field]} breaks the "${rule.title}" guideline: ${match.problem}.`
+            });
+        }
+
+        const rejected = violations.filter(violation => violation.action === 'reject');
+        if (rejected.length > 0) {
+            throw new ContentPolicyError(rejected);
+        }
+
+        return {
+            text: filtered,
+            held: violations.some(violation => violation.action === 'hold'),
+            violations
+        };
+    },
+
+    /**
+     * Adds a rule, checked after the built-in ones. Its action comes from the `actions`
+     * setting under its guideline ID, and is to reject when not configured.
+     * @param {ContentRule} rule - The rule
+     */
+    registerRule(rule: ContentRule): void {
+        rules.push(rule);
+    }
+};
+
+export default contentFilter;
@@ -0,0 +1,39 @@
+import fs from 'fs';
+import { createHash } from 'crypto';
+
+/** Number of file hashes remembered, so checking a file and then uploading it reads it only once */
+const CACHE_SIZE = 50;
+
+const hashes = new Map<string, Promise<string>>();
+
+/**
+ * Computes the SHA-256 of a file's contents, streaming it so large videos are not held in
+ * memory. Results are remembered by path, size and modification time, and concurrent
+ * calls for the same file share one read.
+ * @async
+ * @param {string} filePath - Absolute path of the file
+ * @returns {Promise<string>} The hash as lowercase hex
+ * @throws {Error} If the file cannot be read
+ */
+export const hashFile = async (filePath: string): Promise<string> => {
+    const stats = await fs.promises.stat(filePath);
+    const cacheKey = `${filePath}:${stats.size}:${Math.floor(stats.mtimeMs)}`;
+
+    const cached = hashes.get(cacheKey);
+    if (cached) return cached;
+
+    const hash = new Promise<string>((resolve, reject) => {
+        const digest = createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('data', chunk => digest.update(chunk))
+            .on('end', () => resolve(digest.digest('hex')))
+            .on('error', reject);
+    });
+
+    hashes.set(cacheKey, hash);
+    hash.catch(() => hashes.delete(cacheKey));
+    if (hashes.size > CACHE_SIZE) {
+        hashes.delete(hashes.keys().next().value as string);
+    }
+    return hash;
+};
@@ -0,0 +1,67 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { ENV } from '../config/env';
+
+/** Most requests DynamoDB accepts in one BatchWriteItem call */
+const BATCH_WRITE_LIMIT = 25;
+/** How many times unprocessed batch writes are retried before giving up */
+const BATCH_RETRIES = 5;
+
+/**
+ * A delete or put in a batch write
+ * @typedef {{DeleteRequest: {Key: Record<string, string>}} | {PutRequest: {Item: Record<string, unknown>}}} BatchWriteRequest
+ */
+export type BatchWriteRequest =
+    | { DeleteRequest: { Key: Record<string, string> } }
+    | { PutRequest: { Item: Record<string, unknown> } };
+
+/**
+ * Initialize DynamoDB client with ENV config. DYNAMODB_ENDPOINT points it at another
+ * endpoint, such as DynamoDB Local.
+ */
+const client = new DynamoDBClient({
+    region: ENV.AWS_REGION,
+    endpoint: ENV.DYNAMODB_ENDPOINT || undefined,
+    credentials: {
+        accessKeyId: ENV.AWS_ACCESS_KEY_ID,
+        secretAccessKey: ENV.AWS_SECRET_ACCESS_KEY
+    }
+});
+
+/** Document client shared by the review and moderation services */
+export const docClient = DynamoDBDocumentClient.from(client);
+
+/**
+ * Table of open reports on reviews and replies, partitioned by `targetId` with the reporter's
+ * user ID as sort key. Written by the moderation service, and by the review service when the
+ * content filter holds a review or reply.
+ */
+export const REPORTS_TABLE = 'ReviewReports';
+
+/**
+ * Writes items to a table in batches, retrying items DynamoDB could not process
+ * @async
+ * @param {string} tableName - The table
+ * @param {BatchWriteRequest[]} writes - The deletes and puts
+ * @returns {Promise<void>}
+ * @throws {Error} If some items are still unprocessed after retrying
+ */
+export const batchWrite = async (tableName: string, writes: BatchWriteRequest[]): Promise<void> => {
+    for (let start = 0; start < writes.length; start += BATCH_WRITE_LIMIT) {
+        let requests = writes.slice(start, start + BATCH_WRITE_LIMIT);
+
+        for (let attempt = 0; requests.length > 0; attempt++) {
+            if (attempt > BATCH_RETRIES) {
+                throw new Error(`Could not write ${requests.length} item(s) to ${tableName}`);
+            }
+            if (attempt > 0) {
+                await new Promise(resolve => setTimeout(resolve, 100 * 2 ** attempt));
+            }
+
+            const response = await docClient.send(new BatchWriteCommand({
+                RequestItems: { [tableName]: requests }
+            }));
+            requests = (response.UnprocessedItems?.[tableName] || []) as typeof requests;
+        }
+    }
+};
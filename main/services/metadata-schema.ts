@@ -0,0 +1,171 @@
+import type { VideoMetadata } from '../../renderer/types/types';
+import type { CatalogEntry } from './video-catalog';
+
+/**
+ * Version of the metadata records this build writes.
+ * - 1: the original records, with no `schemaVersion` and the signed URLs stored alongside the keys
+ * - 2: signed URLs are no longer stored; they are derived from the keys whenever a video is listed
+ */
+export const METADATA_SCHEMA_VERSION = 2;
+
+/** Where records that fail validation are moved by the bulk migration, keyed by video ID */
+export const QUARANTINE_PREFIX = 'quarantine/metadata/';
+
+/**
+ * A video's metadata as stored in `metadata/<id>.json`
+ * @typedef {CatalogEntry & {schemaVersion: number}} StoredVideoMetadata
+ */
+export type StoredVideoMetadata = CatalogEntry & { schemaVersion: number };
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Thrown when a metadata record fails validation, or was written by a newer version
+ * @class MetadataSchemaError
+ * @extends Error
+ */
+export class MetadataSchemaError extends Error {
+    /** Everything wrong with the record */
+    readonly problems: string[];
+
+    /**
+     * @param {string[]} problems - Everything wrong with the record
+     */
+    constructor(problems: string[]) {
+        super(`Invalid video metadata: ${problems.join('; ')}`);
+        this.name = 'MetadataSchemaError';
+        this.problems = problems;
+    }
+}
+
+/**
+ * Upgrades, indexed by the version they upgrade from less one: `MIGRATIONS[0]` turns a
+ * version 1 record into version 2. Each returns a new record and leaves its input alone.
+ */
+const MIGRATIONS: Array<(record: RawRecord) => RawRecord> = [
+    // 1 -> 2: drop the stored signed URLs, which had expired an hour after they were written
+    ({ videoUrl: _videoUrl, thumbnailUrl: _thumbnailUrl, mp4Url: _mp4Url, hlsUrl: _hlsUrl, ...record }) => ({
+        ...record,
+        description: record.description ?? '',
+        category: record.category ?? '',
+        duration: record.duration ?? '',
+        thumbnailKey: record.thumbnailKey ?? ''
+    })
+];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isDate = (value: unknown): boolean => isString(value) && !Number.isNaN(Date.parse(value));
+const isObject = (value: unknown): value is RawRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a record of the current version field by field
+ * @param {RawRecord} record - The record
+ * @returns {string[]} Everything wrong with the record; empty if it is valid
+ */
+export const validateVideoMetadata = (record: RawRecord): string[] => {
+    const problems: string[] = [];
+    const expect = (valid: boolean, problem: string) => {
+        if (!valid) problems.push(problem);
+    };
+
+    expect(isString(record.id) && record.id.length > 0, 'id must be a non-empty string');
+    expect(isString(record.userId) && record.userId.length > 0, 'userId must be a non-empty string');
+    expect(isString(record.title), 'title must be a string');
+    expect(isString(record.description), 'description must be a string');
+    expect(isString(record.videoKey) && record.videoKey.length > 0, 'videoKey must be a non-empty string');
+    expect(isString(record.thumbnailKey), 'thumbnailKey must be a string');
+    expect(isString(record.duration), 'duration must be a string');
+    expect(isString(record.category), 'category must be a string');
+    expect(isDate(record.uploadDate), 'uploadDate must be a date');
+    expect(typeof record.isPublic === 'boolean', 'isPublic must be true or false');
+
+    if (record.fileSize !== undefined) {
+        expect(typeof record.fileSize === 'number' && record.fileSize >= 0, 'fileSize must be a non-negative number');
+    }
+    if (record.contentHash !== undefined) {
+        expect(isString(record.contentHash) && /^[0-9a-f]{64}$/.test(record.contentHash), 'contentHash must be a SHA-256 in hex');
+    }
+    if (record.renditions !== undefined) {
+        const renditions = record.renditions;
+        expect(
+            isObject(renditions) && isString(renditions.mp4Key) && isString(renditions.hlsPlaylistKey) && Array.isArray(renditions.variants),
+            'renditions must have mp4Key, hlsPlaylistKey and variants'
+        );
+    }
+    if (record.transcode !== undefined) {
+        const transcode = record.transcode;
+        expect(
+            isObject(transcode) && ['queued', 'running', 'completed', 'failed'].includes(transcode.state as string),
+            'transcode must have a known state'
+        );
+    }
+    if (record.deletedAt !== undefined) {
+        expect(isDate(record.deletedAt), 'deletedAt must be a date');
+    }
+    if (record.purgeAfter !== undefined) {
+        expect(isDate(record.purgeAfter), 'purgeAfter must be a date');
+    }
+
+    return problems;
+};
+
+/**
+ * Brings a parsed record up to the current version and validates it. Records without a
+ * `schemaVersion` are version 1.
+ * @param {unknown} value - The parsed contents of a metadata file
+ * @returns {{metadata: StoredVideoMetadata, migrated: boolean}} The current record, and whether it had to be upgraded
+ * @throws {MetadataSchemaError} If the record is invalid or was written by a newer version
+ */
+export const migrateVideoMetadata = (value: unknown): { metadata: StoredVideoMetadata; migrated: boolean } => {
+    if (!isObject(value)) {
+        throw new MetadataSchemaError(['record is not an object']);
+    }
+
+    const version = value.schemaVersion ?? 1;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new MetadataSchemaError(['schemaVersion must be a positive integer']);
+    }
+    if (version > METADATA_SCHEMA_VERSION) {
+        throw new MetadataSchemaError([`schemaVersion ${version} is newer than this version understands (${METADATA_SCHEMA_VERSION})`]);
+    }
+
+    let record = value;
+    for (let from = version; from < METADATA_SCHEMA_VERSION; from++) {
+        record = MIGRATIONS[from - 1](record);
+    }
+    record = { ...record, schemaVersion: METADATA_SCHEMA_VERSION };
+
+    const problems = validateVideoMetadata(record);
+    if (problems.length > 0) {
+        throw new MetadataSchemaError(problems);
+    }
+    return { metadata: record as StoredVideoMetadata, migrated: version < METADATA_SCHEMA_VERSION };
+};
+
+/**
+ * Parses the contents of a metadata file, upgrading and validating the record
+ * @param {Buffer | string} contents - The file contents
+ * @returns {{metadata: StoredVideoMetadata, migrated: boolean}} The current record, and whether it had to be upgraded
+ * @throws {MetadataSchemaError} If the contents are not JSON, or the record is invalid
+ */
+export const parseVideoMetadata = (contents: Buffer | string): { metadata: StoredVideoMetadata; migrated: boolean } => {
+    let value: unknown;
+    try {
+        value = JSON.parse(contents.toString());
+    } catch (error) {
+        throw new MetadataSchemaError([`not valid JSON (${error instanceof Error ? error.message : String(error)})`]);
+    }
+    return migrateVideoMetadata(value);
+};
+
+/**
+ * Prepares metadata for storage: derived fields such as signed URLs and ratings are dropped and the
+ * current schema version is stamped
+ * @param {CatalogEntry | VideoMetadata} metadata - The video metadata
+ * @returns {StoredVideoMetadata} The record to store
+ */
+export const toStoredMetadata = (metadata: CatalogEntry | VideoMetadata): StoredVideoMetadata => {
+    const { videoUrl: _videoUrl, thumbnailUrl: _thumbnailUrl, mp4Url: _mp4Url, hlsUrl: _hlsUrl, rating: _rating, ...entry } = metadata as VideoMetadata;
+    return { ...entry, schemaVersion: METADATA_SCHEMA_VERSION };
+};
@@ -0,0 +1,554 @@
+import { randomUUID } from 'crypto';
+import {
+    GetCommand,
+    PutCommand,
+    QueryCommand,
+    ScanCommand,
+    UpdateCommand,
+    TransactWriteCommand
+} from '@aws-sdk/lib-dynamodb';
+import { docClient, batchWrite, REPORTS_TABLE } from './dynamodb';
+import { reviewService } from './review-service';
+import type { AuthIdentity } from './auth';
+import type {
+    Review,
+    Reply,
+    ReportReason,
+    ReportResult,
+    ModerationTarget,
+    ModerationAction,
+    ModerationQueueItem,
+    ModerationLogEntry,
+    ModerationLogPage,
+    ContentReport
+} from '../../renderer/types/types';
+
+/** Table of moderation actions, partitioned by `month` with the entry `id` as sort key */
+const LOG_TABLE = 'ModerationLog';
+/** Open reports at which a review or reply is hidden until a moderator decides */
+const REPORT_THRESHOLD = 3;
+/** Reasons a user can give when reporting */
+const REPORT_REASONS: ReportReason[] = ['spam', 'harassment', 'hate', 'offTopic', 'spoiler', 'other'];
+/** Longest note accepted with a report or moderator action */
+const MAX_NOTE_LENGTH = 500;
+/** Length of the text kept in a log entry */
+const EXCERPT_LENGTH = 200;
+/** Entries per page of the log when the caller does not ask for a size */
+const DEFAULT_LOG_PAGE_SIZE = 50;
+/** How many months back the log is read */
+const LOG_MONTHS = 12;
+
+/**
+ * A report as stored
+ * @typedef {ContentReport & ModerationTarget & {targetId: string, reporterId: string}} StoredReport
+ */
+type StoredReport = ContentReport & ModerationTarget & { targetId: string; reporterId: string };
+
+/**
+ * A log entry as stored: entries are partitioned by month so the newest can be read in order
+ * @typedef {ModerationLogEntry & {month: string, moderatorId: string | null}} StoredLogEntry
+ */
+type StoredLogEntry = ModerationLogEntry & { month: string; moderatorId: string | null };
+
+/**
+ * Where a page of the log continues: the month, and the last key read within it
+ * @typedef {{month: string, key?: Record<string, unknown>}} LogPosition
+ */
+type LogPosition = { month: string; key?: Record<string, unknown> };
+
+/**
+ * A reported review or reply as read from its table
+ * @typedef {{kind: 'review', item: Review} | {kind: 'reply', item: Reply}} TargetItem
+ */
+type TargetItem = { kind: 'review'; item: Review & { reportCount?: number } } | { kind: 'reply'; item: Reply & { reportCount?: number } };
+
+/**
+ * Gets the key reports of an item are stored under. Reply IDs start with their review's ID,
+ * so they cannot collide with a review's.
+ * @param {ModerationTarget} target - The review or reply
+ * @returns {string} The key
+ */
+const targetIdOf = (target: ModerationTarget): string => target.replyId || target.reviewId;
+
+/**
+ * Gets the table and key of a review or reply
+ * @param {ModerationTarget} target - The review or reply
+ * @returns {{TableName: string, Key: Record<string, string>}} Where the item is stored
+ */
+const locate = (target: ModerationTarget): { TableName: string; Key: Record<string, string> } =>
+    target.replyId
+        ? { TableName: 'ReviewReplies', Key: { reviewId: target.reviewId, id: target.replyId } }
+        : { TableName: 'Reviews', Key: { id: target.reviewId } };
+
+/**
+ * Changes the moderation status of a review or reply. The review, or the review replied to,
+ * records the activity in the same write, so polls for changes pick the change up.
+ * @async
+ * @param {ModerationTarget} target - The review or reply
+ * @param {string} assignments - The `set` assignments to make, without the keyword
+ * @param {string} condition - Condition the review or reply must meet
+ * @param {Record<string, unknown>} values - Values of the expressions
+ * @returns {Promise<boolean>} Whether it was changed, false if the condition failed
+ * @throws {Error} If the database operation fails
+ */
+const updateStatus = async (
+    target: ModerationTarget,
+    assignments: string,
+    condition: string,
+    values: Record<string, unknown>
+): Promise<boolean> => {
+    const now = new Date().toISOString();
+    try {
+        if (!target.replyId) {
+            await docClient.send(new UpdateCommand({
+                ...locate(target),
+                UpdateExpression: `set ${assignments}, activityAt = :now`,
+                ConditionExpression: condition,
+                ExpressionAttributeValues: { ...values, ':now': now }
+            }));
+            return true;
+        }
+
+        await docClient.send(new TransactWriteCommand({
+            TransactItems: [
+                {
+                    Update: {
+                        ...locate(target),
+                        UpdateExpression: `set ${assignments}`,
+                        ConditionExpression: condition,
+                        ExpressionAttributeValues: values
+                    }
+                },
+                {
+                    Update: {
+                        TableName: 'Reviews',
+                        Key: { id: target.reviewId },
+                        UpdateExpression: 'set activityAt = :now',
+                        ConditionExpression: 'attribute_exists(id)',
+                        ExpressionAttributeValues: { ':now': now }
+                    }
+                }
+            ]
+        }));
+        return true;
+    } catch (error) {
+        if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+            return false;
+        }
+        if (error instanceof Error && error.name === 'TransactionCanceledException') {
+            const reasons = (error as Error & { CancellationReasons?: Array<{ Code?: string }> }).CancellationReasons;
+            if (reasons?.some(reason => reason.Code === 'ConditionalCheckFailed')) {
+                return false;
+            }
+        }
+        throw error;
+    }
+};
+
+/**
+ * Reads a review or reply
+ * @async
+ * @param {ModerationTarget} target - The review or reply
+ * @returns {Promise<TargetItem | null>} The item, or null if it no longer exists
+ * @throws {Error} If the database operation fails
+ */
+const readTarget = async (target: ModerationTarget): Promise<TargetItem | null> => {
+    const response = await docClient.send(new GetCommand(locate(target)));
+    if (!response.Item || (target.replyId && response.Item.deleted)) {
+        return null;
+    }
+    return target.replyId
+        ? { kind: 'reply', item: response.Item as Reply }
+        : { kind: 'review', item: response.Item as Review };
+};
+
+/**
+ * Gets the text of a review or reply
+ * @param {TargetItem} target - The item
+ * @returns {string} The text
+ */
+const textOf = (target: TargetItem): string => target.kind === 'review' ? target.item.comment : target.item.content;
+
+/**
+ * Reads the open reports of an item
+ * @async
+ * @param {string} targetId - Key of the item's reports
+ * @returns {Promise<StoredReport[]>} The reports
+ * @throws {Error} If the database query fails
+ */
+const queryReports = async (targetId: string): Promise<StoredReport[]> => {
+    const reports: StoredReport[] = [];
+    let startKey: Record<string, unknown> | undefined;
+
+    do {
+        const response = await docClient.send(new QueryCommand({
+            TableName: REPORTS_TABLE,
+            KeyConditionExpression: 'targetId = :targetId',
+            ExpressionAttributeValues: { ':targetId': targetId },
+            ExclusiveStartKey: startKey
+        }));
+        reports.push(...(response.Items || []) as StoredReport[]);
+        startKey = response.LastEvaluatedKey;
+    } while (startKey);
+
+    return reports;
+};
+
+/**
+ * Deletes reports once they have been dealt with
+ * @async
+ * @param {StoredReport[]} reports - The reports
+ * @returns {Promise<void>}
+ * @throws {Error} If the database operation fails
+ */
+const clearReports = async (reports: StoredReport[]): Promise<void> => {
+    await batchWrite(REPORTS_TABLE, reports.map(report => ({
+        DeleteRequest: { Key: { targetId: report.targetId, reporterId: report.reporterId } }
+    })));
+};
+
+/**
+ * Checks an optional note and trims it
+ * @param {string | undefined} note - The note
+ * @returns {string | undefined} The trimmed note, or undefined if empty
+ * @throws {Error} If the note is too long
+ */
+const normalizeNote = (note: string | undefined): string | undefined => {
+    const trimmed = typeof note === 'string' ? note.trim() : '';
+    if (trimmed.length > MAX_NOTE_LENGTH) {
+        throw new Error(`Note cannot be longer than ${MAX_NOTE_LENGTH} characters`);
+    }
+    return trimmed || undefined;
+};
+
+/**
+ * Finds the video a review or reply belongs to
+ * @async
+ * @param {TargetItem} target - The item
+ * @param {Map<string, string>} [cache] - Video IDs already looked up, by review ID
+ * @returns {Promise<string>} ID of the video, or an empty string if the review is gone
+ * @throws {Error} If the database operation fails
+ */
+const videoIdOf = async (target: TargetItem, cache: Map<string, string> = new Map()): Promise<string> => {
+    if (target.kind === 'review') {
+        return target.item.videoId;
+    }
+
+    const reviewId = target.item.reviewId || '';
+    if (!cache.has(reviewId)) {
+        const response = await docClient.send(new GetCommand({
+            TableName: 'Reviews',
+            Key: { id: reviewId },
+            ProjectionExpression: 'videoId'
+        }));
+        cache.set(reviewId, (response.Item?.videoId as string) || '');
+    }
+    return cache.get(reviewId)!;
+};
+
+/**
+ * Records a moderation action in the log
+ * @async
+ * @param {ModerationAction | 'autoHide'} action - What was done
+ * @param {ModerationTarget} target - The review or reply
+ * @param {TargetItem} item - The item as it was before the action
+ * @param {StoredReport[]} reports - The open reports at the time
+ * @param {AuthIdentity | null} moderator - The moderator, or null for automatic actions
+ * @param {string} [note] - The moderator's note
+ * @returns {Promise<void>}
+ * @throws {Error} If the database operation fails
+ */
+const logAction = async (
+    action: ModerationAction | 'autoHide',
+    target: ModerationTarget,
+    item: TargetItem,
+    reports: StoredReport[],
+    moderator: AuthIdentity | null,
+    note?: string
+): Promise<void> => {
+    const createdAt = new Date().toISOString();
+    const entry: StoredLogEntry = {
+        month: createdAt.slice(0, 7),
+        id: `${createdAt}#${randomUUID()}`,
+        action,
+        target,
+        videoId: await videoIdOf(item),
+        authorEmail: item.item.userEmail,
+        excerpt: textOf(item).slice(0, EXCERPT_LENGTH),
+        reportCount: reports.length,
+        reasons: Array.from(new Set(reports.map(report => report.reason))),
+        moderatorId: moderator ? moderator.userId : null,
+        moderatorEmail: moderator ? moderator.email : null,
+        ...(note && { note }),
+        createdAt
+    };
+
+    await docClient.send(new PutCommand({
+        TableName: LOG_TABLE,
+        Item: entry
+    }));
+};
+
+/**
+ * Moves a `YYYY-MM` month forwards or backwards
+ * @param {string} month - The month
+ * @param {number} delta - Number of months to move; negative to go back
+ * @returns {string} The resulting month
+ */
+const shiftMonth = (month: string, delta: number): string => {
+    const [year, index] = month.split('-').map(Number);
+    return new Date(Date.UTC(year, index - 1 + delta, 1)).toISOString().slice(0, 7);
+};
+
+/**
+ * Encodes where the next page of the log starts
+ * @param {LogPosition} position - Month and key to continue from
+ * @returns {string} The cursor
+ */
+const encodeCursor = (position: LogPosition): string =>
+    Buffer.from(JSON.stringify(position)).toString('base64url');
+
+/**
+ * Decodes a cursor made by encodeCursor
+ * @param {string} cursor - The cursor
+ * @returns {LogPosition} Month and key to continue from
+ * @throws {Error} If the cursor is malformed
+ */
+const decodeCursor = (cursor: string): LogPosition => {
+    try {
+        const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+        if (typeof position.month !== 'string' || !/^\d{4}-\d{2}$/.test(position.month)) {
+            throw new Error('Unexpected cursor contents');
+        }
+        return position;
+    } catch {
+        throw new Error('Invalid cursor');
+    }
+};
+
+export const moderationService = {
+    /**
+     * Reports a review or reply. Each user can report an item once; when its open reports
+     * reach REPORT_THRESHOLD it is hidden until a moderator decides, and the hiding is logged.
+     * @async
+     * @param {ModerationTarget} target - The review or reply
+     * @param {ReportReason} reason - Why it is reported
+     * @param {string | undefined} note - Anything the user adds
+     * @param {AuthIdentity} identity - The signed-in user making the report
+     * @returns {Promise<ReportResult>} Whether the item is now hidden
+     * @throws {Error} If the reason is unknown, the item is missing or the user's own, or the user already reported it
+     */
+    async reportContent(target: ModerationTarget, reason: ReportReason, note: string | undefined, identity: AuthIdentity): Promise<ReportResult> {
+        if (!REPORT_REASONS.includes(reason)) {
+            throw new Error('Unknown report reason');
+        }
+        const text = normalizeNote(note);
+
+        const item = await readTarget(target);
+        if (!item) {
+            throw new Error('This review or reply no longer exists');
+        }
+        if (item.item.userId === identity.userId) {
+            throw new Error(`You cannot report your own ${item.kind}`);
+        }
+        if (item.item.moderationStatus === 'hidden') {
+            return { hidden: true };
+        }
+
+        const report: StoredReport = {
+            targetId: targetIdOf(target),
+            reporterId: identity.userId,
+            reviewId: target.reviewId,
+            ...(target.replyId && { replyId: target.replyId }),
+            reason,
+            ...(text && { note: text }),
+            reporterEmail: identity.email,
+            createdAt: new Date().toISOString()
+        };
+
+        try {
+            await docClient.send(new TransactWriteCommand({
+                TransactItems: [
+                    {
+                        Put: {
+                            TableName: REPORTS_TABLE,
+                            Item: report,
+                            ConditionExpression: 'attribute_not_exists(reporterId)'
+                        }
+                    },
+                    {
+                        Update: {
+                            ...locate(target),
+                            UpdateExpression: 'ADD reportCount :one',
+                            ConditionExpression: 'attribute_exists(id)',
+                            ExpressionAttributeValues: { ':one': 1 }
+                        }
+                    }
+                ]
+            }));
+        } catch (error) {
+            if (error instanceof Error && error.name === 'TransactionCanceledException') {
+                const reasons = (error as Error & { CancellationReasons?: Array<{ Code?: string }> }).CancellationReasons;
+                throw new Error(reasons?.[0]?.Code === 'ConditionalCheckFailed'
+                    ? `You have already reported this ${item.kind}`
+                    : 'This review or reply no longer exists');
+            }
+            throw error;
+        }
+
+        const hidden = await updateStatus(
+            target,
+            'moderationStatus = :hidden',
+            'reportCount >= :threshold AND (attribute_not_exists(moderationStatus) OR moderationStatus <> :hidden)',
+            { ':hidden': 'hidden', ':threshold': REPORT_THRESHOLD }
+        );
+        if (!hidden) {
+            return { hidden: false };
+        }
+
+        await logAction('autoHide', target, item, await queryReports(report.targetId), null);
+        return { hidden: true };
+    },
+
+    /**
+     * Lists every reported review and reply with its open reports, most reported first.
+     * Reports of items deleted since are cleared.
+     * @async
+     * @returns {Promise<ModerationQueueItem[]>} The queue
+     * @throws {Error} If the database operation fails
+     */
+    async getQueue(): Promise<ModerationQueueItem[]> {
+        const byTarget = new Map<string, StoredReport[]>();
+        let startKey: Record<string, unknown> | undefined;
+
+        do {
+            const response = await docClient.send(new ScanCommand({
+                TableName: REPORTS_TABLE,
+                ExclusiveStartKey: startKey
+            }));
+            ((response.Items || []) as StoredReport[]).forEach(report => {
+                byTarget.set(report.targetId, [...(byTarget.get(report.targetId) || []), report]);
+            });
+            startKey = response.LastEvaluatedKey;
+        } while (startKey);
+
+        const videoIds = new Map<string, string>();
+        const items: ModerationQueueItem[] = [];
+        for (const reports of Array.from(byTarget.values())) {
+            const target: ModerationTarget = {
+                reviewId: reports[0].reviewId,
+                ...(reports[0].replyId && { replyId: reports[0].replyId })
+            };
+            const item = await readTarget(target);
+            if (!item) {
+                await clearReports(reports);
+                continue;
+            }
+
+            items.push({
+                target,
+                videoId: await videoIdOf(item, videoIds),
+                authorEmail: item.item.userEmail,
+                content: textOf(item),
+                ...(item.kind === 'review' && { rating: item.item.rating }),
+                moderationStatus: item.item.moderationStatus,
+                reports: reports
+                    .map(({ reason, note, reporterEmail, createdAt }) => ({ reason, note, reporterEmail, createdAt }))
+                    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+            });
+        }
+
+        return items.sort((a, b) =>
+            b.reports.length - a.reports.length || b.reports[0].createdAt.localeCompare(a.reports[0].createdAt)
+        );
+    },
+
+    /**
+     * Acts on a reported review or reply: approving keeps it visible, hiding leaves it only to
+     * its author, and deleting removes it as its author would. Its open reports are cleared
+     * and the action is logged.
+     * @async
+     * @param {ModerationTarget} target - The review or reply
+     * @param {ModerationAction} action - The decision
+     * @param {string | undefined} note - The moderator's note for the log
+     * @param {AuthIdentity} identity - The moderator
+     * @returns {Promise<void>}
+     * @throws {Error} If the action is unknown, the item is missing or the database operation fails
+     */
+    async moderate(target: ModerationTarget, action: ModerationAction, note: string | undefined, identity: AuthIdentity): Promise<void> {
+        if (!['approve', 'hide', 'delete'].includes(action)) {
+            throw new Error('Unknown moderation action');
+        }
+        const text = normalizeNote(note);
+
+        const reports = await queryReports(targetIdOf(target));
+        const item = await readTarget(target);
+        if (!item) {
+            await clearReports(reports);
+            throw new Error('This review or reply no longer exists');
+        }
+
+        if (action === 'delete') {
+            if (target.replyId) {
+                await reviewService.removeReply(target.reviewId, target.replyId);
+            } else {
+                await reviewService.removeReview(target.reviewId);
+            }
+        } else {
+            const updated = await updateStatus(target, 'moderationStatus = :status, reportCount = :zero', 'attribute_exists(id)', {
+                ':status': action === 'approve' ? 'approved' : 'hidden',
+                ':zero': 0
+            });
+            if (!updated) {
+                throw new Error('This review or reply no longer exists');
+            }
+        }
+
+        await clearReports(reports);
+        await logAction(action, target, item, reports, identity, text);
+    },
+
+    /**
+     * Reads the moderation log, newest first, going back LOG_MONTHS months
+     * @async
+     * @param {{cursor?: string, limit?: number}} [options] - Cursor of the previous page and page size
+     * @returns {Promise<ModerationLogPage>} The page of entries
+     * @throws {Error} If the cursor is malformed or the database query fails
+     */
+    async getLog(options: { cursor?: string; limit?: number } = {}): Promise<ModerationLogPage> {
+        const limit = Math.min(Math.max(options.limit || DEFAULT_LOG_PAGE_SIZE, 1), 100);
+        const currentMonth = new Date().toISOString().slice(0, 7);
+        const oldestMonth = shiftMonth(currentMonth, 1 - LOG_MONTHS);
+        let { month, key } = options.cursor ? decodeCursor(options.cursor) : { month: currentMonth, key: undefined } as LogPosition;
+        const entries: ModerationLogEntry[] = [];
+
+        while (month >= oldestMonth && entries.length < limit) {
+            const response = await docClient.send(new QueryCommand({
+                TableName: LOG_TABLE,
+                KeyConditionExpression: '#month = :month',
+                ExpressionAttributeNames: { '#month': 'month' },
+                ExpressionAttributeValues: { ':month': month },
+                ScanIndexForward: false,
+                Limit: limit - entries.length,
+                ExclusiveStartKey: key
+            }));
+            ((response.Items || []) as StoredLogEntry[]).forEach(({ month: _month, moderatorId: _moderatorId, ...entry }) => {
+                entries.push(entry);
+            });
+
+            if (response.LastEvaluatedKey) {
+                key = response.LastEvaluatedKey;
+            } else {
+                month = shiftMonth(month, -1);
+                key = undefined;
+            }
+        }
+
+        return {
+            entries,
+            nextCursor: month >= oldestMonth ? encodeCursor({ month, key }) : null
+        };
+    }
+};
+
+export default moderationService;
@@ -0,0 +1,302 @@
+import fs from 'fs';
+import path from 'path';
+import { app } from 'electron';
+import Store from 'electron-store';
+import type { OfflineLibraryInfo, OfflineVideo } from '../../renderer/types/types';
+import type { StoredVideoMetadata } from './metadata-schema';
+import { getStorageProvider } from './storage';
+import { s3Service } from './s3-service';
+import { createStreamGrant } from './transcoder';
+import type { CatalogEntry } from './video-catalog';
+
+/** Custom protocol the renderer plays downloaded videos and their thumbnails from */
+export const OFFLINE_MEDIA_SCHEME = 'offline-media';
+
+/**
+ * A video kept in the offline library
+ * @interface OfflineRecord
+ * @property {CatalogEntry} video - Metadata of the video when it was downloaded
+ * @property {string} videoFile - Name of the video file in the video's library directory
+ * @property {string} [thumbnailFile] - Name of the thumbnail file, if the video has one
+ * @property {number} size - Bytes used on disk by the video and thumbnail
+ * @property {string} downloadedAt - When the video was downloaded
+ * @property {(string | null)[]} [downloadedBy] - Verified usernames of the users who downloaded
+ * it, with null for a download made while signed out. Missing on records kept before downloads
+ * were tracked per user.
+ */
+interface OfflineRecord {
+    video: CatalogEntry;
+    videoFile: string;
+    thumbnailFile?: string;
+    size: number;
+    downloadedAt: string;
+    downloadedBy?: (string | null)[];
+}
+
+let libraryStore: Store<{ videos: Record<string, OfflineRecord> }> | null = null;
+
+/**
+ * Opens the store of downloaded videos on first use, after the userData path has been set
+ * @returns {Store<{ videos: Record<string, OfflineRecord> }>} The store
+ */
+const getLibraryStore = () => {
+    if (!libraryStore) {
+        libraryStore = new Store<{ videos: Record<string, OfflineRecord> }>({
+            name: 'offline-library',
+            defaults: { videos: {} }
+        });
+    }
+    return libraryStore;
+};
+
+/**
+ * Gets the directory a downloaded video's files are kept in
+ * @param {string} videoId - ID of the video
+ * @returns {string} Absolute path of the directory
+ * @throws {Error} If the ID could escape the library directory
+ */
+const videoDir = (videoId: string): string => {
+    if (!/^[\w-]+$/.test(videoId)) {
+        throw new Error('Invalid video ID');
+    }
+    return path.join(app.getPath('userData'), 'offline-library', videoId);
+};
+
+/**
+ * Checks whether a user may see and play a downloaded video. Records kept before downloads were
+ * tracked per user go by the rule for downloading the video: anyone while it was public, otherwise
+ * only its owner.
+ * @param {OfflineRecord} record - The stored record
+ * @param {string | null} username - Username of the signed-in user, or null
+ * @returns {boolean} Whether the video is in the user's library
+ */
+const belongsTo = (record: OfflineRecord, username: string | null): boolean =>
+    record.downloadedBy
+        ? record.downloadedBy.includes(username)
+        : record.video.isPublic || record.video.userId === username;
+
+/**
+ * Turns a stored record into what the renderer sees, with URLs that play from disk. The URLs
+ * carry a grant naming the user, so the protocol handler only serves them the videos they downloaded.
+ * @param {string} videoId - ID of the video
+ * @param {OfflineRecord} record - The stored record
+ * @param {string | null} username - Username of the user the URLs are for, or null
+ * @returns {OfflineVideo} The downloaded video
+ */
+const toOfflineVideo = (videoId: string, record: OfflineRecord, username: string | null): OfflineVideo => {
+    const grant = createStreamGrant(username);
+    return {
+        video: {
+            ...record.video,
+            videoUrl: `${OFFLINE_MEDIA_SCHEME}://video/${grant}/${encodeURIComponent(videoId)}`,
+            thumbnailUrl: record.thumbnailFile ? `${OFFLINE_MEDIA_SCHEME}://thumbnail/${grant}/${encodeURIComponent(videoId)}` : ''
+        },
+        size: record.size,
+        downloadedAt: record.downloadedAt
+    };
+};
+
+/**
+ * Videos downloaded to this computer for playback without a connection. The files of a video
+ * are kept once, but each user only sees the videos they downloaded themselves.
+ * @class OfflineLibrary
+ */
+class OfflineLibrary {
+    private downloads = new Map<string, Promise<OfflineRecord>>();
+
+    /**
+     * Downloads a video and its thumbnail into the user's library. The transcoded MP4 is
+     * preferred because every format plays from it; the original upload is used if there is none.
+     * Downloading a video that is already being downloaded joins the running download.
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {string | null} username - Verified username of the signed-in user, or null
+     * @param {(progress: number) => void} [onProgress] - Called with the percentage downloaded
+     * @returns {Promise<OfflineVideo>} The downloaded video
+     * @throws {Error} If the video does not exist, is private to someone else, or cannot be downloaded
+     */
+    async download(videoId: string, username: string | null, onProgress?: (progress: number) => void): Promise<OfflineVideo> {
+        // Checked for every caller, since joining a running download must not skip it
+        const metadata = await s3Service.readVideoMetadata(videoId);
+        if (!metadata || metadata.deletedAt) {
+            throw new Error('Video not found');
+        }
+        if (!metadata.isPublic && metadata.userId !== username) {
+            throw new Error('Unauthorized to download this video');
+        }
+
+        let download = this.downloads.get(videoId);
+        if (!download) {
+            download = this.runDownload(videoId, metadata, onProgress).finally(() => {
+                this.downloads.delete(videoId);
+            });
+            this.downloads.set(videoId, download);
+        }
+        const downloaded = await download;
+
+        const records = getLibraryStore().get('videos');
+        const downloadedBy = records[videoId]?.downloadedBy ?? [];
+        const record: OfflineRecord = {
+            ...downloaded,
+            downloadedBy: downloadedBy.includes(username) ? downloadedBy : [...downloadedBy, username]
+        };
+        getLibraryStore().set('videos', { ...records, [videoId]: record });
+
+        return toOfflineVideo(videoId, record, username);
+    }
+
+    /**
+     * Downloads the files of a video into the library
+     * @private
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {StoredVideoMetadata} metadata - Metadata of the video
+     * @param {(progress: number) => void} [onProgress] - Called with the percentage downloaded
+     * @returns {Promise<OfflineRecord>} The record of the files, not yet stored
+     */
+    private async runDownload(videoId: string, metadata: StoredVideoMetadata, onProgress?: (progress: number) => void): Promise<OfflineRecord> {
+        const storage = getStorageProvider();
+        const dir = videoDir(videoId);
+        await fs.promises.mkdir(dir, { recursive: true });
+
+        try {
+            const sourceKey = metadata.renditions?.mp4Key || metadata.videoKey;
+            const videoFile = `video${path.extname(sourceKey) || '.mp4'}`;
+            const partialPath = path.join(dir, `${videoFile}.part`);
+
+            let lastProgress = -1;
+            await storage.getFile(sourceKey, partialPath, (loaded, total) => {
+                const progress = total > 0 ? Math.floor((loaded / total) * 100) : 0;
+                if (progress !== lastProgress) {
+                    lastProgress = progress;
+                    onProgress?.(progress);
+                }
+            });
+            await fs.promises.rename(partialPath, path.join(dir, videoFile));
+
+            let thumbnailFile: string | undefined;
+            if (metadata.thumbnailKey) {
+                thumbnailFile = `thumbnail${path.extname(metadata.thumbnailKey) || '.jpg'}`;
+                await storage.getFile(metadata.thumbnailKey, path.join(dir, thumbnailFile));
+            }
+
+            const files = await fs.promises.readdir(dir);
+            const sizes = await Promise.all(files.map(file => fs.promises.stat(path.join(dir, file))));
+
+            const { schemaVersion: _schemaVersion, ...video } = metadata;
+            return {
+                video,
+                videoFile,
+                ...(thumbnailFile && { thumbnailFile }),
+                size: sizes.reduce((total, stats) => total + stats.size, 0),
+                downloadedAt: new Date().toISOString()
+            };
+        } catch (error) {
+            await fs.promises.rm(dir, { recursive: true, force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists the videos a user downloaded, newest download first. Records whose files have gone
+     * missing are dropped.
+     * @param {string | null} username - Verified username of the signed-in user, or null
+     * @returns {OfflineLibraryInfo} The downloaded videos and the disk space they use
+     */
+    getLibrary(username: string | null): OfflineLibraryInfo {
+        const records = getLibraryStore().get('videos');
+        const present: Record<string, OfflineRecord> = {};
+        const videos: OfflineVideo[] = [];
+
+        Object.keys(records).forEach(videoId => {
+            const record = records[videoId];
+            if (fs.existsSync(path.join(videoDir(videoId), record.videoFile))) {
+                present[videoId] = record;
+                if (belongsTo(record, username)) {
+                    videos.push(toOfflineVideo(videoId, record, username));
+                }
+            }
+        });
+
+        if (Object.keys(present).length !== Object.keys(records).length) {
+            getLibraryStore().set('videos', present);
+        }
+
+        videos.sort((a, b) => b.downloadedAt.localeCompare(a.downloadedAt));
+        return {
+            videos,
+            used: videos.reduce((total, item) => total + item.size, 0)
+        };
+    }
+
+    /**
+     * Removes a downloaded video from a user's library. Its files are deleted once no other
+     * user has it in their library.
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {string | null} username - Verified username of the signed-in user, or null
+     * @returns {Promise<void>}
+     * @throws {Error} If the video is not in the user's library
+     */
+    async remove(videoId: string, username: string | null): Promise<void> {
+        const { [videoId]: record, ...remaining } = getLibraryStore().get('videos');
+        if (!record || !belongsTo(record, username)) {
+            throw new Error('Unauthorized to remove this video');
+        }
+
+        const downloadedBy = record.downloadedBy?.filter(item => item !== username) ?? [];
+        if (downloadedBy.length > 0) {
+            getLibraryStore().set('videos', { ...remaining, [videoId]: { ...record, downloadedBy } });
+            return;
+        }
+
+        getLibraryStore().set('videos', remaining);
+        await fs.promises.rm(videoDir(videoId), { recursive: true, force: true });
+    }
+
+    /**
+     * Finds the file the offline media protocol should serve
+     * @param {'video' | 'thumbnail'} kind - Which file of the video
+     * @param {string} videoId - ID of the video
+     * @param {string | null} username - Username the media URL was issued to, or null
+     * @returns {string | null} Absolute path of the file, or null if it is not in the user's library
+     */
+    resolveFile(kind: 'video' | 'thumbnail', videoId: string, username: string | null): string | null {
+        const record = getLibraryStore().get('videos')[videoId];
+        if (!record || !belongsTo(record, username)) {
+            return null;
+        }
+        const fileName = kind === 'video' ? record?.videoFile : record?.thumbnailFile;
+        return fileName ? path.join(videoDir(videoId), fileName) : null;
+    }
+
+    /**
+     * Saves a copy of a video's original upload anywhere on disk
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {string | null} username - Username of the signed-in user, or null
+     * @param {string} filePath - Absolute path to save to
+     * @returns {Promise<void>}
+     * @throws {Error} If the video does not exist, is private to someone else, or cannot be saved
+     */
+    async exportOriginal(videoId: string, username: string | null, filePath: string): Promise<void> {
+        const metadata = await s3Service.readVideoMetadata(videoId);
+        if (!metadata || metadata.deletedAt) {
+            throw new Error('Video not found');
+        }
+        if (!metadata.isPublic && metadata.userId !== username) {
+            throw new Error('Unauthorized to download this video');
+        }
+
+        const partialPath = `${filePath}.part`;
+        try {
+            await getStorageProvider().getFile(metadata.videoKey, partialPath);
+            await fs.promises.rename(partialPath, filePath);
+        } catch (error) {
+            await fs.promises.rm(partialPath, { force: true });
+            throw error;
+        }
+    }
+}
+
+export const offlineLibrary = new OfflineLibrary();
@@ -0,0 +1,1847 @@
+import { randomUUID } from 'crypto';
+import {
+    PutCommand,
+    QueryCommand,
+    UpdateCommand,
+    DeleteCommand,
+    GetCommand,
+    ScanCommand,
+    BatchGetCommand,
+    BatchGetCommandOutput,
+    TransactWriteCommand,
+    TransactWriteCommandInput
+} from '@aws-sdk/lib-dynamodb';
+import { docClient, batchWrite, REPORTS_TABLE } from './dynamodb';
+import { contentFilter, FilteredContent } from './content-filter';
+import { getStorageProvider } from './storage';
+import { parseVideoMetadata } from './metadata-schema';
+import { loadReplyPolicy } from '../config/reply-policy';
+import { MODERATOR_GROUP } from './auth';
+import type { AuthIdentity } from './auth';
+import type {
+    Review,
+    Reply,
+    NewReply,
+    UpdateReviewData,
+    HelpfulVote,
+    ReviewListOptions,
+    ReviewPage,
+    ReviewSortOrder,
+    RatingSummary,
+    RatingHistoryPoint,
+    ModerationTarget,
+    ContentViolation,
+    ReviewMergeReport,
+    ReplyPolicy,
+    ReviewChanges
+} from '../../renderer/types/types';
+
+/** How many times a vote is applied again when the same user's vote changed while it was being cast */
+const VOTE_ATTEMPTS = 5;
+/** Table holding helpful votes, partitioned by `reviewId` with the voter's user ID as sort key */
+const VOTES_TABLE = 'ReviewVotes';
+/** Table holding each video's rating aggregate, keyed by `videoId` */
+const AGGREGATES_TABLE = 'ReviewAggregates';
+/** Table holding replies, partitioned by `reviewId` with the reply `id` as sort key */
+const REPLIES_TABLE = 'ReviewReplies';
+/** Deepest a reply can be nested; replies directly to a review are at depth 1 */
+const MAX_REPLY_DEPTH = 3;
+/** Error shown when a user tries to review a video a second time */
+const DUPLICATE_REVIEW_MESSAGE = 'You have already reviewed this video; edit your review instead';
+/** Why a reply was refused, by the policy that refused it */
+const REPLY_POLICY_MESSAGES: Record<ReplyPolicy, string> = {
+    owner: 'Only the creator of the video can reply to its reviews',
+    ownerAndReviewer: 'Only the creator of the video and the author of the review can reply to it',
+    everyone: ''
+};
+/** Reporter ID of the reports the content filter files for the reviews and replies it holds */
+const CONTENT_FILTER_REPORTER = 'content-filter';
+/** Most keys DynamoDB accepts in one BatchGetItem call */
+const BATCH_GET_LIMIT = 100;
+/** Page size used when the caller does not ask for one */
+const DEFAULT_PAGE_SIZE = 10;
+/** Largest page a caller can ask for */
+const MAX_PAGE_SIZE = 50;
+/** z-score for the 95% confidence interval used to rank helpful reviews */
+const CONFIDENCE_Z = 1.96;
+/** How far before its change token a poll looks, so writes stamped by a clock running behind are not missed */
+const CHANGE_TOKEN_OVERLAP_MS = 30 * 1000;
+/** Index of `Reviews` on `videoId` and `createdAt`, read for the newest first order */
+const RECENT_INDEX = 'videoId-createdAt-index';
+/** Index of `Reviews` on `videoId` and `ratingKey`, read for the rating order and the rating filter */
+const RATING_INDEX = 'videoId-ratingKey-index';
+/** Index of `Reviews` on `videoId` and `helpfulKey`, read for the most helpful order */
+const HELPFUL_INDEX = 'videoId-helpfulKey-index';
+/** Index of `Reviews` on `videoId` and `activityAt`, read by polls for changes */
+const ACTIVITY_INDEX = 'videoId-activityAt-index';
+/** Version of the index sort keys; a video's aggregate records the version its reviews have */
+const SORT_KEYS_VERSION = 1;
+
+/** Videos whose reviews are known to have their index sort keys */
+const sortKeysReady = new Set<string>();
+
+/**
+ * A review as stored in the table. Votes are kept in the votes table and counted here;
+ * `helpfulVotes` and `voteVersion` are where older versions kept them, until they are moved.
+ * `reportCount` counts open reports, which only moderators see. `activityAt` is when the
+ * review was last written, edited, voted on or replied to, so polls for changes find it.
+ * `ratingKey` and `helpfulKey` are the sort keys of the rating and helpful indexes.
+ * @typedef {Review & {helpfulVotes?: Record<string, HelpfulVote>, voteVersion?: number, reportCount?: number, activityAt?: string, ratingKey?: string, helpfulKey?: string}} StoredReview
+ */
+type StoredReview = Review & {
+    helpfulVotes?: Record<string, HelpfulVote>;
+    voteVersion?: number;
+    reportCount?: number;
+    activityAt?: string;
+    ratingKey?: string;
+    helpfulKey?: string;
+};
+
+/**
+ * A reply as stored in the table
+ * @typedef {Reply & {reportCount?: number}} StoredReply
+ */
+type StoredReply = Reply & { reportCount?: number };
+
+/**
+ * A helpful vote as stored in the votes table. Each user has at most one per review; the
+ * votes are private and only the counts leave the main process.
+ * @typedef {{reviewId: string, userId: string, vote: HelpfulVote, votedAt: string}} StoredVote
+ */
+type StoredVote = { reviewId: string; userId: string; vote: HelpfulVote; votedAt: string };
+
+/**
+ * A video's ratings as stored: the number of reviews, the sum of their ratings and the
+ * number of reviews per star (`star1` to `star5`). Every review change adjusts these in the
+ * same transaction as the review, so they never drift from the reviews. `sortKeysVersion` is
+ * the version of the index sort keys the video's reviews have been given.
+ * @typedef {{videoId: string, reviewCount: number, ratingSum: number} & Record<string, number | string>} RatingAggregate
+ */
+type RatingAggregate = { videoId: string; reviewCount: number; ratingSum: number } & Record<string, number | string>;
+
+/**
+ * Gets the aggregate attribute counting reviews with a rating
+ * @param {number} rating - The rating
+ * @returns {string} The attribute name
+ */
+const starAttribute = (rating: number): string => `star${rating}`;
+
+/**
+ * Checks a rating is a whole number of stars from 1 to 5
+ * @param {number} rating - The rating
+ * @throws {Error} If the rating is out of range
+ */
+const assertRating = (rating: number): void => {
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        throw new Error('Rating must be a whole number from 1 to 5');
+    }
+};
+
+/**
+ * Converts a stored aggregate into the summary sent to the renderer
+ * @param {RatingAggregate} aggregate - The stored aggregate
+ * @returns {RatingSummary} The summary
+ */
+const toSummary = (aggregate: RatingAggregate): RatingSummary => {
+    const count = Math.max(Number(aggregate.reviewCount) || 0, 0);
+    return {
+        count,
+        average: count ? (Number(aggregate.ratingSum) || 0) / count : 0,
+        histogram: [1, 2, 3, 4, 5].map(rating => Math.max(Number(aggregate[starAttribute(rating)]) || 0, 0))
+    };
+};
+
+/**
+ * Scores how helpful a review is as the lower bound of the Wilson score interval for its
+ * share of helpful votes, so a review with 40 of 50 votes helpful outranks one whose single
+ * vote is helpful. Reviews without votes score 0.
+ * @param {Pick<Review, 'helpfulCount' | 'notHelpfulCount'>} review - The review's vote counts
+ * @returns {number} The score, between 0 and 1
+ */
+const helpfulScore = (review: Pick<Review, 'helpfulCount' | 'notHelpfulCount'>): number => {
+    const helpful = review.helpfulCount ?? 0;
+    const total = helpful + (review.notHelpfulCount ?? 0);
+    if (total === 0) return 0;
+
+    const share = helpful / total;
+    const z2 = CONFIDENCE_Z * CONFIDENCE_Z;
+    return (share + z2 / (2 * total) - CONFIDENCE_Z * Math.sqrt((share * (1 - share) + z2 / (4 * total)) / total))
+        / (1 + z2 / total);
+};
+
+/**
+ * Computes the sort key a review is listed by in the rating index
+ * @param {Pick<Review, 'rating' | 'createdAt'>} review - The review
+ * @returns {string} `<rating>#<createdAt>`, so reviews with the same rating are listed newest first
+ */
+const ratingKeyOf = (review: Pick<Review, 'rating' | 'createdAt'>): string => `${review.rating}#${review.createdAt}`;
+
+/**
+ * Computes the sort key a review is listed by in the helpful index. The score has a fixed
+ * number of digits so the keys sort as strings in score order.
+ * @param {Pick<Review, 'createdAt' | 'helpfulCount' | 'notHelpfulCount'>} review - The review
+ * @returns {string} `<score>#<createdAt>`, so reviews with the same score are listed newest first
+ */
+const helpfulKeyOf = (review: Pick<Review, 'createdAt' | 'helpfulCount' | 'notHelpfulCount'>): string =>
+    `${helpfulScore(review).toFixed(6)}#${review.createdAt}`;
+
+/**
+ * Finds the index a listing is read from, and the condition on its sort key. Listings with a
+ * rating filter in newest or rating order read the reviews with that rating from the rating
+ * index; the helpful order filters its own index by rating instead.
+ * @param {ReviewSortOrder} sortBy - Order of the listing
+ * @param {number} [rating] - Rating the listing is limited to
+ * @returns {{indexName: string, sortKey?: string}} The index, and the sort key attribute to match against the rating when the rating index is read for it
+ */
+const listingIndex = (sortBy: ReviewSortOrder, rating?: number): { indexName: string; sortKey?: string } => {
+    if (sortBy === 'helpful') {
+        return { indexName: HELPFUL_INDEX };
+    }
+    if (rating !== undefined) {
+        return { indexName: RATING_INDEX, sortKey: 'ratingKey' };
+    }
+    return { indexName: sortBy === 'rating' ? RATING_INDEX : RECENT_INDEX };
+};
+
+/**
+ * Encodes where a listing stopped as an opaque cursor
+ * @param {ReviewSortOrder} sortBy - Order of the listing
+ * @param {number | undefined} rating - Rating the listing is limited to
+ * @param {Record<string, unknown>} lastKey - `LastEvaluatedKey` of the last query
+ * @returns {string} The cursor
+ */
+const encodeCursor = (sortBy: ReviewSortOrder, rating: number | undefined, lastKey: Record<string, unknown>): string =>
+    Buffer.from(JSON.stringify([sortBy, rating ?? null, lastKey])).toString('base64url');
+
+/**
+ * Decodes a cursor made by encodeCursor
+ * @param {string} cursor - The cursor
+ * @param {string} videoId - ID of the video being listed, which must match the cursor's
+ * @param {ReviewSortOrder} sortBy - Order of the listing, which must match the cursor's
+ * @param {number} [rating] - Rating the listing is limited to, which must match the cursor's
+ * @returns {Record<string, string>} The key the next query starts after
+ * @throws {Error} If the cursor is malformed or belongs to another listing
+ */
+const decodeCursor = (cursor: string, videoId: string, sortBy: ReviewSortOrder, rating?: number): Record<string, string> => {
+    try {
+        const [order, cursorRating, lastKey] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+        if (order !== sortBy || cursorRating !== (rating ?? null)
+            || typeof lastKey !== 'object' || lastKey === null || lastKey.videoId !== videoId
+            || !Object.values(lastKey).every(value => typeof value === 'string')) {
+            throw new Error('Unexpected cursor contents');
+        }
+        return lastKey;
+    } catch {
+        throw new Error('Invalid cursor');
+    }
+};
+
+/**
+ * Reads every review of a video, following pagination
+ * @async
+ * @param {string} videoId - ID of the video
+ * @returns {Promise<StoredReview[]>} The reviews, in no particular order
+ * @throws {Error} If the database query fails
+ */
+const queryVideoReviews = async (videoId: string): Promise<StoredReview[]> => {
+    const reviews: StoredReview[] = [];
+    let startKey: Record<string, unknown> | undefined;
+
+    do {
+        const response = await docClient.send(new QueryCommand({
+            TableName: 'Reviews',
+            IndexName: 'videoId-index',
+            KeyConditionExpression: 'videoId = :videoId',
+            ExpressionAttributeValues: {
+                ':videoId': videoId
+            },
+            ExclusiveStartKey: startKey
+        }));
+        reviews.push(...(response.Items || []) as StoredReview[]);
+        startKey = response.LastEvaluatedKey;
+    } while (startKey);
+
+    return reviews;
+};
+
+/**
+ * Gets the ID of a user's review of a video. Each user has at most one review per video, so
+ * writing a second one under the same ID fails.
+ * @param {string} videoId - ID of the video
+ * @param {string} userId - ID of the author
+ * @returns {string} The review ID
+ */
+const reviewIdFor = (videoId: string, userId: string): string => `${videoId}#${userId}`;
+
+/**
+ * Finds a user's review of a video. Reviews written before IDs were derived from the author
+ * are keyed by timestamp, so when there is none under the derived ID the video's reviews are
+ * searched, and the latest is returned if the user wrote several.
+ * @async
+ * @param {string} videoId - ID of the video
+ * @param {string} userId - ID of the author
+ * @returns {Promise<StoredReview | null>} The review, or null if the user has not reviewed the video
+ * @throws {Error} If the database operation fails
+ */
+const findUserReview = async (videoId: string, userId: string): Promise<StoredReview | null> => {
+    const response = await docClient.send(new GetCommand({
+        TableName: 'Reviews',
+        Key: { id: reviewIdFor(videoId, userId) }
+    }));
+    if (response.Item) {
+        return response.Item as StoredReview;
+    }
+
+    const [latest] = (await queryVideoReviews(videoId))
+        .filter(item => item.userId === userId)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    return latest || null;
+};
+
+/**
+ * Finds who uploaded a video. The metadata is read straight from storage, since the video
+ * service itself depends on this one.
+ * @async
+ * @param {string} videoId - ID of the video
+ * @returns {Promise<string | null>} Username of the uploader, or null if the video is gone or its metadata is invalid
+ */
+const readVideoOwner = async (videoId: string): Promise<string | null> => {
+    try {
+        const contents = await getStorageProvider().get(`metadata/${videoId}.json`);
+        return contents ? parseVideoMetadata(contents).metadata.userId : null;
+    } catch (error) {
+        console.error(`Error reading the owner of video ${videoId}:`, error);
+        return null;
+    }
+};
+
+/**
+ * Checks whether the reply policy lets a user reply to a review
+ * @param {ReplyPolicy} policy - The reply policy
+ * @param {boolean} isCreator - Whether the user uploaded the video
+ * @param {boolean} isReviewer - Whether the user wrote the review
+ * @returns {boolean} Whether the user may reply
+ */
+const mayReply = (policy: ReplyPolicy, isCreator: boolean, isReviewer: boolean): boolean =>
+    policy === 'everyone' || isCreator || (policy === 'ownerAndReviewer' && isReviewer);
+
+/**
+ * Reads a video's rating aggregate. Videos reviewed before aggregates existed get theirs
+ * computed from the reviews once; the write only succeeds if no aggregate appeared in the
+ * meantime, and review changes wait for it, so no review is counted twice.
+ * @async
+ * @param {string} videoId - ID of the video
+ * @returns {Promise<RatingAggregate>} The aggregate
+ * @throws {Error} If the database operation fails
+ */
+const ensureAggregate = async (videoId: string): Promise<RatingAggregate> => {
+    const existing = await docClient.send(new GetCommand({
+        TableName: AGGREGATES_TABLE,
+        Key: { videoId }
+    }));
+    if (existing.Item) {
+        return existing.Item as RatingAggregate;
+    }
+
+    const reviews = await queryVideoReviews(videoId);
+    const aggregate: RatingAggregate = { videoId, reviewCount: reviews.length, ratingSum: 0 };
+    [1, 2, 3, 4, 5].forEach(rating => { aggregate[starAttribute(rating)] = 0; });
+    reviews.forEach(review => {
+        aggregate.ratingSum += review.rating;
+        aggregate[starAttribute(review.rating)] = (Number(aggregate[starAttribute(review.rating)]) || 0) + 1;
+    });
+
+    try {
+        await docClient.send(new PutCommand({
+            TableName: AGGREGATES_TABLE,
+            Item: aggregate,
+            ConditionExpression: 'attribute_not_exists(videoId)'
+        }));
+        return aggregate;
+    } catch (error) {
+        if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+            throw error;
+        }
+        return ensureAggregate(videoId);
+    }
+};
+
+/**
+ * Gives a video's reviews the sort keys of the listing indexes. Reviews written before the
+ * indexes existed get theirs once, the first time the video's reviews are listed; each write
+ * is conditional on the rating and vote counts it was computed from, and is computed again
+ * from the review if those changed in the meantime.
+ * @async
+ * @param {string} videoId - ID of the video
+ * @returns {Promise<void>}
+ * @throws {Error} If the database operation fails
+ */
+const ensureSortKeys = async (videoId: string): Promise<void> => {
+    if (sortKeysReady.has(videoId)) return;
+    const aggregate = await ensureAggregate(videoId);
+    if (Number(aggregate.sortKeysVersion) >= SORT_KEYS_VERSION) {
+        sortKeysReady.add(videoId);
+        return;
+    }
+
+    const missing = (await queryVideoReviews(videoId)).filter(review => !review.ratingKey || !review.helpfulKey);
+    for (const stale of missing) {
+        let review: StoredReview | undefined = stale;
+        while (review && (review.ratingKey !== ratingKeyOf(review) || review.helpfulKey !== helpfulKeyOf(review))) {
+            try {
+                await docClient.send(new UpdateCommand({
+                    TableName: 'Reviews',
+                    Key: { id: review.id },
+                    UpdateExpression: 'set ratingKey = :ratingKey, helpfulKey = :helpfulKey',
+                    ConditionExpression: 'rating = :rating AND '
+                        + (review.helpfulCount === undefined ? 'attribute_not_exists(helpfulCount)' : 'helpfulCount = :helpful')
+                        + ' AND '
+                        + (review.notHelpfulCount === undefined ? 'attribute_not_exists(notHelpfulCount)' : 'notHelpfulCount = :notHelpful'),
+                    ExpressionAttributeValues: {
+                        ':ratingKey': ratingKeyOf(review),
+                        ':helpfulKey': helpfulKeyOf(review),
+                        ':rating': review.rating,
+                        ...(review.helpfulCount !== undefined && { ':helpful': review.helpfulCount }),
+                        ...(review.notHelpfulCount !== undefined && { ':notHelpful': review.notHelpfulCount })
+                    }
+                }));
+                break;
+            } catch (error) {
+                if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+                    throw error;
+                }
+                review = (await docClient.send(new GetCommand({ TableName: 'Reviews', Key: { id: review.id } }))).Item as StoredReview | undefined;
+            }
+        }
+    }
+
+    await docClient.send(new UpdateCommand({
+        TableName: AGGREGATES_TABLE,
+        Key: { videoId },
+        UpdateExpression: 'set sortKeysVersion = :version',
+        ExpressionAttributeValues: { ':version': SORT_KEYS_VERSION }
+    }));
+    sortKeysReady.add(videoId);
+};
+
+/**
+ * Runs a review write together with its aggregate adjustment
+ * @async
+ * @param {NonNullable<TransactWriteCommandInput['TransactItems']>} items - The writes
+ * @param {string} [conflictMessage] - Error message when a condition fails
+ * @returns {Promise<void>}
+ * @throws {Error} If the review changed in the meantime or the transaction fails
+ */
+const transactReviewWrite = async (
+    items: NonNullable<TransactWriteCommandInput['TransactItems']>,
+    conflictMessage = 'The review was changed at the same time; please try again'
+): Promise<void> => {
+    try {
+        await docClient.send(new TransactWriteCommand({ TransactItems: items }));
+    } catch (error) {
+        if (error instanceof Error && error.name === 'TransactionCanceledException') {
+            throw new Error(conflictMessage);
+        }
+        throw error;
+    }
+};
+
+/**
+ * Prepares a stored review for a user: the vote counts are kept and the user's own vote added
+ * @param {StoredReview} item - The review as stored
+ * @param {string | null} userId - ID of the signed-in user, or null
+ * @param {HelpfulVote} [viewerVote] - The user's vote from the votes table, if they have one
+ * @returns {Review} The review as the user may see it
+ */
+const toViewerReview = (item: StoredReview, userId: string | null, viewerVote?: HelpfulVote): Review => {
+    const {
+        helpfulVotes,
+        voteVersion: _voteVersion,
+        reportCount: _reportCount,
+        activityAt: _activityAt,
+        ratingKey: _ratingKey,
+        helpfulKey: _helpfulKey,
+        ...review
+    } = item;
+    return {
+        ...review,
+        helpfulCount: review.helpfulCount ?? 0,
+        notHelpfulCount: review.notHelpfulCount ?? 0,
+        viewerVote: viewerVote || (userId && helpfulVotes?.[userId]) || null
+    };
+};
+
+/**
+ * Reads items by key in batches, retrying keys DynamoDB could not process
+ * @async
+ * @param {string} tableName - The table
+ * @param {Record<string, unknown>[]} keys - Keys of the items
+ * @param {string} [projection] - Attributes to read, all if omitted
+ * @returns {Promise<T[]>} The items that exist, in no particular order
+ * @throws {Error} If the database operation fails
+ */
+const batchGetItems = async <T>(
+    tableName: string,
+    keys: Record<string, unknown>[],
+    projection?: string
+): Promise<T[]> => {
+    const items: T[] = [];
+
+    for (let start = 0; start < keys.length; start += BATCH_GET_LIMIT) {
+        let pending: Record<string, unknown>[] | undefined = keys.slice(start, start + BATCH_GET_LIMIT);
+        while (pending && pending.length > 0) {
+            const response: BatchGetCommandOutput = await docClient.send(new BatchGetCommand({
+                RequestItems: { [tableName]: { Keys: pending, ...(projection && { ProjectionExpression: projection }) } }
+            }));
+            items.push(...(response.Responses?.[tableName] || []) as T[]);
+            pending = response.UnprocessedKeys?.[tableName]?.Keys;
+        }
+    }
+
+    return items;
+};
+
+/**
+ * Reads a user's votes on several reviews
+ * @async
+ * @param {Review[]} reviews - The reviews
+ * @param {string | null} userId - ID of the signed-in user, or null
+ * @returns {Promise<Map<string, HelpfulVote>>} The votes by review ID
+ * @throws {Error} If the database operation fails
+ */
+const readViewerVotes = async (reviews: Review[], userId: string | null): Promise<Map<string, HelpfulVote>> => {
+    if (!userId) return new Map();
+    const items = await batchGetItems<StoredVote>(VOTES_TABLE, reviews.map(review => ({ reviewId: review.id, userId })));
+    return new Map(items.map(item => [item.reviewId, item.vote]));
+};
+
+/**
+ * Moves the votes an older version kept on a review into the votes table, and removes them
+ * from the review. A vote already in the table is newer and is kept; the counts on the
+ * review already include the moved votes.
+ * @async
+ * @param {StoredReview} review - The review, as read from the reviews table
+ * @returns {Promise<void>}
+ * @throws {Error} If the database operation fails
+ */
+const moveLegacyVotes = async (review: StoredReview): Promise<void> => {
+    if (!review.helpfulVotes) return;
+
+    const ignoreConflict = (error: unknown) => {
+        if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+            throw error;
+        }
+    };
+    const votedAt = review.activityAt || review.updatedAt;
+    await Promise.all(Object.entries(review.helpfulVotes).map(([userId, vote]) => docClient.send(new PutCommand({
+        TableName: VOTES_TABLE,
+        Item: { reviewId: review.id, userId, vote, votedAt },
+        ConditionExpression: 'attribute_not_exists(userId)'
+    })).catch(ignoreConflict)));
+
+    await docClient.send(new UpdateCommand({
+        TableName: 'Reviews',
+        Key: { id: review.id },
+        UpdateExpression: 'remove helpfulVotes, voteVersion',
+        ConditionExpression: 'attribute_exists(helpfulVotes)'
+    })).catch(ignoreConflict);
+};
+
+/**
+ * Reads every vote on a review, following pagination
+ * @async
+ * @param {string} reviewId - ID of the review
+ * @returns {Promise<StoredVote[]>} The votes
+ * @throws {Error} If the database query fails
+ */
+const queryVotes = async (reviewId: string): Promise<StoredVote[]> => {
+    const votes: StoredVote[] = [];
+    let startKey: Record<string, unknown> | undefined;
+
+    do {
+        const response = await docClient.send(new QueryCommand({
+            TableName: VOTES_TABLE,
+            KeyConditionExpression: 'reviewId = :reviewId',
+            ExpressionAttributeValues: { ':reviewId': reviewId },
+            ExclusiveStartKey: startKey
+        }));
+        votes.push(...(response.Items || []) as StoredVote[]);
+        startKey = response.LastEvaluatedKey;
+    } while (startKey);
+
+    return votes;
+};
+
+/**
+ * Deletes every vote on a review
+ * @async
+ * @param {string} reviewId - ID of the review
+ * @returns {Promise<void>}
+ * @throws {Error} If the database operation fails
+ */
+const deleteVotes = async (reviewId: string): Promise<void> => {
+    const votes = await queryVotes(reviewId);
+    await batchWrite(VOTES_TABLE, votes.map(vote => ({ DeleteRequest: { Key: { reviewId, userId: vote.userId } } })));
+};
+
+/**
+ * Brings a review's helpful key up to date with its vote counts. Votes change the counts with
+ * atomic additions, so the key is written afterwards from the counts read back, on condition
+ * that they have not changed again; if they have, the later vote writes the key.
+ * @async
+ * @param {StoredReview} review - The review, read after the vote
+ * @returns {Promise<void>}
+ * @throws {Error} If the database operation fails
+ */
+const refreshHelpfulKey = async (review: StoredReview): Promise<void> => {
+    const helpfulKey = helpfulKeyOf(review);
+    if (review.helpfulKey === helpfulKey) return;
+
+    try {
+        await docClient.send(new UpdateCommand({
+            TableName: 'Reviews',
+            Key: { id: review.id },
+            UpdateExpression: 'set helpfulKey = :helpfulKey',
+            ConditionExpression: 'helpfulCount = :helpful AND notHelpfulCount = :notHelpful',
+            ExpressionAttributeValues: {
+                ':helpfulKey': helpfulKey,
+                ':helpful': review.helpfulCount ?? 0,
+                ':notHelpful': review.notHelpfulCount ?? 0
+            }
+        }));
+    } catch (error) {
+        if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+            throw error;
+        }
+    }
+};
+
+/**
+ * Checks whether a user reviews reported content, and so sees hidden reviews and replies
+ * @param {AuthIdentity | null} identity - The signed-in user, or null
+ * @returns {boolean} Whether the user is a moderator
+ */
+const isModerator = (identity: AuthIdentity | null): boolean =>
+    identity !== null && identity.groups.includes(MODERATOR_GROUP);
+
+/**
+ * Checks whether a user may see a review or reply: hidden ones are only shown to their
+ * author and to moderators
+ * @param {Review | Reply} item - The review or reply
+ * @param {AuthIdentity | null} identity - The signed-in user, or null
+ * @returns {boolean} Whether the user may see the item
+ */
+const isVisibleTo = (item: Review | Reply, identity: AuthIdentity | null): boolean =>
+    item.moderationStatus !== 'hidden' || isModerator(identity) || (identity !== null && item.userId === identity.userId);
+
+/**
+ * Prepares a stored reply for a user: the report count is dropped, and a hidden reply keeps
+ * its place in the thread but loses its text unless the user may see it
+ * @param {StoredReply} item - The reply as stored
+ * @param {AuthIdentity | null} identity - The signed-in user, or null
+ * @returns {Reply} The reply as the user may see it
+ */
+const toViewerReply = (item: StoredReply, identity: AuthIdentity | null): Reply => {
+    const { reportCount: _reportCount, ...reply } = item;
+    return isVisibleTo(reply, identity) ? reply : { ...reply, content: '' };
+};
+
+/**
+ * Deletes reviews by ID in batches, together with their replies and votes
+ * @async
+ * @param {string[]} reviewIds - IDs of the reviews to delete
+ * @returns {Promise<void>}
+ * @throws {Error} If some reviews or replies are still unprocessed after retrying
+ */
+const batchDeleteReviews = async (reviewIds: string[]): Promise<void> => {
+    await batchWrite('Reviews', reviewIds.map(id => ({ DeleteRequest: { Key: { id } } })));
+    for (const reviewId of reviewIds) {
+        await deleteReplies(reviewId);
+        await deleteVotes(reviewId);
+    }
+};
+
+/**
+ * Reads every reply to a review, following pagination
+ * @async
+ * @param {string} reviewId - ID of the review
+ * @returns {Promise<Reply[]>} The replies, oldest first
+ * @throws {Error} If the database query fails
+ */
+const queryReplies = async (reviewId: string): Promise<Reply[]> => {
+    const replies: Reply[] = [];
+    let startKey: Record<string, unknown> | undefined;
+
+    do {
+        const response = await docClient.send(new QueryCommand({
+            TableName: REPLIES_TABLE,
+            KeyConditionExpression: 'reviewId = :reviewId',
+            ExpressionAttributeValues: {
+                ':reviewId': reviewId
+            },
+            ExclusiveStartKey: startKey
+        }));
+        replies.push(...(response.Items || []) as Reply[]);
+        startKey = response.LastEvaluatedKey;
+    } while (startKey);
+
+    return replies.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+};
+
+/**
+ * Deletes every reply to a review
+ * @async
+ * @param {string} reviewId - ID of the review
+ * @returns {Promise<void>}
+ * @throws {Error} If the database operation fails
+ */
+const deleteReplies = async (reviewId: string): Promise<void> => {
+    const replies = await queryReplies(reviewId);
+    await batchWrite(REPLIES_TABLE, replies.map(reply => ({ DeleteRequest: { Key: { reviewId, id: reply.id } } })));
+};
+
+/**
+ * Fills in a review's replies from the replies table. Replies that older versions appended
+ * to the review's own `replies` list are first moved into the table as top-level replies,
+ * and the list is removed from the review.
+ * @async
+ * @param {Review} review - The review, as read from the reviews table
+ * @param {AuthIdentity | null} identity - The signed-in user, who may not see hidden replies
+ * @returns {Promise<Review>} The review with its replies, oldest first
+ * @throws {Error} If the database operation fails
+ */
+const withReplies = async (review: Review, identity: AuthIdentity | null): Promise<Review> => {
+    const legacy = Array.isArray(review.replies) ? review.replies : [];
+    if (legacy.length > 0) {
+        await batchWrite(REPLIES_TABLE, legacy.map(reply => ({
+            PutRequest: { Item: { ...reply, reviewId: review.id, parentId: null, depth: 1 } }
+        })));
+        try {
+            await docClient.send(new UpdateCommand({
+                TableName: 'Reviews',
+                Key: { id: review.id },
+                UpdateExpression: 'REMOVE replies',
+                ConditionExpression: 'size(replies) = :count',
+                ExpressionAttributeValues: { ':count': legacy.length }
+            }));
+        } catch (error) {
+            // Another reader moved them first; the puts above were identical to its own
+            if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+                throw error;
+            }
+        }
+    }
+
+    const replies = await queryReplies(review.id);
+    return { ...review, replies: replies.map(reply => toViewerReply(reply, identity)) };
+};
+
+/**
+ * Deletes a review, adjusting its video's aggregate in the same transaction, then its replies
+ * and open reports. The reports go too because the author's next review reuses the ID.
+ * @async
+ * @param {Review} review - The review as read from the table
+ * @returns {Promise<void>}
+ * @throws {Error} If the review changed in the meantime or the database operation fails
+ */
+const removeReview = async (review: Review): Promise<void> => {
+    await ensureAggregate(review.videoId);
+    await transactReviewWrite([
+        {
+            Delete: {
+                TableName: 'Reviews',
+                Key: { id: review.id },
+                ConditionExpression: 'rating = :rating',
+                ExpressionAttributeValues: { ':rating': review.rating }
+            }
+        },
+        {
+            Update: {
+                TableName: AGGREGATES_TABLE,
+                Key: { videoId: review.videoId },
+                UpdateExpression: 'ADD reviewCount :minusOne, ratingSum :minusRating, #star :minusOne',
+                ExpressionAttributeNames: { '#star': starAttribute(review.rating) },
+                ExpressionAttributeValues: { ':minusOne': -1, ':minusRating': -review.rating }
+            }
+        }
+    ]);
+    await deleteReplies(review.id);
+    await deleteVotes(review.id);
+
+    const reports = await docClient.send(new QueryCommand({
+        TableName: REPORTS_TABLE,
+        KeyConditionExpression: 'targetId = :targetId',
+        ExpressionAttributeValues: { ':targetId': review.id },
+        ProjectionExpression: 'targetId, reporterId'
+    }));
+    await batchWrite(REPORTS_TABLE, ((reports.Items || []) as Array<Record<string, string>>).map(Key => ({ DeleteRequest: { Key } })));
+};
+
+/**
+ * Moves the open reports of a review and its replies to the review's new ID
+ * @async
+ * @param {string} fromId - Old ID of the review
+ * @param {string} toId - New ID of the review
+ * @param {string[]} replyIds - IDs of the review's replies
+ * @returns {Promise<void>}
+ * @throws {Error} If the database operation fails
+ */
+const moveReports = async (fromId: string, toId: string, replyIds: string[]): Promise<void> => {
+    for (const targetId of [fromId, ...replyIds]) {
+        const response = await docClient.send(new QueryCommand({
+            TableName: REPORTS_TABLE,
+            KeyConditionExpression: 'targetId = :targetId',
+            ExpressionAttributeValues: { ':targetId': targetId }
+        }));
+        const reports = (response.Items || []) as Array<Record<string, unknown> & { reporterId: string }>;
+        // Reports of a reply stay under the reply's ID and only point at the new review
+        const movedTargetId = targetId === fromId ? toId : targetId;
+        await batchWrite(REPORTS_TABLE, reports.map(report => ({
+            PutRequest: { Item: { ...report, targetId: movedTargetId, reviewId: toId } }
+        })));
+        if (movedTargetId !== targetId) {
+            await batchWrite(REPORTS_TABLE, reports.map(report => ({
+                DeleteRequest: { Key: { targetId, reporterId: report.reporterId } }
+            })));
+        }
+    }
+};
+
+/**
+ * Moves a review written by an older version from its timestamp ID to `<videoId>#<userId>`,
+ * together with its replies, votes and open reports. The replies and votes are copied first,
+ * then the review is moved in one transaction, on condition that nothing touched it meanwhile.
+ * @async
+ * @param {StoredReview} review - The review, as read from the reviews table
+ * @returns {Promise<void>}
+ * @throws {Error} If a review already has the new ID, the review changed in the meantime or the database operation fails
+ */
+const rekeyReview = async (review: StoredReview): Promise<void> => {
+    const id = reviewIdFor(review.videoId, review.userId);
+    await moveLegacyVotes(review);
+    await withReplies(review, null);
+
+    const [current, existing] = await Promise.all([
+        docClient.send(new GetCommand({ TableName: 'Reviews', Key: { id: review.id } })),
+        docClient.send(new GetCommand({ TableName: 'Reviews', Key: { id } }))
+    ]);
+    if (!current.Item) {
+        throw new Error('The review was deleted in the meantime');
+    }
+    if (existing.Item) {
+        throw new Error(`A review with the ID ${id} already exists`);
+    }
+
+    const { helpfulVotes: _helpfulVotes, voteVersion: _voteVersion, replies: _replies, ...item } = current.Item as StoredReview;
+    const replies = await queryReplies(review.id);
+    const votes = await queryVotes(review.id);
+    await batchWrite(REPLIES_TABLE, replies.map(reply => ({ PutRequest: { Item: { ...reply, reviewId: id } } })));
+    await batchWrite(VOTES_TABLE, votes.map(vote => ({ PutRequest: { Item: { ...vote, reviewId: id } } })));
+
+    try {
+        await transactReviewWrite([
+            {
+                Put: {
+                    TableName: 'Reviews',
+                    Item: { ...item, id },
+                    ConditionExpression: 'attribute_not_exists(id)'
+                }
+            },
+            {
+                // Every write to a review stamps activityAt, so an unchanged stamp means an unchanged review
+                Delete: {
+                    TableName: 'Reviews',
+                    Key: { id: review.id },
+                    ...(item.activityAt
+                        ? { ConditionExpression: 'activityAt = :activityAt', ExpressionAttributeValues: { ':activityAt': item.activityAt } }
+                        : { ConditionExpression: 'attribute_exists(id) AND attribute_not_exists(activityAt)' })
+                }
+            }
+        ]);
+    } catch (error) {
+        await deleteReplies(id);
+        await deleteVotes(id);
+        throw error;
+    }
+
+    await batchWrite(REPLIES_TABLE, replies.map(reply => ({ DeleteRequest: { Key: { reviewId: review.id, id: reply.id } } })));
+    await deleteVotes(review.id);
+    await moveReports(review.id, id, replies.map(reply => reply.id));
+};
+
+/**
+ * Deletes a reply. A reply that others have answered is blanked and marked deleted so the
+ * conversation below it stays in place; it is removed once its last answer is. Deleted
+ * replies left without answers are removed with it.
+ * @async
+ * @param {string} reviewId - ID of the review the reply belongs to
+ * @param {Reply[]} replies - Every reply to the review
+ * @param {Reply} reply - The reply to delete
+ * @returns {Promise<Reply[]>} The review's remaining replies, oldest first
+ * @throws {Error} If the database operation fails
+ */
+const removeReply = async (reviewId: string, replies: Reply[], reply: Reply): Promise<Reply[]> => {
+    const hasAnswers = (id: string, remaining: Reply[]) => remaining.some(item => item.parentId === id);
+    if (hasAnswers(reply.id, replies)) {
+        await docClient.send(new UpdateCommand({
+            TableName: REPLIES_TABLE,
+            Key: { reviewId, id: reply.id },
+            UpdateExpression: 'set content = :empty, deleted = :deleted, updatedAt = :updatedAt',
+            ExpressionAttributeValues: {
+                ':empty': '',
+                ':deleted': true,
+                ':updatedAt': new Date().toISOString()
+            }
+        }));
+        return queryReplies(reviewId);
+    }
+
+    // Remove the reply, then any deleted ancestors it was the last answer to
+    let remaining = replies;
+    let removed: Reply | undefined = reply;
+    while (removed) {
+        const { id, parentId }: Reply = removed;
+        await docClient.send(new DeleteCommand({
+            TableName: REPLIES_TABLE,
+            Key: { reviewId, id }
+        }));
+        remaining = remaining.filter(item => item.id !== id);
+
+        const parent: Reply | undefined = parentId ? remaining.find(item => item.id === parentId) : undefined;
+        removed = parent && parent.deleted && !hasAnswers(parent.id, remaining) ? parent : undefined;
+    }
+
+    return remaining;
+};
+
+/**
+ * Records activity on a review's replies, so polls for changes pick the review up again.
+ * A failure only delays the change reaching other viewers, so it is logged, not thrown.
+ * @async
+ * @param {string} reviewId - ID of the review
+ * @returns {Promise<void>}
+ */
+const touchReview = async (reviewId: string): Promise<void> => {
+    try {
+        await docClient.send(new UpdateCommand({
+            TableName: 'Reviews',
+            Key: { id: reviewId },
+            UpdateExpression: 'set activityAt = :now',
+            ConditionExpression: 'attribute_exists(id)',
+            ExpressionAttributeValues: { ':now': new Date().toISOString() }
+        }));
+    } catch (error) {
+        console.error(`Error recording activity on review ${reviewId}:`, error);
+    }
+};
+
+/**
+ * Reads one reply
+ * @async
+ * @param {string} reviewId - ID of the review replied to
+ * @param {string} replyId - ID of the reply
+ * @returns {Promise<Reply | null>} The reply, or null if it does not exist
+ * @throws {Error} If the database operation fails
+ */
+const getReply = async (reviewId: string, replyId: string): Promise<Reply | null> => {
+    const response = await docClient.send(new GetCommand({
+        TableName: REPLIES_TABLE,
+        Key: { reviewId, id: replyId }
+    }));
+    return (response.Item as Reply) || null;
+};
+
+/**
+ * Trims the text of a reply and runs it through the content filter
+ * @async
+ * @param {string} content - The text
+ * @returns {Promise<FilteredContent>} The text as it may be saved
+ * @throws {Error} If the text is empty or breaks a guideline whose action is to reject it
+ */
+const filterReplyContent = async (content: string): Promise<FilteredContent> => {
+    const trimmed = typeof content === 'string' ? content.trim() : '';
+    if (!trimmed) {
+        throw new Error('Reply cannot be empty');
+    }
+    return contentFilter.check('reply', trimmed);
+};
+
+/**
+ * Builds the write that puts a held review or reply in the moderation queue: a report from the
+ * content filter naming the guidelines it broke. A later hold replaces the earlier report.
+ * @param {ModerationTarget} target - The review or reply
+ * @param {ContentViolation[]} violations - What the content filter found
+ * @returns {{Put: {TableName: string, Item: Record<string, unknown>}}} The write
+ */
+const heldReportWrite = (target: ModerationTarget, violations: ContentViolation[]) => {
+    const held = violations.filter(violation => violation.action === 'hold');
+    return {
+        Put: {
+            TableName: REPORTS_TABLE,
+            Item: {
+                targetId: target.replyId || target.reviewId,
+                reporterId: CONTENT_FILTER_REPORTER,
+                reviewId: target.reviewId,
+                ...(target.replyId && { replyId: target.replyId }),
+                reason: held.some(violation => violation.guideline === 'no-links' || violation.guideline === 'no-spam') ? 'spam' : 'other',
+                note: held.map(violation => violation.message).join(' '),
+                reporterEmail: 'Content filter',
+                createdAt: new Date().toISOString()
+            }
+        }
+    };
+};
+
+/**
+ * Tells the author what the content filter did to their review or reply
+ * @param {T} item - The review or reply as saved
+ * @param {FilteredContent} filtered - What the content filter found
+ * @returns {T} The item, with the guidelines it broke if any
+ */
+const withViolations = <T extends Review | Reply>(item: T, filtered: FilteredContent): T =>
+    filtered.violations.length > 0 ? { ...item, contentViolations: filtered.violations } : item;
+
+/**
+ * The content filter's verdict on text that did not change, which was checked when it was written
+ * @param {string} text - The text
+ * @returns {FilteredContent} The text, unchanged
+ */
+const unchanged = (text: string): FilteredContent => ({ text, held: false, violations: [] });
+
+export const reviewService = {
+    /**
+     * Creates a new review for a video. Each user can review a video once; the review is keyed
+     * by video and author, and written only if that key is free.
+     * @async
+     * @param {Omit<Review, 'id' | 'createdAt' | 'updatedAt'>} review - Review data without system-generated fields
+     * @param {AuthIdentity} identity - The signed-in user, recorded as the author
+     * @returns {Promise<Review>} The created review with all fields populated
+     * @throws {Error} If the user already reviewed the video, the comment breaks a guideline whose action is to reject it, or the database operation fails
+     */
+    async createReview(review: Omit<Review, 'id' | 'createdAt' | 'updatedAt'>, identity: AuthIdentity): Promise<Review> {
+        assertRating(review.rating);
+        if (await findUserReview(review.videoId, identity.userId)) {
+            throw new Error(DUPLICATE_REVIEW_MESSAGE);
+        }
+        const filtered = await contentFilter.check('reviewComment', review.comment || '');
+        const timestamp = new Date().toISOString();
+        const reviewId = reviewIdFor(review.videoId, identity.userId);
+
+        const newReview: Review = {
+            videoId: review.videoId,
+            rating: review.rating,
+            comment: filtered.text,
+            userId: identity.userId,
+            userEmail: identity.email || review.userEmail,
+            id: reviewId,
+            createdAt: timestamp,
+            updatedAt: timestamp,
+            replies: [],
+            ...(filtered.held && { moderationStatus: 'hidden' as const })
+        };
+
+        await ensureAggregate(review.videoId);
+        await transactReviewWrite([
+            {
+                Put: {
+                    TableName: 'Reviews',
+                    Item: {
+                        ...newReview,
+                        ratingKey: ratingKeyOf(newReview),
+                        helpfulKey: helpfulKeyOf(newReview),
+                        activityAt: timestamp
+                    },
+                    ConditionExpression: 'attribute_not_exists(id)'
+                }
+            },
+            {
+                Update: {
+                    TableName: AGGREGATES_TABLE,
+                    Key: { videoId: review.videoId },
+                    UpdateExpression: 'ADD reviewCount :one, ratingSum :rating, #star :one',
+                    ExpressionAttributeNames: { '#star': starAttribute(review.rating) },
+                    ExpressionAttributeValues: { ':one': 1, ':rating': review.rating }
+                }
+            },
+            ...(filtered.held ? [heldReportWrite({ reviewId }, filtered.violations)] : [])
+        ], DUPLICATE_REVIEW_MESSAGE);
+
+        return withViolations(toViewerReview(newReview, identity.userId), filtered);
+    },
+
+    /**
+     * Gets the signed-in user's review of a video, so it can be opened for editing
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {AuthIdentity} identity - The signed-in user
+     * @returns {Promise<Review | null>} The review with its replies, or null if the user has not reviewed the video
+     * @throws {Error} If the database operation fails
+     */
+    async getUserReview(videoId: string, identity: AuthIdentity): Promise<Review | null> {
+        const review = await findUserReview(videoId, identity.userId);
+        return review ? withReplies(toViewerReview(review, identity.userId), identity) : null;
+    },
+
+    /**
+     * Retrieves one page of a video's reviews in the requested order, optionally only those
+     * with a given rating
+     * @async
+     * @param {string} videoId - ID of the video to get reviews for
+     * @param {AuthIdentity | null} [identity] - The signed-in user, whose own votes are included
+     * @param {ReviewListOptions} [options] - Order, rating filter, cursor and page size
+     * @returns {Promise<ReviewPage>} The page of reviews
+     * @throws {Error} If the rating or cursor is invalid, or the database query fails
+     */
+    async getVideoReviews(videoId: string, identity: AuthIdentity | null = null, options: ReviewListOptions = {}): Promise<ReviewPage> {
+        const sortBy = options.sortBy || 'recent';
+        const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        if (options.rating !== undefined) {
+            assertRating(options.rating);
+        }
+        let startKey: Record<string, unknown> | undefined = options.cursor
+            ? decodeCursor(options.cursor, videoId, sortBy, options.rating)
+            : undefined;
+
+        const { indexName, sortKey } = listingIndex(sortBy, options.rating);
+        const filterByRating = options.rating !== undefined && !sortKey;
+        const filterHidden = !isModerator(identity);
+        const filters = [
+            ...(filterByRating ? ['rating = :rating'] : []),
+            ...(filterHidden ? [`(attribute_not_exists(moderationStatus) OR moderationStatus <> :hidden${identity ? ' OR userId = :viewer' : ''})`] : [])
+        ];
+
+        await ensureSortKeys(videoId);
+        // Taken before reading, so a poll from this token sees anything written during the read
+        const changeToken = new Date().toISOString();
+        const items: StoredReview[] = [];
+
+        // Filters apply after the limit, so a page is filled with further queries when they drop reviews
+        do {
+            const response = await docClient.send(new QueryCommand({
+                TableName: 'Reviews',
+                IndexName: indexName,
+                KeyConditionExpression: sortKey ? 'videoId = :videoId AND begins_with(#sortKey, :star)' : 'videoId = :videoId',
+                ...(filters.length > 0 && { FilterExpression: filters.join(' AND ') }),
+                ...(sortKey && { ExpressionAttributeNames: { '#sortKey': sortKey } }),
+                ExpressionAttributeValues: {
+                    ':videoId': videoId,
+                    ...(sortKey && { ':star': `${options.rating}#` }),
+                    ...(filterByRating && { ':rating': options.rating }),
+                    ...(filterHidden && { ':hidden': 'hidden' }),
+                    ...(filterHidden && identity && { ':viewer': identity.userId })
+                },
+                ScanIndexForward: false,
+                Limit: limit - items.length,
+                ExclusiveStartKey: startKey
+            }));
+            items.push(...(response.Items || []) as StoredReview[]);
+            startKey = response.LastEvaluatedKey;
+        } while (startKey && items.length < limit);
+
+        const userId = identity ? identity.userId : null;
+        const votes = await readViewerVotes(items, userId);
+        const reviews = items.map(item => toViewerReview(item, userId, votes.get(item.id)));
+        return {
+            // Replies are only read for the reviews on the page
+            reviews: await Promise.all(reviews.map(review => withReplies(review, identity))),
+            nextCursor: startKey ? encodeCursor(sortBy, options.rating, startKey) : null,
+            replyPolicy: await loadReplyPolicy(),
+            changeToken
+        };
+    },
+
+    /**
+     * Finds what changed in a video's reviews since a change token, for a list that follows
+     * them by polling. Reviews whose `activityAt` is after the token are read from the activity
+     * index, looking a little before the token so writes stamped by a clock running behind are
+     * not missed; the same change can therefore be reported twice. Only reviews created after
+     * the token itself are reported as added. Deletions are found by checking the reviews the
+     * caller already has.
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {AuthIdentity | null} identity - The signed-in user, whose own votes are included
+     * @param {string} changeToken - Token from the page the list was loaded from, or from the previous poll
+     * @param {string[]} knownIds - IDs of the reviews the caller has
+     * @returns {Promise<ReviewChanges>} The changed reviews with their replies, the removed IDs, the rating summary and the next token
+     * @throws {Error} If the token is invalid or the database query fails
+     */
+    async getReviewChanges(
+        videoId: string,
+        identity: AuthIdentity | null,
+        changeToken: string,
+        knownIds: string[]
+    ): Promise<ReviewChanges> {
+        const since = Date.parse(changeToken);
+        if (Number.isNaN(since)) {
+            throw new Error('Invalid change token');
+        }
+        const after = new Date(since - CHANGE_TOKEN_OVERLAP_MS).toISOString();
+        const nextToken = new Date().toISOString();
+
+        const items: StoredReview[] = [];
+        let startKey: Record<string, unknown> | undefined;
+        do {
+            const response = await docClient.send(new QueryCommand({
+                TableName: 'Reviews',
+                IndexName: ACTIVITY_INDEX,
+                KeyConditionExpression: 'videoId = :videoId AND activityAt > :after',
+                ExpressionAttributeValues: { ':videoId': videoId, ':after': after },
+                ExclusiveStartKey: startKey
+            }));
+            items.push(...(response.Items || []) as StoredReview[]);
+            startKey = response.LastEvaluatedKey;
+        } while (startKey);
+
+        const [known, aggregate] = await Promise.all([
+            // Only what decides whether the caller may still see them
+            batchGetItems<Review>('Reviews', Array.from(new Set(knownIds)).map(id => ({ id })), 'id, userId, moderationStatus'),
+            ensureAggregate(videoId)
+        ]);
+        const visibleIds = new Set(known.filter(item => isVisibleTo(item, identity)).map(item => item.id));
+        const changedItems = items.filter(item => isVisibleTo(item, identity));
+        const userId = identity ? identity.userId : null;
+        const votes = await readViewerVotes(changedItems, userId);
+        const changed = await Promise.all(changedItems
+            .map(item => withReplies(toViewerReview(item, userId, votes.get(item.id)), identity)));
+        const token = new Date(since).toISOString();
+
+        return {
+            added: changed.filter(review => review.createdAt > token),
+            updated: changed.filter(review => review.createdAt <= token),
+            removedIds: knownIds.filter(id => !visibleIds.has(id)),
+            summary: toSummary(aggregate),
+            changeToken: nextToken
+        };
+    },
+
+    /**
+     * Updates an existing review
+     * @async
+     * @param {string} reviewId - ID of the review to update
+     * @param {UpdateReviewData} data - New data for the review
+     * @param {AuthIdentity} identity - The signed-in user; must be the author
+     * @returns {Promise<Review>} The updated review
+     * @throws {Error} If review not found, user unauthorized, the comment breaks a guideline whose action is to reject it, or database operation fails
+     */
+    async updateReview(reviewId: string, data: UpdateReviewData, identity: AuthIdentity): Promise<Review> {
+        const getResult = await docClient.send(new GetCommand({
+            TableName: 'Reviews',
+            Key: { id: reviewId }
+        }));
+
+        const review = getResult.Item as Review;
+        if (!review) {
+            throw new Error('Review not found');
+        }
+
+        if (review.userId !== identity.userId) {
+            throw new Error('Unauthorized to edit this review');
+        }
+        assertRating(data.rating);
+        const filtered = data.comment === review.comment
+            ? unchanged(review.comment)
+            : await contentFilter.check('reviewComment', data.comment || '');
+
+        const updatedAt = new Date().toISOString();
+        await ensureAggregate(review.videoId);
+        await transactReviewWrite([
+            {
+                // Conditional on the old rating, so the aggregate is adjusted by the right amount
+                Update: {
+                    TableName: 'Reviews',
+                    Key: { id: reviewId },
+                    UpdateExpression: `set #c = :comment, #r = :rating, ratingKey = :ratingKey, updatedAt = :updatedAt, activityAt = :updatedAt${filtered.held ? ', moderationStatus = :hidden' : ''}`,
+                    ConditionExpression: '#r = :previousRating',
+                    ExpressionAttributeNames: {
+                        '#c': 'comment',
+                        '#r': 'rating'
+                    },
+                    ExpressionAttributeValues: {
+                        ':comment': filtered.text,
+                        ':rating': data.rating,
+                        ':ratingKey': ratingKeyOf({ rating: data.rating, createdAt: review.createdAt }),
+                        ':previousRating': review.rating,
+                        ':updatedAt': updatedAt,
+                        ...(filtered.held && { ':hidden': 'hidden' })
+                    }
+                }
+            },
+            ...(filtered.held ? [heldReportWrite({ reviewId }, filtered.violations)] : []),
+            ...(data.rating !== review.rating ? [{
+                Update: {
+                    TableName: AGGREGATES_TABLE,
+                    Key: { videoId: review.videoId },
+                    UpdateExpression: 'ADD ratingSum :difference, #previous :minusOne, #next :one',
+                    ExpressionAttributeNames: {
+                        '#previous': starAttribute(review.rating),
+                        '#next': starAttribute(data.rating)
+                    },
+                    ExpressionAttributeValues: {
+                        ':difference': data.rating - review.rating,
+                        ':minusOne': -1,
+                        ':one': 1
+                    }
+                }
+            }] : [])
+        ]);
+
+        const updated: Review = {
+            ...review,
+            comment: filtered.text,
+            rating: data.rating,
+            updatedAt,
+            ...(filtered.held && { moderationStatus: 'hidden' as const })
+        };
+        return withViolations(await withReplies(toViewerReview(updated, identity.userId), identity), filtered);
+    },
+
+    /**
+     * Deletes a review
+     * @async
+     * @param {string} reviewId - ID of the review to delete
+     * @param {AuthIdentity} identity - The signed-in user; must be the author
+     * @returns {Promise<void>}
+     * @throws {Error} If review not found, user unauthorized, or database operation fails
+     */
+    async deleteReview(reviewId: string, identity: AuthIdentity): Promise<void> {
+
+        const getResult = await docClient.send(new GetCommand({
+            TableName: 'Reviews',
+            Key: { id: reviewId }
+        }));
+
+        const review = getResult.Item as Review;
+        if (!review) {
+            throw new Error('Review not found');
+        }
+
+        if (review.userId !== identity.userId) {
+            throw new Error('Unauthorized to delete this review');
+        }
+
+        await removeReview(review);
+    },
+
+    /**
+     * Deletes a review and its replies without an author check. Only for moderation.
+     * @async
+     * @param {string} reviewId - ID of the review to delete
+     * @returns {Promise<void>}
+     * @throws {Error} If the review is not found or the database operation fails
+     */
+    async removeReview(reviewId: string): Promise<void> {
+        const getResult = await docClient.send(new GetCommand({
+            TableName: 'Reviews',
+            Key: { id: reviewId }
+        }));
+        if (!getResult.Item) {
+            throw new Error('Review not found');
+        }
+
+        await removeReview(getResult.Item as Review);
+    },
+
+    /**
+     * Adds a reply to a review, or to another reply up to MAX_REPLY_DEPTH levels deep. The
+     * reply policy decides who may reply; replies by the video's uploader are marked as
+     * coming from the creator.
+     * @async
+     * @param {string} reviewId - ID of the review the conversation belongs to
+     * @param {NewReply} reply - Text of the reply and the reply it answers, if any
+     * @param {AuthIdentity} identity - The signed-in user, recorded as the author
+     * @returns {Promise<Reply>} The new reply
+     * @throws {Error} If the review or parent reply is missing, the reply policy does not allow the user to reply, the thread is too deep, the text breaks a guideline whose action is to reject it, or the database operation fails
+     */
+    async addReply(reviewId: string, reply: NewReply, identity: AuthIdentity): Promise<Reply> {
+        const review = await docClient.send(new GetCommand({
+            TableName: 'Reviews',
+            Key: { id: reviewId },
+            ProjectionExpression: 'id, videoId, userId'
+        }));
+        if (!review.Item) {
+            throw new Error('Review not found');
+        }
+
+        const [policy, owner] = await Promise.all([loadReplyPolicy(), readVideoOwner(review.Item.videoId)]);
+        const isCreator = owner !== null && owner === identity.username;
+        if (!mayReply(policy, isCreator, review.Item.userId === identity.userId)) {
+            throw new Error(REPLY_POLICY_MESSAGES[policy]);
+        }
+
+        const filtered = await filterReplyContent(reply.content);
+
+        let depth = 1;
+        if (reply.parentId) {
+            const parent = await getReply(reviewId, reply.parentId);
+            if (!parent || parent.deleted) {
+                throw new Error('The reply you are answering no longer exists');
+            }
+            depth = (parent.depth ?? 1) + 1;
+            if (depth > MAX_REPLY_DEPTH) {
+                throw new Error(`Replies can only be nested ${MAX_REPLY_DEPTH} levels deep`);
+            }
+        }
+
+        const newReply: Reply = {
+            id: `${reviewId}#${randomUUID()}`,
+            reviewId,
+            parentId: reply.parentId || null,
+            depth,
+            userId: identity.userId,
+            userEmail: identity.email || reply.userEmail,
+            content: filtered.text,
+            createdAt: new Date().toISOString(),
+            ...(isCreator && { fromCreator: true }),
+            ...(filtered.held && { moderationStatus: 'hidden' as const })
+        };
+
+        const put = {
+            TableName: REPLIES_TABLE,
+            Item: newReply,
+            ConditionExpression: 'attribute_not_exists(id)'
+        };
+        if (filtered.held) {
+            await docClient.send(new TransactWriteCommand({
+                TransactItems: [{ Put: put }, heldReportWrite({ reviewId, replyId: newReply.id }, filtered.violations)]
+            }));
+        } else {
+            await docClient.send(new PutCommand(put));
+        }
+        await touchReview(reviewId);
+
+        return withViolations(newReply, filtered);
+    },
+
+    /**
+     * Changes the text of a reply
+     * @async
+     * @param {string} reviewId - ID of the review the reply belongs to
+     * @param {string} replyId - ID of the reply
+     * @param {string} content - The new text
+     * @param {AuthIdentity} identity - The signed-in user; must be the author
+     * @returns {Promise<Reply>} The updated reply
+     * @throws {Error} If the reply is missing or deleted, the user is not its author, the text breaks a guideline whose action is to reject it, or the database operation fails
+     */
+    async editReply(reviewId: string, replyId: string, content: string, identity: AuthIdentity): Promise<Reply> {
+        const reply = await getReply(reviewId, replyId);
+        if (!reply || reply.deleted) {
+            throw new Error('Reply not found');
+        }
+        if (reply.userId !== identity.userId) {
+            throw new Error('Unauthorized to edit this reply');
+        }
+        const filtered = typeof content === 'string' && content.trim() === reply.content
+            ? unchanged(reply.content)
+            : await filterReplyContent(content);
+
+        const update = {
+            TableName: REPLIES_TABLE,
+            Key: { reviewId, id: replyId },
+            UpdateExpression: `set content = :content, updatedAt = :updatedAt${filtered.held ? ', moderationStatus = :hidden' : ''}`,
+            ConditionExpression: 'userId = :userId AND attribute_not_exists(deleted)',
+            ExpressionAttributeValues: {
+                ':content': filtered.text,
+                ':updatedAt': new Date().toISOString(),
+                ':userId': identity.userId,
+                ...(filtered.held && { ':hidden': 'hidden' })
+            }
+        };
+
+        if (!filtered.held) {
+            const response = await docClient.send(new UpdateCommand({ ...update, ReturnValues: 'ALL_NEW' }));
+            await touchReview(reviewId);
+            return withViolations(toViewerReply(response.Attributes as StoredReply, identity), filtered);
+        }
+
+        await docClient.send(new TransactWriteCommand({
+            TransactItems: [{ Update: update }, heldReportWrite({ reviewId, replyId }, filtered.violations)]
+        }));
+        await touchReview(reviewId);
+        return withViolations(toViewerReply({
+            ...reply,
+            content: filtered.text,
+            updatedAt: update.ExpressionAttributeValues[':updatedAt'],
+            moderationStatus: 'hidden'
+        }, identity), filtered);
+    },
+
+    /**
+     * Deletes one of the user's replies; see removeReply for how answered replies are kept
+     * @async
+     * @param {string} reviewId - ID of the review the reply belongs to
+     * @param {string} replyId - ID of the reply
+     * @param {AuthIdentity} identity - The signed-in user; must be the author
+     * @returns {Promise<Reply[]>} The review's remaining replies, oldest first
+     * @throws {Error} If the reply is missing, the user is not its author, or the database operation fails
+     */
+    async deleteReply(reviewId: string, replyId: string, identity: AuthIdentity): Promise<Reply[]> {
+        const replies = await queryReplies(reviewId);
+        const reply = replies.find(item => item.id === replyId);
+        if (!reply || reply.deleted) {
+            throw new Error('Reply not found');
+        }
+        if (reply.userId !== identity.userId) {
+            throw new Error('Unauthorized to delete this reply');
+        }
+
+        const remaining = await removeReply(reviewId, replies, reply);
+        await touchReview(reviewId);
+        return remaining.map(item => toViewerReply(item, identity));
+    },
+
+    /**
+     * Deletes a reply without an author check, the same way its author would. Only for moderation.
+     * @async
+     * @param {string} reviewId - ID of the review the reply belongs to
+     * @param {string} replyId - ID of the reply
+     * @returns {Promise<void>}
+     * @throws {Error} If the reply is missing or the database operation fails
+     */
+    async removeReply(reviewId: string, replyId: string): Promise<void> {
+        const replies = await queryReplies(reviewId);
+        const reply = replies.find(item => item.id === replyId);
+        if (!reply || reply.deleted) {
+            throw new Error('Reply not found');
+        }
+
+        await removeReply(reviewId, replies, reply);
+        await touchReview(reviewId);
+    },
+
+    /**
+     * Records whether a user found a review helpful, replacing any earlier vote of theirs.
+     * Authors cannot vote on their own reviews.
+     * @async
+     * @param {string} reviewId - ID of the review
+     * @param {HelpfulVote | null} vote - The vote, or null to withdraw it
+     * @param {AuthIdentity} identity - The signed-in user casting the vote
+     * @returns {Promise<Review>} The review with the new counts
+     * @throws {Error} If the review is not found, is the user's own, or keeps changing while voting
+     */
+    async voteOnReview(reviewId: string, vote: HelpfulVote | null, identity: AuthIdentity): Promise<Review> {
+        if (vote !== null && vote !== 'helpful' && vote !== 'notHelpful') {
+            throw new Error('Unknown vote');
+        }
+
+        for (let attempt = 0; attempt < VOTE_ATTEMPTS; attempt++) {
+            const getResult = await docClient.send(new GetCommand({
+                TableName: 'Reviews',
+                Key: { id: reviewId }
+            }));
+
+            const review = getResult.Item as StoredReview;
+            if (!review) {
+                throw new Error('Review not found');
+            }
+
+            if (review.userId === identity.userId) {
+                throw new Error('You cannot vote on your own review');
+            }
+
+            await moveLegacyVotes(review);
+            const voteKey = { reviewId, userId: identity.userId };
+            const existing = await docClient.send(new GetCommand({
+                TableName: VOTES_TABLE,
+                Key: voteKey,
+                ConsistentRead: true
+            }));
+            const previous = (existing.Item as StoredVote | undefined)?.vote ?? null;
+            if (previous === vote) {
+                return withReplies(toViewerReview(review, identity.userId, vote ?? undefined), identity);
+            }
+
+            const change = (value: HelpfulVote) => Number(vote === value) - Number(previous === value);
+            const votedAt = new Date().toISOString();
+            const voteCondition = {
+                ConditionExpression: previous ? '#vote = :previous' : 'attribute_not_exists(userId)',
+                ...(previous && {
+                    ExpressionAttributeNames: { '#vote': 'vote' },
+                    ExpressionAttributeValues: { ':previous': previous }
+                })
+            };
+
+            try {
+                // Conditional on the vote read above, so a vote the same user cast meanwhile is not counted twice
+                await docClient.send(new TransactWriteCommand({
+                    TransactItems: [
+                        vote
+                            ? { Put: { TableName: VOTES_TABLE, Item: { ...voteKey, vote, votedAt }, ...voteCondition } }
+                            : { Delete: { TableName: VOTES_TABLE, Key: voteKey, ...voteCondition } },
+                        {
+                            Update: {
+                                TableName: 'Reviews',
+                                Key: { id: reviewId },
+                                UpdateExpression: 'ADD helpfulCount :helpful, notHelpfulCount :notHelpful SET activityAt = :now',
+                                ConditionExpression: 'attribute_exists(id)',
+                                ExpressionAttributeValues: {
+                                    ':helpful': change('helpful'),
+                                    ':notHelpful': change('notHelpful'),
+                                    ':now': votedAt
+                                }
+                            }
+                        }
+                    ]
+                }));
+            } catch (error) {
+                if (!(error instanceof Error && error.name === 'TransactionCanceledException')) {
+                    throw error;
+                }
+                continue;
+            }
+
+            const updated = (await docClient.send(new GetCommand({
+                TableName: 'Reviews',
+                Key: { id: reviewId },
+                ConsistentRead: true
+            }))).Item as StoredReview | undefined;
+            if (!updated) {
+                throw new Error('Review not found');
+            }
+            await refreshHelpfulKey(updated);
+            return withReplies(toViewerReview(updated, identity.userId, vote ?? undefined), identity);
+        }
+
+        throw new Error('The review is receiving many votes; please try again');
+    },
+
+    /**
+     * Deletes every review of a video and their replies, including those beyond the first page of results
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<number>} Number of reviews deleted
+     * @throws {Error} If the database operation fails
+     */
+    async deleteVideoReviews(videoId: string): Promise<number> {
+        const reviewIds: string[] = [];
+        let startKey: Record<string, unknown> | undefined;
+
+        do {
+            const response = await docClient.send(new QueryCommand({
+                TableName: 'Reviews',
+                IndexName: 'videoId-index',
+                KeyConditionExpression: 'videoId = :videoId',
+                ExpressionAttributeValues: {
+                    ':videoId': videoId
+                },
+                ProjectionExpression: 'id',
+                ExclusiveStartKey: startKey
+            }));
+            reviewIds.push(...(response.Items || []).map(item => item.id as string));
+            startKey = response.LastEvaluatedKey;
+        } while (startKey);
+
+        await batchDeleteReviews(reviewIds);
+        await this.deleteRatingAggregates([videoId]);
+        return reviewIds.length;
+    },
+
+    /**
+     * Deletes the rating aggregates of videos whose reviews are gone
+     * @async
+     * @param {string[]} videoIds - IDs of the videos
+     * @returns {Promise<void>}
+     * @throws {Error} If the database operation fails
+     */
+    async deleteRatingAggregates(videoIds: string[]): Promise<void> {
+        await Promise.all(videoIds.map(videoId => docClient.send(new DeleteCommand({
+            TableName: AGGREGATES_TABLE,
+            Key: { videoId }
+        }))));
+    },
+
+    /**
+     * Lists the ID and video of every review, for consistency checks
+     * @async
+     * @returns {Promise<Array<{id: string; videoId: string}>>} Every review in the table
+     * @throws {Error} If the database scan fails
+     */
+    async listReviewReferences(): Promise<Array<{ id: string; videoId: string }>> {
+        const references: Array<{ id: string; videoId: string }> = [];
+        let startKey: Record<string, unknown> | undefined;
+
+        do {
+            const response = await docClient.send(new ScanCommand({
+                TableName: 'Reviews',
+                ProjectionExpression: 'id, videoId',
+                ExclusiveStartKey: startKey
+            }));
+            references.push(...(response.Items || []) as Array<{ id: string; videoId: string }>);
+            startKey = response.LastEvaluatedKey;
+        } while (startKey);
+
+        return references;
+    },
+
+    /**
+     * Deletes reviews by ID, with their replies, without an author check. Only for maintenance tools.
+     * @async
+     * @param {string[]} reviewIds - IDs of the reviews to delete
+     * @returns {Promise<void>}
+     * @throws {Error} If the database operation fails
+     */
+    async deleteReviewsById(reviewIds: string[]): Promise<void> {
+        await batchDeleteReviews(reviewIds);
+    },
+
+    /**
+     * Merges the reviews of users who reviewed the same video more than once, from before each
+     * user was limited to one. The most recently updated review is kept; the replies to the
+     * others are moved to it, and the others are deleted with their votes and reports, adjusting
+     * the video's aggregate. A kept review with a timestamp ID is then moved to `<videoId>#<userId>`
+     * with its replies, votes and reports. Only for maintenance tools.
+     * @async
+     * @returns {Promise<ReviewMergeReport>} What was merged, and the reviews that could not be
+     * @throws {Error} If the reviews table cannot be scanned
+     */
+    async mergeDuplicateReviews(): Promise<ReviewMergeReport> {
+        const groups = new Map<string, StoredReview[]>();
+        let scanned = 0;
+        let startKey: Record<string, unknown> | undefined;
+
+        do {
+            const response = await docClient.send(new ScanCommand({
+                TableName: 'Reviews',
+                ExclusiveStartKey: startKey
+            }));
+            ((response.Items || []) as StoredReview[]).forEach(review => {
+                const key = reviewIdFor(review.videoId, review.userId);
+                groups.set(key, [...(groups.get(key) || []), review]);
+            });
+            scanned += response.Items?.length || 0;
+            startKey = response.LastEvaluatedKey;
+        } while (startKey);
+
+        const report: ReviewMergeReport = { scanned, duplicateGroups: 0, removed: 0, movedReplies: 0, rekeyed: 0, failed: [] };
+        for (const reviews of Array.from(groups.values())) {
+            if (reviews.length < 2) continue;
+            report.duplicateGroups++;
+
+            const [kept, ...older] = reviews.sort((a, b) =>
+                b.updatedAt.localeCompare(a.updatedAt) || b.createdAt.localeCompare(a.createdAt)
+            );
+            const failedBefore = report.failed.length;
+            for (const duplicate of older) {
+                try {
+                    // Moves any replies still stored on the review itself into the replies table
+                    await withReplies(duplicate, null);
+                    const replies = await queryReplies(duplicate.id);
+                    await batchWrite(REPLIES_TABLE, replies.map(reply => ({
+                        PutRequest: { Item: { ...reply, reviewId: kept.id } }
+                    })));
+                    await batchWrite(REPLIES_TABLE, replies.map(reply => ({
+                        DeleteRequest: { Key: { reviewId: duplicate.id, id: reply.id } }
+                    })));
+                    report.movedReplies += replies.length;
+
+                    await removeReview(duplicate);
+                    report.removed++;
+                } catch (error) {
+                    report.failed.push({
+                        reviewId: duplicate.id,
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+                }
+            }
+
+            // A duplicate left behind may hold the derived ID, so the kept review stays where it is
+            if (kept.id !== reviewIdFor(kept.videoId, kept.userId) && report.failed.length === failedBefore) {
+                try {
+                    await rekeyReview(kept);
+                    report.rekeyed++;
+                } catch (error) {
+                    report.failed.push({
+                        reviewId: kept.id,
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+                }
+            }
+        }
+
+        return report;
+    },
+
+    /**
+     * Gets the rating summary of a video from its stored aggregate
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<RatingSummary>} Review count, average and per-star counts
+     * @throws {Error} If the database operation fails
+     */
+    async getRatingSummary(videoId: string): Promise<RatingSummary> {
+        return toSummary(await ensureAggregate(videoId));
+    },
+
+    /**
+     * Traces how a video's ratings built up, month by month. Each point counts the reviews
+     * written up to the end of its month with their current ratings; deleted reviews are not
+     * counted in any month.
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<RatingHistoryPoint[]>} One point per month with reviews, oldest first
+     * @throws {Error} If the database query fails
+     */
+    async getRatingHistory(videoId: string): Promise<RatingHistoryPoint[]> {
+        const reviews = (await queryVideoReviews(videoId)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        const histogram = [0, 0, 0, 0, 0];
+        const points: RatingHistoryPoint[] = [];
+        let count = 0;
+        let sum = 0;
+
+        reviews.forEach(review => {
+            const period = review.createdAt.slice(0, 7);
+            histogram[review.rating - 1]++;
+            count++;
+            sum += review.rating;
+
+            const point = { period, count, average: sum / count, histogram: [...histogram] };
+            if (points.length > 0 && points[points.length - 1].period === period) {
+                points[points.length - 1] = point;
+            } else {
+                points.push(point);
+            }
+        });
+
+        return points;
+    },
+
+    /**
+     * Gets the rating summaries of several videos at once, for listings
+     * @async
+     * @param {string[]} videoIds - IDs of the videos
+     * @returns {Promise<Record<string, RatingSummary>>} The summaries by video ID
+     * @throws {Error} If the database operation fails
+     */
+    async getRatingSummaries(videoIds: string[]): Promise<Record<string, RatingSummary>> {
+        const aggregates = new Map<string, RatingAggregate>();
+
+        for (let start = 0; start < videoIds.length; start += BATCH_GET_LIMIT) {
+            const response = await docClient.send(new BatchGetCommand({
+                RequestItems: {
+                    [AGGREGATES_TABLE]: { Keys: videoIds.slice(start, start + BATCH_GET_LIMIT).map(videoId => ({ videoId })) }
+                }
+            }));
+            ((response.Responses?.[AGGREGATES_TABLE] || []) as RatingAggregate[])
+                .forEach(aggregate => aggregates.set(aggregate.videoId, aggregate));
+        }
+
+        // Unprocessed keys and videos without an aggregate yet are read one at a time
+        const missing = videoIds.filter(videoId => !aggregates.has(videoId));
+        await Promise.all(missing.map(async videoId => aggregates.set(videoId, await ensureAggregate(videoId))));
+
+        return Object.fromEntries(videoIds.map(videoId => [videoId, toSummary(aggregates.get(videoId)!)]));
+    },
+
+    /**
+     * Gets the average rating for a video from its stored aggregate
+     * @async
+     * @param {string} videoId - ID of the video to calculate average rating for
+     * @returns {Promise<{average: number, count: number}>} Object containing average rating and total review count
+     * @throws {Error} If the database query fails
+     */
+    async getAverageRating(videoId: string): Promise<{ average: number; count: number }> {
+        const { average, count } = await this.getRatingSummary(videoId);
+        return { average, count };
+    }
+};
+
+export default reviewService;
\ No newline at end of file
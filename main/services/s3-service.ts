@@ -0,0 +1,1071 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type {
+    VideoMetadata,
+    UploadResult,
+    NewVideoMetadata,
+    PendingUpload,
+    UploadProgress,
+    StorageInfo,
+    VideoListOptions,
+    VideoPage,
+    VideoMetadataUpdate,
+    VideoEditBase,
+    VideoConflictField,
+    UpdateVideoResult,
+    VideoRenditions,
+    TranscodeStatus,
+    DuplicateCheck,
+    VideoValidationResult,
+    MetadataMigrationReport,
+    RatingSummary,
+    ContentViolation
+} from '../../renderer/types/types';
+import {
+    UploadController,
+    PART_SIZE,
+    pendingUploadStore,
+    uploadReservations,
+    runResumableUpload,
+    assertSourceUnchanged
+} from './video-upload';
+import { getStorageProvider, PreconditionFailedError } from './storage';
+import { loadQuotaConfig, resolveUserQuota } from '../config/quotas';
+import { videoCatalog, CatalogEntry } from './video-catalog';
+import { deleteRenditions, getHlsUrl } from './transcoder';
+import { reviewService } from './review-service';
+import { hashFile } from './content-hash';
+import { validateVideoFile } from './video-validation';
+import { contentFilter } from './content-filter';
+import {
+    parseVideoMetadata,
+    toStoredMetadata,
+    MetadataSchemaError,
+    StoredVideoMetadata,
+    METADATA_SCHEMA_VERSION,
+    QUARANTINE_PREFIX
+} from './metadata-schema';
+
+/** How long a deleted video stays in its owner's trash before it is purged */
+const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Categories a video can be filed under; empty means uncategorised */
+const VIDEO_CATEGORIES = ['education', 'entertainment', 'gaming', 'music', 'sports', 'technology', 'other'];
+
+/** How many times a metadata change is re-read and re-applied when another write gets in first */
+const MAX_WRITE_ATTEMPTS = 5;
+
+/** Fields of a video its owner can edit, checked for conflicting edits */
+const EDITABLE_FIELDS: Array<keyof VideoMetadataUpdate> = ['title', 'description', 'category', 'isPublic'];
+
+/**
+ * Thrown when a metadata change cannot be applied because someone else changed the video
+ * first: either the same fields were edited, or other writes kept winning the race
+ * @class ConflictError
+ * @extends Error
+ */
+export class ConflictError extends Error {
+    /**
+     * @param {string} videoId - ID of the video
+     * @param {VideoConflictField[]} fields - Fields both edits changed; empty if the retries ran out
+     * @param {StoredVideoMetadata} [current] - The video as it is now stored
+     */
+    constructor(
+        readonly videoId: string,
+        readonly fields: VideoConflictField[],
+        readonly current?: StoredVideoMetadata
+    ) {
+        super(fields.length > 0
+            ? `Someone else changed the ${fields.join(', ')} of this video while you were editing it`
+            : 'This video is being changed by someone else; please try again');
+        this.name = 'ConflictError';
+    }
+}
+
+/**
+ * A replacement thumbnail sent with a metadata update
+ * @interface ThumbnailFile
+ * @property {Uint8Array} data - The image bytes
+ * @property {string} contentType - MIME type of the image
+ * @property {string} fileName - Original name of the image file
+ */
+export interface ThumbnailFile {
+    data: Uint8Array;
+    contentType: string;
+    fileName: string;
+}
+
+/**
+ * Options for a video upload
+ * @interface VideoUploadOptions
+ * @property {(progress: UploadProgress) => void} [onProgress] - Called with byte-level progress
+ * @property {UploadController} [controller] - Controller used to pause, resume or cancel the upload
+ */
+export interface VideoUploadOptions {
+    onProgress?: (progress: UploadProgress) => void;
+    controller?: UploadController;
+}
+
+/**
+ * Service class for managing video storage. Runs in the main process only, so AWS
+ * credentials never reach the renderer. Objects are read and written through the
+ * configured storage provider (S3 by default, or a local directory).
+ * @class S3Service
+ */
+class S3Service {
+    /**
+     * Gets a signed URL for a stored object
+     * @private
+     * @async
+     * @param {string} key - The storage key of the object
+     * @returns {Promise<string>} The signed URL
+     */
+    private async getSignedUrl(key: string): Promise<string> {
+        return getStorageProvider().getSignedUrl(key, 3600);
+    }
+
+    /**
+     * Stores video metadata at the current schema version and updates the video's catalog
+     * entry. Signed URLs are never stored; they are added when the video is listed. The write
+     * is conditional, so it fails rather than overwrite a version the caller has not seen.
+     * @private
+     * @async
+     * @param {CatalogEntry | VideoMetadata} metadata - The video metadata to store
+     * @param {string | null} etag - Entity tag of the version being replaced, or null for a new video
+     * @param {() => void} [onStored] - Called once the metadata is written, before the catalog is updated, so callers
+     *   know the new version is in place even if the catalog update fails
+     * @returns {Promise<void>}
+     * @throws {PreconditionFailedError} If the stored metadata changed since it was read
+     */
+    private async storeVideoMetadata(
+        metadata: CatalogEntry | VideoMetadata,
+        etag: string | null,
+        onStored?: () => void
+    ): Promise<void> {
+        const record = toStoredMetadata(metadata);
+        await getStorageProvider().putIfMatch(`metadata/${record.id}.json`, JSON.stringify(record), 'application/json', etag);
+        onStored?.();
+        await videoCatalog.upsert(record);
+    }
+
+    /**
+     * Reads video metadata together with the entity tag of the stored version
+     * @private
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<{metadata: StoredVideoMetadata, etag: string, migrated: boolean} | null>} The metadata, or null if not found
+     * @throws {MetadataSchemaError} If the stored record is invalid
+     */
+    private async readVersionedMetadata(
+        videoId: string
+    ): Promise<{ metadata: StoredVideoMetadata; etag: string; migrated: boolean } | null> {
+        const stored = await getStorageProvider().getVersioned(`metadata/${videoId}.json`);
+        return stored ? { ...parseVideoMetadata(stored.body), etag: stored.etag } : null;
+    }
+
+    /**
+     * Applies a change to a video's metadata with optimistic concurrency: the metadata is read,
+     * changed and written back only if nobody wrote in between. Otherwise the change is applied
+     * again to a fresh read, so changes to different fields merge instead of overwriting each
+     * other. The change may throw to abort, e.g. with a ConflictError when its fields overlap.
+     * @private
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {(current: StoredVideoMetadata) => CatalogEntry} change - Returns the changed metadata
+     * @param {() => void} [onStored] - Called as soon as the changed metadata is written
+     * @returns {Promise<{previous: StoredVideoMetadata, updated: StoredVideoMetadata} | null>} The replaced and stored versions, or null if the video does not exist
+     * @throws {ConflictError} If every attempt lost the race to another write
+     */
+    private async modifyVideoMetadata(
+        videoId: string,
+        change: (current: StoredVideoMetadata) => CatalogEntry,
+        onStored?: () => void
+    ): Promise<{ previous: StoredVideoMetadata; updated: StoredVideoMetadata } | null> {
+        for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+            const current = await this.readVersionedMetadata(videoId);
+            if (!current) {
+                return null;
+            }
+
+            const updated = toStoredMetadata(change(current.metadata));
+            try {
+                await this.storeVideoMetadata(updated, current.etag, onStored);
+                return { previous: current.metadata, updated };
+            } catch (error) {
+                if (!(error instanceof PreconditionFailedError)) throw error;
+            }
+        }
+        throw new ConflictError(videoId, []);
+    }
+
+    /**
+     * Adds freshly signed URLs to a catalog entry
+     * @private
+     * @async
+     * @param {CatalogEntry} entry - The catalog entry
+     * @param {string | null} username - Username of the user the URLs are for, whom the stream URL is issued to
+     * @returns {Promise<VideoMetadata>} The video metadata with signed URLs
+     */
+    private async withSignedUrls(entry: CatalogEntry, username: string | null): Promise<VideoMetadata> {
+        return {
+            ...entry,
+            videoUrl: await this.getSignedUrl(entry.videoKey),
+            thumbnailUrl: entry.thumbnailKey ? await this.getSignedUrl(entry.thumbnailKey) : '',
+            ...(entry.renditions && {
+                mp4Url: await this.getSignedUrl(entry.renditions.mp4Key),
+                hlsUrl: getHlsUrl(entry.renditions.hlsPlaylistKey, username)
+            })
+        };
+    }
+
+    /**
+     * Reads video metadata. Records written by an older version are upgraded and stored back;
+     * records that fail validation are rejected and left for the bulk migration to quarantine.
+     * @async
+     * @param {string} videoId - ID of the video to read metadata for
+     * @returns {Promise<StoredVideoMetadata | null>} The video metadata or null if not found or invalid
+     */
+    async readVideoMetadata(videoId: string): Promise<StoredVideoMetadata | null> {
+        try {
+            const stored = await this.readVersionedMetadata(videoId);
+            if (!stored) {
+                return null;
+            }
+
+            if (stored.migrated) {
+                // Whoever got in first has stored the same upgrade or a newer version
+                await this.storeVideoMetadata(stored.metadata, stored.etag).catch(error => {
+                    if (!(error instanceof PreconditionFailedError)) throw error;
+                });
+            }
+            return stored.metadata;
+        } catch (error) {
+            if (error instanceof MetadataSchemaError) {
+                console.error(`Rejected metadata of video ${videoId}:`, error.problems);
+            } else {
+                console.error('Error reading video metadata:', error);
+            }
+            return null;
+        }
+    }
+
+    /**
+     * Uploads a local video file as a resumable upload. The file's contents are checked
+     * against the upload policy first, so nothing is sent for a file that would be rejected.
+     * @async
+     * @param {string} filePath - Absolute path of the video file
+     * @param {string} key - The key to use for the file in S3
+     * @param {NewVideoMetadata} metadata - The video metadata
+     * @param {VideoUploadOptions} [options] - Progress callback and pause/resume/cancel controller
+     * @returns {Promise<UploadResult>} The result of the upload operation
+     */
+    async uploadVideo(filePath: string, key: string, metadata: NewVideoMetadata, options: VideoUploadOptions = {}): Promise<UploadResult> {
+        try {
+            const validation = await validateVideoFile(filePath);
+            if (!validation.valid) {
+                throw new Error(validation.violations.join('. '));
+            }
+            const { fields } = await this.filterVideoText(metadata);
+
+            const stats = await fs.promises.stat(filePath);
+            const record: PendingUpload = {
+                videoKey: `videos/${key}`,
+                filePath,
+                fileName: path.basename(filePath),
+                fileSize: stats.size,
+                lastModified: Math.floor(stats.mtimeMs),
+                // Hashed here rather than trusted from the renderer, so duplicate checks can rely on it
+                contentHash: await hashFile(filePath),
+                contentType: contentTypeFor(filePath),
+                partSize: PART_SIZE,
+                metadata: fields,
+                startedAt: new Date().toISOString()
+            };
+
+            return await this.transferVideo(record, options);
+        } catch (error) {
+            console.error('Upload error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Resumes an interrupted upload from its original file, e.g. after the app was restarted
+     * @async
+     * @param {string} videoKey - Video key of the interrupted upload
+     * @param {VideoUploadOptions} [options] - Progress callback and pause/resume/cancel controller
+     * @returns {Promise<UploadResult>} The result of the upload operation
+     */
+    async resumeVideoUpload(videoKey: string, options: VideoUploadOptions = {}): Promise<UploadResult> {
+        try {
+            const pending = pendingUploadStore.find(videoKey);
+            if (!pending) {
+                throw new Error('Interrupted upload not found');
+            }
+            await assertSourceUnchanged(pending);
+            return await this.transferVideo(pending, options);
+        } catch (error) {
+            console.error('Upload error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Hashes a local video file and finds videos already stored with the same contents
+     * among the user's own videos and the public ones
+     * @async
+     * @param {string} filePath - Absolute path of the video file
+     * @param {string} username - Username of the user about to upload it
+     * @returns {Promise<DuplicateCheck>} The hash and any duplicates, newest first
+     * @throws {Error} If the file cannot be read
+     */
+    async findDuplicates(filePath: string, username: string): Promise<DuplicateCheck> {
+        const contentHash = await hashFile(filePath);
+        const entries = await videoCatalog.findByContentHash(contentHash, username);
+        return {
+            contentHash,
+            duplicates: await Promise.all(entries.map(entry => this.withSignedUrls(entry, username)))
+        };
+    }
+
+    /**
+     * Checks a local video file's contents against the upload policy without uploading it
+     * @async
+     * @param {string} filePath - Absolute path of the video file
+     * @returns {Promise<VideoValidationResult>} Whether the file may be uploaded, and why not
+     */
+    async validateVideo(filePath: string): Promise<VideoValidationResult> {
+        return validateVideoFile(filePath);
+    }
+
+    /**
+     * Runs a video's title and description through the content filter
+     * @async
+     * @param {T} fields - The video's fields; only the title and description are checked
+     * @returns {Promise<{fields: T, violations: ContentViolation[]}>} The fields with offending text masked, and the guidelines they broke
+     * @throws {ContentPolicyError} If the title or description breaks a guideline whose action is to reject or hold it
+     */
+    async filterVideoText<T extends { title?: string; description?: string }>(
+        fields: T
+    ): Promise<{ fields: T; violations: ContentViolation[] }> {
+        const filtered = { ...fields };
+        const violations: ContentViolation[] = [];
+
+        if (typeof fields.title === 'string') {
+            const title = await contentFilter.check('videoTitle', fields.title);
+            filtered.title = title.text;
+            violations.push(...title.violations);
+        }
+        if (typeof fields.description === 'string') {
+            const description = await contentFilter.check('videoDescription', fields.description);
+            filtered.description = description.text;
+            violations.push(...description.violations);
+        }
+
+        return { fields: filtered, violations };
+    }
+
+    /**
+     * Lists uploads that were interrupted and can be resumed
+     * @returns {PendingUpload[]} The interrupted uploads
+     */
+    getPendingUploads(): PendingUpload[] {
+        return pendingUploadStore.list();
+    }
+
+    /**
+     * Discards an interrupted upload and releases the parts already stored
+     * @async
+     * @param {string} videoKey - Video key of the interrupted upload
+     * @returns {Promise<void>}
+     */
+    async discardPendingUpload(videoKey: string): Promise<void> {
+        const pending = pendingUploadStore.find(videoKey);
+        if (pending) {
+            await getStorageProvider().abortTransfer(pending);
+        }
+        pendingUploadStore.remove(videoKey);
+    }
+
+    /**
+     * Checks the storage limit, transfers the video and stores its metadata
+     * @private
+     * @async
+     * @param {PendingUpload} record - Persisted state of the upload
+     * @param {VideoUploadOptions} options - Progress callback and controller
+     * @returns {Promise<UploadResult>} The result of the upload operation
+     * @throws {Error} If the uploader's quota or the shared pool would be exceeded, or the transfer fails
+     */
+    private async transferVideo(record: PendingUpload, options: VideoUploadOptions): Promise<UploadResult> {
+        // Resumed uploads reuse the hash taken when they were created; the file is checked unchanged since
+        if (!record.contentHash) {
+            record.contentHash = await hashFile(record.filePath);
+        }
+
+        // Saved before checking, so uploads checked at the same time count each other
+        const resumed = Boolean(pendingUploadStore.find(record.videoKey));
+        pendingUploadStore.save(record);
+        let withinLimit = false;
+        try {
+            withinLimit = await this.checkStorageLimit(record.metadata.userId, record.fileSize, record.videoKey);
+        } finally {
+            if (!withinLimit && !resumed) {
+                pendingUploadStore.remove(record.videoKey);
+            }
+        }
+        if (!withinLimit) {
+            throw new Error('Upload would exceed your storage quota');
+        }
+
+        await runResumableUpload(
+            getStorageProvider(),
+            record,
+            options.controller ?? new UploadController(),
+            options.onProgress
+        );
+
+        const videoKey = record.videoKey;
+        const videoUrl = await this.getSignedUrl(videoKey);
+
+        const newVideo: CatalogEntry = {
+            ...record.metadata,
+            videoKey,
+            fileSize: record.fileSize,
+            contentHash: record.contentHash,
+            thumbnailKey: ''
+        };
+
+        await this.storeVideoMetadata(newVideo, null);
+        return { success: true, key: videoKey, url: videoUrl };
+    }
+
+    /**
+     * Uploads a thumbnail image for a video, replacing and deleting its current one. The key
+     * is generated here from the file's base name, so callers cannot choose where it is written.
+     * @async
+     * @param {ThumbnailFile} thumbnail - The thumbnail image
+     * @param {string} videoId - ID of the video this thumbnail belongs to
+     * @param {string} username - Username of the user uploading it; must own the video
+     * @returns {Promise<UploadResult>} The result of the upload operation
+     */
+    async uploadThumbnail(thumbnail: ThumbnailFile, videoId: string, username: string): Promise<UploadResult> {
+        const storage = getStorageProvider();
+        const thumbnailKey = `thumbnails/${randomUUID()}-${path.basename(thumbnail.fileName)}`;
+        let uploaded = false;
+        let stored = false;
+
+        try {
+            const metadata = await this.readVideoMetadata(videoId);
+            if (!metadata) {
+                throw new Error('Video not found');
+            }
+            assertEditable(metadata, username);
+            validateVideoUpdate({}, thumbnail);
+
+            await storage.put(thumbnailKey, Buffer.from(thumbnail.data), thumbnail.contentType);
+            uploaded = true;
+
+            const result = await this.modifyVideoMetadata(videoId, current => {
+                assertEditable(current, username);
+                return { ...current, thumbnailKey };
+            }, () => {
+                // The metadata now points at the new thumbnail, even if the catalog update fails
+                stored = true;
+            });
+            if (!result) {
+                throw new Error('Video not found');
+            }
+
+            const { previous } = result;
+            if (previous.thumbnailKey && previous.thumbnailKey !== thumbnailKey) {
+                await storage.delete(previous.thumbnailKey).catch(error =>
+                    console.error('Error deleting replaced thumbnail:', error)
+                );
+            }
+
+            return { success: true, key: thumbnailKey, url: await this.getSignedUrl(thumbnailKey) };
+        } catch (error) {
+            if (uploaded && !stored) {
+                await storage.delete(thumbnailKey).catch(() => undefined);
+            }
+
+            console.error('Thumbnail upload error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Removes the thumbnail reference from a video's metadata, for when the thumbnail file is lost
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<void>}
+     */
+    async clearThumbnail(videoId: string): Promise<void> {
+        await this.modifyVideoMetadata(videoId, current => ({ ...current, thumbnailKey: '' }));
+    }
+
+    /**
+     * Updates the editable fields of a video and optionally replaces its thumbnail.
+     * The previous thumbnail is deleted once the new metadata is stored. When the values the
+     * editor started from are given, only the fields the user changed are written, so edits of
+     * other fields made in the meantime are kept; if someone else changed one of the same
+     * fields, nothing is written and the result carries the conflict.
+     * @async
+     * @param {string} videoId - ID of the video to update
+     * @param {VideoMetadataUpdate} updates - Fields to change
+     * @param {string} username - Username of the user requesting the update; must own the video
+     * @param {ThumbnailFile} [thumbnail] - Replacement thumbnail
+     * @param {VideoEditBase} [expected] - The values the editor started from
+     * @returns {Promise<UpdateVideoResult>} The updated video, or the reason the update failed
+     */
+    async updateVideoMetadata(
+        videoId: string,
+        updates: VideoMetadataUpdate,
+        username: string,
+        thumbnail?: ThumbnailFile,
+        expected?: VideoEditBase
+    ): Promise<UpdateVideoResult> {
+        const storage = getStorageProvider();
+        let thumbnailKey: string | null = null;
+        let stored = false;
+
+        try {
+            const metadata = await this.readVideoMetadata(videoId);
+            if (!metadata) {
+                throw new Error('Video not found');
+            }
+            assertEditable(metadata, username);
+            validateVideoUpdate(updates, thumbnail);
+
+            const normalized = normalizeVideoUpdate(updates);
+            if (expected) {
+                // Fields left as they were are not written, so they cannot undo someone else's edit
+                EDITABLE_FIELDS.filter(field => normalized[field] === expected[field]).forEach(field => delete normalized[field]);
+            }
+            const { fields: changes, violations } = await this.filterVideoText(normalized);
+
+            if (thumbnail) {
+                thumbnailKey = `thumbnails/${randomUUID()}-${path.basename(thumbnail.fileName)}`;
+                await storage.put(thumbnailKey, Buffer.from(thumbnail.data), thumbnail.contentType);
+            }
+
+            const result = await this.modifyVideoMetadata(videoId, current => {
+                assertEditable(current, username);
+                if (expected) {
+                    const fields = findEditConflicts(current, expected, changes, thumbnailKey !== null);
+                    if (fields.length > 0) {
+                        throw new ConflictError(videoId, fields, current);
+                    }
+                }
+                return { ...current, ...changes, ...(thumbnailKey && { thumbnailKey }) };
+            }, () => {
+                // The metadata now points at the new thumbnail, even if the catalog update fails
+                stored = true;
+            });
+            if (!result) {
+                throw new Error('Video not found');
+            }
+
+            const { previous, updated } = result;
+            if (thumbnailKey && previous.thumbnailKey && previous.thumbnailKey !== thumbnailKey) {
+                await storage.delete(previous.thumbnailKey).catch(error =>
+                    console.error('Error deleting replaced thumbnail:', error)
+                );
+            }
+
+            return {
+                success: true,
+                video: await this.withSignedUrls(updated, username),
+                ...(violations.length > 0 && { contentViolations: violations })
+            };
+        } catch (error) {
+            if (thumbnailKey && !stored) {
+                await storage.delete(thumbnailKey).catch(() => undefined);
+            }
+
+            if (error instanceof ConflictError) {
+                return {
+                    success: false,
+                    error: error.message,
+                    ...(error.current && {
+                        conflict: { fields: error.fields, current: await this.withSignedUrls(error.current, username) }
+                    })
+                };
+            }
+
+            console.error('Update error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Records the progress of a video's transcoding job, and its renditions once finished
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {TranscodeStatus} transcode - The job's status
+     * @param {VideoRenditions} [renditions] - The stored renditions
+     * @returns {Promise<boolean>} False if the video no longer exists
+     */
+    async updateTranscodeStatus(videoId: string, transcode: TranscodeStatus, renditions?: VideoRenditions): Promise<boolean> {
+        const result = await this.modifyVideoMetadata(videoId, current => ({
+            ...current,
+            transcode,
+            ...(renditions && { renditions })
+        }));
+        return result !== null;
+    }
+
+    /**
+     * Lists one page of the videos a user may see, read from the catalog index.
+     * Only the videos on the page get signed URLs and their rating summaries.
+     * @async
+     * @param {VideoListOptions} options - Scope, cursor and page size
+     * @param {string | null} username - Username of the signed-in user, or null
+     * @returns {Promise<VideoPage>} The page of videos
+     * @throws {Error} If the cursor is malformed or the catalog cannot be read
+     */
+    async listVideos(options: VideoListOptions, username: string | null): Promise<VideoPage> {
+        const page = await videoCatalog.page(options, username);
+        // Ratings are decoration; the listing still loads if the reviews database is unreachable
+        const ratings = await reviewService.getRatingSummaries(page.entries.map(entry => entry.id)).catch(error => {
+            console.error('Error reading rating summaries:', error);
+            return {} as Record<string, RatingSummary>;
+        });
+
+        return {
+            videos: await Promise.all(page.entries.map(async entry => ({
+                ...await this.withSignedUrls(entry, username),
+                rating: ratings[entry.id]
+            }))),
+            nextCursor: page.nextCursor
+        };
+    }
+
+    /**
+     * Reads a video and checks that a user owns it
+     * @private
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {string} username - Username of the user acting on the video
+     * @returns {Promise<StoredVideoMetadata>} The video metadata
+     * @throws {Error} If the video does not exist or belongs to someone else
+     */
+    private async readOwnedVideo(videoId: string, username: string): Promise<StoredVideoMetadata> {
+        const metadata = await this.readVideoMetadata(videoId);
+        if (!metadata) {
+            throw new Error('Video not found');
+        }
+
+        assertOwner(metadata, username);
+        return metadata;
+    }
+
+    /**
+     * Moves a video to its owner's trash. It disappears from listings and is purged
+     * automatically once the retention period has passed.
+     * @async
+     * @param {string} videoId - ID of the video to trash
+     * @param {string} username - Username of the user requesting the delete; must own the video
+     * @returns {Promise<{success: boolean; error?: string}>} Result of the operation
+     */
+    async trashVideo(videoId: string, username: string): Promise<{ success: boolean; error?: string }> {
+        try {
+            const deletedAt = new Date();
+            const result = await this.modifyVideoMetadata(videoId, current => {
+                assertOwner(current, username);
+                return {
+                    ...current,
+                    deletedAt: deletedAt.toISOString(),
+                    purgeAfter: new Date(deletedAt.getTime() + TRASH_RETENTION_MS).toISOString()
+                };
+            });
+            if (!result) {
+                throw new Error('Video not found');
+            }
+
+            return { success: true };
+        } catch (error) {
+            console.error('Trash error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Restores a video from its owner's trash
+     * @async
+     * @param {string} videoId - ID of the video to restore
+     * @param {string} username - Username of the user requesting the restore; must own the video
+     * @returns {Promise<{success: boolean; error?: string}>} Result of the operation
+     */
+    async restoreVideo(videoId: string, username: string): Promise<{ success: boolean; error?: string }> {
+        try {
+            const result = await this.modifyVideoMetadata(videoId, current => {
+                assertOwner(current, username);
+                const { deletedAt: _deletedAt, purgeAfter: _purgeAfter, ...restored } = current;
+                return restored;
+            });
+            if (!result) {
+                throw new Error('Video not found');
+            }
+            return { success: true };
+        } catch (error) {
+            console.error('Restore error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Permanently deletes a video and its associated files
+     * @async
+     * @param {string} videoId - ID of the video to delete
+     * @param {string} username - Username of the user requesting the delete; must own the video
+     * @returns {Promise<{success: boolean; error?: string}>} Result of the delete operation
+     */
+    async deleteVideo(videoId: string, username: string): Promise<{ success: boolean; error?: string }> {
+        try {
+            const metadata = await this.readOwnedVideo(videoId, username);
+            await this.removeVideoFiles(metadata);
+            return { success: true };
+        } catch (error) {
+            console.error('Delete error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Permanently deletes every trashed video whose retention period has passed
+     * @async
+     * @returns {Promise<number>} Number of videos purged
+     */
+    async purgeExpiredTrash(): Promise<number> {
+        const now = new Date().toISOString();
+        const expired = (await videoCatalog.all()).filter(entry => entry.purgeAfter && entry.purgeAfter <= now);
+
+        let purged = 0;
+        for (const entry of expired) {
+            try {
+                // Re-read in case the video was restored since the catalog was cached
+                const metadata = await this.readVideoMetadata(entry.id);
+                if (metadata && metadata.purgeAfter && metadata.purgeAfter <= now) {
+                    await this.removeVideoFiles(metadata);
+                    purged++;
+                }
+            } catch (error) {
+                console.error(`Error purging video ${entry.id}:`, error);
+            }
+        }
+        return purged;
+    }
+
+    /**
+     * Upgrades every stored metadata record to the current schema version. Records that fail
+     * validation are moved to the quarantine prefix and dropped from the catalog, so they can
+     * be inspected and fixed by hand without breaking listings.
+     * @async
+     * @returns {Promise<MetadataMigrationReport>} What was upgraded, quarantined and failed
+     * @throws {Error} If the metadata files cannot be listed
+     */
+    async migrateAllMetadata(): Promise<MetadataMigrationReport> {
+        const storage = getStorageProvider();
+        const objects = (await storage.list('metadata/')).filter(item => item.key.endsWith('.json'));
+        const report: MetadataMigrationReport = {
+            schemaVersion: METADATA_SCHEMA_VERSION,
+            scanned: 0,
+            migrated: 0,
+            current: 0,
+            quarantined: [],
+            failed: []
+        };
+
+        for (const object of objects) {
+            const videoId = object.key.slice('metadata/'.length, -'.json'.length);
+            try {
+                const stored = await storage.getVersioned(object.key);
+                if (!stored) continue;
+                report.scanned++;
+
+                try {
+                    const { metadata, migrated } = parseVideoMetadata(stored.body);
+                    if (!migrated) {
+                        report.current++;
+                    } else {
+                        try {
+                            await this.storeVideoMetadata(metadata, stored.etag);
+                            report.migrated++;
+                        } catch (error) {
+                            // Changed since it was read, which stores it at the current version
+                            if (!(error instanceof PreconditionFailedError)) throw error;
+                            report.current++;
+                        }
+                    }
+                } catch (error) {
+                    if (!(error instanceof MetadataSchemaError)) throw error;
+
+                    const quarantineKey = `${QUARANTINE_PREFIX}${videoId}.json`;
+                    await storage.put(quarantineKey, stored.body, 'application/json');
+                    await storage.delete(object.key);
+                    await videoCatalog.remove(videoId);
+                    report.quarantined.push({ videoId, key: quarantineKey, problems: error.problems });
+                }
+            } catch (error) {
+                report.failed.push({ videoId, error: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Deletes a video's files, reviews, metadata and catalog entry. The metadata goes last, so
+     * a failure part way through leaves a record the consistency checker can find.
+     * @async
+     * @param {CatalogEntry} metadata - Metadata of the video
+     * @returns {Promise<void>}
+     */
+    async removeVideoFiles(metadata: CatalogEntry): Promise<void> {
+        const storage = getStorageProvider();
+
+        if (metadata.videoKey) {
+            await storage.delete(metadata.videoKey);
+        }
+
+        if (metadata.thumbnailKey) {
+            await storage.delete(metadata.thumbnailKey);
+        }
+
+        await deleteRenditions(metadata.id);
+        await reviewService.deleteVideoReviews(metadata.id);
+        await storage.delete(`metadata/${metadata.id}.json`);
+        await videoCatalog.remove(metadata.id);
+    }
+
+    /**
+     * Calculates the total storage used by videos, including their transcoded renditions
+     * @private
+     * @async
+     * @returns {Promise<number>} Total storage used in bytes
+     */
+    private async calculateTotalStorage(): Promise<number> {
+        try {
+            const storage = getStorageProvider();
+            const objects = (await Promise.all([storage.list('videos/'), storage.list('renditions/')])).flat();
+            return objects.reduce((total, object) => total + object.size, 0);
+        } catch (error) {
+            console.error('Error calculating storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Calculates the storage used by the videos of one user, including their transcoded
+     * renditions. Videos and renditions stored before sizes were recorded in their metadata
+     * are measured from the stored objects.
+     * @private
+     * @async
+     * @param {string} username - Username of the owner
+     * @returns {Promise<number>} Storage used by the user in bytes
+     */
+    private async calculateUserStorage(username: string): Promise<number> {
+        const storage = getStorageProvider();
+        const entries = (await videoCatalog.all()).filter(entry => entry.userId === username);
+
+        const sizes = await Promise.all(
+            entries.map(async (entry) => {
+                let size = entry.fileSize;
+                if (size === undefined) {
+                    const stored = entry.videoKey ? await storage.head(entry.videoKey) : null;
+                    size = stored ? stored.size : 0;
+                }
+
+                let renditionSize = entry.renditions?.totalSize;
+                if (entry.renditions && renditionSize === undefined) {
+                    const objects = await storage.list(`renditions/${entry.id}/`);
+                    renditionSize = objects.reduce((total, object) => total + object.size, 0);
+                }
+                return size + (renditionSize ?? 0);
+            })
+        );
+
+        return sizes.reduce((total, size) => total + size, 0);
+    }
+
+    /**
+     * Checks if uploading a file would exceed the user's quota or the shared pool. Uploads in
+     * flight, interrupted and waiting in the queue count as if they were already stored.
+     * @async
+     * @param {string} username - Username of the uploader
+     * @param {number} fileSize - Size of the file to be uploaded in bytes
+     * @param {string} [videoKey] - Video key of the upload being checked, so its own reservation is not counted twice
+     * @returns {Promise<boolean>} Whether the upload fits
+     */
+    async checkStorageLimit(username: string, fileSize: number, videoKey?: string): Promise<boolean> {
+        try {
+            const info = await this.getStorageInfo(username);
+            const reservations = uploadReservations.list(videoKey);
+            const reservedByUser = reservations
+                .filter(reservation => reservation.userId === username)
+                .reduce((total, reservation) => total + reservation.fileSize, 0);
+            const reservedInPool = reservations.reduce((total, reservation) => total + reservation.fileSize, 0);
+
+            return fileSize + reservedByUser <= Math.max(info.total - info.used, 0)
+                && fileSize + reservedInPool <= info.pool.available;
+        } catch (error) {
+            console.error('Error checking storage limit:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Gets storage usage of a user together with the shared pool
+     * @async
+     * @param {string} username - Username of the user
+     * @returns {Promise<StorageInfo>} Storage usage in bytes
+     */
+    async getStorageInfo(username: string): Promise<StorageInfo> {
+        const config = await loadQuotaConfig();
+        const { tier, limitBytes } = resolveUserQuota(config, username);
+        const [used, poolUsed] = await Promise.all([
+            this.calculateUserStorage(username),
+            this.calculateTotalStorage()
+        ]);
+
+        const poolAvailable = Math.max(config.poolBytes - poolUsed, 0);
+        return {
+            used,
+            total: limitBytes,
+            available: Math.min(Math.max(limitBytes - used, 0), poolAvailable),
+            tier,
+            pool: {
+                used: poolUsed,
+                total: config.poolBytes,
+                available: poolAvailable
+            },
+            warningThresholds: config.warningThresholds
+        };
+    }
+
+}
+
+/**
+ * Checks that a user owns a video
+ * @param {CatalogEntry} metadata - The video
+ * @param {string} username - Username of the user acting on the video
+ * @throws {Error} If the video belongs to someone else
+ */
+const assertOwner = (metadata: CatalogEntry, username: string): void => {
+    if (metadata.userId !== username) {
+        throw new Error('Unauthorized to change this video');
+    }
+};
+
+/**
+ * Checks that a user may edit a video: they own it and it is not in the trash
+ * @param {CatalogEntry} metadata - The video
+ * @param {string} username - Username of the user editing the video
+ * @throws {Error} If the video belongs to someone else or is in the trash
+ */
+const assertEditable = (metadata: CatalogEntry, username: string): void => {
+    assertOwner(metadata, username);
+    if (metadata.deletedAt) {
+        throw new Error('Restore the video from the trash before editing it');
+    }
+};
+
+/**
+ * Brings an update into the form it is stored in: the title trimmed and the category in lower case
+ * @param {VideoMetadataUpdate} updates - Fields to change
+ * @returns {VideoMetadataUpdate} The fields as they will be stored
+ */
+const normalizeVideoUpdate = (updates: VideoMetadataUpdate): VideoMetadataUpdate => ({
+    ...(updates.title !== undefined && { title: updates.title.trim() }),
+    ...(updates.description !== undefined && { description: updates.description }),
+    ...(updates.category !== undefined && { category: updates.category.toLowerCase() }),
+    ...(updates.isPublic !== undefined && { isPublic: updates.isPublic })
+});
+
+/**
+ * Finds the fields an edit changes that someone else has also changed, to a different value,
+ * since the editor loaded the video
+ * @param {CatalogEntry} current - The video as it is now stored
+ * @param {VideoEditBase} expected - The values the editor started from
+ * @param {VideoMetadataUpdate} changes - The fields the edit changes
+ * @param {boolean} replacesThumbnail - Whether the edit replaces the thumbnail
+ * @returns {VideoConflictField[]} The overlapping fields
+ */
+const findEditConflicts = (
+    current: CatalogEntry,
+    expected: VideoEditBase,
+    changes: VideoMetadataUpdate,
+    replacesThumbnail: boolean
+): VideoConflictField[] => {
+    const fields: VideoConflictField[] = EDITABLE_FIELDS.filter(field =>
+        changes[field] !== undefined && current[field] !== expected[field] && current[field] !== changes[field]
+    );
+    if (replacesThumbnail && current.thumbnailKey !== expected.thumbnailKey) {
+        fields.push('thumbnail');
+    }
+    return fields;
+};
+
+/**
+ * Checks a metadata update against the same rules the upload form applies
+ * @param {VideoMetadataUpdate} updates - Fields to change
+ * @param {ThumbnailFile} [thumbnail] - Replacement thumbnail
+ * @throws {Error} If a field is invalid
+ */
+const validateVideoUpdate = (updates: VideoMetadataUpdate, thumbnail?: ThumbnailFile): void => {
+    if (updates.title !== undefined && !updates.title.trim()) {
+        throw new Error('Please enter a title');
+    }
+    if (updates.category !== undefined && updates.category !== '' && !VIDEO_CATEGORIES.includes(updates.category.toLowerCase())) {
+        throw new Error('Unknown category');
+    }
+    if (updates.isPublic !== undefined && typeof updates.isPublic !== 'boolean') {
+        throw new Error('Visibility must be true or false');
+    }
+    if (thumbnail && !thumbnail.contentType.startsWith('image/')) {
+        throw new Error('Please select a valid image file');
+    }
+};
+
+/**
+ * Guesses the MIME type of a video from its file extension
+ * @param {string} filePath - Path of the video file
+ * @returns {string} The MIME type
+ */
+const contentTypeFor = (filePath: string): string => {
+    const types: Record<string, string> = {
+        '.mp4': 'video/mp4',
+        '.webm': 'video/webm',
+        '.mkv': 'video/x-matroska',
+        '.mov': 'video/quicktime',
+        '.avi': 'video/x-msvideo',
+        '.wmv': 'video/x-ms-wmv',
+        '.flv': 'video/x-flv'
+    };
+    return types[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+};
+
+export const s3Service = new S3Service();
@@ -0,0 +1,33 @@
+import path from 'path';
+import { app } from 'electron';
+import { ENV } from '../../config/env';
+import { StorageProvider } from './types';
+import { S3StorageProvider } from './s3-provider';
+import { LocalStorageProvider } from './local-provider';
+
+export * from './types';
+export { S3StorageProvider } from './s3-provider';
+export { LocalStorageProvider, LOCAL_MEDIA_SCHEME } from './local-provider';
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Gets the storage provider selected by `STORAGE_PROVIDER`, creating it on first use
+ * so the local directory is resolved after the userData path has been set.
+ * @returns {StorageProvider} The configured provider
+ */
+export const getStorageProvider = (): StorageProvider => {
+    if (!provider) {
+        provider = ENV.STORAGE_PROVIDER === 'local'
+            ? new LocalStorageProvider(ENV.LOCAL_STORAGE_DIR || path.join(app.getPath('userData'), 'local-storage'))
+            : new S3StorageProvider({
+                region: ENV.AWS_REGION,
+                bucket: ENV.AWS_BUCKET_NAME,
+                accessKeyId: ENV.AWS_ACCESS_KEY_ID,
+                secretAccessKey: ENV.AWS_SECRET_ACCESS_KEY,
+                endpoint: ENV.S3_ENDPOINT,
+                forcePathStyle: ENV.S3_FORCE_PATH_STYLE
+            });
+    }
+    return provider;
+};
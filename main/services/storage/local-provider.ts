@@ -0,0 +1,186 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import type { PendingUpload } from '../../../renderer/types/types';
+import type { UploadController } from '../video-upload';
+import { uploadBandwidth } from '../bandwidth';
+import { PreconditionFailedError, StorageObject, StorageProvider, VersionedObject } from './types';
+
+/** Custom protocol the renderer loads local videos and thumbnails from */
+export const LOCAL_MEDIA_SCHEME = 'local-media';
+
+/** Suffix of files that are still being written by an upload */
+const PARTIAL_SUFFIX = '.part';
+
+/**
+ * Computes the entity tag of a file's contents the way S3 does for single-part objects
+ * @param {Buffer | string} body - The contents
+ * @returns {string} The quoted MD5 of the contents
+ */
+const etagOf = (body: Buffer | string): string => `"${createHash('md5').update(body).digest('hex')}"`;
+
+/**
+ * Storage provider that keeps objects as files under a local directory, so the app can be
+ * developed and demoed without a bucket. Files are served to the renderer through the
+ * `local-media://` protocol registered in background.ts.
+ * @class LocalStorageProvider
+ */
+export class LocalStorageProvider implements StorageProvider {
+    /** Conditional writes in progress per key; each waits for the previous one */
+    private readonly writeLocks = new Map<string, Promise<unknown>>();
+
+    constructor(private readonly rootDir: string) {}
+
+    /**
+     * Maps a key to a path under the root directory
+     * @param {string} key - Key of the object
+     * @returns {string} Absolute path of the file
+     * @throws {Error} If the key would escape the root directory
+     */
+    resolvePath(key: string): string {
+        const filePath = path.resolve(this.rootDir, ...key.split('/'));
+        if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    }
+
+    async put(key: string, body: Buffer | string, _contentType: string): Promise<void> {
+        const filePath = this.resolvePath(key);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, body);
+    }
+
+    /**
+     * Compares and writes under a per-key lock, so conditional writes from this process
+     * cannot interleave. The file is replaced by renaming, so readers never see half of it.
+     */
+    async putIfMatch(key: string, body: Buffer | string, _contentType: string, etag: string | null): Promise<string> {
+        const filePath = this.resolvePath(key);
+        const write = (this.writeLocks.get(key) ?? Promise.resolve()).then(async () => {
+            const current = await this.getVersioned(key);
+            if ((current ? current.etag : null) !== etag) {
+                throw new PreconditionFailedError(key);
+            }
+
+            const tempPath = `${filePath}.write${PARTIAL_SUFFIX}`;
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(tempPath, body);
+            await fs.promises.rename(tempPath, filePath);
+            return etagOf(body);
+        });
+
+        const settled = write.catch(() => undefined);
+        this.writeLocks.set(key, settled);
+        settled.then(() => {
+            if (this.writeLocks.get(key) === settled) this.writeLocks.delete(key);
+        });
+        return write;
+    }
+
+    async putFile(key: string, filePath: string, _contentType: string): Promise<void> {
+        const targetPath = this.resolvePath(key);
+        await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+        await fs.promises.copyFile(filePath, targetPath);
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            return await fs.promises.readFile(this.resolvePath(key));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async getVersioned(key: string): Promise<VersionedObject | null> {
+        const body = await this.get(key);
+        return body ? { body, etag: etagOf(body) } : null;
+    }
+
+    async getFile(key: string, filePath: string, onProgress?: (loaded: number, total: number) => void): Promise<void> {
+        const sourcePath = this.resolvePath(key);
+        const { size } = await fs.promises.stat(sourcePath);
+        await fs.promises.copyFile(sourcePath, filePath);
+        onProgress?.(size, size);
+    }
+
+    async list(prefix: string): Promise<StorageObject[]> {
+        const objects: StorageObject[] = [];
+
+        const walk = async (dir: string) => {
+            const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+            for (const entry of entries) {
+                const entryPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    await walk(entryPath);
+                } else if (!entry.name.endsWith(PARTIAL_SUFFIX)) {
+                    const key = path.relative(this.rootDir, entryPath).split(path.sep).join('/');
+                    if (key.startsWith(prefix)) {
+                        const stats = await fs.promises.stat(entryPath);
+                        objects.push({ key, size: stats.size, lastModified: stats.mtime });
+                    }
+                }
+            }
+        };
+
+        // Only walk the directory part of the prefix; the rest is matched per key
+        const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+        await walk(prefixDir ? this.resolvePath(prefixDir) : this.rootDir);
+        return objects;
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.promises.rm(this.resolvePath(key), { force: true });
+    }
+
+    async head(key: string): Promise<StorageObject | null> {
+        try {
+            const stats = await fs.promises.stat(this.resolvePath(key));
+            return { key, size: stats.size, lastModified: stats.mtime };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async getSignedUrl(key: string, _expiresIn: number): Promise<string> {
+        return `${LOCAL_MEDIA_SCHEME}://storage/${key.split('/').map(encodeURIComponent).join('/')}`;
+    }
+
+    /**
+     * Copies the file into storage. The copy is written to a `.part` file first, so a later
+     * attempt appends to it instead of starting over.
+     */
+    async transfer(record: PendingUpload, controller: UploadController, reportProgress: (loaded: number) => void): Promise<void> {
+        const targetPath = this.resolvePath(record.videoKey);
+        const partialPath = targetPath + PARTIAL_SUFFIX;
+        await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+
+        const existing = await fs.promises.stat(partialPath).catch(() => null);
+        let loaded = existing && existing.size <= record.fileSize ? existing.size : 0;
+        reportProgress(loaded);
+
+        const source = fs.createReadStream(record.filePath, { start: loaded });
+        const target = fs.createWriteStream(partialPath, { flags: loaded > 0 ? 'a' : 'w' });
+        source.on('data', (chunk) => {
+            loaded += chunk.length;
+            reportProgress(loaded);
+        });
+
+        const abortController = new AbortController();
+        controller.bindAbort(() => abortController.abort());
+
+        await pipeline(source, uploadBandwidth.throttle(), target, { signal: abortController.signal });
+        await fs.promises.rename(partialPath, targetPath);
+    }
+
+    async abortTransfer(record: PendingUpload): Promise<void> {
+        await fs.promises.rm(this.resolvePath(record.videoKey) + PARTIAL_SUFFIX, { force: true });
+    }
+}
@@ -0,0 +1,418 @@
+import {
+    S3Client,
+    PutObjectCommand,
+    GetObjectCommand,
+    DeleteObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+    ListObjectsV2CommandOutput,
+    ListPartsCommand,
+    UploadPartCommand,
+    CompleteMultipartUploadCommand,
+    AbortMultipartUploadCommand,
+    CompletedPart,
+    ListPartsCommandOutput
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Upload } from '@aws-sdk/lib-storage';
+import fs from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { PendingUpload } from '../../../renderer/types/types';
+import { UploadController, pendingUploadStore } from '../video-upload';
+import { uploadBandwidth } from '../bandwidth';
+import { PreconditionFailedError, StorageObject, StorageProvider, VersionedObject } from './types';
+
+/** Number of parts uploaded in parallel */
+const QUEUE_SIZE = 4;
+
+/**
+ * Connection settings for an S3 or S3-compatible (e.g. MinIO) bucket
+ * @interface S3ProviderConfig
+ * @property {string} region - AWS region of the bucket
+ * @property {string} bucket - Name of the bucket
+ * @property {string} accessKeyId - Access key ID
+ * @property {string} secretAccessKey - Secret access key
+ * @property {string} [endpoint] - Custom endpoint URL for S3-compatible services
+ * @property {boolean} [forcePathStyle] - Use path-style URLs, as most S3-compatible services require
+ */
+export interface S3ProviderConfig {
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    endpoint?: string;
+    forcePathStyle?: boolean;
+}
+
+/**
+ * Storage provider backed by an S3 bucket
+ * @class S3StorageProvider
+ */
+export class S3StorageProvider implements StorageProvider {
+    private readonly client: S3Client;
+    private readonly bucket: string;
+
+    constructor(config: S3ProviderConfig) {
+        this.client = new S3Client({
+            region: config.region,
+            credentials: {
+                accessKeyId: config.accessKeyId,
+                secretAccessKey: config.secretAccessKey
+            },
+            endpoint: config.endpoint || undefined,
+            forcePathStyle: config.forcePathStyle,
+            // Resumed parts are sent without per-part checksums, so multipart uploads must not require them
+            requestChecksumCalculation: 'WHEN_REQUIRED'
+        });
+        this.bucket = config.bucket;
+    }
+
+    async put(key: string, body: Buffer | string, contentType: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: body,
+            ContentType: contentType
+        }));
+    }
+
+    /**
+     * Uses S3 conditional writes: `If-Match` to replace a known version, `If-None-Match: *`
+     * to create. A 409 means a concurrent conditional write to the same key won the race.
+     */
+    async putIfMatch(key: string, body: Buffer | string, contentType: string, etag: string | null): Promise<string> {
+        try {
+            const response = await this.client.send(new PutObjectCommand({
+                Bucket: this.bucket,
+                Key: key,
+                Body: body,
+                ContentType: contentType,
+                ...(etag ? { IfMatch: etag } : { IfNoneMatch: '*' })
+            }));
+            return response.ETag || '';
+        } catch (error) {
+            const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+            if (status === 412 || status === 409 || (etag && status === 404)) {
+                throw new PreconditionFailedError(key);
+            }
+            throw error;
+        }
+    }
+
+    async putFile(key: string, filePath: string, contentType: string): Promise<void> {
+        const upload = new Upload({
+            client: this.client,
+            params: {
+                Bucket: this.bucket,
+                Key: key,
+                Body: fs.createReadStream(filePath),
+                ContentType: contentType
+            },
+            queueSize: QUEUE_SIZE
+        });
+        await upload.done();
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            const response = await this.client.send(new GetObjectCommand({
+                Bucket: this.bucket,
+                Key: key
+            }));
+            const contents = await response.Body?.transformToByteArray();
+            return contents ? Buffer.from(contents) : null;
+        } catch (error) {
+            if (error instanceof Error && error.name === 'NoSuchKey') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async getVersioned(key: string): Promise<VersionedObject | null> {
+        try {
+            const response = await this.client.send(new GetObjectCommand({
+                Bucket: this.bucket,
+                Key: key
+            }));
+            const contents = await response.Body?.transformToByteArray();
+            return contents && response.ETag ? { body: Buffer.from(contents), etag: response.ETag } : null;
+        } catch (error) {
+            if (error instanceof Error && error.name === 'NoSuchKey') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async getFile(key: string, filePath: string, onProgress?: (loaded: number, total: number) => void): Promise<void> {
+        const response = await this.client.send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key
+        }));
+        if (!response.Body) {
+            throw new Error(`Object ${key} has no body`);
+        }
+
+        const body = response.Body as Readable;
+        const total = response.ContentLength || 0;
+        let loaded = 0;
+        body.on('data', (chunk: Buffer) => {
+            loaded += chunk.length;
+            onProgress?.(loaded, total);
+        });
+        await pipeline(body, fs.createWriteStream(filePath));
+    }
+
+    async list(prefix: string): Promise<StorageObject[]> {
+        const objects: StorageObject[] = [];
+        let continuationToken: string | undefined = undefined;
+        let isTruncated = true;
+
+        while (isTruncated) {
+            const response: ListObjectsV2CommandOutput = await this.client.send(new ListObjectsV2Command({
+                Bucket: this.bucket,
+                Prefix: prefix,
+                ContinuationToken: continuationToken
+            }));
+
+            response.Contents?.forEach(item => {
+                if (item.Key) {
+                    objects.push({ key: item.Key, size: item.Size || 0, lastModified: item.LastModified });
+                }
+            });
+
+            isTruncated = response.IsTruncated || false;
+            continuationToken = response.NextContinuationToken;
+        }
+
+        return objects;
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({
+            Bucket: this.bucket,
+            Key: key
+        }));
+    }
+
+    async head(key: string): Promise<StorageObject | null> {
+        try {
+            const response = await this.client.send(new HeadObjectCommand({
+                Bucket: this.bucket,
+                Key: key
+            }));
+            return { key, size: response.ContentLength || 0, lastModified: response.LastModified };
+        } catch (error) {
+            if (error instanceof Error && error.name === 'NotFound') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async getSignedUrl(key: string, expiresIn: number): Promise<string> {
+        const command = new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key
+        });
+        return getSignedUrl(this.client, command, { expiresIn });
+    }
+
+    /**
+     * Transfers a file as a multipart upload.
+     * Fresh uploads go through lib-storage `Upload`; once an upload ID exists, later attempts
+     * list the parts already on S3 and only send the missing ones.
+     */
+    async transfer(record: PendingUpload, controller: UploadController, reportProgress: (loaded: number) => void): Promise<void> {
+        if (record.uploadId) {
+            await uploadRemainingParts(this.client, this.bucket, record, controller, reportProgress);
+        } else {
+            await uploadFromStart(this.client, this.bucket, record, controller, reportProgress);
+        }
+    }
+
+    async abortTransfer(record: PendingUpload): Promise<void> {
+        await abortMultipartUpload(this.client, this.bucket, record);
+    }
+}
+
+/**
+ * Aborts the multipart upload on S3 so its stored parts are released
+ * @private
+ * @async
+ * @param {S3Client} client - S3 client to use
+ * @param {string} bucket - Target bucket
+ * @param {PendingUpload} record - The upload to abort
+ * @returns {Promise<void>}
+ */
+async function abortMultipartUpload(client: S3Client, bucket: string, record: PendingUpload): Promise<void> {
+    if (!record.uploadId) return;
+    try {
+        await client.send(new AbortMultipartUploadCommand({
+            Bucket: bucket,
+            Key: record.videoKey,
+            UploadId: record.uploadId
+        }));
+    } catch (error) {
+        console.error('Error aborting multipart upload:', error);
+    }
+}
+
+/**
+ * Starts a new upload with lib-storage, recording the multipart upload ID as soon as it is known
+ * @private
+ */
+async function uploadFromStart(
+    client: S3Client,
+    bucket: string,
+    record: PendingUpload,
+    controller: UploadController,
+    reportProgress: (loaded: number) => void
+): Promise<void> {
+    const upload = new Upload({
+        client,
+        params: {
+            Bucket: bucket,
+            Key: record.videoKey,
+            Body: fs.createReadStream(record.filePath).pipe(uploadBandwidth.throttle()),
+            ContentType: record.contentType
+        },
+        partSize: record.partSize,
+        queueSize: QUEUE_SIZE,
+        leavePartsOnError: true
+    });
+
+    const rememberUploadId = () => {
+        if (upload.uploadId && !record.uploadId) {
+            record.uploadId = upload.uploadId;
+            pendingUploadStore.save(record);
+        }
+    };
+
+    upload.on('httpUploadProgress', (progress) => {
+        rememberUploadId();
+        reportProgress(progress.loaded ?? 0);
+    });
+    controller.bindAbort(() => {
+        upload.abort();
+    });
+
+    try {
+        await upload.done();
+    } finally {
+        rememberUploadId();
+    }
+}
+
+/**
+ * Continues an existing multipart upload by sending only the parts S3 does not have yet
+ * @private
+ */
+async function uploadRemainingParts(
+    client: S3Client,
+    bucket: string,
+    record: PendingUpload,
+    controller: UploadController,
+    reportProgress: (loaded: number) => void
+): Promise<void> {
+    const totalParts = Math.max(1, Math.ceil(record.fileSize / record.partSize));
+    const partLength = (partNumber: number) =>
+        Math.min(record.partSize, record.fileSize - (partNumber - 1) * record.partSize);
+
+    const uploaded = await listUploadedParts(client, bucket, record);
+    const completed = new Map<number, CompletedPart>();
+    let loaded = 0;
+
+    // Parts with an unexpected size were written with different settings and are sent again
+    uploaded.forEach(({ part, size }) => {
+        if (part.PartNumber && part.PartNumber <= totalParts && size === partLength(part.PartNumber)) {
+            completed.set(part.PartNumber, part);
+            loaded += size;
+        }
+    });
+    reportProgress(loaded);
+
+    const missing = Array.from({ length: totalParts }, (_, i) => i + 1)
+        .filter(partNumber => !completed.has(partNumber));
+
+    const abortController = new AbortController();
+    controller.bindAbort(() => abortController.abort());
+
+    const fileHandle = await fs.promises.open(record.filePath, 'r');
+
+    const worker = async () => {
+        while (missing.length > 0) {
+            if (abortController.signal.aborted) {
+                throw new Error('Upload interrupted');
+            }
+            const partNumber = missing.shift() as number;
+            const chunk = Buffer.alloc(partLength(partNumber));
+            await fileHandle.read(chunk, 0, chunk.length, (partNumber - 1) * record.partSize);
+            await uploadBandwidth.take(chunk.length, abortController.signal);
+
+            const response = await client.send(new UploadPartCommand({
+                Bucket: bucket,
+                Key: record.videoKey,
+                UploadId: record.uploadId,
+                PartNumber: partNumber,
+                Body: chunk
+            }), { abortSignal: abortController.signal });
+
+            completed.set(partNumber, { PartNumber: partNumber, ETag: response.ETag });
+            loaded += chunk.length;
+            reportProgress(loaded);
+        }
+    };
+
+    try {
+        await Promise.all(Array.from({ length: Math.min(QUEUE_SIZE, missing.length) }, worker));
+    } finally {
+        await fileHandle.close();
+    }
+
+    await client.send(new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: record.videoKey,
+        UploadId: record.uploadId,
+        MultipartUpload: {
+            Parts: Array.from(completed.values()).sort((a, b) => (a.PartNumber ?? 0) - (b.PartNumber ?? 0))
+        }
+    }));
+}
+
+/**
+ * Lists every part already stored for a multipart upload, following pagination
+ * @private
+ */
+async function listUploadedParts(
+    client: S3Client,
+    bucket: string,
+    record: PendingUpload
+): Promise<Array<{ part: CompletedPart; size: number }>> {
+    const parts: Array<{ part: CompletedPart; size: number }> = [];
+    let partNumberMarker: string | undefined = undefined;
+    let isTruncated = true;
+
+    while (isTruncated) {
+        const response: ListPartsCommandOutput = await client.send(new ListPartsCommand({
+            Bucket: bucket,
+            Key: record.videoKey,
+            UploadId: record.uploadId,
+            PartNumberMarker: partNumberMarker
+        }));
+
+        response.Parts?.forEach(part => {
+            parts.push({
+                part: { PartNumber: part.PartNumber, ETag: part.ETag },
+                size: part.Size ?? 0
+            });
+        });
+
+        isTruncated = response.IsTruncated || false;
+        partNumberMarker = response.NextPartNumberMarker;
+    }
+
+    return parts;
+}
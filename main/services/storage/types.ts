@@ -0,0 +1,146 @@
+import type { PendingUpload } from '../../../renderer/types/types';
+import type { UploadController } from '../video-upload';
+
+/**
+ * An object held by a storage provider
+ * @interface StorageObject
+ * @property {string} key - Key of the object, e.g. `videos/abc.mp4`
+ * @property {number} size - Size of the object in bytes
+ * @property {Date} [lastModified] - When the object was last written
+ */
+export interface StorageObject {
+    key: string;
+    size: number;
+    lastModified?: Date;
+}
+
+/**
+ * An object read together with its entity tag, so it can be written back conditionally
+ * @interface VersionedObject
+ * @property {Buffer} body - Contents of the object
+ * @property {string} etag - Entity tag of this version of the object
+ */
+export interface VersionedObject {
+    body: Buffer;
+    etag: string;
+}
+
+/**
+ * Thrown by a conditional write when the object was changed, created or deleted since it was read
+ * @class PreconditionFailedError
+ * @extends Error
+ */
+export class PreconditionFailedError extends Error {
+    /**
+     * @param {string} key - Key of the object
+     */
+    constructor(readonly key: string) {
+        super(`${key} was changed by someone else`);
+        this.name = 'PreconditionFailedError';
+    }
+}
+
+/**
+ * A place where videos, thumbnails and metadata files are kept.
+ * Keys use `/` separated prefixes (`videos/`, `thumbnails/`, `metadata/`) regardless of backend.
+ * @interface StorageProvider
+ */
+export interface StorageProvider {
+    /**
+     * Writes an object
+     * @param {string} key - Key of the object
+     * @param {Buffer | string} body - Contents of the object
+     * @param {string} contentType - MIME type of the contents
+     */
+    put(key: string, body: Buffer | string, contentType: string): Promise<void>;
+
+    /**
+     * Writes an object only if it is still the version that was read
+     * @param {string} key - Key of the object
+     * @param {Buffer | string} body - Contents of the object
+     * @param {string} contentType - MIME type of the contents
+     * @param {string | null} etag - Entity tag the object was read with, or null if it must not exist yet
+     * @returns {Promise<string>} Entity tag of the written version
+     * @throws {PreconditionFailedError} If the object was changed, created or deleted in the meantime
+     */
+    putIfMatch(key: string, body: Buffer | string, contentType: string, etag: string | null): Promise<string>;
+
+    /**
+     * Writes an object from a local file without reading it into memory
+     * @param {string} key - Key of the object
+     * @param {string} filePath - Absolute path of the file
+     * @param {string} contentType - MIME type of the contents
+     */
+    putFile(key: string, filePath: string, contentType: string): Promise<void>;
+
+    /**
+     * Reads an object
+     * @param {string} key - Key of the object
+     * @returns {Promise<Buffer | null>} The contents, or null if the object does not exist
+     */
+    get(key: string): Promise<Buffer | null>;
+
+    /**
+     * Reads an object together with its entity tag
+     * @param {string} key - Key of the object
+     * @returns {Promise<VersionedObject | null>} The contents and tag, or null if the object does not exist
+     */
+    getVersioned(key: string): Promise<VersionedObject | null>;
+
+    /**
+     * Reads an object into a local file without holding it in memory
+     * @param {string} key - Key of the object
+     * @param {string} filePath - Absolute path of the file to write
+     * @param {(loaded: number, total: number) => void} [onProgress] - Called with the bytes written so far
+     * @throws {Error} If the object does not exist or the file cannot be written
+     */
+    getFile(key: string, filePath: string, onProgress?: (loaded: number, total: number) => void): Promise<void>;
+
+    /**
+     * Lists every object under a prefix, following pagination
+     * @param {string} prefix - Key prefix, e.g. `metadata/`
+     * @returns {Promise<StorageObject[]>} The objects found
+     */
+    list(prefix: string): Promise<StorageObject[]>;
+
+    /**
+     * Deletes an object. Deleting a missing object is not an error.
+     * @param {string} key - Key of the object
+     */
+    delete(key: string): Promise<void>;
+
+    /**
+     * Reads the size and modification time of an object
+     * @param {string} key - Key of the object
+     * @returns {Promise<StorageObject | null>} The object, or null if it does not exist
+     */
+    head(key: string): Promise<StorageObject | null>;
+
+    /**
+     * Gets a URL the renderer can load the object from
+     * @param {string} key - Key of the object
+     * @param {number} expiresIn - Lifetime of the URL in seconds, where the backend supports it
+     * @returns {Promise<string>} The URL
+     */
+    getSignedUrl(key: string, expiresIn: number): Promise<string>;
+
+    /**
+     * Makes one attempt at transferring a local file to `record.videoKey`, continuing from
+     * whatever a previous attempt left behind. Pausing or cancelling through the controller
+     * interrupts the attempt.
+     * @param {PendingUpload} record - Persisted state of the upload, updated as it progresses
+     * @param {UploadController} controller - Controller used to interrupt the transfer
+     * @param {(loaded: number) => void} reportProgress - Called with the number of bytes stored so far
+     */
+    transfer(
+        record: PendingUpload,
+        controller: UploadController,
+        reportProgress: (loaded: number) => void
+    ): Promise<void>;
+
+    /**
+     * Discards whatever a partial transfer left behind
+     * @param {PendingUpload} record - The upload to abort
+     */
+    abortTransfer(record: PendingUpload): Promise<void>;
+}
@@ -0,0 +1,167 @@
+import fs from 'fs';
+import Store from 'electron-store';
+import type { TranscodeStatus, VideoRenditions } from '../../renderer/types/types';
+import { s3Service } from './s3-service';
+import { transcodeVideo, deleteRenditions } from './transcoder';
+
+/**
+ * A video waiting to be transcoded
+ * @interface TranscodeJob
+ * @property {string} videoId - ID of the video
+ * @property {string} sourcePath - Absolute path of the original file on this machine
+ * @property {string} queuedAt - When the job was queued
+ */
+interface TranscodeJob {
+    videoId: string;
+    sourcePath: string;
+    queuedAt: string;
+}
+
+let jobStore: Store<{ jobs: TranscodeJob[] }> | null = null;
+
+/**
+ * Opens the store of queued transcoding jobs on first use, after the userData path has been set
+ * @returns {Store<{ jobs: TranscodeJob[] }>} The store
+ */
+const getJobStore = () => {
+    if (!jobStore) {
+        jobStore = new Store<{ jobs: TranscodeJob[] }>({
+            name: 'transcode-jobs',
+            defaults: { jobs: [] }
+        });
+    }
+    return jobStore;
+};
+
+/**
+ * Transcodes uploaded videos one at a time from the uploader's original file. Jobs are
+ * persisted, so transcoding picks up again after the app restarts. Status changes are stored
+ * in the video's metadata; progress in between is only sent to listeners.
+ * @class TranscodeQueue
+ */
+class TranscodeQueue {
+    private running = false;
+    private listeners = new Set<(videoId: string, status: TranscodeStatus) => void>();
+
+    /**
+     * Subscribes to status and progress updates of every job
+     * @param {(videoId: string, status: TranscodeStatus) => void} listener - Called with each update
+     * @returns {() => void} Function that removes the listener
+     */
+    onStatus(listener: (videoId: string, status: TranscodeStatus) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Queues a video for transcoding
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {string} sourcePath - Absolute path of the original file
+     * @returns {Promise<void>}
+     */
+    async enqueue(videoId: string, sourcePath: string): Promise<void> {
+        const jobs = getJobStore().get('jobs').filter(job => job.videoId !== videoId);
+        getJobStore().set('jobs', [...jobs, { videoId, sourcePath, queuedAt: new Date().toISOString() }]);
+
+        await this.report(videoId, { state: 'queued', progress: 0, updatedAt: new Date().toISOString() }, true);
+        this.processQueue();
+    }
+
+    /**
+     * Starts on jobs left over from a previous session
+     */
+    resumePending(): void {
+        if (getJobStore().get('jobs').length > 0) {
+            this.processQueue();
+        }
+    }
+
+    /**
+     * Notifies listeners and, for state changes, records the status in the video's metadata
+     * @private
+     * @async
+     * @param {string} videoId - ID of the video
+     * @param {TranscodeStatus} status - The new status
+     * @param {boolean} persist - Whether to store the status
+     * @param {VideoRenditions} [renditions] - Renditions to store with a completed status
+     * @returns {Promise<boolean>} False if the video no longer exists
+     */
+    private async report(videoId: string, status: TranscodeStatus, persist: boolean, renditions?: VideoRenditions): Promise<boolean> {
+        this.listeners.forEach(listener => listener(videoId, status));
+        return persist ? s3Service.updateTranscodeStatus(videoId, status, renditions) : true;
+    }
+
+    /**
+     * Runs queued jobs until none are left
+     * @private
+     * @async
+     * @returns {Promise<void>}
+     */
+    private async processQueue(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+
+        try {
+            let job: TranscodeJob | undefined;
+            while ((job = getJobStore().get('jobs')[0])) {
+                await this.runJob(job);
+                const remaining = getJobStore().get('jobs').filter(item => item.videoId !== job!.videoId);
+                getJobStore().set('jobs', remaining);
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Transcodes one video and records the outcome
+     * @private
+     * @async
+     * @param {TranscodeJob} job - The job to run
+     * @returns {Promise<void>}
+     */
+    private async runJob(job: TranscodeJob): Promise<void> {
+        const status = (state: TranscodeStatus['state'], progress: number, error?: string): TranscodeStatus => ({
+            state,
+            progress,
+            ...(error && { error }),
+            updatedAt: new Date().toISOString()
+        });
+
+        try {
+            if (!fs.existsSync(job.sourcePath)) {
+                throw new Error('The original file is no longer available on this computer');
+            }
+
+            if (!await this.report(job.videoId, status('running', 0), true)) {
+                return;
+            }
+
+            let lastProgress = 0;
+            const renditions = await transcodeVideo(job.sourcePath, job.videoId, (progress) => {
+                if (progress !== lastProgress) {
+                    lastProgress = progress;
+                    this.report(job.videoId, status('running', progress), false);
+                }
+            });
+
+            const stillExists = await this.report(job.videoId, status('completed', 100), true, renditions);
+            if (!stillExists) {
+                // The video was deleted while it was being transcoded
+                await deleteRenditions(job.videoId);
+            }
+        } catch (error) {
+            console.error(`Transcoding ${job.videoId} failed:`, error);
+            await this.report(
+                job.videoId,
+                status('failed', 0, error instanceof Error ? error.message : 'Unknown error'),
+                true
+            ).catch(reportError => console.error('Error recording transcode failure:', reportError));
+        }
+    }
+}
+
+export const transcodeQueue = new TranscodeQueue();
@@ -0,0 +1,377 @@
+import { spawn } from 'child_process';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ffmpegStatic from 'ffmpeg-static';
+import type { HlsVariant, VideoRenditions } from '../../renderer/types/types';
+import { ENV } from '../config/env';
+import { getStorageProvider } from './storage';
+
+/**
+ * A rung of the HLS ladder
+ * @interface LadderRung
+ * @property {string} name - Name of the rung, used as its directory
+ * @property {number} height - Frame height in pixels
+ * @property {number} videoKbps - Target video bitrate in kbit/s
+ */
+interface LadderRung {
+    name: string;
+    height: number;
+    videoKbps: number;
+}
+
+/**
+ * What ffmpeg reports about a source file
+ * @interface SourceInfo
+ * @property {number} duration - Duration in seconds, or 0 if ffmpeg could not tell
+ * @property {number} width - Frame width in pixels
+ * @property {number} height - Frame height in pixels
+ * @property {number} bitrate - Overall bitrate in bits per second, or 0 if ffmpeg could not tell
+ */
+export interface SourceInfo {
+    duration: number;
+    width: number;
+    height: number;
+    bitrate: number;
+}
+
+/** Custom protocol the renderer streams HLS renditions from */
+export const HLS_STREAM_SCHEME = 'hls-stream';
+
+/** How long a stream URL stays valid, matching the signed URLs of the other files */
+const STREAM_GRANT_SECONDS = 3600;
+/** Key stream URLs are signed with; they are only handed out and checked by this process */
+const STREAM_GRANT_KEY = randomBytes(32);
+
+/** Rungs of the HLS ladder, highest first. Rungs taller than the source are skipped. */
+const HLS_LADDER: LadderRung[] = [
+    { name: '1080p', height: 1080, videoKbps: 5000 },
+    { name: '720p', height: 720, videoKbps: 2800 },
+    { name: '480p', height: 480, videoKbps: 1400 },
+    { name: '360p', height: 360, videoKbps: 800 }
+];
+
+const AUDIO_KBPS = 128;
+/** Length of each HLS segment in seconds */
+const SEGMENT_SECONDS = 6;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.mp4': 'video/mp4',
+    '.m3u8': 'application/vnd.apple.mpegurl',
+    '.ts': 'video/mp2t'
+};
+
+/**
+ * Raised when ffmpeg itself cannot be run, as opposed to failing on a file
+ * @class FfmpegUnavailableError
+ * @extends Error
+ */
+export class FfmpegUnavailableError extends Error {
+    /**
+     * @param {string} binary - Path or name of the ffmpeg binary that was tried
+     * @param {string} code - Error code of the failed start, e.g. `ENOENT` or `EACCES`
+     */
+    constructor(readonly binary: string, readonly code: string) {
+        super(code === 'ENOENT' ? `ffmpeg was not found at ${binary}` : `ffmpeg at ${binary} cannot be run (${code})`);
+        this.name = 'FfmpegUnavailableError';
+    }
+}
+
+/** Error codes of a failed start that mean the binary is missing or not executable */
+const UNAVAILABLE_CODES = ['ENOENT', 'EACCES'];
+
+/**
+ * Finds the ffmpeg binary: `FFMPEG_PATH` if set, then the one bundled with ffmpeg-static,
+ * then whatever `ffmpeg` is on the PATH
+ * @returns {string} Path or name of the ffmpeg binary
+ */
+export const resolveFfmpegPath = (): string => {
+    if (ENV.FFMPEG_PATH) {
+        return ENV.FFMPEG_PATH;
+    }
+    if (ffmpegStatic) {
+        // Binaries cannot be executed from inside the asar archive; they are unpacked next to it
+        return ffmpegStatic.replace(`app.asar${path.sep}`, `app.asar.unpacked${path.sep}`);
+    }
+    return 'ffmpeg';
+};
+
+/**
+ * Parses an ffmpeg `HH:MM:SS.xx` timestamp
+ * @param {string} timestamp - The timestamp
+ * @returns {number} Seconds
+ */
+const parseTimestamp = (timestamp: string): number => {
+    const [hours, minutes, seconds] = timestamp.split(':').map(Number);
+    return hours * 3600 + minutes * 60 + seconds;
+};
+
+/**
+ * Runs ffmpeg and reports how far through the source it is
+ * @param {string[]} args - Arguments for ffmpeg
+ * @param {number} duration - Duration of the source in seconds, used to turn timestamps into fractions
+ * @param {(fraction: number) => void} [onProgress] - Called with the fraction of the source processed
+ * @param {boolean} [allowFailure=false] - Resolve with the log even if ffmpeg exits with an error
+ * @returns {Promise<string>} Everything ffmpeg wrote to stderr
+ * @throws {FfmpegUnavailableError} If the ffmpeg binary is missing or not executable
+ * @throws {Error} If ffmpeg cannot be started otherwise, or exits with an error and allowFailure is false
+ */
+const runFfmpeg = (
+    args: string[],
+    duration: number,
+    onProgress?: (fraction: number) => void,
+    allowFailure = false
+): Promise<string> => new Promise((resolve, reject) => {
+    const binary = resolveFfmpegPath();
+    const child = spawn(binary, args, { windowsHide: true });
+    let log = '';
+
+    child.stderr.on('data', (chunk: Buffer) => {
+        const text = chunk.toString();
+        log += text;
+        const match = /time=(\d+:\d+:\d+(?:\.\d+)?)/.exec(text);
+        if (match && duration > 0 && onProgress) {
+            onProgress(Math.min(parseTimestamp(match[1]) / duration, 1));
+        }
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => reject(error.code && UNAVAILABLE_CODES.includes(error.code)
+        ? new FfmpegUnavailableError(binary, error.code)
+        : new Error(`Could not start ffmpeg: ${error.message}`)));
+    child.on('close', (code) => {
+        if (code === 0 || allowFailure) {
+            resolve(log);
+        } else {
+            const lastLines = log.trim().split('\n').slice(-3).join(' ');
+            reject(new Error(`ffmpeg exited with code ${code}: ${lastLines}`));
+        }
+    });
+});
+
+/**
+ * Reads the duration, frame size and bitrate of a video
+ * @async
+ * @param {string} sourcePath - Absolute path of the video
+ * @returns {Promise<SourceInfo>} What ffmpeg reports about the video
+ * @throws {FfmpegUnavailableError} If the ffmpeg binary is missing or not executable
+ * @throws {Error} If the file has no video stream ffmpeg can read
+ */
+export const probeSource = async (sourcePath: string): Promise<SourceInfo> => {
+    // Without an output file ffmpeg prints the stream info and exits with an error
+    const log = await runFfmpeg(['-hide_banner', '-i', sourcePath], 0, undefined, true);
+
+    const duration = /Duration: (\d+:\d+:\d+(?:\.\d+)?)/.exec(log);
+    const bitrate = /Duration:.*bitrate: (\d+) kb\/s/.exec(log);
+    const size = /Stream #.*Video:.*?(\d{2,5})x(\d{2,5})/.exec(log);
+    if (!size) {
+        throw new Error('No readable video stream found');
+    }
+
+    return {
+        duration: duration ? parseTimestamp(duration[1]) : 0,
+        width: Number(size[1]),
+        height: Number(size[2]),
+        bitrate: bitrate ? Number(bitrate[1]) * 1000 : 0
+    };
+};
+
+/**
+ * Picks the rungs of the ladder that do not upscale the source. Sources smaller than the
+ * lowest rung get a single rung at their own size.
+ * @param {SourceInfo} source - The probed source
+ * @returns {LadderRung[]} The rungs to encode
+ */
+const selectLadder = (source: SourceInfo): LadderRung[] => {
+    const rungs = HLS_LADDER.filter(rung => rung.height <= source.height);
+    if (rungs.length > 0) {
+        return rungs;
+    }
+    const height = source.height - (source.height % 2);
+    const lowest = HLS_LADDER[HLS_LADDER.length - 1];
+    return [{ name: `${height}p`, height, videoKbps: lowest.videoKbps }];
+};
+
+/**
+ * Lists every file under a directory
+ * @async
+ * @param {string} dir - The directory
+ * @returns {Promise<string[]>} Absolute paths of the files
+ */
+const listFiles = async (dir: string): Promise<string[]> => {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    const nested = await Promise.all(entries.map(entry => {
+        const entryPath = path.join(dir, entry.name);
+        return entry.isDirectory() ? listFiles(entryPath) : Promise.resolve([entryPath]);
+    }));
+    return nested.flat();
+};
+
+/**
+ * Transcodes a video into an H.264/AAC MP4 and an HLS ladder, and stores the results
+ * under `renditions/<videoId>/`
+ * @async
+ * @param {string} sourcePath - Absolute path of the original video file
+ * @param {string} videoId - ID of the video
+ * @param {(progress: number) => void} [onProgress] - Called with the percentage complete
+ * @returns {Promise<VideoRenditions>} Keys of the stored renditions
+ * @throws {Error} If ffmpeg fails or the results cannot be stored
+ */
+export const transcodeVideo = async (
+    sourcePath: string,
+    videoId: string,
+    onProgress?: (progress: number) => void
+): Promise<VideoRenditions> => {
+    const source = await probeSource(sourcePath);
+    const ladder = selectLadder(source);
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'transcode-'));
+    const keyPrefix = `renditions/${videoId}`;
+
+    // Encoding steps (MP4 + each rung) take most of the time; storing the results the last 10%
+    const steps = ladder.length + 1;
+    const reportStep = (step: number) => (fraction: number) =>
+        onProgress?.(Math.round(((step + fraction) / steps) * 90));
+
+    try {
+        const h264 = ['-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p'];
+        const aac = ['-c:a', 'aac', '-b:a', `${AUDIO_KBPS}k`, '-ac', '2'];
+
+        await runFfmpeg([
+            '-hide_banner', '-y', '-i', sourcePath,
+            ...h264, '-crf', '23', ...aac,
+            '-movflags', '+faststart',
+            path.join(workDir, 'video.mp4')
+        ], source.duration, reportStep(0));
+
+        const variants: HlsVariant[] = [];
+        for (let i = 0; i < ladder.length; i++) {
+            const rung = ladder[i];
+            const rungDir = path.join(workDir, 'hls', rung.name);
+            await fs.promises.mkdir(rungDir, { recursive: true });
+
+            await runFfmpeg([
+                '-hide_banner', '-y', '-i', sourcePath,
+                '-vf', `scale=-2:${rung.height}`,
+                ...h264,
+                '-b:v', `${rung.videoKbps}k`,
+                '-maxrate', `${Math.round(rung.videoKbps * 1.07)}k`,
+                '-bufsize', `${Math.round(rung.videoKbps * 1.5)}k`,
+                '-g', '48', '-keyint_min', '48', '-sc_threshold', '0',
+                ...aac,
+                '-f', 'hls',
+                '-hls_time', String(SEGMENT_SECONDS),
+                '-hls_playlist_type', 'vod',
+                '-hls_segment_filename', path.join(rungDir, 'segment_%04d.ts'),
+                path.join(rungDir, 'index.m3u8')
+            ], source.duration, reportStep(i + 1));
+
+            const width = Math.round((source.width * rung.height) / source.height / 2) * 2;
+            variants.push({
+                name: rung.name,
+                width,
+                height: rung.height,
+                bandwidth: Math.round(rung.videoKbps * 1.07 + AUDIO_KBPS) * 1000,
+                playlistKey: `${keyPrefix}/hls/${rung.name}/index.m3u8`
+            });
+        }
+
+        const masterPlaylist = [
+            '#EXTM3U',
+            '#EXT-X-VERSION:3',
+            ...variants.flatMap(variant => [
+                `#EXT-X-STREAM-INF:BANDWIDTH=${variant.bandwidth},RESOLUTION=${variant.width}x${variant.height}`,
+                `${variant.name}/index.m3u8`
+            ])
+        ].join('\n') + '\n';
+        await fs.promises.writeFile(path.join(workDir, 'hls', 'master.m3u8'), masterPlaylist);
+
+        const storage = getStorageProvider();
+        const files = await listFiles(workDir);
+        let totalSize = 0;
+        for (let i = 0; i < files.length; i++) {
+            const relative = path.relative(workDir, files[i]).split(path.sep).join('/');
+            const contentType = CONTENT_TYPES[path.extname(files[i])] || 'application/octet-stream';
+            await storage.putFile(`${keyPrefix}/${relative}`, files[i], contentType);
+            totalSize += (await fs.promises.stat(files[i])).size;
+            onProgress?.(90 + Math.round(((i + 1) / files.length) * 10));
+        }
+
+        return {
+            mp4Key: `${keyPrefix}/video.mp4`,
+            hlsPlaylistKey: `${keyPrefix}/hls/master.m3u8`,
+            variants,
+            totalSize
+        };
+    } finally {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+};
+
+/**
+ * Signs the payload of a stream grant
+ * @param {string} payload - The encoded payload
+ * @returns {Buffer} The signature
+ */
+const signGrant = (payload: string): Buffer => createHmac('sha256', STREAM_GRANT_KEY).update(payload).digest();
+
+/**
+ * Issues a grant naming the user a media URL is for. Like a signed URL it expires.
+ * @param {string | null} username - Username of the user the URL is for, or null
+ * @returns {string} The grant, to be used as a path segment of the URL
+ */
+export const createStreamGrant = (username: string | null): string => {
+    const payload = Buffer.from(JSON.stringify([username, Math.floor(Date.now() / 1000) + STREAM_GRANT_SECONDS])).toString('base64url');
+    return `${payload}.${signGrant(payload).toString('base64url')}`;
+};
+
+/**
+ * Gets the URL hls.js loads a stored playlist from. Like a signed URL it expires, and it
+ * carries a grant naming the user it was issued to, so the protocol handler can check that
+ * they may still watch the video. The grant is a path segment rather than a query parameter,
+ * so the relative segment URLs in the playlists keep it.
+ * @param {string} key - Storage key of the playlist
+ * @param {string | null} username - Username of the user the URL is for, or null
+ * @returns {string} The URL
+ */
+export const getHlsUrl = (key: string, username: string | null): string => {
+    return `${HLS_STREAM_SCHEME}://storage/${createStreamGrant(username)}/${key.split('/').map(encodeURIComponent).join('/')}`;
+};
+
+/**
+ * Checks a grant taken from a stream URL
+ * @param {string} grant - The grant
+ * @returns {{username: string | null} | null} The user it was issued to, or null if it is forged or expired
+ */
+export const verifyStreamGrant = (grant: string): { username: string | null } | null => {
+    const [payload, signature] = grant.split('.');
+    if (!payload || !signature) {
+        return null;
+    }
+
+    const expected = signGrant(payload);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return null;
+    }
+
+    try {
+        const [username, expiresAt] = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+        return expiresAt > Date.now() / 1000 ? { username } : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Deletes every stored rendition of a video
+ * @async
+ * @param {string} videoId - ID of the video
+ * @returns {Promise<void>}
+ */
+export const deleteRenditions = async (videoId: string): Promise<void> => {
+    const storage = getStorageProvider();
+    const objects = await storage.list(`renditions/${videoId}/`);
+    for (const object of objects) {
+        await storage.delete(object.key);
+    }
+};
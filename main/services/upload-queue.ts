@@ -0,0 +1,519 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { app } from 'electron';
+import Store from 'electron-store';
+import type {
+    NewVideoMetadata,
+    UploadQueueItem,
+    UploadQueueSettings,
+    UploadQueueState
+} from '../../renderer/types/types';
+import { s3Service, ThumbnailFile, VideoUploadOptions } from './s3-service';
+import { UploadController, pendingUploadStore, uploadReservations, UploadReservation } from './video-upload';
+import { uploadBandwidth } from './bandwidth';
+import { transcodeQueue } from './transcode-jobs';
+
+/** Most videos that may be uploaded at the same time */
+export const MAX_CONCURRENCY = 4;
+
+/** Minimum time between progress notifications for the same item */
+const PROGRESS_INTERVAL_MS = 250;
+
+const DEFAULT_SETTINGS: UploadQueueSettings = {
+    concurrency: 2,
+    maxBytesPerSecond: 0
+};
+
+/**
+ * A queued video as persisted, with the local paths the renderer does not need
+ * @interface QueueRecord
+ * @property {string} filePath - Absolute path of the local video file
+ * @property {string} key - Storage key of the video, without the `videos/` prefix
+ * @property {Object} [thumbnail] - The thumbnail kept in the queue directory until the video is uploaded
+ */
+interface QueueRecord extends UploadQueueItem {
+    filePath: string;
+    key: string;
+    thumbnail?: { fileName: string; contentType: string };
+}
+
+interface QueueData {
+    items: QueueRecord[];
+    settings: UploadQueueSettings;
+}
+
+let queueStore: Store<QueueData> | null = null;
+
+/**
+ * Opens the store of queued uploads on first use, after the userData path has been set
+ * @returns {Store<QueueData>} The store
+ */
+const getQueueStore = () => {
+    if (!queueStore) {
+        queueStore = new Store<QueueData>({
+            name: 'upload-queue',
+            defaults: { items: [], settings: DEFAULT_SETTINGS }
+        });
+    }
+    return queueStore;
+};
+
+/**
+ * Gets the directory a queued video's thumbnail is kept in until it is uploaded
+ * @param {string} itemId - ID of the queue item
+ * @returns {string} Absolute path of the directory
+ * @throws {Error} If the ID could escape the queue directory
+ */
+const itemDir = (itemId: string): string => {
+    if (!/^[\w-]+$/.test(itemId)) {
+        throw new Error('Invalid upload ID');
+    }
+    return path.join(app.getPath('userData'), 'upload-queue', itemId);
+};
+
+/**
+ * Strips a record down to what the renderer sees
+ * @param {QueueRecord} record - The stored record
+ * @returns {UploadQueueItem} The queue item
+ */
+const toItem = ({ filePath: _filePath, key: _key, thumbnail, ...item }: QueueRecord): UploadQueueItem => ({
+    ...item,
+    hasThumbnail: Boolean(thumbnail)
+});
+
+/**
+ * Uploads queued videos in the background, a few at a time. The queue is persisted, so it
+ * carries on after the app restarts, and interrupted uploads continue from the last part
+ * that was stored. State changes are stored; progress in between is only sent to listeners.
+ * @class UploadQueue
+ */
+class UploadQueue {
+    private controllers = new Map<string, UploadController>();
+    private progress = new Map<string, number>();
+    private progressSentAt = new Map<string, number>();
+    private changeListeners = new Set<() => void>();
+    private progressListeners = new Set<(itemId: string, progress: number) => void>();
+
+    /**
+     * Subscribes to items being added, removed or changing state
+     * @param {() => void} listener - Called after each change
+     * @returns {() => void} Function that removes the listener
+     */
+    onChange(listener: () => void): () => void {
+        this.changeListeners.add(listener);
+        return () => {
+            this.changeListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Subscribes to upload progress of running items
+     * @param {(itemId: string, progress: number) => void} listener - Called with the percentage uploaded
+     * @returns {() => void} Function that removes the listener
+     */
+    onProgress(listener: (itemId: string, progress: number) => void): () => void {
+        this.progressListeners.add(listener);
+        return () => {
+            this.progressListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Lists a user's queued videos in the order they were added
+     * @param {string} username - Username of the uploader
+     * @returns {UploadQueueItem[]} The user's queue
+     */
+    list(username: string): UploadQueueItem[] {
+        return this.records()
+            .filter(record => record.metadata.userId === username)
+            .map(record => toItem({ ...record, progress: this.progress.get(record.id) ?? record.progress }));
+    }
+
+    /**
+     * Adds a video to the queue. The thumbnail is copied into the queue directory so it
+     * survives a restart.
+     * @async
+     * @param {string} filePath - Absolute path of the video file
+     * @param {NewVideoMetadata} metadata - Metadata to store once the video is uploaded
+     * @param {ThumbnailFile} [thumbnail] - Thumbnail to upload with the video
+     * @returns {Promise<UploadQueueItem>} The queued video, with the guidelines its title or description broke if any
+     * @throws {Error} If the video file cannot be read or breaks the upload policy, or its text breaks a guideline whose action is to reject it
+     */
+    async add(filePath: string, metadata: NewVideoMetadata, thumbnail?: ThumbnailFile): Promise<UploadQueueItem> {
+        const validation = await s3Service.validateVideo(filePath);
+        if (!validation.valid) {
+            throw new Error(validation.violations.join('. '));
+        }
+        // Checked now so the user hears about it straight away; the upload checks again
+        const { fields, violations } = await s3Service.filterVideoText(metadata);
+        const stats = await fs.promises.stat(filePath);
+
+        const id = randomUUID();
+        const record: QueueRecord = {
+            id,
+            filePath,
+            key: `${randomUUID()}-${path.basename(filePath)}`,
+            fileName: path.basename(filePath),
+            fileSize: stats.size,
+            metadata: fields,
+            hasThumbnail: false,
+            state: 'queued',
+            progress: 0,
+            addedAt: new Date().toISOString()
+        };
+
+        if (thumbnail) {
+            const fileName = path.basename(thumbnail.fileName);
+            await fs.promises.mkdir(itemDir(id), { recursive: true });
+            await fs.promises.writeFile(path.join(itemDir(id), fileName), Buffer.from(thumbnail.data));
+            record.thumbnail = { fileName, contentType: thumbnail.contentType };
+        }
+
+        this.saveRecords([...this.records(), record]);
+        this.notifyChange();
+        this.processQueue();
+        return { ...toItem(record), ...(violations.length > 0 && { contentViolations: violations }) };
+    }
+
+    /**
+     * Pauses a video. A running upload keeps the parts already sent; a waiting one is skipped
+     * until it is resumed.
+     * @param {string} itemId - ID of the queue item
+     * @param {string} username - Username of the user asking; must own the item
+     * @throws {Error} If the item does not exist or belongs to someone else
+     */
+    pause(itemId: string, username: string): void {
+        const record = this.readOwnedRecord(itemId, username);
+        const controller = this.controllers.get(itemId);
+        if (controller) {
+            controller.pause();
+        } else if (record.state === 'queued') {
+            this.update(itemId, { state: 'paused' });
+        }
+    }
+
+    /**
+     * Resumes a paused video
+     * @param {string} itemId - ID of the queue item
+     * @param {string} username - Username of the user asking; must own the item
+     * @throws {Error} If the item does not exist or belongs to someone else
+     */
+    resume(itemId: string, username: string): void {
+        const record = this.readOwnedRecord(itemId, username);
+        const controller = this.controllers.get(itemId);
+        if (controller) {
+            controller.resume();
+        } else if (record.state === 'paused') {
+            this.update(itemId, { state: 'queued' });
+            this.processQueue();
+        }
+    }
+
+    /**
+     * Queues a failed or cancelled video again. A failed upload continues from the last
+     * part that was stored.
+     * @param {string} itemId - ID of the queue item
+     * @param {string} username - Username of the user asking; must own the item
+     * @throws {Error} If the item does not exist or belongs to someone else
+     */
+    retry(itemId: string, username: string): void {
+        const record = this.readOwnedRecord(itemId, username);
+        if (record.state === 'failed' || record.state === 'cancelled') {
+            this.update(itemId, { state: 'queued' });
+            this.processQueue();
+        }
+    }
+
+    /**
+     * Cancels a video and discards any parts already sent. The item stays in the queue so
+     * it can be retried.
+     * @async
+     * @param {string} itemId - ID of the queue item
+     * @param {string} username - Username of the user asking; must own the item
+     * @returns {Promise<void>}
+     * @throws {Error} If the item does not exist or belongs to someone else
+     */
+    async cancel(itemId: string, username: string): Promise<void> {
+        const record = this.readOwnedRecord(itemId, username);
+        const controller = this.controllers.get(itemId);
+        if (controller) {
+            // The running upload releases its parts and reports the cancellation itself
+            controller.cancel();
+        } else if (record.state !== 'completed' && record.state !== 'cancelled') {
+            await s3Service.discardPendingUpload(`videos/${record.key}`);
+            this.update(itemId, { state: 'cancelled', progress: 0 });
+        }
+    }
+
+    /**
+     * Removes a video that is not being uploaded from the queue, discarding anything it
+     * left behind
+     * @async
+     * @param {string} itemId - ID of the queue item
+     * @param {string} username - Username of the user asking; must own the item
+     * @returns {Promise<void>}
+     * @throws {Error} If the item does not exist, belongs to someone else or is uploading
+     */
+    async remove(itemId: string, username: string): Promise<void> {
+        const record = this.readOwnedRecord(itemId, username);
+        if (this.controllers.has(itemId)) {
+            throw new Error('Cancel the upload before removing it');
+        }
+        await this.discard(record);
+    }
+
+    /**
+     * Removes every completed and cancelled video of a user from the queue
+     * @async
+     * @param {string} username - Username of the uploader
+     * @returns {Promise<void>}
+     */
+    async clearFinished(username: string): Promise<void> {
+        const finished = this.records().filter(record =>
+            record.metadata.userId === username && (record.state === 'completed' || record.state === 'cancelled')
+        );
+        for (const record of finished) {
+            await this.discard(record);
+        }
+    }
+
+    /**
+     * Lists the storage claimed by videos waiting or uploading, which quota checks count
+     * until the videos are stored
+     * @returns {UploadReservation[]} A reservation per waiting, paused or uploading video
+     */
+    reservations(): UploadReservation[] {
+        return this.records()
+            .filter(record => record.state === 'queued' || record.state === 'paused' || record.state === 'uploading')
+            .map(record => ({ videoKey: `videos/${record.key}`, userId: record.metadata.userId, fileSize: record.fileSize }));
+    }
+
+    /**
+     * Gets how the queue shares the connection
+     * @returns {UploadQueueSettings} The settings
+     */
+    getSettings(): UploadQueueSettings {
+        return getQueueStore().get('settings');
+    }
+
+    /**
+     * Changes how many videos upload at once and the combined rate limit. Running uploads
+     * are not stopped when the concurrency is lowered; fewer are started until the queue
+     * is back under it.
+     * @param {UploadQueueSettings} settings - The new settings
+     * @returns {UploadQueueSettings} The settings as stored, after clamping
+     */
+    updateSettings(settings: UploadQueueSettings): UploadQueueSettings {
+        const stored: UploadQueueSettings = {
+            concurrency: Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(settings.concurrency) || 1)),
+            maxBytesPerSecond: Math.max(0, Math.floor(settings.maxBytesPerSecond) || 0)
+        };
+        getQueueStore().set('settings', stored);
+        uploadBandwidth.setLimit(stored.maxBytesPerSecond);
+        this.processQueue();
+        return stored;
+    }
+
+    /**
+     * Picks up the queue left over from a previous session. Videos that were uploading are
+     * queued again, and interrupted uploads started outside the queue are adopted into it.
+     */
+    resumePending(): void {
+        uploadBandwidth.setLimit(this.getSettings().maxBytesPerSecond);
+
+        const records = this.records().map(record =>
+            record.state === 'uploading' ? { ...record, state: 'queued' as UploadQueueState } : record
+        );
+        const queuedKeys = new Set(records.map(record => `videos/${record.key}`));
+        const adopted = pendingUploadStore.list()
+            .filter(pending => !queuedKeys.has(pending.videoKey))
+            .map((pending): QueueRecord => ({
+                id: randomUUID(),
+                filePath: pending.filePath,
+                key: pending.videoKey.slice('videos/'.length),
+                fileName: pending.fileName,
+                fileSize: pending.fileSize,
+                metadata: pending.metadata,
+                hasThumbnail: false,
+                state: 'queued',
+                progress: 0,
+                addedAt: pending.startedAt
+            }));
+
+        this.saveRecords([...records, ...adopted]);
+        this.processQueue();
+    }
+
+    /**
+     * Starts queued videos until as many are uploading as the concurrency allows
+     * @private
+     */
+    private processQueue(): void {
+        const { concurrency } = this.getSettings();
+        let next: QueueRecord | undefined;
+        while (
+            this.records().filter(record => record.state === 'uploading').length < concurrency &&
+            (next = this.records().find(record => record.state === 'queued'))
+        ) {
+            this.update(next.id, { state: 'uploading' });
+            this.runItem(next).finally(() => this.processQueue());
+        }
+    }
+
+    /**
+     * Uploads one video and its thumbnail, then queues it for transcoding
+     * @private
+     * @async
+     * @param {QueueRecord} record - The item to upload
+     * @returns {Promise<void>}
+     */
+    private async runItem(record: QueueRecord): Promise<void> {
+        const controller = new UploadController();
+        this.controllers.set(record.id, controller);
+        controller.onStatusChange(status => {
+            if (status === 'paused' || status === 'uploading') {
+                this.update(record.id, { state: status });
+            }
+        });
+
+        const options: VideoUploadOptions = {
+            controller,
+            onProgress: ({ percentage }) => this.reportProgress(record.id, percentage)
+        };
+
+        try {
+            const videoKey = `videos/${record.key}`;
+            const result = pendingUploadStore.find(videoKey)
+                ? await s3Service.resumeVideoUpload(videoKey, options)
+                : await s3Service.uploadVideo(record.filePath, record.key, record.metadata, options);
+
+            if (controller.getStatus() === 'cancelled') {
+                this.update(record.id, { state: 'cancelled', progress: 0 });
+                return;
+            }
+            if (!result.success) {
+                this.update(record.id, { state: 'failed', error: result.error });
+                return;
+            }
+
+            if (record.thumbnail) {
+                await this.uploadThumbnail(record);
+            }
+            await transcodeQueue.enqueue(record.metadata.id, record.filePath);
+            this.update(record.id, { state: 'completed', progress: 100 });
+        } catch (error) {
+            console.error(`Queued upload ${record.id} failed:`, error);
+            this.update(record.id, { state: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+        } finally {
+            this.controllers.delete(record.id);
+            this.progress.delete(record.id);
+            this.progressSentAt.delete(record.id);
+        }
+    }
+
+    /**
+     * Uploads the thumbnail kept for a video that has just been uploaded. A failure is only
+     * logged: the video is already stored, and a thumbnail can be added or backfilled later.
+     * @private
+     * @async
+     * @param {QueueRecord} record - The uploaded item
+     * @returns {Promise<void>}
+     */
+    private async uploadThumbnail(record: QueueRecord): Promise<void> {
+        const { fileName, contentType } = record.thumbnail!;
+        try {
+            const data = await fs.promises.readFile(path.join(itemDir(record.id), fileName));
+            const result = await s3Service.uploadThumbnail({ data, contentType, fileName }, record.metadata.id, record.metadata.userId);
+            if (!result.success) {
+                throw new Error(result.error);
+            }
+            await fs.promises.rm(itemDir(record.id), { recursive: true, force: true });
+        } catch (error) {
+            console.error(`Thumbnail of queued upload ${record.id} failed:`, error);
+        }
+    }
+
+    /**
+     * Drops an item from the queue, releasing its uploaded parts and kept thumbnail
+     * @private
+     * @async
+     * @param {QueueRecord} record - The item to drop
+     * @returns {Promise<void>}
+     */
+    private async discard(record: QueueRecord): Promise<void> {
+        if (record.state !== 'completed') {
+            await s3Service.discardPendingUpload(`videos/${record.key}`);
+        }
+        await fs.promises.rm(itemDir(record.id), { recursive: true, force: true });
+        this.saveRecords(this.records().filter(item => item.id !== record.id));
+        this.notifyChange();
+    }
+
+    /**
+     * Finds an item and checks that it belongs to the user
+     * @private
+     * @param {string} itemId - ID of the queue item
+     * @param {string} username - Username of the user asking
+     * @returns {QueueRecord} The item
+     * @throws {Error} If the item does not exist or belongs to someone else
+     */
+    private readOwnedRecord(itemId: string, username: string): QueueRecord {
+        const record = this.records().find(item => item.id === itemId);
+        if (!record) {
+            throw new Error('Upload not found');
+        }
+        if (record.metadata.userId !== username) {
+            throw new Error('Unauthorized to change this upload');
+        }
+        return record;
+    }
+
+    /**
+     * Records the progress of a running item and notifies listeners, at most every
+     * PROGRESS_INTERVAL_MS
+     * @private
+     * @param {string} itemId - ID of the queue item
+     * @param {number} progress - Percentage uploaded
+     */
+    private reportProgress(itemId: string, progress: number): void {
+        this.progress.set(itemId, progress);
+        const now = Date.now();
+        if (now - (this.progressSentAt.get(itemId) ?? 0) >= PROGRESS_INTERVAL_MS || progress >= 100) {
+            this.progressSentAt.set(itemId, now);
+            this.progressListeners.forEach(listener => listener(itemId, progress));
+        }
+    }
+
+    /**
+     * Stores changes to an item, with its latest progress, and notifies listeners. Any
+     * earlier error is cleared unless the changes record a new one.
+     * @private
+     * @param {string} itemId - ID of the queue item
+     * @param {Partial<QueueRecord>} changes - Fields to change
+     */
+    private update(itemId: string, changes: Partial<QueueRecord>): void {
+        this.saveRecords(this.records().map(record => {
+            if (record.id !== itemId) return record;
+            // An error only describes the failure it was recorded with
+            const { error: _error, ...rest } = record;
+            return { ...rest, progress: this.progress.get(itemId) ?? record.progress, ...changes };
+        }));
+        this.notifyChange();
+    }
+
+    private records(): QueueRecord[] {
+        return getQueueStore().get('items');
+    }
+
+    private saveRecords(records: QueueRecord[]): void {
+        getQueueStore().set('items', records);
+    }
+
+    private notifyChange(): void {
+        this.changeListeners.forEach(listener => listener());
+    }
+}
+
+export const uploadQueue = new UploadQueue();
+uploadReservations.addSource(() => uploadQueue.reservations());
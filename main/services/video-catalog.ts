@@ -0,0 +1,309 @@
+import type { VideoMetadata, VideoListOptions } from '../../renderer/types/types';
+import { getStorageProvider, PreconditionFailedError } from './storage';
+import { parseVideoMetadata } from './metadata-schema';
+
+/**
+ * A video as kept in the catalog: its metadata without the signed URLs, which expire
+ * @typedef {Omit<VideoMetadata, 'videoUrl' | 'thumbnailUrl' | 'mp4Url' | 'hlsUrl' | 'rating'>} CatalogEntry
+ */
+export type CatalogEntry = Omit<VideoMetadata, 'videoUrl' | 'thumbnailUrl' | 'mp4Url' | 'hlsUrl' | 'rating'>;
+
+/**
+ * A page of catalog entries
+ * @interface CatalogPage
+ * @property {CatalogEntry[]} entries - Entries on this page, newest first
+ * @property {string | null} nextCursor - Cursor for the next page, or null on the last page
+ */
+export interface CatalogPage {
+    entries: CatalogEntry[];
+    nextCursor: string | null;
+}
+
+/** Key of the catalog manifest in storage */
+const CATALOG_KEY = 'catalog/index.json';
+/** How long the manifest is trusted before it is read again, so other clients' changes show up */
+const CACHE_MS = 30 * 1000;
+/** Page size used when the caller does not ask for one */
+const DEFAULT_PAGE_SIZE = 12;
+/** Largest page a caller can ask for */
+const MAX_PAGE_SIZE = 100;
+/** How many times a change is applied again when another client wrote the manifest first */
+const MAX_WRITE_ATTEMPTS = 5;
+
+/**
+ * Orders entries newest first, breaking ties by ID so the order is stable for cursors
+ * @param {CatalogEntry} a - First entry
+ * @param {CatalogEntry} b - Second entry
+ * @returns {number} Sort order
+ */
+const compareEntries = (a: CatalogEntry, b: CatalogEntry): number =>
+    b.uploadDate.localeCompare(a.uploadDate) || b.id.localeCompare(a.id);
+
+/**
+ * Strips the signed URLs and rating from video metadata
+ * @param {CatalogEntry | VideoMetadata} metadata - The video metadata
+ * @returns {CatalogEntry} The catalog entry
+ */
+const toEntry = (metadata: CatalogEntry | VideoMetadata): CatalogEntry => {
+    const { videoUrl: _videoUrl, thumbnailUrl: _thumbnailUrl, mp4Url: _mp4Url, hlsUrl: _hlsUrl, rating: _rating, ...entry } = metadata as VideoMetadata;
+    return entry;
+};
+
+/**
+ * Encodes the position after an entry as an opaque cursor
+ * @param {CatalogEntry} entry - Last entry of a page
+ * @returns {string} The cursor
+ */
+const encodeCursor = (entry: CatalogEntry): string =>
+    Buffer.from(JSON.stringify([entry.uploadDate, entry.id])).toString('base64url');
+
+/**
+ * Decodes a cursor made by encodeCursor
+ * @param {string} cursor - The cursor
+ * @returns {{uploadDate: string, id: string}} Position the next page starts after
+ * @throws {Error} If the cursor is malformed
+ */
+const decodeCursor = (cursor: string): { uploadDate: string; id: string } => {
+    try {
+        const [uploadDate, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+        if (typeof uploadDate !== 'string' || typeof id !== 'string') {
+            throw new Error('Unexpected cursor contents');
+        }
+        return { uploadDate, id };
+    } catch {
+        throw new Error('Invalid cursor');
+    }
+};
+
+/**
+ * Parses the contents of the manifest
+ * @param {Buffer} contents - The manifest file
+ * @returns {CatalogEntry[]} Its entries
+ */
+const parseEntries = (contents: Buffer): CatalogEntry[] =>
+    JSON.parse(contents.toString('utf-8')).entries || [];
+
+/**
+ * Index of every video, kept as one manifest object next to the per-video metadata files.
+ * Listing reads the manifest instead of every metadata file, and the manifest is updated
+ * whenever a video is uploaded, edited or deleted. If it is missing it is rebuilt from
+ * `metadata/`. The manifest is shared by every client, so it is only written back if it is
+ * still the version that was read.
+ * @class VideoCatalog
+ */
+class VideoCatalog {
+    private cache: { entries: CatalogEntry[]; expiresAt: number } | null = null;
+    private writeQueue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Reads the manifest, rebuilding it if it does not exist
+     * @private
+     * @async
+     * @param {boolean} [fresh=false] - Whether to bypass the cache
+     * @returns {Promise<CatalogEntry[]>} All entries, newest first
+     */
+    private async load(fresh = false): Promise<CatalogEntry[]> {
+        if (!fresh && this.cache && this.cache.expiresAt > Date.now()) {
+            return this.cache.entries;
+        }
+
+        const contents = await getStorageProvider().get(CATALOG_KEY);
+        if (!contents) {
+            return this.rebuild();
+        }
+
+        const entries = parseEntries(contents);
+        this.cache = { entries: entries.sort(compareEntries), expiresAt: Date.now() + CACHE_MS };
+        return this.cache.entries;
+    }
+
+    /**
+     * Writes the manifest if it is still the version that was read, and refreshes the cache
+     * @private
+     * @async
+     * @param {CatalogEntry[]} entries - All entries
+     * @param {string | null} etag - Entity tag the manifest was read with, or null if it did not exist
+     * @returns {Promise<void>}
+     * @throws {PreconditionFailedError} If another client wrote the manifest in the meantime
+     */
+    private async save(entries: CatalogEntry[], etag: string | null): Promise<void> {
+        const sorted = [...entries].sort(compareEntries);
+        await getStorageProvider().putIfMatch(
+            CATALOG_KEY,
+            JSON.stringify({ updatedAt: new Date().toISOString(), entries: sorted }),
+            'application/json',
+            etag
+        );
+        this.cache = { entries: sorted, expiresAt: Date.now() + CACHE_MS };
+    }
+
+    /**
+     * Reads one per-video metadata file as a catalog entry. A record from an older version is
+     * upgraded in the result only; an invalid one is left out.
+     * @private
+     * @async
+     * @param {string} key - Key of the metadata file
+     * @returns {Promise<CatalogEntry | null>} The entry, or null if the file is missing or invalid
+     */
+    private async readEntry(key: string): Promise<CatalogEntry | null> {
+        try {
+            const contents = await getStorageProvider().get(key);
+            return contents ? toEntry(parseVideoMetadata(contents).metadata) : null;
+        } catch (error) {
+            console.error(`Skipping unreadable metadata ${key}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Reads every per-video metadata file. Records from older versions are upgraded in the
+     * result only; invalid ones are left out.
+     * @private
+     * @async
+     * @returns {Promise<CatalogEntry[]>} An entry for every valid record
+     */
+    private async scanMetadata(): Promise<CatalogEntry[]> {
+        const objects = await getStorageProvider().list('metadata/');
+        const entries = await Promise.all(
+            objects
+                .filter(item => item.key.endsWith('.json'))
+                .map(item => this.readEntry(item.key))
+        );
+
+        return entries.filter((entry): entry is CatalogEntry => entry !== null);
+    }
+
+    /**
+     * Reads the manifest with its entity tag, changes it and writes it back conditionally.
+     * When another client wrote it first, the change is applied again to a fresh read. A
+     * missing manifest is rebuilt from the metadata files first. Changes made by this process
+     * are applied one at a time.
+     * @private
+     * @async
+     * @param {(entries: CatalogEntry[], rebuilt: boolean) => CatalogEntry[] | Promise<CatalogEntry[]>} change - Returns the new
+     * entries; `rebuilt` tells whether they were just read from the metadata files
+     * @returns {Promise<void>}
+     * @throws {Error} If every attempt lost the race to another client
+     */
+    private async mutate(
+        change: (entries: CatalogEntry[], rebuilt: boolean) => CatalogEntry[] | Promise<CatalogEntry[]>
+    ): Promise<void> {
+        const run = this.writeQueue.then(async () => {
+            const storage = getStorageProvider();
+            for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+                const stored = await storage.getVersioned(CATALOG_KEY);
+                const entries = stored ? parseEntries(stored.body) : await this.scanMetadata();
+                try {
+                    await this.save(await change(entries, !stored), stored ? stored.etag : null);
+                    return;
+                } catch (error) {
+                    if (!(error instanceof PreconditionFailedError)) throw error;
+                }
+            }
+            throw new Error('The video catalog is being changed by other clients; please try again');
+        });
+        this.writeQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Rebuilds the manifest from the per-video metadata files. Records from older versions
+     * are upgraded in the manifest only; invalid ones are left out.
+     * @async
+     * @returns {Promise<CatalogEntry[]>} All entries, newest first
+     */
+    async rebuild(): Promise<CatalogEntry[]> {
+        await this.mutate((entries, rebuilt) => rebuilt ? entries : this.scanMetadata());
+        return this.cache!.entries;
+    }
+
+    /**
+     * Adds a video to the catalog, or replaces its entry, after its metadata file was written.
+     * The entry is taken from the metadata file as it is when the manifest is changed, not from
+     * the caller's copy, so a writer that reaches the manifest late cannot put back an older
+     * version; a video whose metadata file is gone is dropped.
+     * @async
+     * @param {CatalogEntry | VideoMetadata} metadata - Metadata of the video
+     * @returns {Promise<void>}
+     */
+    async upsert(metadata: CatalogEntry | VideoMetadata): Promise<void> {
+        const videoId = metadata.id;
+        await this.mutate(async entries => {
+            // Read again on every attempt, since another writer may have changed the video meanwhile
+            const current = await this.readEntry(`metadata/${videoId}.json`);
+            const others = entries.filter(item => item.id !== videoId);
+            return current ? [...others, current] : others;
+        });
+    }
+
+    /**
+     * Removes a video from the catalog
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<void>}
+     */
+    async remove(videoId: string): Promise<void> {
+        await this.mutate(entries => entries.filter(item => item.id !== videoId));
+    }
+
+    /**
+     * Gets every entry in the catalog
+     * @async
+     * @returns {Promise<CatalogEntry[]>} All entries, newest first
+     */
+    async all(): Promise<CatalogEntry[]> {
+        return this.load();
+    }
+
+    /**
+     * Finds the videos with the given contents that a user may see: the user's own and
+     * public ones, excluding anything in the trash
+     * @async
+     * @param {string} contentHash - SHA-256 of the video file as hex
+     * @param {string} username - Username of the signed-in user
+     * @returns {Promise<CatalogEntry[]>} The matching videos, newest first
+     */
+    async findByContentHash(contentHash: string, username: string): Promise<CatalogEntry[]> {
+        return (await this.load()).filter(entry =>
+            entry.contentHash === contentHash && (entry.isPublic || entry.userId === username) && !entry.deletedAt
+        );
+    }
+
+    /**
+     * Gets one page of the videos a user may see: public videos and the user's own,
+     * only the user's own for the `mine` scope, or the user's deleted videos for `trash`
+     * @async
+     * @param {VideoListOptions} options - Scope, cursor and page size
+     * @param {string | null} username - Username of the signed-in user, or null
+     * @returns {Promise<CatalogPage>} The page
+     * @throws {Error} If the cursor is malformed
+     */
+    async page(options: VideoListOptions, username: string | null): Promise<CatalogPage> {
+        const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const after = options.cursor ? decodeCursor(options.cursor) : null;
+
+        const visible = (await this.load()).filter(entry => {
+            switch (options.scope) {
+                case 'trash':
+                    return entry.userId === username && Boolean(entry.deletedAt);
+                case 'mine':
+                    return entry.userId === username && !entry.deletedAt;
+                default:
+                    return (entry.isPublic || entry.userId === username) && !entry.deletedAt;
+            }
+        });
+
+        const start = after
+            ? visible.findIndex(entry => compareEntries(entry, { ...entry, ...after }) > 0)
+            : 0;
+        const entries = start === -1 ? [] : visible.slice(start, start + limit);
+        const hasMore = start !== -1 && start + limit < visible.length;
+
+        return {
+            entries,
+            nextCursor: hasMore ? encodeCursor(entries[entries.length - 1]) : null
+        };
+    }
+}
+
+export const videoCatalog = new VideoCatalog();
@@ -0,0 +1,272 @@
+import fs from 'fs';
+import Store from 'electron-store';
+import type { PendingUpload, UploadProgress, UploadStatus } from '../../renderer/types/types';
+import type { StorageProvider } from './storage/types';
+
+/** Size of each multipart chunk. S3 requires every part except the last to be at least 5 MB. */
+export const PART_SIZE = 10 * 1024 * 1024;
+
+let pendingStore: Store<{ uploads: PendingUpload[] }> | null = null;
+
+/**
+ * Opens the store of interrupted uploads on first use, after the userData path has been set
+ * @returns {Store<{ uploads: PendingUpload[] }>} The store
+ */
+const getPendingStore = () => {
+    if (!pendingStore) {
+        pendingStore = new Store<{ uploads: PendingUpload[] }>({
+            name: 'pending-uploads',
+            defaults: { uploads: [] }
+        });
+    }
+    return pendingStore;
+};
+
+/**
+ * Controls a running video upload. One is created per upload and driven over IPC
+ * by the renderer's pause, resume and cancel buttons.
+ * @class UploadController
+ */
+export class UploadController {
+    private status: UploadStatus = 'pending';
+    private listeners = new Set<(status: UploadStatus) => void>();
+    private resumeWaiters: Array<() => void> = [];
+    private abortActive: (() => void) | null = null;
+
+    /**
+     * Gets the current status of the upload
+     * @returns {UploadStatus} The current status
+     */
+    getStatus(): UploadStatus {
+        return this.status;
+    }
+
+    /**
+     * Subscribes to status changes
+     * @param {(status: UploadStatus) => void} listener - Called with the new status
+     * @returns {() => void} Function that removes the listener
+     */
+    onStatusChange(listener: (status: UploadStatus) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Pauses the upload. Parts already sent are kept on S3.
+     */
+    pause(): void {
+        if (this.status !== 'uploading') return;
+        this.setStatus('paused');
+        this.abortActive?.();
+    }
+
+    /**
+     * Resumes a paused upload from the last completed part
+     */
+    resume(): void {
+        if (this.status !== 'paused') return;
+        this.setStatus('uploading');
+        this.releaseWaiters();
+    }
+
+    /**
+     * Cancels the upload and discards any parts already sent
+     */
+    cancel(): void {
+        if (this.status === 'completed' || this.status === 'cancelled') return;
+        this.setStatus('cancelled');
+        this.abortActive?.();
+        this.releaseWaiters();
+    }
+
+    /**
+     * Updates the status and notifies listeners
+     * @param {UploadStatus} status - The new status
+     */
+    setStatus(status: UploadStatus): void {
+        this.status = status;
+        this.listeners.forEach(listener => listener(status));
+    }
+
+    /**
+     * Registers the function that interrupts the in-flight transfer on pause or cancel
+     * @param {(() => void) | null} abort - Abort function, or null once the transfer has settled
+     */
+    bindAbort(abort: (() => void) | null): void {
+        this.abortActive = abort;
+    }
+
+    /**
+     * Waits until the upload is resumed or cancelled
+     * @returns {Promise<void>}
+     */
+    waitForResume(): Promise<void> {
+        return new Promise(resolve => this.resumeWaiters.push(resolve));
+    }
+
+    private releaseWaiters(): void {
+        const waiters = this.resumeWaiters;
+        this.resumeWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+}
+
+/**
+ * Persists interrupted uploads with electron-store so they can be resumed after a restart
+ */
+export const pendingUploadStore = {
+    /**
+     * Lists all interrupted uploads
+     * @returns {PendingUpload[]} The persisted uploads
+     */
+    list(): PendingUpload[] {
+        return getPendingStore().get('uploads');
+    },
+
+    /**
+     * Finds an interrupted upload by its video key
+     * @param {string} videoKey - Video key of the upload
+     * @returns {PendingUpload | undefined} The upload, if one is persisted
+     */
+    find(videoKey: string): PendingUpload | undefined {
+        return this.list().find(item => item.videoKey === videoKey);
+    },
+
+    /**
+     * Adds or replaces an upload record, keyed by its video key
+     * @param {PendingUpload} record - The upload to persist
+     */
+    save(record: PendingUpload): void {
+        const others = this.list().filter(item => item.videoKey !== record.videoKey);
+        getPendingStore().set('uploads', [...others, record]);
+    },
+
+    /**
+     * Removes an upload record
+     * @param {string} videoKey - Video key of the upload to remove
+     */
+    remove(videoKey: string): void {
+        getPendingStore().set('uploads', this.list().filter(item => item.videoKey !== videoKey));
+    }
+};
+
+/**
+ * Storage claimed by an upload that has not finished yet
+ * @interface UploadReservation
+ * @property {string} videoKey - Storage key the video is uploaded to
+ * @property {string} userId - Username of the uploader
+ * @property {number} fileSize - Size of the video in bytes
+ */
+export interface UploadReservation {
+    videoKey: string;
+    userId: string;
+    fileSize: number;
+}
+
+const reservationSources = new Set<() => UploadReservation[]>();
+
+/**
+ * Tracks the storage claimed by uploads in flight and waiting, so quota checks count them
+ * before their files are stored. Interrupted uploads are read from the pending upload store;
+ * other places holding uploads, such as the upload queue, register as sources.
+ */
+export const uploadReservations = {
+    /**
+     * Registers a source of reservations
+     * @param {() => UploadReservation[]} source - Lists the uploads the source holds
+     */
+    addSource(source: () => UploadReservation[]): void {
+        reservationSources.add(source);
+    },
+
+    /**
+     * Lists the reservations, counting each video key once
+     * @param {string} [excludeVideoKey] - Video key of an upload whose own reservation is left out
+     * @returns {UploadReservation[]} The reservations
+     */
+    list(excludeVideoKey?: string): UploadReservation[] {
+        const reservations = new Map<string, UploadReservation>();
+        const pending = pendingUploadStore.list().map(record => ({
+            videoKey: record.videoKey,
+            userId: record.metadata.userId,
+            fileSize: record.fileSize
+        }));
+        [...pending, ...Array.from(reservationSources).flatMap(source => source())]
+            .filter(reservation => reservation.videoKey !== excludeVideoKey)
+            .forEach(reservation => reservations.set(reservation.videoKey, reservation));
+        return Array.from(reservations.values());
+    }
+};
+
+/**
+ * Checks that the local file of an upload is still the one that was originally selected
+ * @async
+ * @param {PendingUpload} record - The upload to check
+ * @returns {Promise<void>}
+ * @throws {Error} If the file was moved, deleted or modified
+ */
+export async function assertSourceUnchanged(record: PendingUpload): Promise<void> {
+    const stats = await fs.promises.stat(record.filePath).catch(() => null);
+    if (!stats || stats.size !== record.fileSize || Math.floor(stats.mtimeMs) !== record.lastModified) {
+        throw new Error('The original file was moved or changed since the upload started');
+    }
+}
+
+/**
+ * Uploads a local file to a storage provider, handling pause, resume and cancel.
+ * Every attempt after the first continues from what the provider already has.
+ * @async
+ * @param {StorageProvider} provider - Storage provider to upload to
+ * @param {PendingUpload} record - Persisted state of the upload, updated as it progresses
+ * @param {UploadController} controller - Controller used for pause, resume and cancel
+ * @param {(progress: UploadProgress) => void} [onProgress] - Called with byte-level progress
+ * @returns {Promise<void>}
+ * @throws {Error} If the upload is cancelled or fails
+ */
+export async function runResumableUpload(
+    provider: StorageProvider,
+    record: PendingUpload,
+    controller: UploadController,
+    onProgress?: (progress: UploadProgress) => void
+): Promise<void> {
+    const reportProgress = (loaded: number) => {
+        onProgress?.({
+            loaded,
+            total: record.fileSize,
+            percentage: record.fileSize ? Math.min(100, (loaded / record.fileSize) * 100) : 100
+        });
+    };
+
+    controller.setStatus('uploading');
+
+    while (true) {
+        if (controller.getStatus() === 'cancelled') {
+            await provider.abortTransfer(record);
+            pendingUploadStore.remove(record.videoKey);
+            throw new Error('Upload cancelled');
+        }
+
+        if (controller.getStatus() === 'paused') {
+            await controller.waitForResume();
+            continue;
+        }
+
+        try {
+            await provider.transfer(record, controller, reportProgress);
+            pendingUploadStore.remove(record.videoKey);
+            controller.setStatus('completed');
+            return;
+        } catch (error) {
+            const status = controller.getStatus();
+            if (status === 'paused' || status === 'cancelled') {
+                continue;
+            }
+            controller.setStatus('failed');
+            throw error;
+        } finally {
+            controller.bindAbort(null);
+        }
+    }
+}
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import type { VideoValidationResult } from '../../renderer/types/types';
+import { loadVideoPolicy } from '../config/upload-policy';
+import { probeSource, SourceInfo, FfmpegUnavailableError } from './transcoder';
+
+/** Number of leading bytes read to recognise the container */
+const SNIFF_BYTES = 16;
+
+/** Leading box types of QuickTime files written without an `ftyp` box */
+const QUICKTIME_BOXES = ['moov', 'mdat', 'free', 'wide', 'skip', 'pnot'];
+
+/** Header GUID of ASF files (WMV) */
+const ASF_HEADER = Buffer.from([0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11]);
+
+/** Header of EBML files (Matroska and WebM) */
+const EBML_HEADER = Buffer.from([0x1a, 0x45, 0xdf, 0xa3]);
+
+/**
+ * Recognises a video container from the leading bytes of a file, whatever its name or
+ * reported MIME type
+ * @param {Buffer} header - The first bytes of the file
+ * @returns {string | null} The container, or null if the bytes match no supported one
+ */
+export const sniffContainer = (header: Buffer): string | null => {
+    const ascii = (start: number, end: number) => header.toString('latin1', start, end);
+
+    if (ascii(4, 8) === 'ftyp') return 'mp4';
+    if (QUICKTIME_BOXES.includes(ascii(4, 8))) return 'quicktime';
+    if (header.subarray(0, 4).equals(EBML_HEADER)) return 'matroska';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'AVI ') return 'avi';
+    if (header.subarray(0, 8).equals(ASF_HEADER)) return 'asf';
+    if (ascii(0, 3) === 'FLV') return 'flv';
+    return null;
+};
+
+/**
+ * Formats a size in bytes for a violation message
+ * @param {number} bytes - The size
+ * @returns {string} The size in MB or GB
+ */
+const describeSize = (bytes: number): string =>
+    bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${Math.ceil(bytes / 1024 ** 2)} MB`;
+
+/**
+ * Formats a duration in seconds for a violation message
+ * @param {number} seconds - The duration
+ * @returns {string} The duration as `H:MM:SS` or `M:SS`
+ */
+const describeDuration = (seconds: number): string => {
+    const total = Math.ceil(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = String(total % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+/**
+ * Checks a local video file's contents against the upload policy: the container is
+ * recognised from its magic bytes, then the streams are probed with ffmpeg for duration,
+ * frame size and bitrate. Nothing is uploaded.
+ * @async
+ * @param {string} filePath - Absolute path of the video file
+ * @returns {Promise<VideoValidationResult>} Whether the file may be uploaded, and why not
+ */
+export const validateVideoFile = async (filePath: string): Promise<VideoValidationResult> => {
+    const policy = await loadVideoPolicy();
+    const violations: string[] = [];
+
+    const stats = await fs.promises.stat(filePath).catch(() => null);
+    if (!stats || !stats.isFile()) {
+        return { valid: false, violations: ['The file cannot be read'] };
+    }
+    if (stats.size === 0) {
+        return { valid: false, violations: ['The file is empty'] };
+    }
+    if (stats.size > policy.maxFileSize) {
+        violations.push(`The file is ${describeSize(stats.size)}; the limit is ${describeSize(policy.maxFileSize)}`);
+    }
+
+    const header = Buffer.alloc(SNIFF_BYTES);
+    const fileHandle = await fs.promises.open(filePath, 'r');
+    try {
+        await fileHandle.read(header, 0, SNIFF_BYTES, 0);
+    } finally {
+        await fileHandle.close();
+    }
+
+    const container = sniffContainer(header);
+    if (!container) {
+        return {
+            valid: false,
+            violations: [...violations, 'The file is not a supported video (MP4, MOV, WebM, MKV, AVI, WMV or FLV)']
+        };
+    }
+
+    let source: SourceInfo;
+    try {
+        source = await probeSource(filePath);
+    } catch (error) {
+        console.error('Error probing video:', error);
+        // A missing or broken ffmpeg says nothing about the file, so it is not reported as corrupt
+        const reason = error instanceof FfmpegUnavailableError
+            ? `The video cannot be checked because ${error.message}; set FFMPEG_PATH to a working ffmpeg`
+            : 'The video cannot be read; the file may be corrupt';
+        return { valid: false, violations: [...violations, reason], container };
+    }
+
+    if (source.duration <= 0) {
+        violations.push('The video has no duration; the file may be corrupt');
+    } else if (source.duration > policy.maxDurationSeconds) {
+        violations.push(`The video is ${describeDuration(source.duration)} long; the limit is ${describeDuration(policy.maxDurationSeconds)}`);
+    }
+
+    // Portrait videos are compared against the limits turned on their side
+    const [longSide, shortSide] = [Math.max(source.width, source.height), Math.min(source.width, source.height)];
+    if (longSide > Math.max(policy.maxWidth, policy.maxHeight) || shortSide > Math.min(policy.maxWidth, policy.maxHeight)) {
+        violations.push(`The video is ${source.width}x${source.height}; the limit is ${policy.maxWidth}x${policy.maxHeight}`);
+    }
+
+    if (source.bitrate > policy.maxBitrate) {
+        violations.push(
+            `The bitrate is ${(source.bitrate / 1e6).toFixed(1)} Mbit/s; the limit is ${(policy.maxBitrate / 1e6).toFixed(1)} Mbit/s`
+        );
+    }
+
+    return {
+        valid: violations.length === 0,
+        violations,
+        container,
+        duration: source.duration,
+        width: source.width,
+        height: source.height,
+        bitrate: source.bitrate
+    };
+};
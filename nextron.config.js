@@ -0,0 +1,24 @@
+const path = require('path');
+const webpack = require('webpack');
+require('dotenv').config({ path: path.join(__dirname, '.env.local') });
+
+module.exports = {
+  // AWS credentials are only inlined into the main process bundle, never into the renderer
+  webpack: (config) => {
+    config.plugins.push(
+      new webpack.EnvironmentPlugin({
+        AWS_ACCESS_KEY_ID: '',
+        AWS_SECRET_ACCESS_KEY: '',
+        NEXT_PUBLIC_AWS_REGION: '',
+        NEXT_PUBLIC_AWS_BUCKET_NAME: '',
+        STORAGE_PROVIDER: 's3',
+        LOCAL_STORAGE_DIR: '',
+        S3_ENDPOINT: '',
+        S3_FORCE_PATH_STYLE: 'false',
+        DYNAMODB_ENDPOINT: '',
+        FFMPEG_PATH: '',
+      })
+    );
+    return config;
+  },
+};
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { SearchCheck, Wrench } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { maintenanceService } from '@/services/maintenanceService';
+import { ConsistencyIssue, ConsistencyIssueKind, ConsistencyReport } from '@/types/types';
+
+/** Headings for each kind of issue, in the order they are listed */
+const ISSUE_LABELS: Record<ConsistencyIssueKind, string> = {
+    missingVideo: 'Metadata pointing at a missing video file',
+    missingThumbnail: 'Metadata pointing at a missing thumbnail',
+    unreadableMetadata: 'Unreadable or invalid metadata files',
+    orphanVideo: 'Video files without metadata',
+    orphanThumbnail: 'Thumbnails without metadata',
+    orphanRenditions: 'Transcoded renditions without metadata',
+    orphanReview: 'Reviews of deleted videos',
+    staleCatalogEntry: 'Catalog entries without metadata',
+    missingCatalogEntry: 'Videos missing from the catalog',
+    outdatedCatalogEntry: 'Catalog entries that differ from the metadata'
+};
+
+/** What repairing each kind of issue does, shown in the confirmation */
+const REPAIR_ACTIONS: Record<ConsistencyIssueKind, string> = {
+    missingVideo: 'delete the video record, thumbnail, renditions and reviews',
+    missingThumbnail: 'clear the thumbnail from the metadata',
+    unreadableMetadata: 'nothing (fix by hand, or quarantine with the metadata migration)',
+    orphanVideo: 'delete the file',
+    orphanThumbnail: 'delete the file',
+    orphanRenditions: 'delete the renditions',
+    orphanReview: 'delete the review',
+    staleCatalogEntry: 'rebuild the catalog',
+    missingCatalogEntry: 'rebuild the catalog',
+    outdatedCatalogEntry: 'rebuild the catalog'
+};
+
+/**
+ * Administrator tool that scans storage, metadata and the Reviews table for orphans and
+ * dangling references, and repairs the selected kinds of issue after confirmation
+ * @component
+ * @returns {JSX.Element} The rendered checker
+ */
+const ConsistencyChecker: React.FC = () => {
+    const [report, setReport] = useState<ConsistencyReport | null>(null);
+    const [selectedKinds, setSelectedKinds] = useState<ConsistencyIssueKind[]>([]);
+    const [scanning, setScanning] = useState(false);
+    const [repairing, setRepairing] = useState(false);
+
+    /**
+     * Runs a scan and selects every repairable kind of issue found
+     * @async
+     */
+    const handleScan = async () => {
+        setScanning(true);
+        try {
+            const result = await maintenanceService.scanConsistency();
+            setReport(result);
+            setSelectedKinds(Array.from(new Set(
+                result.issues.filter(issue => issue.repairable).map(issue => issue.kind)
+            )));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Scan failed');
+        } finally {
+            setScanning(false);
+        }
+    };
+
+    /**
+     * Toggles whether a kind of issue will be repaired
+     * @param {ConsistencyIssueKind} kind - The kind of issue
+     */
+    const toggleKind = (kind: ConsistencyIssueKind) => {
+        setSelectedKinds(current =>
+            current.includes(kind) ? current.filter(item => item !== kind) : [...current, kind]
+        );
+    };
+
+    /**
+     * Asks for confirmation, repairs the selected issues and scans again
+     * @async
+     */
+    const handleRepair = async () => {
+        if (!report) return;
+        const issues = report.issues.filter(issue => issue.repairable && selectedKinds.includes(issue.kind));
+        if (issues.length === 0) return;
+
+        const summary = selectedKinds
+            .map(kind => `- ${ISSUE_LABELS[kind]}: ${REPAIR_ACTIONS[kind]}`)
+            .join('\n');
+        if (!window.confirm(`Repair ${issues.length} issue(s)? This will:\n${summary}\n\nDeleted items cannot be recovered.`)) {
+            return;
+        }
+
+        setRepairing(true);
+        try {
+            const result = await maintenanceService.repairConsistency(issues);
+            if (result.failed.length > 0) {
+                result.failed.forEach(({ issue, error }) => console.error(`Repair of ${issue.key} failed:`, error));
+                toast.error(`Repaired ${result.repaired}, ${result.failed.length} failed`);
+            } else {
+                toast.success(`Repaired ${result.repaired} issue(s)${result.skipped ? `, ${result.skipped} already resolved` : ''}`);
+            }
+            await handleScan();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Repair failed');
+        } finally {
+            setRepairing(false);
+        }
+    };
+
+    const groups = (Object.keys(ISSUE_LABELS) as ConsistencyIssueKind[])
+        .map(kind => ({ kind, issues: report ? report.issues.filter(issue => issue.kind === kind) : [] }))
+        .filter(group => group.issues.length > 0);
+    const selectedCount = report
+        ? report.issues.filter((issue: ConsistencyIssue) => issue.repairable && selectedKinds.includes(issue.kind)).length
+        : 0;
+
+    return (
+        <div className="max-w-3xl mx-auto">
+            <h2 className="text-xl font-semibold mb-1">Storage consistency</h2>
+            <p className="text-sm text-gray-400 mb-4">
+                Finds files without metadata, metadata pointing at missing files, and reviews of deleted videos.
+                Scanning changes nothing.
+            </p>
+
+            <div className="flex gap-2 mb-6">
+                <button
+                    onClick={handleScan}
+                    disabled={scanning || repairing}
+                    className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                    <SearchCheck className="w-4 h-4 mr-2" />
+                    {scanning ? 'Scanning...' : 'Scan'}
+                </button>
+                {report && selectedCount > 0 && (
+                    <button
+                        onClick={handleRepair}
+                        disabled={scanning || repairing}
+                        className="flex items-center px-3 py-2 border-2 border-[#ff0000] text-[#ff0000] rounded-lg hover:bg-white disabled:opacity-50"
+                    >
+                        <Wrench className="w-4 h-4 mr-2" />
+                        {repairing ? 'Repairing...' : `Repair ${selectedCount} issue(s)`}
+                    </button>
+                )}
+            </div>
+
+            {report && (
+                <>
+                    <p className="text-sm text-gray-400 mb-4">
+                        Scanned {Object.entries(report.scanned).map(([source, count]) => `${count} ${source}`).join(', ')}
+                        {' '}at {new Date(report.scannedAt).toLocaleString()}.
+                    </p>
+
+                    {groups.length === 0 ? (
+                        <p className="text-green-500">No issues found.</p>
+                    ) : (
+                        groups.map(({ kind, issues }) => (
+                            <div key={kind} className="mb-4 bg-gray-800 rounded-lg p-3">
+                                <label className="flex items-center gap-2 font-medium mb-2">
+                                    {issues[0].repairable && (
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedKinds.includes(kind)}
+                                            onChange={() => toggleKind(kind)}
+                                        />
+                                    )}
+                                    {ISSUE_LABELS[kind]} ({issues.length})
+                                </label>
+                                <ul className="text-xs text-gray-400 space-y-1 max-h-48 overflow-y-auto">
+                                    {issues.map(issue => (
+                                        <li key={issue.key}>
+                                            <span className="font-mono text-gray-300">{issue.key}</span> — {issue.description}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ))
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ConsistencyChecker;
@@ -1,37 +1,70 @@
 import React from 'react';
 import { Trash2 } from 'lucide-react';
+import { Hub } from 'aws-amplify/utils';
 import { s3Service } from '@/services/s3Service';
 import toast from 'react-hot-toast';
 import {DeleteVideoProps} from "@/types/types";
 
+/** How long the undo toast stays on screen */
+const UNDO_TOAST_MS = 8000;
+
 /**
- * A React component that renders a delete button for videos with confirmation toast notifications
+ * A React component that renders a delete button for videos. Deleting moves the video to the
+ * trash and shows a toast with an undo action.
  * @component
  * @param {DeleteVideoProps} props - The component props
  * @param {string} props.videoId - The unique identifier of the video to be deleted
  * @param {() => void} [props.onDelete] - Optional callback function to be executed after successful video deletion
  */
 const DeleteVideo: React.FC<DeleteVideoProps> = ({ videoId, onDelete }) => {
+    /**
+     * Restores the video from the trash and notifies listeners so the grids refresh
+     * @async
+     * @param {string} toastId - ID of the undo toast to replace with the outcome
+     */
+    const handleUndo = async (toastId: string) => {
+        toast.loading('Restoring video...', { id: toastId });
+        const result = await s3Service.restoreVideo(videoId);
+        if (result.success) {
+            Hub.dispatch('videos', {
+                event: 'videoRestored',
+                data: { videoId }
+            });
+            toast.success('Video restored', { id: toastId });
+        } else {
+            toast.error(result.error || 'Failed to restore video', { id: toastId });
+        }
+    };
+
+    /**
+     * Moves the video to the trash and offers to undo it
+     * @async
+     */
     const handleDelete = async () => {
-        try {
-            await toast.promise(
-                s3Service.deleteVideo(videoId),
-                {
-                    loading: 'Deleting video...',
-                    success: (result) => {
-                        if (result.success) {
-                            onDelete?.();
-                            window.location.reload();
-                            return 'Video deleted successfully!';
-                        }
-                        throw new Error(result.error || 'Failed to delete video');
-                    },
-                    error: 'Failed to delete video'
-                }
-            );
-        } catch (error) {
-            toast.error('Error deleting video');
+        const toastId = toast.loading('Deleting video...');
+        const result = await s3Service.trashVideo(videoId);
+        if (!result.success) {
+            toast.error(result.error || 'Failed to delete video', { id: toastId });
+            return;
         }
+
+        Hub.dispatch('videos', {
+            event: 'videoDeleted',
+            data: { videoId }
+        });
+        onDelete?.();
+
+        toast.success((t) => (
+            <span className="flex items-center gap-3">
+                Video moved to trash
+                <button
+                    onClick={() => handleUndo(t.id)}
+                    className="px-2 py-1 text-sm font-medium text-blue-600 border border-blue-600 rounded hover:bg-blue-50"
+                >
+                    Undo
+                </button>
+            </span>
+        ), { id: toastId, duration: UNDO_TOAST_MS });
     };
 
     return (
@@ -46,4 +79,4 @@ const DeleteVideo: React.FC<DeleteVideoProps> = ({ videoId, onDelete }) => {
     );
 };
 
-export default DeleteVideo;
\ No newline at end of file
+export default DeleteVideo;
@@ -0,0 +1,290 @@
+import React, { useState, useRef, ChangeEvent, FormEvent } from 'react';
+import { Image as ImageIcon } from 'lucide-react';
+import Switch from 'react-switch';
+import toast from 'react-hot-toast';
+import { Hub } from 'aws-amplify/utils';
+import { s3Service } from '@/services/s3Service';
+import { EditVideoDetailsProps, VideoConflictField, VideoEditBase, VideoEditConflict, VideoMetadata } from '@/types/types';
+import { VIDEO_CATEGORIES, validateVideoDetails, isValidThumbnail } from '@/utils/videoDetails';
+import { notifyContentViolations } from '@/utils/guidelines';
+
+/** How each field is named in the conflict prompt */
+const CONFLICT_LABELS: Record<VideoConflictField, string> = {
+    title: 'Title',
+    description: 'Description',
+    category: 'Category',
+    isPublic: 'Visibility',
+    thumbnail: 'Thumbnail'
+};
+
+/**
+ * Gets the values an edit of a video starts from
+ * @param {VideoMetadata} video - The video
+ * @returns {VideoEditBase} The editable values
+ */
+const toEditBase = (video: VideoMetadata): VideoEditBase => ({
+    title: video.title,
+    description: video.description,
+    category: video.category,
+    isPublic: video.isPublic,
+    thumbnailKey: video.thumbnailKey
+});
+
+/**
+ * Describes the stored value of a conflicting field
+ * @param {VideoMetadata} video - The video as now stored
+ * @param {VideoConflictField} field - The field
+ * @returns {string} The value as shown to the user
+ */
+const describeValue = (video: VideoMetadata, field: VideoConflictField): string => {
+    switch (field) {
+        case 'isPublic':
+            return video.isPublic ? 'Public' : 'Private';
+        case 'thumbnail':
+            return 'a different thumbnail';
+        case 'category':
+            return video.category || 'None';
+        default:
+            return video[field] || '(empty)';
+    }
+};
+
+/**
+ * Form that lets the owner of a video change its title, description, category,
+ * visibility and thumbnail. Only the fields the user changes are saved; if someone else
+ * changed one of the same fields in the meantime, the user chooses whose change to keep.
+ * @component
+ * @param {EditVideoDetailsProps} props - The component props
+ * @param {VideoMetadata} props.video - The video being edited
+ * @param {(video: VideoMetadata) => void} props.onSaved - Called with the updated video after a successful save
+ * @param {() => void} props.onCancel - Called when the user leaves edit mode without saving
+ * @returns {JSX.Element} The rendered edit form
+ */
+const EditVideoDetails: React.FC<EditVideoDetailsProps> = ({ video, onSaved, onCancel }) => {
+    const [title, setTitle] = useState(video.title);
+    const [description, setDescription] = useState(video.description);
+    const [category, setCategory] = useState(video.category);
+    const [isPublic, setIsPublic] = useState(video.isPublic);
+    const [thumbnail, setThumbnail] = useState<File | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [baseline, setBaseline] = useState<VideoEditBase>(() => toEditBase(video));
+    const [conflict, setConflict] = useState<VideoEditConflict | null>(null);
+    const thumbnailInputRef = useRef<HTMLInputElement>(null);
+
+    /**
+     * Handles selection of a replacement thumbnail
+     * @param {ChangeEvent<HTMLInputElement>} e - The file input change event
+     */
+    const handleThumbnailChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file && isValidThumbnail(file)) {
+            setThumbnail(file);
+        } else {
+            toast.error('Please select a valid image file');
+        }
+    };
+
+    /**
+     * Saves the changes, then notifies listeners so the grids refresh
+     * @async
+     * @param {VideoEditBase} expected - The values the changes were made against
+     */
+    const save = async (expected: VideoEditBase) => {
+        setIsSaving(true);
+        setConflict(null);
+        try {
+            const result = await s3Service.updateVideoMetadata(
+                video.id,
+                { title, description, category, isPublic },
+                thumbnail || undefined,
+                expected
+            );
+
+            if (result.conflict) {
+                setConflict(result.conflict);
+                return;
+            }
+
+            if (!result.success || !result.video) {
+                throw new Error(result.error || 'Failed to update video');
+            }
+
+            Hub.dispatch('videos', {
+                event: 'videoUpdated',
+                data: { videoId: video.id }
+            });
+
+            toast.success('Video updated');
+            notifyContentViolations(result.contentViolations);
+            onSaved(result.video);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update video');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    /**
+     * Validates the form and saves the changes
+     * @async
+     * @param {FormEvent<HTMLFormElement>} e - The form submission event
+     */
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+
+        const detailsError = validateVideoDetails({ title });
+        if (detailsError) {
+            toast.error(detailsError);
+            return;
+        }
+
+        await save(baseline);
+    };
+
+    /**
+     * Resolves a conflict by saving the user's values over the other change
+     * @async
+     */
+    const handleKeepMine = async () => {
+        if (!conflict) return;
+        const current = toEditBase(conflict.current);
+        setBaseline(current);
+        await save(current);
+    };
+
+    /**
+     * Resolves a conflict by taking the other change into the form in place of the user's
+     * values for the conflicting fields; the user's other changes stay in the form unsaved
+     */
+    const handleUseTheirs = () => {
+        if (!conflict) return;
+        const { current, fields } = conflict;
+        if (fields.includes('title')) setTitle(current.title);
+        if (fields.includes('description')) setDescription(current.description);
+        if (fields.includes('category')) setCategory(current.category);
+        if (fields.includes('isPublic')) setIsPublic(current.isPublic);
+        if (fields.includes('thumbnail')) setThumbnail(null);
+        setBaseline(toEditBase(current));
+        setConflict(null);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+            <div>
+                <label className="block text-gray-400 mb-1">Title*</label>
+                <input
+                    type="text"
+                    className="w-full px-2 py-1.5 bg-gray-200 text-gray-900 border rounded-lg focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    required
+                />
+            </div>
+
+            <div>
+                <label className="block text-gray-400 mb-1">Description</label>
+                <textarea
+                    className="w-full px-2 py-1.5 bg-gray-200 text-gray-900 border rounded-lg focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    rows={4}
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                />
+            </div>
+
+            <div>
+                <label className="block text-gray-400 mb-1">Category</label>
+                <select
+                    className="w-full px-2 py-1.5 bg-gray-200 text-gray-900 border rounded-lg focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                >
+                    <option value="">Select category</option>
+                    {VIDEO_CATEGORIES.map((option) => (
+                        <option key={option} value={option.toLowerCase()}>{option}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div>
+                <label className="block text-gray-400 mb-1">Thumbnail</label>
+                <div
+                    className="border-2 bg-gray-200 border-dashed rounded-lg p-3 text-center cursor-pointer hover:bg-gray-50 text-gray-900"
+                    onClick={() => thumbnailInputRef.current?.click()}
+                >
+                    <ImageIcon className="mx-auto h-6 w-6 text-gray-400" />
+                    <p className="mt-1">{thumbnail ? thumbnail.name : 'Click to replace thumbnail'}</p>
+                    <input
+                        ref={thumbnailInputRef}
+                        type="file"
+                        accept="image/*"
+                        onChange={handleThumbnailChange}
+                        className="hidden"
+                    />
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+                <label className="text-gray-400">Make video public</label>
+                <Switch
+                    checked={isPublic}
+                    onChange={setIsPublic}
+                    onColor="#3B82F6"
+                    offColor="#D1D5DB"
+                    height={20}
+                    width={40}
+                />
+            </div>
+
+            {conflict && (
+                <div role="alert" className="p-3 bg-yellow-100 text-yellow-900 border border-yellow-300 rounded-lg">
+                    <p className="font-medium mb-1">This video was changed while you were editing it</p>
+                    <ul className="mb-2 space-y-0.5">
+                        {conflict.fields.map(field => (
+                            <li key={field}>
+                                {CONFLICT_LABELS[field]} is now <span className="font-medium">{describeValue(conflict.current, field)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={handleKeepMine}
+                            disabled={isSaving}
+                            className="px-2 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:opacity-50"
+                        >
+                            Keep my changes
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleUseTheirs}
+                            disabled={isSaving}
+                            className="px-2 py-1 border border-yellow-600 rounded hover:bg-yellow-200 disabled:opacity-50"
+                        >
+                            Use theirs
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    disabled={isSaving}
+                    className="px-3 py-2 border-2 border-gray-400 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+                >
+                    {isSaving ? 'Saving...' : 'Save'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default EditVideoDetails;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { DatabaseZap } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { maintenanceService } from '@/services/maintenanceService';
+import { MetadataMigrationReport } from '@/types/types';
+
+/**
+ * Administrator tool that upgrades every video metadata record to the current schema
+ * version at once, rather than as each video is next read, and lists the records that
+ * were quarantined because they failed validation
+ * @component
+ * @returns {JSX.Element} The rendered tool
+ */
+const MetadataMigration: React.FC = () => {
+    const [report, setReport] = useState<MetadataMigrationReport | null>(null);
+    const [migrating, setMigrating] = useState(false);
+
+    /**
+     * Asks for confirmation and runs the migration
+     * @async
+     */
+    const handleMigrate = async () => {
+        if (!window.confirm('Upgrade every metadata record? Records that fail validation will be moved to quarantine and hidden from listings.')) {
+            return;
+        }
+
+        setMigrating(true);
+        try {
+            const result = await maintenanceService.migrateMetadata();
+            setReport(result);
+            if (result.failed.length > 0) {
+                result.failed.forEach(({ videoId, error }) => console.error(`Migration of ${videoId} failed:`, error));
+                toast.error(`Upgraded ${result.migrated}, ${result.failed.length} failed`);
+            } else {
+                toast.success(`Upgraded ${result.migrated} record(s)`);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Migration failed');
+        } finally {
+            setMigrating(false);
+        }
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto mt-10">
+            <h2 className="text-xl font-semibold mb-1">Metadata schema</h2>
+            <p className="text-sm text-gray-400 mb-4">
+                Older records are upgraded when a video is read. This upgrades them all now and quarantines
+                records that fail validation.
+            </p>
+
+            <button
+                onClick={handleMigrate}
+                disabled={migrating}
+                className="flex items-center px-3 py-2 mb-6 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+                <DatabaseZap className="w-4 h-4 mr-2" />
+                {migrating ? 'Upgrading...' : 'Upgrade all records'}
+            </button>
+
+            {report && (
+                <>
+                    <p className="text-sm text-gray-400 mb-4">
+                        Scanned {report.scanned} record(s): {report.migrated} upgraded to version {report.schemaVersion},
+                        {' '}{report.current} already current, {report.quarantined.length} quarantined, {report.failed.length} failed.
+                    </p>
+
+                    {report.quarantined.length > 0 && (
+                        <div className="bg-gray-800 rounded-lg p-3">
+                            <p className="font-medium mb-2">Quarantined records ({report.quarantined.length})</p>
+                            <ul className="text-xs text-gray-400 space-y-1 max-h-48 overflow-y-auto">
+                                {report.quarantined.map(item => (
+                                    <li key={item.videoId}>
+                                        <span className="font-mono text-gray-300">{item.key}</span> — {item.problems.join('; ')}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MetadataMigration;
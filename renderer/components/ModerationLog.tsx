@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { moderationService } from '@/services/moderationService';
+import { ModerationLogEntry } from '@/types/types';
+import { MODERATION_ACTION_LABELS, REPORT_REASON_LABELS } from '@/utils/moderation';
+
+/**
+ * Moderator tool listing every moderation action, newest first, a page at a time
+ * @component
+ * @param {{refreshKey?: number}} props - Changing the key reloads the log from the start
+ * @returns {JSX.Element} The rendered log
+ */
+const ModerationLog: React.FC<{ refreshKey?: number }> = ({ refreshKey }) => {
+    const [entries, setEntries] = useState<ModerationLogEntry[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        fetchLog();
+    }, [refreshKey]);
+
+    /**
+     * Loads a page of the log. Without a cursor the list starts over; with one the page is appended.
+     * @async
+     * @param {string} [cursor] - Cursor of the page to load
+     */
+    const fetchLog = async (cursor?: string) => {
+        setLoading(true);
+        try {
+            const page = await moderationService.getLog(cursor);
+            setEntries(current => cursor ? [...current, ...page.entries] : page.entries);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to load the moderation log');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto mt-10">
+            <h2 className="text-xl font-semibold mb-4">Moderation log</h2>
+
+            {!loading && entries.length === 0 && (
+                <p className="text-sm text-gray-400">No actions in the last year.</p>
+            )}
+
+            <ul className="space-y-2">
+                {entries.map(entry => (
+                    <li key={entry.id} className="bg-gray-800 rounded-lg p-3 text-sm">
+                        <div className="flex justify-between">
+                            <span className="font-medium">
+                                {MODERATION_ACTION_LABELS[entry.action]} {entry.target.replyId ? 'reply' : 'review'} by {entry.authorEmail}
+                            </span>
+                            <span className="text-gray-400">{new Date(entry.createdAt).toLocaleString()}</span>
+                        </div>
+                        <p className="text-gray-300 italic truncate">{entry.excerpt}</p>
+                        <p className="text-xs text-gray-400">
+                            {entry.moderatorEmail ?? 'Automatic'}
+                            {' '}· {entry.reportCount} {entry.reportCount === 1 ? 'report' : 'reports'}
+                            {entry.reasons.length > 0 && `: ${entry.reasons.map(reason => REPORT_REASON_LABELS[reason]).join(', ')}`}
+                        </p>
+                        {entry.note && <p className="text-xs text-gray-300 mt-1">Note: {entry.note}</p>}
+                    </li>
+                ))}
+            </ul>
+
+            {nextCursor && (
+                <button
+                    onClick={() => fetchLog(nextCursor)}
+                    disabled={loading}
+                    className="w-full mt-4 py-2 text-sm text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+                >
+                    {loading ? 'Loading...' : 'Load more'}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default ModerationLog;
@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { Check, EyeOff, Trash2, RefreshCw, Star } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { moderationService } from '@/services/moderationService';
+import { ModerationAction, ModerationQueueItem } from '@/types/types';
+import { REPORT_REASON_LABELS, targetKey } from '@/utils/moderation';
+
+/**
+ * Moderator tool listing the reported reviews and replies, most reported first, with their
+ * reports. Each item can be approved, hidden or deleted, with an optional note for the log.
+ * @component
+ * @param {{onModerated?: () => void}} props - Called after each decision
+ * @returns {JSX.Element} The rendered queue
+ */
+const ModerationQueue: React.FC<{ onModerated?: () => void }> = ({ onModerated }) => {
+    const [items, setItems] = useState<ModerationQueueItem[]>([]);
+    const [notes, setNotes] = useState<Record<string, string>>({});
+    const [loading, setLoading] = useState(false);
+    const [working, setWorking] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchQueue();
+    }, []);
+
+    /**
+     * Loads the queue
+     * @async
+     */
+    const fetchQueue = async () => {
+        setLoading(true);
+        try {
+            setItems(await moderationService.getQueue());
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to load the queue');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    /**
+     * Records a decision on an item and takes it off the queue
+     * @async
+     * @param {ModerationQueueItem} item - The reported item
+     * @param {ModerationAction} action - The decision
+     */
+    const handleModerate = async (item: ModerationQueueItem, action: ModerationAction) => {
+        if (action === 'delete' && !window.confirm('Delete this permanently? Replies to it are deleted too.')) {
+            return;
+        }
+
+        const key = targetKey(item.target);
+        setWorking(key);
+        try {
+            await moderationService.moderate(item.target, action, notes[key]);
+            setItems(current => current.filter(other => targetKey(other.target) !== key));
+            toast.success(action === 'approve' ? 'Approved' : action === 'hide' ? 'Hidden' : 'Deleted');
+            onModerated?.();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to apply the decision');
+        } finally {
+            setWorking(null);
+        }
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold">Reported content</h2>
+                <button
+                    onClick={fetchQueue}
+                    disabled={loading}
+                    className="flex items-center px-3 py-2 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50"
+                >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    {loading ? 'Loading...' : 'Refresh'}
+                </button>
+            </div>
+
+            {!loading && items.length === 0 && (
+                <p className="text-sm text-gray-400">Nothing is waiting for a decision.</p>
+            )}
+
+            <div className="space-y-4">
+                {items.map(item => {
+                    const key = targetKey(item.target);
+                    return (
+                        <div key={key} className="bg-gray-800 rounded-lg p-4">
+                            <div className="flex justify-between items-start mb-2 text-sm">
+                                <div>
+                                    <span className="font-medium">{item.authorEmail}</span>
+                                    <span className="text-gray-400">
+                                        {' '}· {item.target.replyId ? 'reply' : 'review'} on video {item.videoId}
+                                    </span>
+                                </div>
+                                {item.moderationStatus === 'hidden' && (
+                                    <span className="flex items-center text-xs text-red-400">
+                                        <EyeOff className="w-3 h-3 mr-1" />
+                                        Hidden
+                                    </span>
+                                )}
+                            </div>
+
+                            {item.rating !== undefined && (
+                                <div className="flex mb-1">
+                                    {[1, 2, 3, 4, 5].map(star => (
+                                        <Star key={star} size={14} color="#facc15" fill={star <= item.rating! ? '#facc15' : 'none'} />
+                                    ))}
+                                </div>
+                            )}
+                            <p className="text-gray-200 whitespace-pre-wrap break-words mb-3">{item.content}</p>
+
+                            <p className="text-sm font-medium mb-1">
+                                {item.reports.length} {item.reports.length === 1 ? 'report' : 'reports'}
+                            </p>
+                            <ul className="text-xs text-gray-400 space-y-1 mb-3">
+                                {item.reports.map(report => (
+                                    <li key={`${report.reporterEmail}-${report.createdAt}`}>
+                                        <span className="text-gray-300">{REPORT_REASON_LABELS[report.reason]}</span>
+                                        {' '}— {report.reporterEmail}, {new Date(report.createdAt).toLocaleString()}
+                                        {report.note && <span className="block pl-2 italic">{report.note}</span>}
+                                    </li>
+                                ))}
+                            </ul>
+
+                            <input
+                                type="text"
+                                value={notes[key] || ''}
+                                onChange={(e) => setNotes(current => ({ ...current, [key]: e.target.value }))}
+                                placeholder="Note for the moderation log (optional)"
+                                maxLength={500}
+                                className="w-full px-2 py-1 mb-2 border rounded text-sm text-gray-900"
+                            />
+                            <div className="flex space-x-2">
+                                <button
+                                    onClick={() => handleModerate(item, 'approve')}
+                                    disabled={working === key}
+                                    className="flex items-center px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                                >
+                                    <Check className="w-4 h-4 mr-1" />
+                                    Approve
+                                </button>
+                                <button
+                                    onClick={() => handleModerate(item, 'hide')}
+                                    disabled={working === key}
+                                    className="flex items-center px-3 py-1 text-sm bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:opacity-50"
+                                >
+                                    <EyeOff className="w-4 h-4 mr-1" />
+                                    Hide
+                                </button>
+                                <button
+                                    onClick={() => handleModerate(item, 'delete')}
+                                    disabled={working === key}
+                                    className="flex items-center px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                                >
+                                    <Trash2 className="w-4 h-4 mr-1" />
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default ModerationQueue;
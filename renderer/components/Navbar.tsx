@@ -1,10 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
-import { Upload, Home, User, LogOut } from 'lucide-react';
+import { Upload, Home, User, LogOut, Trash2, Wrench, HardDriveDownload, ShieldCheck } from 'lucide-react';
 import toast from 'react-hot-toast';
 import Link from 'next/link';
 import { signOut, getCurrentUser } from 'aws-amplify/auth';
 import { Hub } from 'aws-amplify/utils';
+import { isInGroup, ADMIN_GROUP, MODERATOR_GROUP } from '@/utils/auth';
+import { uploadQueueService } from '@/services/uploadQueueService';
+import { UploadQueueState } from '@/types/types';
 
 /**
  * Navbar component that provides navigation and authentication functionality
@@ -14,6 +17,10 @@ import { Hub } from 'aws-amplify/utils';
 const Navbar = () => {
     const [isOpen, setIsOpen] = useState(false);
     const [isAuthenticated, setIsAuthenticated] = useState(false);
+    const [isAdmin, setIsAdmin] = useState(false);
+    const [isModerator, setIsModerator] = useState(false);
+    const [activeUploads, setActiveUploads] = useState(0);
+    const uploadStatesRef = useRef<Map<string, UploadQueueState> | null>(null);
     const router = useRouter();
 
     /**
@@ -26,8 +33,12 @@ const Navbar = () => {
         try {
             await getCurrentUser();
             setIsAuthenticated(true);
+            setIsAdmin(await isInGroup(ADMIN_GROUP));
+            setIsModerator(await isInGroup(MODERATOR_GROUP));
         } catch (error) {
             setIsAuthenticated(false);
+            setIsAdmin(false);
+            setIsModerator(false);
         }
     };
 
@@ -41,11 +52,13 @@ const Navbar = () => {
         const unsubscribe = Hub.listen('auth', ({ payload }) => {
             switch (payload.event) {
                 case 'signedIn':
-                    setIsAuthenticated(true);
+                    checkAuthStatus();
                     toast.success('Successfully signed in');
                     break;
                 case 'signedOut':
                     setIsAuthenticated(false);
+                    setIsAdmin(false);
+                    setIsModerator(false);
                     toast.success('Successfully signed out');
                     break;
             }
@@ -56,6 +69,48 @@ const Navbar = () => {
         };
     }, []);
 
+    /**
+     * Effect hook to follow the background upload queue while signed in. The navbar is on
+     * every page, so it is what tells the rest of the app when a queued video has finished
+     * uploading, wherever the user is.
+     */
+    useEffect(() => {
+        if (!isAuthenticated) {
+            setActiveUploads(0);
+            uploadStatesRef.current = null;
+            return;
+        }
+
+        const checkQueue = async () => {
+            try {
+                const items = await uploadQueueService.list();
+                const previous = uploadStatesRef.current;
+                const completed = items.filter(item =>
+                    item.state === 'completed' && previous !== null && previous.get(item.id) !== 'completed'
+                );
+
+                completed.forEach(item => {
+                    Hub.dispatch('videos', {
+                        event: 'videoUploaded',
+                        data: { videoId: item.metadata.id }
+                    });
+                    toast.success(`"${item.metadata.title}" uploaded`);
+                });
+                if (completed.length > 0) {
+                    Hub.dispatch('customStorage', { event: 'storageUpdated' });
+                }
+
+                uploadStatesRef.current = new Map(items.map(item => [item.id, item.state]));
+                setActiveUploads(items.filter(item => item.state === 'queued' || item.state === 'uploading').length);
+            } catch (error) {
+                console.error('Error checking upload queue:', error);
+            }
+        };
+
+        checkQueue();
+        return uploadQueueService.onChanged(checkQueue);
+    }, [isAuthenticated]);
+
     /**
      * Handles user sign out process.
      * @async
@@ -66,6 +121,8 @@ const Navbar = () => {
         try {
             await signOut();
             setIsAuthenticated(false);
+            setIsAdmin(false);
+            setIsModerator(false);
             router.push('/home');
         } catch (error) {
             toast.error('Sign out error');
@@ -91,10 +148,33 @@ const Navbar = () => {
                             <span>Home</span>
                         </Link>
 
+                        <Link href="/offline" className="flex items-center space-x-1 text-gray-200 hover:text-blue-600">
+                            <HardDriveDownload size={20} />
+                            <span>Offline</span>
+                        </Link>
+
                         {isAuthenticated && (
                             <Link href="/upload" className="flex items-center space-x-1 text-gray-200 hover:text-blue-600">
                                 <Upload size={20} />
-                                <span>Upload</span>
+                                <span>Upload{activeUploads > 0 && ` (${activeUploads})`}</span>
+                            </Link>
+                        )}
+                        {isAuthenticated && (
+                            <Link href="/trash" className="flex items-center space-x-1 text-gray-200 hover:text-blue-600">
+                                <Trash2 size={20} />
+                                <span>Trash</span>
+                            </Link>
+                        )}
+                        {isModerator && (
+                            <Link href="/moderation" className="flex items-center space-x-1 text-gray-200 hover:text-blue-600">
+                                <ShieldCheck size={20} />
+                                <span>Moderation</span>
+                            </Link>
+                        )}
+                        {isAdmin && (
+                            <Link href="/maintenance" className="flex items-center space-x-1 text-gray-200 hover:text-blue-600">
+                                <Wrench size={20} />
+                                <span>Maintenance</span>
                             </Link>
                         )}
                         {!isAuthenticated ? (
@@ -138,9 +218,27 @@ const Navbar = () => {
                         <Link href="/home" className="block px-3 py-2 rounded-md text-gray-200 hover:text-blue-600 hover:bg-gray-800">
                             Home
                         </Link>
+                        <Link href="/offline" className="block px-3 py-2 rounded-md text-gray-200 hover:text-blue-600 hover:bg-gray-800">
+                            Offline
+                        </Link>
                         {isAuthenticated && (
                             <Link href="/upload" className="block px-3 py-2 rounded-md text-gray-200 hover:text-blue-600 hover:bg-gray-800">
-                                Upload
+                                Upload{activeUploads > 0 && ` (${activeUploads})`}
+                            </Link>
+                        )}
+                        {isAuthenticated && (
+                            <Link href="/trash" className="block px-3 py-2 rounded-md text-gray-200 hover:text-blue-600 hover:bg-gray-800">
+                                Trash
+                            </Link>
+                        )}
+                        {isModerator && (
+                            <Link href="/moderation" className="block px-3 py-2 rounded-md text-gray-200 hover:text-blue-600 hover:bg-gray-800">
+                                Moderation
+                            </Link>
+                        )}
+                        {isAdmin && (
+                            <Link href="/maintenance" className="block px-3 py-2 rounded-md text-gray-200 hover:text-blue-600 hover:bg-gray-800">
+                                Maintenance
                             </Link>
                         )}
                         {!isAuthenticated ? (
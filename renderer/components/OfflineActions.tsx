@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { Download, HardDriveDownload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { offlineService } from '@/services/offlineService';
+import { OfflineActionsProps } from '@/types/types';
+import { formatBytes } from '@/utils/storage';
+
+/**
+ * Buttons to download a video for offline playback, remove the download, and save the
+ * original file anywhere on disk
+ * @component
+ * @param {OfflineActionsProps} props - The component props
+ * @param {VideoMetadata} props.video - The video the actions apply to
+ * @param {OfflineVideo | null} props.offlineCopy - The downloaded copy of the video, if any
+ * @returns {JSX.Element} The rendered actions
+ */
+const OfflineActions: React.FC<OfflineActionsProps> = ({ video, offlineCopy }) => {
+    const [progress, setProgress] = useState<number | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    /**
+     * Effect to follow the progress of this video's download
+     */
+    useEffect(() => {
+        return offlineService.onDownloadProgress((videoId, percent) => {
+            if (videoId === video.id) {
+                setProgress(percent);
+            }
+        });
+    }, [video.id]);
+
+    /**
+     * Downloads the video into the offline library
+     * @async
+     */
+    const handleDownload = async () => {
+        setProgress(0);
+        try {
+            await offlineService.download(video.id);
+            toast.success('Available offline');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Download failed');
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    /**
+     * Removes the downloaded copy
+     * @async
+     */
+    const handleRemove = async () => {
+        try {
+            await offlineService.remove(video.id);
+            toast.success('Download removed');
+        } catch (error) {
+            toast.error('Failed to remove download');
+        }
+    };
+
+    /**
+     * Saves the original file wherever the user chooses
+     * @async
+     */
+    const handleSaveAs = async () => {
+        setIsSaving(true);
+        const result = await offlineService.saveAs(video.id);
+        setIsSaving(false);
+
+        if (result.success) {
+            toast.success(`Saved to ${result.filePath}`);
+        } else if (!result.canceled) {
+            toast.error(result.error || 'Failed to save video');
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            {offlineCopy ? (
+                <button
+                    onClick={handleRemove}
+                    className="flex items-center px-2 py-2 border-2 border-gray-400 text-gray-200 rounded-lg hover:bg-gray-600"
+                >
+                    <X className="w-4 h-4 mr-2" />
+                    Remove download ({formatBytes(offlineCopy.size)})
+                </button>
+            ) : (
+                <button
+                    onClick={handleDownload}
+                    disabled={progress !== null}
+                    className="flex items-center px-2 py-2 border-2 border-gray-400 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50"
+                >
+                    <HardDriveDownload className="w-4 h-4 mr-2" />
+                    {progress !== null ? `Downloading ${progress}%` : 'Download for offline'}
+                </button>
+            )}
+            <button
+                onClick={handleSaveAs}
+                disabled={isSaving}
+                className="flex items-center px-2 py-2 border-2 border-gray-400 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50"
+            >
+                <Download className="w-4 h-4 mr-2" />
+                {isSaving ? 'Saving...' : 'Save as…'}
+            </button>
+        </div>
+    );
+};
+
+export default OfflineActions;
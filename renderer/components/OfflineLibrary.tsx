@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Hub } from 'aws-amplify/utils';
+import { offlineService, OFFLINE_CHANNEL } from '@/services/offlineService';
+import { OfflineLibraryInfo } from '@/types/types';
+import { formatBytes } from '@/utils/storage';
+
+/**
+ * Lists the videos downloaded to this computer with the disk space each uses,
+ * and lets the user remove them one at a time or all at once
+ * @component
+ * @returns {JSX.Element} The rendered library
+ */
+const OfflineLibrary: React.FC = () => {
+    const [library, setLibrary] = useState<OfflineLibraryInfo | null>(null);
+    const [removing, setRemoving] = useState(false);
+
+    /**
+     * Loads the library
+     * @async
+     */
+    const fetchLibrary = async () => {
+        try {
+            setLibrary(await offlineService.getLibrary());
+        } catch (error) {
+            console.error('Error loading offline library:', error);
+            toast.error('Failed to load downloads');
+        }
+    };
+
+    /**
+     * Effect hook to load the library, and again whenever it changes
+     */
+    useEffect(() => {
+        fetchLibrary();
+
+        const offlineListener = Hub.listen(OFFLINE_CHANNEL, ({ payload }) => {
+            if (payload.event === 'libraryUpdated') {
+                fetchLibrary();
+            }
+        });
+
+        return () => offlineListener();
+    }, []);
+
+    /**
+     * Removes downloaded videos
+     * @async
+     * @param {string[]} videoIds - IDs of the videos to remove
+     */
+    const removeVideos = async (videoIds: string[]) => {
+        setRemoving(true);
+        try {
+            for (const videoId of videoIds) {
+                await offlineService.remove(videoId);
+            }
+            toast.success(videoIds.length === 1 ? 'Download removed' : 'Downloads removed');
+        } catch (error) {
+            toast.error('Failed to remove downloads');
+        } finally {
+            setRemoving(false);
+        }
+    };
+
+    /**
+     * Removes every downloaded video after the user confirms
+     */
+    const handleRemoveAll = () => {
+        if (!library || !window.confirm(`Remove all ${library.videos.length} downloads? They can be downloaded again later.`)) {
+            return;
+        }
+        removeVideos(library.videos.map(item => item.video.id));
+    };
+
+    if (!library) {
+        return <div className="text-center text-lg pt-14">Loading downloads...</div>;
+    }
+
+    return (
+        <div className="max-w-3xl mx-auto">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h2 className="text-xl font-semibold">Offline videos</h2>
+                    <p className="text-sm text-gray-400">
+                        {library.videos.length} video{library.videos.length === 1 ? '' : 's'} using {formatBytes(library.used)} on this computer
+                    </p>
+                </div>
+                {library.videos.length > 0 && (
+                    <button
+                        onClick={handleRemoveAll}
+                        disabled={removing}
+                        className="flex items-center px-2 py-2 border-2 border-[#ff0000] text-[#ff0000] rounded-lg hover:bg-white disabled:opacity-50"
+                    >
+                        <Trash2 className="w-4 h-4 mr-2" color="red" />
+                        Remove all
+                    </button>
+                )}
+            </div>
+
+            {library.videos.length === 0 ? (
+                <p className="text-gray-400">
+                    No videos downloaded. Open a video and choose &quot;Download for offline&quot; to watch it without a connection.
+                </p>
+            ) : (
+                <ul className="space-y-3">
+                    {library.videos.map(({ video, size, downloadedAt }) => (
+                        <li key={video.id} className="flex items-center gap-4 bg-gray-800 rounded-lg p-3">
+                            <div className="w-32 aspect-video flex-shrink-0 bg-gray-700 rounded overflow-hidden">
+                                {video.thumbnailUrl && (
+                                    <img src={video.thumbnailUrl} alt={video.title} className="w-full h-full object-cover" />
+                                )}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-medium truncate">{video.title}</p>
+                                <p className="text-xs text-gray-400">
+                                    {formatBytes(size)} · downloaded {new Date(downloadedAt).toLocaleDateString()}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => removeVideos([video.id])}
+                                disabled={removing}
+                                className="flex items-center px-2 py-2 border-2 border-gray-400 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50"
+                            >
+                                Remove
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default OfflineLibrary;
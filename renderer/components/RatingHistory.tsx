@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { TrendingUp, ChevronDown, ChevronUp } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { reviewService } from '@/services/reviewService';
+import { RatingHistoryPoint, RatingHistoryProps } from '@/types/types';
+
+/** Bar colours from 1 star to 5 stars */
+const STAR_COLORS = ['bg-red-500', 'bg-orange-400', 'bg-yellow-400', 'bg-lime-400', 'bg-green-500'];
+
+/**
+ * Shows the owner of a video how its rating distribution changed month by month. The
+ * history is loaded the first time it is expanded.
+ * @component
+ * @param {RatingHistoryProps} props - Component props
+ * @returns {JSX.Element} The collapsible history
+ */
+const RatingHistory: React.FC<RatingHistoryProps> = ({ videoId }) => {
+    const [open, setOpen] = useState(false);
+    const [points, setPoints] = useState<RatingHistoryPoint[] | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    /**
+     * Expands or collapses the history, loading it on first expand
+     * @async
+     */
+    const handleToggle = async () => {
+        setOpen(!open);
+        if (open || points) return;
+
+        setLoading(true);
+        try {
+            setPoints(await reviewService.getRatingHistory(videoId));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to load rating history');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="border border-gray-600 rounded-lg">
+            <button
+                onClick={handleToggle}
+                className="w-full flex items-center justify-between px-4 py-2 text-sm text-gray-200 hover:bg-gray-700 rounded-lg"
+            >
+                <span className="flex items-center">
+                    <TrendingUp className="w-4 h-4 mr-2" />
+                    Rating history
+                </span>
+                {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+
+            {open && (
+                <div className="px-4 pb-4 pt-2 space-y-2">
+                    {loading && <p className="text-sm text-gray-400">Loading...</p>}
+                    {points && points.length === 0 && <p className="text-sm text-gray-400">No reviews yet.</p>}
+                    {points && points.map(point => (
+                        <div key={point.period} className="flex items-center text-xs text-gray-300">
+                            <span className="w-16 shrink-0 font-mono">{point.period}</span>
+                            <div className="flex flex-1 h-3 mx-2 overflow-hidden rounded bg-gray-700">
+                                {point.histogram.map((count, index) => count > 0 && (
+                                    <div
+                                        key={index}
+                                        className={STAR_COLORS[index]}
+                                        style={{ width: `${(count / point.count) * 100}%` }}
+                                        title={`${index + 1} star: ${count}`}
+                                    />
+                                ))}
+                            </div>
+                            <span className="w-28 shrink-0 text-right">
+                                {point.average.toFixed(1)} avg, {point.count} {point.count === 1 ? 'review' : 'reviews'}
+                            </span>
+                        </div>
+                    ))}
+                    {points && points.length > 0 && (
+                        <div className="flex justify-end space-x-3 pt-1 text-xs text-gray-400">
+                            {STAR_COLORS.map((color, index) => (
+                                <span key={color} className="flex items-center">
+                                    <span className={`inline-block w-2 h-2 mr-1 rounded-sm ${color}`} />
+                                    {index + 1}★
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RatingHistory;
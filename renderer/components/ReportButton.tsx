@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Flag } from 'lucide-react';
+import { moderationService } from '@/services/moderationService';
+import { ReportButtonProps, ReportReason } from '@/types/types';
+import { REPORT_REASON_LABELS } from '@/utils/moderation';
+
+/**
+ * A "Report" action for a review or reply that opens a small form asking for the reason
+ * @component
+ * @param {ReportButtonProps} props - Component props
+ * @returns {JSX.Element} The button and, once opened, the form
+ */
+const ReportButton: React.FC<ReportButtonProps> = ({ target, onReported }) => {
+    const [open, setOpen] = useState(false);
+    const [reason, setReason] = useState<ReportReason>('spam');
+    const [note, setNote] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+
+    /**
+     * Sends the report
+     * @async
+     * @param {React.FormEvent} e - Form submission event
+     */
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        try {
+            const result = await moderationService.report(target, reason, note);
+            setOpen(false);
+            setNote('');
+            toast.success('Thanks, a moderator will take a look');
+            onReported(result);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to send report');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    if (!open) {
+        return (
+            <button
+                onClick={() => setOpen(true)}
+                className="flex items-center space-x-1 hover:text-red-400"
+                title="Report"
+            >
+                <Flag className="w-4 h-4" />
+                <span>Report</span>
+            </button>
+        );
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="w-full mt-2 p-3 space-y-2 bg-gray-700 rounded-lg text-sm text-gray-100">
+            <label className="block">
+                <span className="block mb-1">Why are you reporting this?</span>
+                <select
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value as ReportReason)}
+                    className="w-full px-2 py-1 border rounded text-gray-900"
+                >
+                    {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map(code => (
+                        <option key={code} value={code}>{REPORT_REASON_LABELS[code]}</option>
+                    ))}
+                </select>
+            </label>
+            <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Anything else moderators should know (optional)"
+                maxLength={500}
+                className="w-full px-2 py-1 border rounded text-gray-900"
+                rows={2}
+            />
+            <div className="flex space-x-2">
+                <button
+                    type="submit"
+                    disabled={submitting}
+                    className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                >
+                    {submitting ? 'Sending...' : 'Send report'}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setOpen(false)}
+                    className="px-3 py-1 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+                >
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default ReportButton;
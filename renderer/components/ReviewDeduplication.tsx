@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Merge } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { maintenanceService } from '@/services/maintenanceService';
+import { ReviewMergeReport } from '@/types/types';
+
+/**
+ * Administrator tool that merges the reviews of users who reviewed the same video more than
+ * once, from before each user was limited to one review per video
+ * @component
+ * @returns {JSX.Element} The rendered tool
+ */
+const ReviewDeduplication: React.FC = () => {
+    const [report, setReport] = useState<ReviewMergeReport | null>(null);
+    const [merging, setMerging] = useState(false);
+
+    /**
+     * Asks for confirmation and merges the duplicates
+     * @async
+     */
+    const handleMerge = async () => {
+        if (!window.confirm('Merge duplicate reviews? For each user and video the latest review is kept and the older ones are deleted, with their votes.')) {
+            return;
+        }
+
+        setMerging(true);
+        try {
+            const result = await maintenanceService.mergeDuplicateReviews();
+            setReport(result);
+            if (result.failed.length > 0) {
+                result.failed.forEach(({ reviewId, error }) => console.error(`Merging review ${reviewId} failed:`, error));
+                toast.error(`Removed ${result.removed} duplicate(s), ${result.failed.length} failed`);
+            } else {
+                toast.success(`Removed ${result.removed} duplicate review(s)`);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Merge failed');
+        } finally {
+            setMerging(false);
+        }
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto mt-10">
+            <h2 className="text-xl font-semibold mb-1">Duplicate reviews</h2>
+            <p className="text-sm text-gray-400 mb-4">
+                Each user can now review a video once. This merges reviews written before that: the latest
+                review is kept, replies to the older ones are moved to it, and the older ones are deleted.
+            </p>
+
+            <button
+                onClick={handleMerge}
+                disabled={merging}
+                className="flex items-center px-3 py-2 mb-6 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+                <Merge className="w-4 h-4 mr-2" />
+                {merging ? 'Merging...' : 'Merge duplicate reviews'}
+            </button>
+
+            {report && (
+                <p className="text-sm text-gray-400 mb-4">
+                    Scanned {report.scanned} review(s): {report.duplicateGroups} user(s) had reviewed a video more than once,
+                    {' '}{report.removed} older review(s) removed, {report.movedReplies} repl{report.movedReplies === 1 ? 'y' : 'ies'} moved,
+                    {' '}{report.rekeyed} review(s) moved to their current ID,
+                    {' '}{report.failed.length} failed.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ReviewDeduplication;
@@ -0,0 +1,342 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { MessageSquare, Edit2, Trash2, ChevronDown, ChevronRight, EyeOff, BadgeCheck } from 'lucide-react';
+import { reviewService } from '@/services/reviewService';
+import { Reply, ReviewRepliesProps, ReportResult } from '@/types/types';
+import { notifyContentViolations } from '@/utils/guidelines';
+import ReportButton from './ReportButton';
+
+/** Deepest a reply can be nested, matching the limit enforced in the main process */
+const MAX_REPLY_DEPTH = 3;
+
+/**
+ * The conversation under a review: replies are threaded by the reply they answer, threads
+ * can be collapsed, authors can edit or delete their own replies, and anyone signed in can
+ * report someone else's. Reply buttons only show for users the reply policy lets reply, and
+ * replies from the video's creator carry a Creator badge.
+ * @component
+ * @param {ReviewRepliesProps} props - Component props
+ * @returns {JSX.Element} The rendered conversation
+ */
+const ReviewReplies: React.FC<ReviewRepliesProps> = ({ review, currentUserId, currentUserEmail, isModerator, canReply, onRepliesChange }) => {
+    const [replyingTo, setReplyingTo] = useState<string | null>(null);
+    const [replyContent, setReplyContent] = useState('');
+    const [editingReply, setEditingReply] = useState<string | null>(null);
+    const [editingContent, setEditingContent] = useState('');
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+    /** Replies grouped by the reply they answer; replies to the review are under '' */
+    const children = new Map<string, Reply[]>();
+    review.replies.forEach(reply => {
+        const key = reply.parentId || '';
+        children.set(key, [...(children.get(key) || []), reply]);
+    });
+
+    /**
+     * Counts every reply below a reply, however deeply nested
+     * @param {string} replyId - ID of the reply
+     * @returns {number} Number of replies in its thread
+     */
+    const countThread = (replyId: string): number =>
+        (children.get(replyId) || []).reduce((total, child) => total + 1 + countThread(child.id), 0);
+
+    /**
+     * Collapses or expands the thread below a reply
+     * @param {string} replyId - ID of the reply
+     */
+    const toggleThread = (replyId: string) => {
+        setCollapsed(current => {
+            const next = new Set(current);
+            if (next.has(replyId)) {
+                next.delete(replyId);
+            } else {
+                next.add(replyId);
+            }
+            return next;
+        });
+    };
+
+    /**
+     * Submits a reply to the review, or to the reply being answered
+     * @async
+     * @param {string | null} parentId - ID of the reply being answered, or null for the review
+     */
+    const handleSubmitReply = async (parentId: string | null) => {
+        if (!replyContent.trim()) {
+            toast.error('Please write a reply first');
+            return;
+        }
+
+        try {
+            const reply = await reviewService.addReply(review.id, {
+                content: replyContent,
+                parentId,
+                userEmail: currentUserEmail
+            });
+            onRepliesChange([...review.replies, reply]);
+            setReplyContent('');
+            setReplyingTo(null);
+            if (parentId) {
+                setCollapsed(current => {
+                    const next = new Set(current);
+                    next.delete(parentId);
+                    return next;
+                });
+            }
+            toast.success('Reply added successfully!');
+            notifyContentViolations(reply.contentViolations);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to add reply');
+        }
+    };
+
+    /**
+     * Saves the edited text of a reply
+     * @async
+     * @param {string} replyId - ID of the reply
+     */
+    const handleUpdateReply = async (replyId: string) => {
+        try {
+            const updated = await reviewService.editReply(review.id, replyId, editingContent);
+            onRepliesChange(review.replies.map(reply => reply.id === replyId ? updated : reply));
+            setEditingReply(null);
+            setEditingContent('');
+            toast.success('Reply updated successfully!');
+            notifyContentViolations(updated.contentViolations);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update reply');
+        }
+    };
+
+    /**
+     * Deletes a reply after confirmation
+     * @async
+     * @param {string} replyId - ID of the reply
+     */
+    const handleDeleteReply = async (replyId: string) => {
+        if (!window.confirm('Delete this reply?')) {
+            return;
+        }
+
+        try {
+            onRepliesChange(await reviewService.deleteReply(review.id, replyId));
+            toast.success('Reply deleted successfully!');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to delete reply');
+        }
+    };
+
+    /**
+     * Hides a reply once enough reports have come in, the way the main process would on the next load
+     * @param {string} replyId - ID of the reported reply
+     * @param {ReportResult} result - Outcome of the report
+     */
+    const handleReported = (replyId: string, result: ReportResult) => {
+        if (!result.hidden) return;
+
+        onRepliesChange(review.replies.map(reply => reply.id !== replyId ? reply : {
+            ...reply,
+            moderationStatus: 'hidden',
+            content: isModerator ? reply.content : ''
+        }));
+    };
+
+    /**
+     * Renders the form for answering the review or a reply
+     * @param {string | null} parentId - ID of the reply being answered, or null for the review
+     * @returns {JSX.Element} The form
+     */
+    const renderReplyForm = (parentId: string | null) => (
+        <div className="space-y-2">
+            <textarea
+                value={replyContent}
+                onChange={(e) => setReplyContent(e.target.value)}
+                placeholder="Write your reply..."
+                className="w-full px-3 py-2 border rounded-lg text-gray-950"
+                rows={2}
+            />
+            <div className="flex space-x-2">
+                <button
+                    onClick={() => handleSubmitReply(parentId)}
+                    className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                    Submit Reply
+                </button>
+                <button
+                    onClick={() => {
+                        setReplyingTo(null);
+                        setReplyContent('');
+                    }}
+                    className="px-3 py-1 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+
+    /**
+     * Renders a reply and, unless collapsed, the thread below it
+     * @param {Reply} reply - The reply
+     * @returns {JSX.Element} The reply and its thread
+     */
+    const renderReply = (reply: Reply): JSX.Element => {
+        const answers = children.get(reply.id) || [];
+        const isAuthor = reply.userId === currentUserId && !reply.deleted;
+        const isCollapsed = collapsed.has(reply.id);
+        const isHidden = reply.moderationStatus === 'hidden' && !reply.deleted;
+
+        return (
+            <div key={reply.id} className="space-y-3">
+                <div className="bg-gray-400 p-4 rounded-lg">
+                    <div className="flex justify-between">
+                        <div className="flex flex-col min-w-0">
+                            <span className="flex items-center space-x-2 min-w-0">
+                                <span className="font-medium truncate break-words overflow-hidden">
+                                    {reply.deleted ? 'Deleted' : reply.userEmail}
+                                </span>
+                                {reply.fromCreator && !reply.deleted && (
+                                    <span className="flex items-center space-x-1 px-2 py-0.5 text-xs font-semibold bg-blue-600 text-white rounded-full shrink-0">
+                                        <BadgeCheck className="w-3 h-3" />
+                                        <span>Creator</span>
+                                    </span>
+                                )}
+                            </span>
+                            <span className="text-gray-500 text-sm">
+                                {new Date(reply.createdAt).toLocaleDateString()}
+                                {reply.updatedAt && !reply.deleted && ' (edited)'}
+                            </span>
+                            {isHidden && (isAuthor || isModerator) && (
+                                <span className="flex items-center space-x-1 text-xs text-red-700">
+                                    <EyeOff className="w-3 h-3" />
+                                    <span>{isAuthor ? 'Hidden; only you and moderators can see it' : 'Hidden'}</span>
+                                </span>
+                            )}
+                        </div>
+
+                        {isAuthor && editingReply !== reply.id && (
+                            <div className="flex space-x-2">
+                                <button
+                                    onClick={() => {
+                                        setEditingReply(reply.id);
+                                        setEditingContent(reply.content);
+                                    }}
+                                    className="text-gray-600 hover:text-blue-600"
+                                    title="Edit reply"
+                                >
+                                    <Edit2 className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => handleDeleteReply(reply.id)}
+                                    className="text-gray-600 hover:text-blue-600"
+                                    title="Delete reply"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {editingReply === reply.id ? (
+                        <div className="mt-2 space-y-2">
+                            <textarea
+                                value={editingContent}
+                                onChange={(e) => setEditingContent(e.target.value)}
+                                className="w-full px-3 py-2 border rounded-lg text-gray-950"
+                                rows={2}
+                            />
+                            <div className="flex space-x-2">
+                                <button
+                                    onClick={() => handleUpdateReply(reply.id)}
+                                    className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                                >
+                                    Save
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        setEditingReply(null);
+                                        setEditingContent('');
+                                    }}
+                                    className="px-3 py-1 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        </div>
+                    ) : reply.deleted ? (
+                        <p className="text-gray-600 mt-2 italic">This reply was deleted.</p>
+                    ) : isHidden && !reply.content ? (
+                        <p className="text-gray-600 mt-2 italic">This reply was hidden by moderators.</p>
+                    ) : (
+                        <p className="text-gray-700 mt-2 whitespace-normal break-words">{reply.content}</p>
+                    )}
+
+                    <div className="flex items-center space-x-4 mt-2 text-sm">
+                        {canReply && !reply.deleted && (reply.depth ?? 1) < MAX_REPLY_DEPTH && replyingTo !== reply.id && (
+                            <button
+                                onClick={() => {
+                                    setReplyingTo(reply.id);
+                                    setReplyContent('');
+                                }}
+                                className="flex items-center space-x-1 text-blue-700 hover:text-blue-900"
+                            >
+                                <MessageSquare className="w-4 h-4" />
+                                <span>Reply</span>
+                            </button>
+                        )}
+                        {answers.length > 0 && (
+                            <button
+                                onClick={() => toggleThread(reply.id)}
+                                className="flex items-center space-x-1 text-gray-700 hover:text-gray-900"
+                            >
+                                {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                                <span>
+                                    {isCollapsed ? 'Show' : 'Hide'} {countThread(reply.id)} {countThread(reply.id) === 1 ? 'reply' : 'replies'}
+                                </span>
+                            </button>
+                        )}
+                        {currentUserId && reply.userId !== currentUserId && !reply.deleted && !isHidden && (
+                            <span className="text-gray-700">
+                                <ReportButton
+                                    target={{ reviewId: review.id, replyId: reply.id }}
+                                    onReported={(result) => handleReported(reply.id, result)}
+                                />
+                            </span>
+                        )}
+                    </div>
+                </div>
+
+                {replyingTo === reply.id && <div className="pl-6">{renderReplyForm(reply.id)}</div>}
+
+                {answers.length > 0 && !isCollapsed && (
+                    <div className="pl-6 border-l border-gray-600 space-y-3">
+                        {answers.map(renderReply)}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="mt-4 pl-6 space-y-4">
+            {(children.get('') || []).map(renderReply)}
+
+            {!canReply ? null : replyingTo === review.id ? (
+                renderReplyForm(null)
+            ) : (
+                <button
+                    onClick={() => {
+                        setReplyingTo(review.id);
+                        setReplyContent('');
+                    }}
+                    className="flex items-center space-x-1 text-blue-600 hover:text-blue-800"
+                >
+                    <MessageSquare className="w-4 h-4" />
+                    <span>Reply</span>
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default ReviewReplies;
@@ -1,10 +1,26 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
 import toast from 'react-hot-toast';
-import { Star, Edit2, Trash2, MessageSquare, X, Plus } from 'lucide-react';
+import { Star, Edit2, Trash2, X, Plus, ThumbsUp, ThumbsDown, EyeOff, ArrowUp } from 'lucide-react';
 import { getCurrentUser } from 'aws-amplify/auth';
 import { reviewService } from '@/services/reviewService';
-import { Review, UpdateReviewData, ReviewSectionProps, StarRatingProps } from '@/types/types'
+import {
+    Review,
+    UpdateReviewData,
+    ReviewSectionProps,
+    StarRatingProps,
+    HelpfulVote,
+    ReviewSortOrder,
+    RatingSummary,
+    ReportResult,
+    ReplyPolicy,
+    ReviewChanges
+} from '@/types/types'
+import { isInGroup, MODERATOR_GROUP } from '@/utils/auth';
+import { notifyContentViolations } from '@/utils/guidelines';
+import RatingHistory from './RatingHistory';
+import ReviewReplies from './ReviewReplies';
+import ReportButton from './ReportButton';
 
 /**
  * Component for managing and displaying video reviews.
@@ -12,21 +28,34 @@ import { Review, UpdateReviewData, ReviewSectionProps, StarRatingProps } from '@
  * @param {ReviewSectionProps} props - Component props
  * @returns {JSX.Element} The rendered review section
  */
-export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUserId }) => {
+export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUserId, isOwner = false }) => {
     const [reviews, setReviews] = useState<Review[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [summary, setSummary] = useState<RatingSummary | null>(null);
     const [newRating, setNewRating] = useState(0);
     const [newReview, setNewReview] = useState('');
     const [showReviewForm, setShowReviewForm] = useState(false);
     const [editingReview, setEditingReview] = useState<string | null>(null);
     const [editingContent, setEditingContent] = useState('');
     const [editingRating, setEditingRating] = useState<number>(0);
-    const [sortBy, setSortBy] = useState<'recent' | 'rating' | 'helpful'>('recent');
+    const [sortBy, setSortBy] = useState<ReviewSortOrder>('recent');
+    const [ratingFilter, setRatingFilter] = useState<number | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [currentUserEmail, setCurrentUserEmail] = useState<string | null>(null);
-    const [replyingTo, setReplyingTo] = useState<string | null>(null);
-    const [replyContent, setReplyContent] = useState('');
+    const [isModerator, setIsModerator] = useState(false);
+    const [ownReview, setOwnReview] = useState<Review | null>(null);
+    const [replyPolicy, setReplyPolicy] = useState<ReplyPolicy>('owner');
+    const [changeToken, setChangeToken] = useState<string | null>(null);
+    const [newReviews, setNewReviews] = useState<Review[]>([]);
     const router = useRouter();
 
+    // Read by the change poller, which outlives the render it was started from
+    const reviewsRef = useRef<Review[]>([]);
+    const newReviewsRef = useRef<Review[]>([]);
+    reviewsRef.current = reviews;
+    newReviewsRef.current = newReviews;
+
     useEffect(() => {
         /**
          * Fetches the current user's email from AWS Amplify.
@@ -44,24 +73,171 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
         };
 
         fetchUserEmail();
-        fetchReviews();
+        isInGroup(MODERATOR_GROUP).then(setIsModerator);
+        fetchOwnReview();
+        fetchSummary();
+        setRatingFilter(null);
+        setChangeToken(null);
     }, [videoId]);
 
+    useEffect(() => {
+        fetchReviews();
+    }, [videoId, sortBy, ratingFilter]);
+
+    /**
+     * Effect hook to follow other users' changes while the reviews are open, starting from
+     * the change token of the first page loaded.
+     */
+    useEffect(() => {
+        if (!changeToken) return;
+
+        return reviewService.watchReviews(
+            videoId,
+            changeToken,
+            () => [...reviewsRef.current, ...newReviewsRef.current].map(review => review.id),
+            applyChanges
+        );
+    }, [videoId, changeToken]);
+
+    /**
+     * Fetches the video's review count, average rating and per-star counts.
+     * @async
+     * @function fetchSummary
+     */
+    const fetchSummary = async () => {
+        try {
+            setSummary(await reviewService.getRatingSummary(videoId));
+        } catch (error) {
+            console.error('Error fetching rating summary:', error);
+        }
+    };
+
     /**
-     * Fetches all reviews for the current video.
+     * Fetches the signed-in user's review of the video, if they have written one.
+     * @async
+     * @function fetchOwnReview
+     * @returns {Promise<Review | null>} The review, or null if there is none or no one is signed in
+     */
+    const fetchOwnReview = async (): Promise<Review | null> => {
+        try {
+            const review = await reviewService.getUserReview(videoId);
+            setOwnReview(review);
+            return review;
+        } catch (error) {
+            setOwnReview(null);
+            return null;
+        }
+    };
+
+    /**
+     * Opens a review in the edit form, adding it to the list if the current page or
+     * rating filter left it out.
+     * @function startEditing
+     * @param {Review} review - The review to edit
+     */
+    const startEditing = (review: Review) => {
+        setReviews(current => current.some(item => item.id === review.id) ? current : [review, ...current]);
+        setEditingReview(review.id);
+        setEditingContent(review.comment);
+        setEditingRating(review.rating);
+    };
+
+    /**
+     * Fetches a page of reviews in the selected order, limited to the selected rating if
+     * any. Without a cursor the list starts over; with one the page is appended.
      * @async
      * @function fetchReviews
-     * @throws {Error} If review fetching fails
+     * @param {string} [cursor] - Cursor of the page to load
      */
-    const fetchReviews = async () => {
+    const fetchReviews = async (cursor?: string) => {
         try {
-            const fetchedReviews = await reviewService.getVideoReviews(videoId);
-            setReviews(fetchedReviews);
+            const page = await reviewService.getVideoReviews(videoId, {
+                sortBy,
+                rating: ratingFilter ?? undefined,
+                cursor
+            });
+            setReviews(current => cursor ? [...current, ...page.reviews] : page.reviews);
+            setNextCursor(page.nextCursor);
+            setReplyPolicy(page.replyPolicy);
+            if (!cursor) {
+                setChangeToken(page.changeToken);
+                setNewReviews([]);
+            }
         } catch (error) {
             toast.error('Error fetching reviews');
         }
     };
 
+    /**
+     * Merges changes found by the poller. Reviews already listed are updated in place, or
+     * dropped when deleted, hidden or no longer matching the rating filter; new reviews are
+     * held back behind the "new reviews" button so the list does not shift while being read.
+     * @function applyChanges
+     * @param {ReviewChanges} changes - What changed since the last poll
+     */
+    const applyChanges = (changes: ReviewChanges) => {
+        const removed = new Set(changes.removedIds);
+        const changed = new Map([...changes.added, ...changes.updated].map(review => [review.id, review] as [string, Review]));
+        const matchesFilter = (review: Review) => ratingFilter === null || review.rating === ratingFilter;
+        const listed = new Set(reviewsRef.current.map(review => review.id));
+
+        setSummary(changes.summary);
+        setReviews(current => current
+            .filter(review => !removed.has(review.id))
+            .map(review => changed.get(review.id) || review)
+            .filter(matchesFilter));
+        setNewReviews(current => {
+            const pending = new Map(current
+                .filter(review => !removed.has(review.id))
+                .map(review => [review.id, changed.get(review.id) || review] as [string, Review]));
+            changes.added
+                .filter(review => !listed.has(review.id) && matchesFilter(review))
+                .forEach(review => pending.set(review.id, review));
+            return Array.from(pending.values()).filter(matchesFilter);
+        });
+    };
+
+    /**
+     * Loads the next page of reviews.
+     * @async
+     * @function handleLoadMore
+     */
+    const handleLoadMore = async () => {
+        if (!nextCursor) return;
+
+        setLoadingMore(true);
+        try {
+            await fetchReviews(nextCursor);
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    /**
+     * Checks whether the reply policy lets the signed-in user reply to a review, as the main
+     * process will when the reply is submitted
+     * @function canReplyTo
+     * @param {Review} review - The review
+     * @returns {boolean} Whether the user may reply
+     */
+    const canReplyTo = (review: Review): boolean =>
+        replyPolicy === 'everyone' || isOwner || (replyPolicy === 'ownerAndReviewer' && review.userId === currentUserId);
+
+    /**
+     * Hides a review once enough reports have come in. Moderators keep seeing it, marked
+     * as hidden; everyone else no longer does.
+     * @function handleReported
+     * @param {string} reviewId - ID of the reported review
+     * @param {ReportResult} result - Outcome of the report
+     */
+    const handleReported = (reviewId: string, result: ReportResult) => {
+        if (!result.hidden) return;
+
+        setReviews(current => isModerator
+            ? current.map(review => review.id === reviewId ? { ...review, moderationStatus: 'hidden' } : review)
+            : current.filter(review => review.id !== reviewId));
+    };
+
     /**
      * Handles the submission of a new review.
      * @async
@@ -78,7 +254,7 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
 
         setIsSubmitting(true);
         try {
-            const newReviewObj = await reviewService.createReview({
+            const created = await reviewService.createReview({
                 userId: currentUserId,
                 videoId,
                 rating: newRating,
@@ -87,13 +263,23 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
                 replies: []
             });
 
-            setReviews([...reviews, newReviewObj]);
+            // Reloaded from the first page so the new review lands in its place in the order
+            setOwnReview(created);
+            await Promise.all([fetchReviews(), fetchSummary()]);
             setNewRating(0);
             setNewReview('');
             setShowReviewForm(false);
             toast.success('Review submitted successfully!');
+            notifyContentViolations(created.contentViolations);
         } catch (error) {
-            toast.error('Failed to submit review');
+            toast.error(error instanceof Error ? error.message : 'Failed to submit review');
+
+            // Only one review per video is allowed; if one already exists, open it instead
+            const existing = await fetchOwnReview();
+            if (existing) {
+                setShowReviewForm(false);
+                startEditing(existing);
+            }
         } finally {
             setIsSubmitting(false);
         }
@@ -118,12 +304,17 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
                 review.id === reviewId ? updatedReview : review
             );
             setReviews(updatedReviews);
+            if (reviewId === ownReview?.id) {
+                setOwnReview(updatedReview);
+            }
+            fetchSummary();
             setEditingReview(null);
             setEditingContent('');
             setEditingRating(0);
             toast.success('Review updated successfully!');
+            notifyContentViolations(updatedReview.contentViolations);
         } catch (error) {
-            toast.error('Failed to update review');
+            toast.error(error instanceof Error ? error.message : 'Failed to update review');
         }
     };
 
@@ -144,6 +335,10 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
                     success: () => {
                         const filteredReviews = reviews.filter(review => review.id !== reviewId);
                         setReviews(filteredReviews);
+                        if (reviewId === ownReview?.id) {
+                            setOwnReview(null);
+                        }
+                        fetchSummary();
                         return 'Review deleted successfully!';
                     },
                     error: 'Failed to delete review'
@@ -155,35 +350,18 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
     };
 
     /**
-     * Handles submitting a reply to a review.
+     * Records the user's vote on a review; voting the same way again withdraws the vote
      * @async
-     * @function handleSubmitReply
-     * @param {string} reviewId - ID of the review to reply to
-     * @throws {Error} If reply submission fails
+     * @function handleVote
+     * @param {Review} review - The review voted on
+     * @param {HelpfulVote} vote - The vote
      */
-    const handleSubmitReply = async (reviewId: string) => {
-        if (!currentUserEmail || !replyContent) {
-            toast.error('Please write a reply first');
-            return;
-        }
-
+    const handleVote = async (review: Review, vote: HelpfulVote) => {
         try {
-            const updatedReview = await reviewService.addReply(reviewId, {
-                userId: currentUserId,
-                content: replyContent,
-                userEmail: currentUserEmail
-            });
-
-            const updatedReviews = reviews.map(review =>
-                review.id === reviewId ? updatedReview : review
-            );
-
-            setReviews(updatedReviews);
-            setReplyContent('');
-            setReplyingTo(null);
-            toast.success('Reply added successfully!');
+            const updatedReview = await reviewService.voteOnReview(review.id, review.viewerVote === vote ? null : vote);
+            setReviews(current => current.map(item => item.id === review.id ? updatedReview : item));
         } catch (error) {
-            toast.error('Failed to add reply');
+            toast.error(error instanceof Error ? error.message : 'Failed to record vote');
         }
     };
 
@@ -208,40 +386,64 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
         );
     };
 
-    const sortedReviews = [...reviews].sort((a, b) => {
-        switch (sortBy) {
-            case 'recent':
-                return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-            case 'rating':
-                return b.rating - a.rating;
-            default:
-                return 0;
-        }
-    });
+    const averageRating = summary?.average ?? 0;
+    const reviewCount = summary?.count ?? 0;
 
-    const averageRating = reviews.length
-        ? reviews.reduce((acc, rev) => acc + rev.rating, 0) / reviews.length
-        : 0;
+    /**
+     * Shows only reviews with a rating, or all reviews again when that rating is already selected
+     * @function handleFilter
+     * @param {number} rating - The rating clicked
+     */
+    const handleFilter = (rating: number) => {
+        setRatingFilter(current => current === rating ? null : rating);
+    };
 
-    // Rating summary component that's always visible
-    const RatingSummary = () => (
-        <div className="flex items-center space-x-4">
-            <div className="text-4xl font-bold text-gray-100">
-                {averageRating.toFixed(1)}
-            </div>
-            <div>
-                <StarRating rating={Math.round(averageRating)} size={24} />
-                <div className="text-sm text-gray-300">
-                    {reviews.length} {reviews.length === 1 ? 'review' : 'reviews'}
+    // Rating summary component that's always visible; the bars filter the list once signed in
+    const RatingOverview = () => (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="flex items-center space-x-4">
+                <div className="text-4xl font-bold text-gray-100">
+                    {averageRating.toFixed(1)}
+                </div>
+                <div>
+                    <StarRating rating={Math.round(averageRating)} size={24} />
+                    <div className="text-sm text-gray-300">
+                        {reviewCount} {reviewCount === 1 ? 'review' : 'reviews'}
+                    </div>
                 </div>
             </div>
+
+            <div className="flex-1 space-y-1">
+                {[5, 4, 3, 2, 1].map((star) => {
+                    const count = summary?.histogram[star - 1] ?? 0;
+                    const percent = reviewCount ? Math.round((count / reviewCount) * 100) : 0;
+                    return (
+                        <button
+                            key={star}
+                            onClick={() => handleFilter(star)}
+                            disabled={!currentUserEmail || count === 0}
+                            aria-pressed={ratingFilter === star}
+                            title={`Show ${star}-star reviews`}
+                            className={`w-full flex items-center text-sm rounded px-1 ${
+                                ratingFilter === star ? 'bg-gray-600 text-gray-100' : 'text-gray-300 hover:bg-gray-700'
+                            } disabled:cursor-default disabled:hover:bg-transparent`}
+                        >
+                            <span className="w-8 text-left">{star}★</span>
+                            <div className="flex-1 h-2 mx-2 bg-gray-700 rounded overflow-hidden">
+                                <div className="h-full bg-yellow-400" style={{ width: `${percent}%` }} />
+                            </div>
+                            <span className="w-10 text-right">{percent}%</span>
+                        </button>
+                    );
+                })}
+            </div>
         </div>
     );
 
     if (!currentUserEmail) {
         return (
             <div className="space-y-6">
-                <RatingSummary />
+                <RatingOverview />
 
                 <div className="mt-8 text-center p-8 border border-gray-600 rounded-lg">
                     <h3 className="text-xl font-semibold text-gray-100 mb-4">
@@ -266,30 +468,43 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
         <div className="space-y-6">
 
             {/* Rating Summary */}
-            <div className="flex items-center space-x-4">
-                <div className="text-4xl font-bold text-gray-100">
-                    {averageRating.toFixed(1)}
-                </div>
-                <div>
-                    <StarRating rating={Math.round(averageRating)} size={24} />
-                    <div className="text-sm text-gray-300">
-                        {reviews.length} {reviews.length === 1 ? 'review' : 'reviews'}
-                    </div>
-                </div>
-            </div>
+            <RatingOverview />
+
+            {isOwner && <RatingHistory videoId={videoId} />}
 
             {/* Sort Controls */}
             <div className="flex justify-between items-center">
                 <select
                     value={sortBy}
-                    onChange={(e) => setSortBy(e.target.value as 'recent' | 'rating' | 'helpful')}
+                    onChange={(e) => setSortBy(e.target.value as ReviewSortOrder)}
                     className="px-3 py-2 border rounded-lg text-gray-700"
                 >
                     <option value="recent">Most Recent</option>
                     <option value="rating">Highest Rated</option>
+                    <option value="helpful">Most Helpful</option>
                 </select>
 
-                {!showReviewForm && (
+                {ratingFilter !== null && (
+                    <button
+                        onClick={() => setRatingFilter(null)}
+                        className="flex items-center space-x-1 px-3 py-1 text-sm text-gray-200 bg-gray-600 rounded-full hover:bg-gray-500"
+                    >
+                        <span>{ratingFilter}★ only</span>
+                        <X className="w-3 h-3" />
+                    </button>
+                )}
+
+                {!showReviewForm && ownReview && editingReview !== ownReview.id && (
+                    <button
+                        onClick={() => startEditing(ownReview)}
+                        className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                        <Edit2 className="w-4 h-4" />
+                        <span className="sm:inline text-sm whitespace-normal sm:whitespace-nowrap">Edit Your Review</span>
+                    </button>
+                )}
+
+                {!showReviewForm && !ownReview && (
                     <button
                         onClick={() => setShowReviewForm(true)}
                         className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
@@ -368,7 +583,22 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
 
             {/* Reviews List */}
             <div className="space-y-6">
-                {sortedReviews.map((review) => (
+                {/* Reloads from the first page so the new reviews land in their place in the order */}
+                {newReviews.length > 0 && (
+                    <button
+                        onClick={() => fetchReviews()}
+                        className="mx-auto flex items-center space-x-2 px-4 py-1.5 bg-blue-600 text-white text-sm rounded-full shadow hover:bg-blue-700"
+                    >
+                        <ArrowUp className="w-4 h-4" />
+                        <span>{newReviews.length} new {newReviews.length === 1 ? 'review' : 'reviews'}</span>
+                    </button>
+                )}
+
+                {ratingFilter !== null && reviews.length === 0 && (
+                    <p className="text-sm text-gray-400">No {ratingFilter}-star reviews.</p>
+                )}
+
+                {reviews.map((review) => (
                     <div key={review.id} className="border-b pb-6">
                         <div className="flex justify-between items-start">
                             <div>
@@ -381,6 +611,14 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
                                     </div>
                                 </div>
                                 <StarRating rating={review.rating} size={16} />
+                                {review.moderationStatus === 'hidden' && (
+                                    <span className="flex items-center space-x-1 mt-1 text-xs text-red-400">
+                                        <EyeOff className="w-3 h-3" />
+                                        <span>
+                                            {review.userId === currentUserId ? 'Hidden; only you and moderators can see it' : 'Hidden'}
+                                        </span>
+                                    </span>
+                                )}
                             </div>
 
                             {review.userId === currentUserId && (
@@ -454,63 +692,60 @@ export const ReviewSection: React.FC<ReviewSectionProps> = ({ videoId, currentUs
                             </div>
                         )}
 
-                        {/* Replies Section */}
-                        <div className="mt-4 pl-6 space-y-4">
-                            {review.replies.map((reply) => (
-                                <div key={reply.id} className="bg-gray-400 p-4 rounded-lg">
-                                    <div className="flex justify-between">
-                                        <div className="flex flex-col min-w-0">
-                                            <span className="font-medium truncate break-words overflow-hidden">
-                                                {reply.userEmail}
-                                            </span>
-                                            <span className="text-gray-500 text-sm">
-                                                {new Date(reply.createdAt).toLocaleDateString()}
-                                            </span>
-                                        </div>
-                                    </div>
-                                    <p className="text-gray-700 mt-2 whitespace-normal break-words">{reply.content}</p>
-                                </div>
-                            ))}
-
-                            {replyingTo === review.id ? (
-                                <div className="space-y-2">
-                                    <textarea
-                                        value={replyContent}
-                                        onChange={(e) => setReplyContent(e.target.value)}
-                                        placeholder="Write your reply..."
-                                        className="w-full px-3 py-2 border rounded-lg text-gray-950"
-                                        rows={2}
-                                    />
-                                    <div className="flex space-x-2">
-                                        <button
-                                            onClick={() => handleSubmitReply(review.id)}
-                                            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
-                                        >
-                                            Submit Reply
-                                        </button>
-                                        <button
-                                            onClick={() => {
-                                                setReplyingTo(null);
-                                                setReplyContent('');
-                                            }}
-                                            className="px-3 py-1 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
-                                        >
-                                            Cancel
-                                        </button>
-                                    </div>
-                                </div>
-                            ) : (
-                                <button
-                                    onClick={() => setReplyingTo(review.id)}
-                                    className="flex items-center space-x-1 text-blue-600 hover:text-blue-800"
-                                >
-                                    <MessageSquare className="w-4 h-4" />
-                                    <span>Reply</span>
-                                </button>
+                        {/* Helpful Votes */}
+                        <div className="mt-3 flex flex-wrap items-center space-x-3 text-sm text-gray-400">
+                            {review.userId !== currentUserId && <span>Helpful?</span>}
+                            <button
+                                onClick={() => handleVote(review, 'helpful')}
+                                disabled={review.userId === currentUserId}
+                                aria-pressed={review.viewerVote === 'helpful'}
+                                title="Helpful"
+                                className={`flex items-center space-x-1 ${review.viewerVote === 'helpful' ? 'text-blue-400' : 'hover:text-gray-200'} disabled:cursor-default disabled:hover:text-gray-400`}
+                            >
+                                <ThumbsUp className="w-4 h-4" fill={review.viewerVote === 'helpful' ? 'currentColor' : 'none'} />
+                                <span>{review.helpfulCount ?? 0}</span>
+                            </button>
+                            <button
+                                onClick={() => handleVote(review, 'notHelpful')}
+                                disabled={review.userId === currentUserId}
+                                aria-pressed={review.viewerVote === 'notHelpful'}
+                                title="Not helpful"
+                                className={`flex items-center space-x-1 ${review.viewerVote === 'notHelpful' ? 'text-blue-400' : 'hover:text-gray-200'} disabled:cursor-default disabled:hover:text-gray-400`}
+                            >
+                                <ThumbsDown className="w-4 h-4" fill={review.viewerVote === 'notHelpful' ? 'currentColor' : 'none'} />
+                                <span>{review.notHelpfulCount ?? 0}</span>
+                            </button>
+                            {currentUserId && review.userId !== currentUserId && review.moderationStatus !== 'hidden' && (
+                                <ReportButton
+                                    target={{ reviewId: review.id }}
+                                    onReported={(result) => handleReported(review.id, result)}
+                                />
                             )}
                         </div>
+
+                        {/* Replies Section */}
+                        <ReviewReplies
+                            review={review}
+                            currentUserId={currentUserId}
+                            currentUserEmail={currentUserEmail}
+                            isModerator={isModerator}
+                            canReply={canReplyTo(review)}
+                            onRepliesChange={(replies) => setReviews(current =>
+                                current.map(item => item.id === review.id ? { ...item, replies } : item)
+                            )}
+                        />
                     </div>
                 ))}
+
+                {nextCursor && (
+                    <button
+                        onClick={handleLoadMore}
+                        disabled={loadingMore}
+                        className="w-full py-2 text-sm text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+                    >
+                        {loadingMore ? 'Loading...' : 'Load more reviews'}
+                    </button>
+                )}
             </div>
         </div>
     );
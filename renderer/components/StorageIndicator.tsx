@@ -4,33 +4,21 @@ import { s3Service } from '@/services/s3Service';
 import toast from 'react-hot-toast';
 import {StorageInfo} from "@/types/types";
 import {Hub} from "aws-amplify/utils";
+import { formatBytes, reachedWarningThreshold } from '@/utils/storage';
 
 const STORAGE_CHANNEL = 'customStorage';
 
 /**
- * A component that displays storage usage information with a visual progress bar
+ * A component that displays the signed-in user's storage usage next to the shared pool
  * @component
- * @description
+ * @description Bars turn yellow and red as usage reaches the configured warning thresholds.
  * @returns {JSX.Element | null} The rendered storage indicator component or null if storage info is not yet loaded.
  */
 const StorageIndicator: React.FC = () => {
     const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
 
     /**
-     * Formats a byte value into a human-readable string with appropriate unit.
-     * @param {number} bytes - The number of bytes to format
-     * @returns {string} Formatted string with appropriate unit (Bytes, KB, MB, or GB)
-     */
-    const formatBytes = (bytes: number): string => {
-        if (bytes === 0) return '0 Bytes';
-        const k = 1024;
-        const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-        const i = Math.floor(Math.log(bytes) / Math.log(k));
-        return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
-    };
-
-    /**
-     * Fetches the current storage usage information from S3
+     * Fetches the current storage usage information
      * @async
      * @function fetchStorageInfo
      * @throws {Error} When S3 service call fails
@@ -59,7 +47,7 @@ const StorageIndicator: React.FC = () => {
         });
 
         const videoListener = Hub.listen('videos', (data) => {
-            if (data.payload.event === 'videoUploaded') {
+            if (data.payload.event === 'videoUploaded' || data.payload.event === 'videoDeleted') {
                 fetchStorageInfo();
             }
         });
@@ -73,10 +61,21 @@ const StorageIndicator: React.FC = () => {
 
     if (!storageInfo) return null;
 
-    const usagePercentage = (storageInfo.used / storageInfo.total) * 100;
-    const colorClass = usagePercentage > 90 ? 'bg-red-600' :
-        usagePercentage > 75 ? 'bg-yellow-500' :
-            'bg-blue-600';
+    /**
+     * Picks the bar color for a usage level based on the warning thresholds
+     * @param {number} used - Bytes used
+     * @param {number} total - Bytes allowed
+     * @returns {string} Tailwind background class
+     */
+    const colorFor = (used: number, total: number): string => {
+        const thresholds = storageInfo.warningThresholds;
+        const reached = reachedWarningThreshold(used, total, thresholds);
+        if (reached === null) return 'bg-blue-600';
+        return reached === thresholds[thresholds.length - 1] ? 'bg-red-600' : 'bg-yellow-500';
+    };
+
+    const percentage = (used: number, total: number) => total > 0 ? Math.min((used / total) * 100, 100) : 100;
+    const { pool } = storageInfo;
 
     return (
         <div className="fixed top-28 left-2 w-55 bg-gray-400 rounded-lg shadow-md p-3 z-50">
@@ -84,18 +83,29 @@ const StorageIndicator: React.FC = () => {
                 <HardDrive className="h-5 w-5 text-gray-600" />
                 <span className="font-medium text-gray-700">Storage Usage</span>
             </div>
+            <div className="text-xs text-gray-700 mb-1 capitalize">Your quota ({storageInfo.tier})</div>
             <div className="w-full bg-gray-200 rounded-full h-2.5">
                 <div
-                    className={`h-2.5 rounded-full ${colorClass} transition-all duration-300`}
-                    style={{ width: `${usagePercentage}%` }}
+                    className={`h-2.5 rounded-full ${colorFor(storageInfo.used, storageInfo.total)} transition-all duration-300`}
+                    style={{ width: `${percentage(storageInfo.used, storageInfo.total)}%` }}
                 />
             </div>
             <div className="flex flex-col text-sm mt-2 text-gray-700">
-                <span>Used: {formatBytes(storageInfo.used)}</span>
+                <span>Used: {formatBytes(storageInfo.used)} of {formatBytes(storageInfo.total)}</span>
                 <span>Free: {formatBytes(storageInfo.available)}</span>
             </div>
+            <div className="text-xs text-gray-700 mt-3 mb-1">Shared pool</div>
+            <div className="w-full bg-gray-200 rounded-full h-1.5">
+                <div
+                    className={`h-1.5 rounded-full ${colorFor(pool.used, pool.total)} transition-all duration-300`}
+                    style={{ width: `${percentage(pool.used, pool.total)}%` }}
+                />
+            </div>
+            <div className="text-xs mt-1 text-gray-700">
+                {formatBytes(pool.used)} of {formatBytes(pool.total)}
+            </div>
         </div>
     );
 };
 
-export default StorageIndicator;
\ No newline at end of file
+export default StorageIndicator;
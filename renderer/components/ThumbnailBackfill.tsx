@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { ImagePlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Hub } from 'aws-amplify/utils';
+import { s3Service } from '@/services/s3Service';
+import { VideoMetadata } from '@/types/types';
+import { FrameGrabber, frameToFile } from '@/utils/videoFrames';
+
+/**
+ * Offers to generate thumbnails for the signed-in user's videos that were uploaded without one,
+ * using a frame from the middle of each video
+ * @component
+ * @returns {JSX.Element | null} The backfill prompt, or null when every video has a thumbnail
+ */
+const ThumbnailBackfill: React.FC = () => {
+    const [missing, setMissing] = useState<VideoMetadata[]>([]);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+    /**
+     * Pages through the user's videos and collects those without a thumbnail
+     * @async
+     */
+    const findVideosWithoutThumbnails = async () => {
+        try {
+            const videos: VideoMetadata[] = [];
+            let cursor: string | undefined;
+            do {
+                const page = await s3Service.listVideos({ scope: 'mine', cursor, limit: 100 });
+                videos.push(...page.videos);
+                cursor = page.nextCursor ?? undefined;
+            } while (cursor);
+
+            setMissing(videos.filter(video => !video.thumbnailKey));
+        } catch (error) {
+            setMissing([]);
+        }
+    };
+
+    /**
+     * Effect hook to look for videos without thumbnails, and again whenever videos change
+     */
+    useEffect(() => {
+        findVideosWithoutThumbnails();
+
+        const videoListener = Hub.listen('videos', ({ payload }) => {
+            if (['videoUploaded', 'videoUpdated', 'videoDeleted', 'videoRestored'].includes(payload.event)) {
+                findVideosWithoutThumbnails();
+            }
+        });
+
+        return () => videoListener();
+    }, []);
+
+    /**
+     * Captures a frame from one video and uploads it as the video's thumbnail
+     * @async
+     * @param {VideoMetadata} video - The video to generate a thumbnail for
+     * @throws {Error} If the frame cannot be captured or uploaded
+     */
+    const generateThumbnail = async (video: VideoMetadata) => {
+        const grabber = new FrameGrabber(video.videoUrl);
+        try {
+            const [frame] = await grabber.captureCandidates(1);
+            URL.revokeObjectURL(frame.previewUrl);
+
+            const file = frameToFile(frame, video.videoKey.split('/').pop() || video.id);
+            const result = await s3Service.uploadThumbnail(file, video.id);
+            if (!result.success) {
+                throw new Error(result.error);
+            }
+        } finally {
+            grabber.close();
+        }
+    };
+
+    /**
+     * Generates thumbnails for every video that lacks one, one video at a time
+     * @async
+     */
+    const handleBackfill = async () => {
+        let failed = 0;
+        setProgress({ done: 0, total: missing.length });
+
+        for (let index = 0; index < missing.length; index++) {
+            const video = missing[index];
+            try {
+                await generateThumbnail(video);
+            } catch (error) {
+                console.error(`Error generating thumbnail for ${video.id}:`, error);
+                failed++;
+            }
+            setProgress({ done: index + 1, total: missing.length });
+        }
+
+        setProgress(null);
+        if (failed > 0) {
+            toast.error(`Could not generate ${failed} thumbnail${failed === 1 ? '' : 's'}`);
+        } else {
+            toast.success('Thumbnails generated');
+        }
+
+        Hub.dispatch('videos', { event: 'videoUpdated' });
+    };
+
+    if (missing.length === 0) return null;
+
+    return (
+        <div className="max-w-lg mx-auto mt-4 bg-gray-400 rounded-lg shadow p-4 text-gray-700 flex items-center justify-between text-sm">
+            <span>
+                {missing.length} of your videos {missing.length === 1 ? 'has' : 'have'} no thumbnail.
+            </span>
+            <button
+                type="button"
+                onClick={handleBackfill}
+                disabled={progress !== null}
+                className="flex items-center px-2 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+                <ImagePlus className="w-4 h-4 mr-2" />
+                {progress ? `Generating ${progress.done}/${progress.total}...` : 'Generate thumbnails'}
+            </button>
+        </div>
+    );
+};
+
+export default ThumbnailBackfill;
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Hub } from 'aws-amplify/utils';
+import { s3Service } from '@/services/s3Service';
+import { VideoMetadata } from '@/types/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Describes how long a trashed video has left before it is purged
+ * @param {VideoMetadata} video - The trashed video
+ * @returns {string} Human-readable time remaining
+ */
+const describeTimeLeft = (video: VideoMetadata): string => {
+    if (!video.purgeAfter) return '';
+    const days = Math.ceil((new Date(video.purgeAfter).getTime() - Date.now()) / DAY_MS);
+    if (days <= 0) return 'Deleted permanently soon';
+    return `Deleted permanently in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+/**
+ * Lists the signed-in user's deleted videos and lets them restore or permanently delete each one
+ * @component
+ * @returns {JSX.Element} The rendered trash list
+ */
+const Trash: React.FC = () => {
+    const [videos, setVideos] = useState<VideoMetadata[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    /**
+     * Pages through the user's trash
+     * @async
+     */
+    const fetchTrash = async () => {
+        try {
+            const trashed: VideoMetadata[] = [];
+            let cursor: string | undefined;
+            do {
+                const page = await s3Service.listVideos({ scope: 'trash', cursor, limit: 100 });
+                trashed.push(...page.videos);
+                cursor = page.nextCursor ?? undefined;
+            } while (cursor);
+
+            setVideos(trashed);
+        } catch (error) {
+            console.error('Error fetching trash:', error);
+            toast.error('Failed to load the trash');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    /**
+     * Effect hook to load the trash, and again whenever a video is deleted or restored elsewhere
+     */
+    useEffect(() => {
+        fetchTrash();
+
+        const videoListener = Hub.listen('videos', ({ payload }) => {
+            if (payload.event === 'videoDeleted' || payload.event === 'videoRestored') {
+                fetchTrash();
+            }
+        });
+
+        return () => videoListener();
+    }, []);
+
+    /**
+     * Restores a video and notifies listeners so the grids refresh
+     * @async
+     * @param {VideoMetadata} video - The video to restore
+     */
+    const handleRestore = async (video: VideoMetadata) => {
+        setBusyId(video.id);
+        const result = await s3Service.restoreVideo(video.id);
+        setBusyId(null);
+
+        if (!result.success) {
+            toast.error(result.error || 'Failed to restore video');
+            return;
+        }
+
+        setVideos(current => current.filter(item => item.id !== video.id));
+        Hub.dispatch('videos', {
+            event: 'videoRestored',
+            data: { videoId: video.id }
+        });
+        toast.success('Video restored');
+    };
+
+    /**
+     * Permanently deletes a video after the user confirms
+     * @async
+     * @param {VideoMetadata} video - The video to delete
+     */
+    const handlePurge = async (video: VideoMetadata) => {
+        if (!window.confirm(`Delete "${video.title}" permanently? This cannot be undone.`)) {
+            return;
+        }
+
+        setBusyId(video.id);
+        const result = await s3Service.deleteVideo(video.id);
+        setBusyId(null);
+
+        if (!result.success) {
+            toast.error(result.error || 'Failed to delete video');
+            return;
+        }
+
+        setVideos(current => current.filter(item => item.id !== video.id));
+        Hub.dispatch('customStorage', { event: 'storageUpdated' });
+        toast.success('Video deleted permanently');
+    };
+
+    if (loading) {
+        return <div className="text-center text-lg pt-14">Loading trash...</div>;
+    }
+
+    return (
+        <div className="max-w-3xl mx-auto">
+            <h2 className="text-xl font-semibold mb-1">Trash</h2>
+            <p className="text-sm text-gray-400 mb-4">
+                Deleted videos are kept here for 30 days before they are removed permanently.
+            </p>
+
+            {videos.length === 0 ? (
+                <p className="text-gray-400">The trash is empty.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {videos.map(video => (
+                        <li key={video.id} className="flex items-center gap-4 bg-gray-800 rounded-lg p-3">
+                            <div className="w-32 aspect-video flex-shrink-0 bg-gray-700 rounded overflow-hidden">
+                                {video.thumbnailUrl && (
+                                    <img src={video.thumbnailUrl} alt={video.title} className="w-full h-full object-cover" />
+                                )}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-medium truncate">{video.title}</p>
+                                <p className="text-xs text-gray-400">{describeTimeLeft(video)}</p>
+                            </div>
+                            <button
+                                onClick={() => handleRestore(video)}
+                                disabled={busyId === video.id}
+                                className="flex items-center px-2 py-2 border-2 border-gray-400 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50"
+                            >
+                                <RotateCcw className="w-4 h-4 mr-2" />
+                                Restore
+                            </button>
+                            <button
+                                onClick={() => handlePurge(video)}
+                                disabled={busyId === video.id}
+                                className="flex items-center px-2 py-2 border-2 border-[#ff0000] text-[#ff0000] rounded-lg hover:bg-white disabled:opacity-50"
+                            >
+                                <Trash2 className="w-4 h-4 mr-2" color="red" />
+                                Delete forever
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default Trash;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import { Pause, Play, RotateCcw, X, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { uploadQueueService, UploadQueueAction } from '@/services/uploadQueueService';
+import { UploadQueueItem, UploadQueueSettings, UploadQueueState } from '@/types/types';
+import { formatBytes } from '@/utils/storage';
+
+/** Choices for how many videos upload at once; the main process allows at most 4 */
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+/** Choices for the combined upload rate limit, in bytes per second; 0 is unlimited */
+const BANDWIDTH_OPTIONS = [0, 1, 2, 5, 10, 25].map(megabytes => megabytes * 1024 * 1024);
+
+/** How each state is shown */
+const STATE_LABELS: Record<UploadQueueState, string> = {
+    queued: 'Waiting',
+    uploading: 'Uploading',
+    paused: 'Paused',
+    completed: 'Uploaded',
+    failed: 'Failed',
+    cancelled: 'Cancelled'
+};
+
+/** The actions offered for each state */
+const STATE_ACTIONS: Record<UploadQueueState, UploadQueueAction[]> = {
+    queued: ['pause', 'cancel'],
+    uploading: ['pause', 'cancel'],
+    paused: ['resume', 'cancel'],
+    completed: ['remove'],
+    failed: ['retry', 'remove'],
+    cancelled: ['retry', 'remove']
+};
+
+const ACTION_BUTTONS: Record<UploadQueueAction, { label: string; icon: React.ReactNode }> = {
+    pause: { label: 'Pause', icon: <Pause className="w-4 h-4" /> },
+    resume: { label: 'Resume', icon: <Play className="w-4 h-4" /> },
+    retry: { label: 'Retry', icon: <RotateCcw className="w-4 h-4" /> },
+    cancel: { label: 'Cancel', icon: <X className="w-4 h-4" /> },
+    remove: { label: 'Remove', icon: <Trash2 className="w-4 h-4" /> }
+};
+
+/**
+ * Shows the signed-in user's background upload queue with the progress of each video,
+ * and lets them pause, resume, retry, cancel and remove videos and change how the queue
+ * shares the connection
+ * @component
+ * @returns {JSX.Element | null} The rendered queue, or nothing while it is empty
+ */
+const UploadQueuePanel: React.FC = () => {
+    const [items, setItems] = useState<UploadQueueItem[]>([]);
+    const [settings, setSettings] = useState<UploadQueueSettings | null>(null);
+
+    /**
+     * Loads the queue
+     * @async
+     */
+    const fetchQueue = async () => {
+        try {
+            setItems(await uploadQueueService.list());
+        } catch (error) {
+            console.error('Error loading upload queue:', error);
+        }
+    };
+
+    /**
+     * Effect hook to load the queue and settings and follow changes and progress
+     */
+    useEffect(() => {
+        fetchQueue();
+        uploadQueueService.getSettings().then(setSettings).catch(() => setSettings(null));
+
+        const removeChangeListener = uploadQueueService.onChanged(fetchQueue);
+        const removeProgressListener = uploadQueueService.onProgress((itemId, progress) => {
+            setItems(current => current.map(item => item.id === itemId ? { ...item, progress } : item));
+        });
+
+        return () => {
+            removeChangeListener();
+            removeProgressListener();
+        };
+    }, []);
+
+    /**
+     * Runs an action on a queued video
+     * @async
+     * @param {UploadQueueItem} item - The queued video
+     * @param {UploadQueueAction} action - What to do
+     */
+    const handleAction = async (item: UploadQueueItem, action: UploadQueueAction) => {
+        try {
+            await uploadQueueService.control(item.id, action);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Action failed');
+        }
+    };
+
+    /**
+     * Removes completed and cancelled videos from the queue
+     * @async
+     */
+    const handleClearFinished = async () => {
+        try {
+            await uploadQueueService.clearFinished();
+        } catch (error) {
+            toast.error('Failed to clear finished uploads');
+        }
+    };
+
+    /**
+     * Stores changed settings
+     * @async
+     * @param {Partial<UploadQueueSettings>} changes - The settings to change
+     */
+    const handleSettingsChange = async (changes: Partial<UploadQueueSettings>) => {
+        if (!settings) return;
+        try {
+            setSettings(await uploadQueueService.updateSettings({ ...settings, ...changes }));
+        } catch (error) {
+            toast.error('Failed to save upload settings');
+        }
+    };
+
+    if (items.length === 0) {
+        return null;
+    }
+
+    const hasFinished = items.some(item => item.state === 'completed' || item.state === 'cancelled');
+
+    return (
+        <div className="max-w-lg mx-auto mt-6 bg-gray-800 rounded-lg shadow p-4 text-gray-200">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold">Upload queue</h2>
+                {hasFinished && (
+                    <button onClick={handleClearFinished} className="text-sm text-blue-400 hover:text-blue-300">
+                        Clear finished
+                    </button>
+                )}
+            </div>
+
+            {settings && (
+                <div className="flex flex-wrap gap-4 mb-4 text-sm">
+                    <label className="flex items-center gap-2">
+                        At once
+                        <select
+                            value={settings.concurrency}
+                            onChange={(e) => handleSettingsChange({ concurrency: Number(e.target.value) })}
+                            className="bg-gray-700 rounded px-1 py-0.5"
+                        >
+                            {CONCURRENCY_OPTIONS.map(option => (
+                                <option key={option} value={option}>{option}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Speed limit
+                        <select
+                            value={settings.maxBytesPerSecond}
+                            onChange={(e) => handleSettingsChange({ maxBytesPerSecond: Number(e.target.value) })}
+                            className="bg-gray-700 rounded px-1 py-0.5"
+                        >
+                            {BANDWIDTH_OPTIONS.includes(settings.maxBytesPerSecond) ? null : (
+                                <option value={settings.maxBytesPerSecond}>{formatBytes(settings.maxBytesPerSecond)}/s</option>
+                            )}
+                            {BANDWIDTH_OPTIONS.map(option => (
+                                <option key={option} value={option}>
+                                    {option === 0 ? 'Unlimited' : `${formatBytes(option)}/s`}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+            )}
+
+            <ul className="space-y-3">
+                {items.map(item => (
+                    <li key={item.id} className="bg-gray-700 rounded-lg p-3">
+                        <div className="flex items-center justify-between gap-2">
+                            <div className="min-w-0">
+                                <p className="font-medium truncate">{item.metadata.title}</p>
+                                <p className="text-xs text-gray-400 truncate">
+                                    {item.fileName} · {formatBytes(item.fileSize)}
+                                    {item.hasThumbnail && ' · with thumbnail'}
+                                </p>
+                            </div>
+                            <div className="flex flex-shrink-0 gap-1">
+                                {STATE_ACTIONS[item.state].map(action => (
+                                    <button
+                                        key={action}
+                                        onClick={() => handleAction(item, action)}
+                                        title={ACTION_BUTTONS[action].label}
+                                        aria-label={`${ACTION_BUTTONS[action].label} ${item.metadata.title}`}
+                                        className={`p-1.5 rounded hover:bg-gray-600 ${action === 'cancel' ? 'text-red-400' : ''}`}
+                                    >
+                                        {ACTION_BUTTONS[action].icon}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="flex justify-between text-xs mt-2 mb-1">
+                            <span className={item.state === 'failed' ? 'text-red-400' : 'text-gray-300'}>
+                                {STATE_LABELS[item.state]}{item.error && `: ${item.error}`}
+                            </span>
+                            {item.state !== 'completed' && item.state !== 'cancelled' && (
+                                <span>{Math.floor(item.progress)}%</span>
+                            )}
+                        </div>
+                        <div className="w-full bg-gray-600 rounded-full h-1.5">
+                            <div
+                                className={`h-1.5 rounded-full transition-all duration-300 ${
+                                    item.state === 'failed' ? 'bg-red-500' : item.state === 'completed' ? 'bg-green-500' : 'bg-blue-500'
+                                }`}
+                                style={{ width: `${item.state === 'cancelled' ? 0 : item.progress}%` }}
+                            />
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default UploadQueuePanel;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Play } from 'lucide-react';
+import { Play, Star } from 'lucide-react';
 import { VideoCardProps } from '@/types/types'
 import VideoPlaceholder from './VideoPlaceholder';
 
@@ -17,6 +17,7 @@ const VideoCard: React.FC<VideoCardProps> = ({
                                                  duration,
                                                  category,
                                                  uploadDate,
+                                                 rating,
                                                  onPlay
                                              }: VideoCardProps): JSX.Element => {
     const [imageLoading, setImageLoading] = useState(true);
@@ -81,6 +82,15 @@ const VideoCard: React.FC<VideoCardProps> = ({
                 <h3 className="text-lg font-semibold text-gray-800 truncate group-hover:text-blue-600 transition-colors duration-300">
                     {title}
                 </h3>
+                {rating && rating.count > 0 ? (
+                    <div className="flex items-center mt-1 text-sm text-gray-600">
+                        <Star className="w-4 h-4 mr-1 text-yellow-400 fill-current" />
+                        <span className="font-medium">{rating.average.toFixed(1)}</span>
+                        <span className="ml-1">({rating.count} {rating.count === 1 ? 'review' : 'reviews'})</span>
+                    </div>
+                ) : (
+                    <div className="mt-1 text-sm text-gray-500">No reviews yet</div>
+                )}
             </div>
         </div>
     );
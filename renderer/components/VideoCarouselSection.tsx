@@ -7,13 +7,17 @@ import { VideoMetadata, VideoCarouselProps } from '@/types/types';
 
 /**
  * A section component that displays a carousel of video cards with navigation controls.
- * Handles responsive layout, video selection, and pagination.
+ * Handles responsive layout, video selection, and pagination. The next page of videos is
+ * requested as the user approaches the end of what has been loaded.
  * @param {VideoCarouselProps} props - Component props
  * @param {string} props.title - The title displayed above the carousel
  * @param {VideoMetadata[]} props.videos - Array of video metadata to display
+ * @param {boolean} [props.hasMore] - Whether more videos can be loaded
+ * @param {boolean} [props.loadingMore] - Whether the next page is being loaded
+ * @param {() => void} [props.onLoadMore] - Loads the next page of videos
  * @returns {JSX.Element | null} Returns the carousel component if videos exist, null otherwise
  */
-const VideoCarouselSection: React.FC<VideoCarouselProps> = ({ title, videos }) => {
+const VideoCarouselSection: React.FC<VideoCarouselProps> = ({ title, videos, hasMore = false, loadingMore = false, onLoadMore }) => {
     const [selectedVideo, setSelectedVideo] = useState<VideoMetadata | null>(null);
     const [currentIndex, setCurrentIndex] = useState<number>(0);
     const [itemsPerPage, setItemsPerPage] = useState<number>(4);
@@ -56,13 +60,22 @@ const VideoCarouselSection: React.FC<VideoCarouselProps> = ({ title, videos }) =
      * Advances the carousel to the next set of videos
      * @function nextSlide
      * @private
-     * Loops back to start when reaching the end
+     * Loads the next page when the following slide is not fully loaded yet,
+     * and loops back to start when reaching the end of everything
      */
     const nextSlide = () => {
-        setCurrentIndex((prevIndex) => {
-            const nextIndex = prevIndex + itemsPerPage;
-            return nextIndex >= videos.length ? 0 : nextIndex;
-        });
+        const nextIndex = currentIndex + itemsPerPage;
+        if (hasMore && nextIndex + itemsPerPage > videos.length) {
+            onLoadMore?.();
+        }
+
+        if (nextIndex >= videos.length) {
+            if (!hasMore) {
+                setCurrentIndex(0);
+            }
+            return;
+        }
+        setCurrentIndex(nextIndex);
     };
 
     /**
@@ -137,6 +150,7 @@ const VideoCarouselSection: React.FC<VideoCarouselProps> = ({ title, videos }) =
                                     duration={video.duration}
                                     category={video.category}
                                     uploadDate={video.uploadDate}
+                                    rating={video.rating}
                                     onPlay={() => handleVideoClick(video)}
                                 />
                             </div>
@@ -165,6 +179,9 @@ const VideoCarouselSection: React.FC<VideoCarouselProps> = ({ title, videos }) =
                             aria-label={`Go to page ${i + 1}`}
                         />
                     ))}
+                    {loadingMore && (
+                        <span className="text-sm text-gray-400 pl-2">Loading more...</span>
+                    )}
                 </div>
             </div>
 
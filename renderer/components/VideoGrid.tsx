@@ -2,61 +2,124 @@ import React, { useState, useEffect } from 'react';
 import { getCurrentUser } from 'aws-amplify/auth';
 import { Hub } from 'aws-amplify/utils';
 import { s3Service } from '@/services/s3Service';
+import { offlineService, OFFLINE_CHANNEL } from '@/services/offlineService';
 import VideoCarouselSection from './VideoCarouselSection';
-import { VideoMetadata } from '@/types/types';
+import { VideoMetadata, VideoListScope, OfflineLibraryInfo } from '@/types/types';
+import { formatBytes } from '@/utils/storage';
 import toast from "react-hot-toast";
 
 /**
- * Main video carousel component that displays both "All Videos" and "My Videos" sections.
- * Handles authentication state, video fetching, and filtering based on user status.
- *  * @property {VideoMetadata[]} allVideos - Stores all accessible videos (public + user's private)
- *  * @property {VideoMetadata[]} userVideos - Stores only the current user's videos
- *  * @property {boolean} loading - Tracks the loading state during video fetching
+ * Videos loaded so far for one carousel section
+ * @interface SectionState
+ * @property {VideoMetadata[]} videos - Videos loaded so far, newest first
+ * @property {string | null} nextCursor - Cursor of the next page, or null when everything is loaded
+ * @property {boolean} loadingMore - Whether the next page is being loaded
+ */
+interface SectionState {
+    videos: VideoMetadata[];
+    nextCursor: string | null;
+    loadingMore: boolean;
+}
+
+const EMPTY_SECTION: SectionState = { videos: [], nextCursor: null, loadingMore: false };
+
+/** Number of videos requested per page */
+const PAGE_SIZE = 12;
+
+/**
+ * Main video carousel component that displays the "All Videos", "My Videos" and "Offline" sections.
+ * Handles authentication state, and loads each section a page at a time. Without a connection
+ * only the videos downloaded for offline playback are shown.
+ *  * @property {SectionState} allVideos - Accessible videos loaded so far (public + user's private)
+ *  * @property {SectionState} userVideos - The current user's videos loaded so far
+ *  * @property {boolean} loading - Tracks the loading state during the first fetch
  *  * @property {string | null} error - Stores error messages if video fetching fails
  *  * @property {string | null} currentUser - Stores the current user's username
+ *  * @property {OfflineLibraryInfo | null} offlineLibrary - Videos downloaded to this computer
+ *  * @property {boolean} isOffline - Whether the last fetch failed because there is no connection
  */
 const VideoCarousel: React.FC = () => {
-    const [allVideos, setAllVideos] = useState<VideoMetadata[]>([]);
-    const [userVideos, setUserVideos] = useState<VideoMetadata[]>([]);
+    const [allVideos, setAllVideos] = useState<SectionState>(EMPTY_SECTION);
+    const [userVideos, setUserVideos] = useState<SectionState>(EMPTY_SECTION);
     const [loading, setLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
     const [currentUser, setCurrentUser] = useState<string | null>(null);
+    const [offlineLibrary, setOfflineLibrary] = useState<OfflineLibraryInfo | null>(null);
+    const [isOffline, setIsOffline] = useState<boolean>(false);
 
     /**
-     * Fetches and filters videos based on user authentication status.
-     * @function fetchAndFilterVideos
+     * Fetches the first page of each section based on user authentication status.
+     * @function fetchFirstPages
      * @async
      * @param {string | null} username - The current user's username or null if not authenticated
      */
-    const fetchAndFilterVideos = async (username: string | null) => {
+    const fetchFirstPages = async (username: string | null) => {
         try {
-            const videos = await s3Service.getAllVideos();
-            const sortedVideos = videos.sort((a, b) =>
-                new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime()
-            );
-
-            const filteredAllVideos = sortedVideos.filter(video =>
-                video.isPublic || (username && video.userId === username)
-            );
-            setAllVideos(filteredAllVideos);
-
-            if (username) {
-                const filteredUserVideos = sortedVideos.filter(video =>
-                    video.userId === username
-                );
-                setUserVideos(filteredUserVideos);
-            } else {
-                setUserVideos([]);
-            }
+            const [all, mine] = await Promise.all([
+                s3Service.listVideos({ scope: 'all', limit: PAGE_SIZE }),
+                username ? s3Service.listVideos({ scope: 'mine', limit: PAGE_SIZE }) : null
+            ]);
 
+            setAllVideos({ videos: all.videos, nextCursor: all.nextCursor, loadingMore: false });
+            setUserVideos(mine
+                ? { videos: mine.videos, nextCursor: mine.nextCursor, loadingMore: false }
+                : EMPTY_SECTION);
+            setError(null);
+            setIsOffline(false);
             setLoading(false);
         } catch (err) {
-            setError('Failed to fetch videos');
             setLoading(false);
+            if (!navigator.onLine) {
+                setIsOffline(true);
+                return;
+            }
+            setError('Failed to fetch videos');
             toast.error('Failed to load videos. Please try again later.');
         }
     };
 
+    /**
+     * Loads the videos downloaded for offline playback
+     * @function fetchOfflineLibrary
+     * @async
+     */
+    const fetchOfflineLibrary = async () => {
+        try {
+            setOfflineLibrary(await offlineService.getLibrary());
+        } catch (err) {
+            setOfflineLibrary(null);
+        }
+    };
+
+    /**
+     * Appends the next page of a section
+     * @function loadMore
+     * @async
+     * @param {VideoListScope} scope - Which section to extend
+     * @param {SectionState} section - Current state of the section
+     * @param {React.Dispatch<React.SetStateAction<SectionState>>} setSection - State setter of the section
+     */
+    const loadMore = async (
+        scope: VideoListScope,
+        section: SectionState,
+        setSection: React.Dispatch<React.SetStateAction<SectionState>>
+    ) => {
+        if (!section.nextCursor || section.loadingMore) return;
+
+        setSection(prev => ({ ...prev, loadingMore: true }));
+        try {
+            const page = await s3Service.listVideos({ scope, cursor: section.nextCursor, limit: PAGE_SIZE });
+            setSection(prev => ({
+                videos: [...prev.videos, ...page.videos.filter(video => !prev.videos.some(loaded => loaded.id === video.id))],
+                nextCursor: page.nextCursor,
+                loadingMore: false
+            }));
+        } catch (err) {
+            setSection(prev => ({ ...prev, loadingMore: false }));
+            toast.error('Failed to load more videos.');
+        }
+    };
+
     /**
      * Checks and updates the current user's authentication status.
      * @function checkCurrentUser
@@ -66,21 +129,24 @@ const VideoCarousel: React.FC = () => {
         try {
             const { username } = await getCurrentUser();
             setCurrentUser(username);
-            await fetchAndFilterVideos(username);
+            await fetchFirstPages(username);
         } catch (err) {
             setCurrentUser(null);
-            await fetchAndFilterVideos(null);
+            await fetchFirstPages(null);
         }
     };
 
     /**
      * Effect hook that manages authentication and video upload subscriptions
      * - Sets up and cleans up auth listeners (signIn/signOut)
-     * - Sets up and cleans up video upload listeners
+     * - Sets up and cleans up listeners for uploaded, edited, deleted and restored videos
+     * - Refreshes when a transcoding job finishes, so the new renditions are picked up
+     * - Refreshes the offline section when the library changes, and the rest when the connection returns
      * - Handles initial user check
      */
     useEffect(() => {
         checkCurrentUser();
+        fetchOfflineLibrary();
 
         const unsubscribe = Hub.listen('auth', ({ payload }) => {
             switch (payload.event) {
@@ -89,13 +155,28 @@ const VideoCarousel: React.FC = () => {
                     break;
                 case 'signedOut':
                     setCurrentUser(null);
-                    fetchAndFilterVideos(null);
+                    fetchFirstPages(null);
                     break;
             }
         });
 
         const videoListener = Hub.listen('videos', ({ payload }) => {
-            if (payload.event === 'videoUploaded') {
+            if (['videoUploaded', 'videoUpdated', 'videoDeleted', 'videoRestored'].includes(payload.event)) {
+                checkCurrentUser();
+            }
+        });
+
+        const offlineListener = Hub.listen(OFFLINE_CHANNEL, ({ payload }) => {
+            if (payload.event === 'libraryUpdated') {
+                fetchOfflineLibrary();
+            }
+        });
+
+        // Reload the online sections once the connection comes back
+        window.addEventListener('online', checkCurrentUser);
+
+        const transcodeListener = s3Service.onTranscodeStatus((_videoId, status) => {
+            if (status.state === 'completed') {
                 checkCurrentUser();
             }
         });
@@ -103,6 +184,9 @@ const VideoCarousel: React.FC = () => {
         return () => {
             unsubscribe();
             videoListener();
+            offlineListener();
+            transcodeListener();
+            window.removeEventListener('online', checkCurrentUser);
         };
     }, []);
 
@@ -122,18 +206,43 @@ const VideoCarousel: React.FC = () => {
         );
     }
 
+    const offlineSection = offlineLibrary && (
+        <VideoCarouselSection
+            title={`Offline (${formatBytes(offlineLibrary.used)})`}
+            videos={offlineLibrary.videos.map(item => item.video)}
+        />
+    );
+
+    if (isOffline) {
+        return (
+            <div>
+                <div className="text-center text-gray-400 pt-6">
+                    You are offline. Only videos downloaded to this computer are available.
+                </div>
+                {offlineSection}
+            </div>
+        );
+    }
+
     return (
         <div>
             <VideoCarouselSection
                 title="All Videos"
-                videos={allVideos}
+                videos={allVideos.videos}
+                hasMore={allVideos.nextCursor !== null}
+                loadingMore={allVideos.loadingMore}
+                onLoadMore={() => loadMore('all', allVideos, setAllVideos)}
             />
             {currentUser && (
                 <VideoCarouselSection
                     title="My Videos"
-                    videos={userVideos}
+                    videos={userVideos.videos}
+                    hasMore={userVideos.nextCursor !== null}
+                    loadingMore={userVideos.loadingMore}
+                    onLoadMore={() => loadMore('mine', userVideos, setUserVideos)}
                 />
             )}
+            {offlineSection}
         </div>
     );
 };
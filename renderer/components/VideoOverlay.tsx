@@ -1,11 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { X, Play } from 'lucide-react';
+import { X, Play, Pencil } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { ReviewSection } from './ReviewSection';
 import { getCurrentUser } from 'aws-amplify/auth';
-import { VideoOverlayProps} from "@/types/types";
+import { Hub } from 'aws-amplify/utils';
+import { VideoOverlayProps, VideoMetadata, TranscodeStatus, OfflineVideo } from "@/types/types";
 import VideoPlaceholder from "@/components/VideoPlaceholder";
 import DeleteVideo from './DeleteVideo';
+import EditVideoDetails from './EditVideoDetails';
+import VideoPlayer from './VideoPlayer';
+import OfflineActions from './OfflineActions';
+import { s3Service } from '@/services/s3Service';
+import { offlineService, OFFLINE_CHANNEL } from '@/services/offlineService';
 
 /**
  * Video overlay component that displays video playback and information
@@ -13,10 +19,14 @@ import DeleteVideo from './DeleteVideo';
  * @param {VideoOverlayProps} props - The props for the VideoOverlay component
  * @returns {JSX.Element} The rendered video overlay
  */
-const VideoOverlay: React.FC<VideoOverlayProps> = ({ video, onClose }) => {
+const VideoOverlay: React.FC<VideoOverlayProps> = ({ video: initialVideo, onClose }) => {
+    const [video, setVideo] = useState(initialVideo);
     const [isPlaying, setIsPlaying] = useState(false);
     const [activeTab, setActiveTab] = useState<'details' | 'reviews'>('details');
     const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+    const [currentUsername, setCurrentUsername] = useState<string | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [offlineCopy, setOfflineCopy] = useState<OfflineVideo | null>(null);
 
     /**
      * Effect to manage body scroll behavior when overlay is open
@@ -37,8 +47,10 @@ const VideoOverlay: React.FC<VideoOverlayProps> = ({ video, onClose }) => {
             try {
                 const user = await getCurrentUser();
                 setCurrentUserId(user.userId);
+                setCurrentUsername(user.username);
             } catch (err) {
                 setCurrentUserId(null);
+                setCurrentUsername(null);
                 toast.error('Please Login!');
             }
         };
@@ -46,6 +58,40 @@ const VideoOverlay: React.FC<VideoOverlayProps> = ({ video, onClose }) => {
         fetchCurrentUser();
     }, []);
 
+    /**
+     * Effect to follow the transcoding job of this video
+     */
+    useEffect(() => {
+        return s3Service.onTranscodeStatus((videoId, status) => {
+            if (videoId === video.id) {
+                setVideo(prev => ({ ...prev, transcode: status }));
+            }
+        });
+    }, [video.id]);
+
+    /**
+     * Effect to find this video in the offline library, and again whenever the library changes
+     */
+    useEffect(() => {
+        const findOfflineCopy = async () => {
+            try {
+                const library = await offlineService.getLibrary();
+                setOfflineCopy(library.videos.find(item => item.video.id === video.id) || null);
+            } catch (err) {
+                setOfflineCopy(null);
+            }
+        };
+
+        findOfflineCopy();
+        const offlineListener = Hub.listen(OFFLINE_CHANNEL, ({ payload }) => {
+            if (payload.event === 'libraryUpdated') {
+                findOfflineCopy();
+            }
+        });
+
+        return () => offlineListener();
+    }, [video.id]);
+
     /**
      * Handles clicks on the backdrop to close the overlay
      * @param {React.MouseEvent} e - The click event
@@ -64,6 +110,38 @@ const VideoOverlay: React.FC<VideoOverlayProps> = ({ video, onClose }) => {
         toast.success('Starting video playback');
     };
 
+    /**
+     * Describes the transcoding job of a video for its owner
+     * @param {TranscodeStatus} status - Status of the job
+     * @returns {string} Human-readable status
+     */
+    const describeTranscode = (status: TranscodeStatus): string => {
+        switch (status.state) {
+            case 'queued':
+                return 'Waiting to transcode';
+            case 'running':
+                return `Transcoding ${status.progress}%`;
+            case 'completed':
+                return video.renditions
+                    ? `Ready (${video.renditions.variants.map(variant => variant.name).join(', ')})`
+                    : 'Ready';
+            case 'failed':
+                return `Failed: ${status.error || 'Unknown error'}`;
+        }
+    };
+
+    /** Videos are owned by the uploader's username */
+    const isOwner = currentUsername !== null && currentUsername === video.userId;
+
+    /**
+     * Shows the saved details and leaves edit mode
+     * @param {VideoMetadata} updated - The updated video
+     */
+    const handleSaved = (updated: VideoMetadata) => {
+        setVideo(updated);
+        setIsEditing(false);
+    };
+
     /**
      * Handles tab switching
      * @param {('details' | 'reviews')} tab - The tab to switch to
@@ -97,12 +175,7 @@ const VideoOverlay: React.FC<VideoOverlayProps> = ({ video, onClose }) => {
                     {/* Video/Thumbnail Section */}
                     <div className="w-4/6 bg-black">
                         {isPlaying ? (
-                            <video
-                                src={video.videoUrl}
-                                controls
-                                autoPlay
-                                className="w-full h-full object-contain"
-                            />
+                            <VideoPlayer video={offlineCopy ? offlineCopy.video : video} />
                         ) : (
                             <div
                                 className="relative w-full h-full group cursor-pointer"
@@ -160,7 +233,13 @@ const VideoOverlay: React.FC<VideoOverlayProps> = ({ video, onClose }) => {
 
                         {/* Tab Content */}
                         <div className="flex-1 overflow-y-auto p-4">
-                            {activeTab === 'details' ? (
+                            {activeTab === 'details' && isEditing ? (
+                                <EditVideoDetails
+                                    video={video}
+                                    onSaved={handleSaved}
+                                    onCancel={() => setIsEditing(false)}
+                                />
+                            ) : activeTab === 'details' ? (
                                 <div className="space-y-4">
                                     <h2 className="text-xl font-bold text-gray-100 break-words">{video.title}</h2>
                                     <div className="space-y-2 text-sm">
@@ -176,6 +255,14 @@ const VideoOverlay: React.FC<VideoOverlayProps> = ({ video, onClose }) => {
                                             <span className="text-gray-400 w-24">Duration:</span>
                                             <span className="text-gray-200">{video.duration}</span>
                                         </div>
+                                        {isOwner && video.transcode && (
+                                            <div className="flex">
+                                                <span className="text-gray-400 w-24">Playback:</span>
+                                                <span className={video.transcode.state === 'failed' ? 'text-red-400' : 'text-gray-200'}>
+                                                    {describeTranscode(video.transcode)}
+                                                </span>
+                                            </div>
+                                        )}
                                     </div>
 
                                     <div className="mt-4">
@@ -183,14 +270,23 @@ const VideoOverlay: React.FC<VideoOverlayProps> = ({ video, onClose }) => {
                                         <p className="text-gray-200 whitespace-pre-wrap break-words">{video.description}</p>
                                     </div>
 
-                                    {currentUserId === video.userId && (
-                                        <div className="flex justify-end mt-4">
+                                    <OfflineActions video={video} offlineCopy={offlineCopy} />
+
+                                    {isOwner && (
+                                        <div className="flex justify-end gap-2 mt-4">
+                                            <button
+                                                onClick={() => setIsEditing(true)}
+                                                className="flex items-center px-2 py-2 border-2 border-blue-500 text-blue-500 rounded-lg hover:bg-white"
+                                            >
+                                                <Pencil className="w-4 h-4 mr-2" />
+                                                Edit
+                                            </button>
                                             <DeleteVideo videoId={video.id} onDelete={onClose} />
                                         </div>
                                     )}
                                 </div>
                             ) : (
-                                <ReviewSection videoId={video.id} currentUserId={currentUserId || ''} />
+                                <ReviewSection videoId={video.id} currentUserId={currentUserId || ''} isOwner={isOwner} />
                             )}
                         </div>
                     </div>
@@ -0,0 +1,74 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Hls from 'hls.js';
+import { VideoPlayerProps } from '@/types/types';
+
+/**
+ * Plays a video, preferring adaptive HLS, then the transcoded MP4, then the original upload.
+ * Moves on to the next source whenever one fails to load.
+ * @component
+ * @param {VideoPlayerProps} props - The component props
+ * @param {VideoMetadata} props.video - The video to play
+ * @returns {JSX.Element} The rendered player
+ */
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [sourceIndex, setSourceIndex] = useState(0);
+
+    const sources = [
+        video.hlsUrl && { url: video.hlsUrl, isHls: true },
+        video.mp4Url && { url: video.mp4Url, isHls: false },
+        { url: video.videoUrl, isHls: false }
+    ].filter((source): source is { url: string; isHls: boolean } => Boolean(source));
+    const source = sources[Math.min(sourceIndex, sources.length - 1)];
+
+    /**
+     * Falls back to the next source, if there is one
+     */
+    const handleSourceError = () => {
+        setSourceIndex(index => (index < sources.length - 1 ? index + 1 : index));
+    };
+
+    /**
+     * Effect hook to attach hls.js for HLS sources. Chromium cannot play HLS natively.
+     */
+    useEffect(() => {
+        const element = videoRef.current;
+        if (!element || !source.isHls) return;
+
+        if (element.canPlayType('application/vnd.apple.mpegurl')) {
+            element.src = source.url;
+            return;
+        }
+
+        if (!Hls.isSupported()) {
+            handleSourceError();
+            return;
+        }
+
+        const hls = new Hls();
+        hls.on(Hls.Events.ERROR, (_event, data) => {
+            if (data.fatal) {
+                console.error('HLS playback failed, falling back:', data.details);
+                handleSourceError();
+            }
+        });
+        hls.loadSource(source.url);
+        hls.attachMedia(element);
+
+        return () => hls.destroy();
+    }, [source.url, source.isHls]);
+
+    return (
+        <video
+            key={source.url}
+            ref={videoRef}
+            src={source.isHls ? undefined : source.url}
+            onError={source.isHls ? undefined : handleSourceError}
+            controls
+            autoPlay
+            className="w-full h-full object-contain"
+        />
+    );
+};
+
+export default VideoPlayer;
@@ -1,17 +1,25 @@
-import React, { useState, useRef, ChangeEvent, FormEvent } from 'react';
+import React, { useState, useRef, useEffect, ChangeEvent, FormEvent } from 'react';
 import { Upload, Image as ImageIcon } from 'lucide-react';
 import toast from 'react-hot-toast';
 import Switch from 'react-switch'
 import { s3Service } from '@/services/s3Service';
+import { uploadQueueService } from '@/services/uploadQueueService';
 import { v4 as uuidv4 } from 'uuid';
 import { getCurrentUser } from 'aws-amplify/auth';
-import { FormData } from '@/types/types'
-import {Hub} from "aws-amplify/utils";
+import { CapturedFrame, DuplicateCheck, FormData, VideoMetadata, VideoValidationResult } from '@/types/types'
+import { formatBytes, reachedWarningThreshold } from '@/utils/storage';
+import { VIDEO_CATEGORIES, validateVideoDetails, isValidThumbnail } from '@/utils/videoDetails';
+import { notifyContentViolations } from '@/utils/guidelines';
+import { FrameGrabber, frameToFile, formatTimestamp } from '@/utils/videoFrames';
+import VideoOverlay from './VideoOverlay';
 
-const STORAGE_CHANNEL = 'customStorage';
+/** Number of frames offered as thumbnail candidates */
+const FRAME_CANDIDATES = 4;
 
 /**
- * Form component for uploading videos with metadata
+ * Form component for adding videos with metadata to the background upload queue.
+ * The form is cleared as soon as a video is queued, so the next one can be filled in
+ * while earlier ones upload.
  * @component
  * @returns {JSX.Element} The rendered video upload form
  */
@@ -26,103 +34,204 @@ const VideoUploadForm: React.FC = () => {
 
     const [videoFile, setVideoFile] = useState<File | null>(null);
     const [thumbnail, setThumbnail] = useState<File | null>(null);
-    const [isUploading, setIsUploading] = useState(false);
+    const [isQueueing, setIsQueueing] = useState(false);
+    const [validation, setValidation] = useState<VideoValidationResult | null>(null);
+    const [isValidating, setIsValidating] = useState(false);
+    const [duplicateCheck, setDuplicateCheck] = useState<DuplicateCheck | null>(null);
+    const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+    const [allowDuplicate, setAllowDuplicate] = useState(false);
+    const [openVideo, setOpenVideo] = useState<VideoMetadata | null>(null);
+    const duplicateCheckRef = useRef<Promise<DuplicateCheck | null> | null>(null);
+    const [frameCandidates, setFrameCandidates] = useState<CapturedFrame[]>([]);
+    const [selectedFrame, setSelectedFrame] = useState<CapturedFrame | null>(null);
+    const [isCapturingFrames, setIsCapturingFrames] = useState(false);
+    const [videoLength, setVideoLength] = useState(0);
+    const [scrubTime, setScrubTime] = useState(0);
+    const frameGrabberRef = useRef<{ grabber: FrameGrabber; url: string; previews: string[] } | null>(null);
     const videoInputRef = useRef<HTMLInputElement>(null);
     const thumbnailInputRef = useRef<HTMLInputElement>(null);
 
-    const categories = [
-        'Education', 'Entertainment', 'Gaming', 'Music',
-        'Sports', 'Technology', 'Other'
-    ];
+    /**
+     * Effect hook to release captured frames when the form unmounts
+     */
+    useEffect(() => {
+        return () => releaseFrames();
+    }, []);
 
     /**
-     * List of allowed video formats with their MIME types and extensions
+     * Closes the frame grabber of the selected video and discards its captured frames
      */
-    const ALLOWED_VIDEO_FORMATS = {
-        'video/mp4': ['.mp4'],
-        'video/webm': ['.webm'],
-        'video/x-matroska': ['.mkv'],
-        'video/quicktime': ['.mov'],
-        'video/x-msvideo': ['.avi'],
-        'video/x-ms-wmv': ['.wmv'],
-        'video/x-flv': ['.flv']
+    const releaseFrames = () => {
+        const current = frameGrabberRef.current;
+        if (current) {
+            current.grabber.close();
+            URL.revokeObjectURL(current.url);
+            current.previews.forEach(url => URL.revokeObjectURL(url));
+            frameGrabberRef.current = null;
+        }
+        setFrameCandidates([]);
+        setSelectedFrame(null);
+        setVideoLength(0);
+        setScrubTime(0);
+    };
+
+    /**
+     * Captures thumbnail candidates from a selected video file and preselects the first one.
+     * Failure is not an error: the user can still choose an image or upload without one.
+     * @async
+     * @param {File} file - The selected video file
+     */
+    const prepareFrameCandidates = async (file: File) => {
+        releaseFrames();
+        const url = URL.createObjectURL(file);
+        const current = { grabber: new FrameGrabber(url), url, previews: [] as string[] };
+        frameGrabberRef.current = current;
+
+        setIsCapturingFrames(true);
+        try {
+            const length = await current.grabber.getDuration();
+            const frames = await current.grabber.captureCandidates(FRAME_CANDIDATES);
+            if (frameGrabberRef.current !== current) {
+                frames.forEach(frame => URL.revokeObjectURL(frame.previewUrl));
+                return;
+            }
+            current.previews.push(...frames.map(frame => frame.previewUrl));
+
+            setVideoLength(length);
+            setScrubTime(frames[0]?.time ?? 0);
+            setFrameCandidates(frames);
+            setSelectedFrame(frames[0] ?? null);
+        } catch (error) {
+            console.error('Error capturing thumbnail frames:', error);
+        } finally {
+            if (frameGrabberRef.current === current) {
+                setIsCapturingFrames(false);
+            }
+        }
+    };
+
+    /**
+     * Looks for videos already stored with the same contents as the selected file. A failed
+     * check is logged and treated as no duplicates, so it never blocks an upload.
+     * @async
+     * @param {File} file - The selected video file
+     */
+    const checkDuplicates = async (file: File) => {
+        const check = s3Service.findDuplicates(file).catch((error) => {
+            console.error('Error checking for duplicate videos:', error);
+            return null;
+        });
+        duplicateCheckRef.current = check;
+        setDuplicateCheck(null);
+        setAllowDuplicate(false);
+        setIsCheckingDuplicates(true);
+
+        const result = await check;
+        if (duplicateCheckRef.current === check) {
+            setDuplicateCheck(result);
+            setIsCheckingDuplicates(false);
+        }
+    };
+
+    /**
+     * Forgets the duplicate check of the previously selected file
+     */
+    const clearDuplicateCheck = () => {
+        duplicateCheckRef.current = null;
+        setDuplicateCheck(null);
+        setIsCheckingDuplicates(false);
+        setAllowDuplicate(false);
+    };
+
+    /**
+     * Drops the selected file and opens the existing copy of it instead
+     * @param {VideoMetadata} video - The existing video
+     */
+    const handleUseExisting = (video: VideoMetadata) => {
+        resetForm();
+        setOpenVideo(video);
+    };
+
+    /**
+     * Captures the frame at the scrubber position and selects it
+     * @async
+     */
+    const handleCaptureAtScrub = async () => {
+        const current = frameGrabberRef.current;
+        if (!current) return;
+
+        try {
+            const frame = await current.grabber.capture(scrubTime);
+            current.previews.push(frame.previewUrl);
+            setFrameCandidates(prev => [...prev, frame]);
+            setSelectedFrame(frame);
+        } catch (error) {
+            toast.error('Could not capture frame');
+        }
     };
 
     /**
-     * Validates if the file is an acceptable video format
-     * @param {File} file - The file to validate
-     * @returns {boolean} Whether the file format is valid
+     * Clears the video selection after a file is rejected
      */
-    const isValidVideoFormat = (file: File): boolean => {
-        // Check MIME type
-        const mimeType = file.type;
-        if (!Object.keys(ALLOWED_VIDEO_FORMATS).includes(mimeType)) {
-
-            const fileName = file.name.toLowerCase();
-            const extension = '.' + fileName.split('.').pop();
-            return Object.values(ALLOWED_VIDEO_FORMATS)
-                .flat()
-                .includes(extension);
+    const rejectVideoFile = () => {
+        if (videoInputRef.current) {
+            videoInputRef.current.value = '';
         }
-        return true;
+        setVideoFile(null);
+        releaseFrames();
+        clearDuplicateCheck();
     };
 
     /**
-     * Handles video file upload and metadata extraction
+     * Handles video file selection. The file's contents are checked against the upload policy
+     * in the main process, which also reports its duration; policy violations are listed in
+     * the form and block the upload.
      * @param {ChangeEvent<HTMLInputElement>} e - The file input change event
      */
     const handleVideoUpload = async (e: ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
 
-        if (!isValidVideoFormat(file)) {
-            toast.error('Invalid video format. Allowed formats: MP4, WebM, MKV, MOV, AVI, WMV, FLV');
-            if (videoInputRef.current) {
-                videoInputRef.current.value = '';
-            }
-            setVideoFile(null);
-            return;
-        }
+        setVideoFile(file);
+        setValidation(null);
+        releaseFrames();
+        clearDuplicateCheck();
+        setIsValidating(true);
 
         try {
-            const withinLimit = await s3Service.checkStorageLimit(file.size);
-            if (!withinLimit) {
-                const storageInfo = await s3Service.getStorageInfo();
-                const availableMB = Math.floor(storageInfo.available / (1024 * 1024));
-                toast.error(`File too large. Only ${availableMB}MB available.`);
-                if (videoInputRef.current) {
-                    videoInputRef.current.value = '';
-                }
-                setVideoFile(null);
+            const result = await s3Service.validateVideo(file);
+            setValidation(result);
+            if (!result.valid) {
                 return;
             }
 
-            setVideoFile(file);
-            toast.success('Video file selected successfully');
+            const storageInfo = await s3Service.getStorageInfo();
+            if (file.size > storageInfo.available) {
+                toast.error(`File too large. Only ${formatBytes(storageInfo.available)} available.`);
+                rejectVideoFile();
+                return;
+            }
 
-            const videoUrl = URL.createObjectURL(file);
-            const video = document.createElement('video');
-            video.preload = 'metadata';
+            const warning = reachedWarningThreshold(storageInfo.used + file.size, storageInfo.total, storageInfo.warningThresholds);
+            if (warning !== null) {
+                toast(`This upload will use over ${Math.round(warning * 100)}% of your storage quota.`, { icon: '⚠️' });
+            }
 
-            await new Promise((resolve, reject) => {
-                video.onloadedmetadata = resolve;
-                video.onerror = reject;
-                video.src = videoUrl;
-            });
+            toast.success('Video file selected successfully');
+            prepareFrameCandidates(file);
+            checkDuplicates(file);
 
-            const duration = Math.floor(video.duration);
+            const duration = Math.floor(result.duration ?? 0);
             setFormData(prev => ({
                 ...prev,
                 duration: `${Math.floor(duration / 60)}:${String(duration % 60).padStart(2, '0')}`
             }));
-
-            URL.revokeObjectURL(videoUrl);
         } catch (error) {
             toast.error('Error processing video file');
-            if (videoInputRef.current) {
-                videoInputRef.current.value = '';
-            }
-            setVideoFile(null);
+            rejectVideoFile();
+            setValidation(null);
+        } finally {
+            setIsValidating(false);
         }
     };
 
@@ -132,7 +241,7 @@ const VideoUploadForm: React.FC = () => {
      */
     const handleThumbnailUpload = (e: ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (file && file.type.startsWith('image/')) {
+        if (file && isValidThumbnail(file)) {
             setThumbnail(file);
             toast.success('Thumbnail selected successfully');
         } else {
@@ -141,7 +250,31 @@ const VideoUploadForm: React.FC = () => {
     };
 
     /**
-     * Handles form submission and video upload process
+     * Clears the form for the next video
+     */
+    const resetForm = () => {
+        setFormData({
+            title: '',
+            description: '',
+            category: '',
+            isPublic: true,
+            duration: '',
+        });
+        setVideoFile(null);
+        setThumbnail(null);
+        setValidation(null);
+        releaseFrames();
+        clearDuplicateCheck();
+        if (videoInputRef.current) {
+            videoInputRef.current.value = '';
+        }
+        if (thumbnailInputRef.current) {
+            thumbnailInputRef.current.value = '';
+        }
+    };
+
+    /**
+     * Handles form submission by adding the video, its metadata and thumbnail to the upload queue
      * @param {FormEvent<HTMLFormElement>} e - The form submission event
      */
     const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
@@ -152,27 +285,35 @@ const VideoUploadForm: React.FC = () => {
             return;
         }
 
-        if (!formData.title.trim()) {
-            toast.error('Please enter a title');
+        if (isValidating) {
+            toast.error('Still checking the video file');
             return;
         }
 
-        setIsUploading(true);
-        toast.loading('Starting upload...', { duration: 2000 });
-        const uploadToastId = toast.loading('Preparing upload...');
+        if (!validation?.valid) {
+            toast.error('This video cannot be uploaded. See the problems listed under the file.');
+            return;
+        }
 
-        try {
-            const { username } = await getCurrentUser();
+        const detailsError = validateVideoDetails(formData);
+        if (detailsError) {
+            toast.error(detailsError);
+            return;
+        }
 
-            const videoId = uuidv4();
-            const videoKey = `${uuidv4()}-${videoFile.name}`;
-            const thumbnailKey = thumbnail ? `${uuidv4()}-${thumbnail.name}` : '';
+        setIsQueueing(true);
 
+        try {
+            const check = await duplicateCheckRef.current;
+            if (check && check.duplicates.length > 0 && !allowDuplicate) {
+                toast.error('This video has already been uploaded. Use the existing video or choose "Upload anyway".');
+                return;
+            }
 
-            toast.loading('Uploading video...', { id: uploadToastId });
+            const { username } = await getCurrentUser();
 
-            const videoUploadResult = await s3Service.uploadVideo(videoFile, videoKey, {
-                id: videoId,
+            const item = await uploadQueueService.add(videoFile, {
+                id: uuidv4(),
                 userId: username,
                 title: formData.title,
                 description: formData.description,
@@ -180,51 +321,22 @@ const VideoUploadForm: React.FC = () => {
                 duration: formData.duration,
                 isPublic: formData.isPublic,
                 uploadDate: new Date().toISOString(),
-            });
-
-            if (!videoUploadResult.success) {
-                throw new Error(videoUploadResult.error);
-            }
+            }, thumbnail || (selectedFrame && frameToFile(selectedFrame, videoFile.name)));
 
-            if (thumbnail && thumbnailKey) {
-                toast.loading('Uploading thumbnail...', { id: uploadToastId });
-                const thumbnailUploadResult = await s3Service.uploadThumbnail(thumbnail, thumbnailKey, videoId);
-                if (!thumbnailUploadResult.success) {
-                    throw new Error(thumbnailUploadResult.error);
-                }
-            }
-
-            Hub.dispatch('videos', {
-                event: 'videoUploaded',
-                data: { videoId }
-            });
-
-            Hub.dispatch(STORAGE_CHANNEL, {
-                event: 'storageUpdated'
-            });
-
-            setFormData({
-                title: '',
-                description: '',
-                category: '',
-                isPublic: true,
-                duration: '',
-            });
-            setVideoFile(null);
-            setThumbnail(null);
-
-            toast.dismiss(uploadToastId);
-            toast.success('Upload successful!');
+            resetForm();
+            toast.success('Added to the upload queue');
+            notifyContentViolations(item.contentViolations);
         } catch (error) {
-            toast.error(`Upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            toast.error(`Could not queue upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
         } finally {
-            setIsUploading(false);
+            setIsQueueing(false);
         }
     };
 
     return (
         <div className="max-w-lg mx-auto bg-gray-400 rounded-lg shadow p-4 text-gray-700">
             <h2 className="text-xl font-bold mb-4">Upload Video</h2>
+
             <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
                     <label className="block text-sm font-medium mb-1">Video File*</label>
@@ -248,6 +360,50 @@ const VideoUploadForm: React.FC = () => {
                             required
                         />
                     </div>
+                    {isValidating && (
+                        <p className="mt-1 text-xs text-gray-600">Checking the video...</p>
+                    )}
+                    {validation && !validation.valid && (
+                        <ul className="mt-2 p-2 rounded-lg bg-red-100 border border-red-400 text-sm text-red-700 list-disc list-inside">
+                            {validation.violations.map((violation) => (
+                                <li key={violation}>{violation}</li>
+                            ))}
+                        </ul>
+                    )}
+                    {isCheckingDuplicates && (
+                        <p className="mt-1 text-xs text-gray-600">Checking for duplicates...</p>
+                    )}
+                    {videoFile && duplicateCheck && duplicateCheck.duplicates.length > 0 && !allowDuplicate && (
+                        <div className="mt-2 p-2 rounded-lg bg-yellow-100 border border-yellow-400 text-sm">
+                            <p className="font-medium">This file has already been uploaded</p>
+                            <p className="text-xs mb-2">
+                                Uploading it again would use another {formatBytes(videoFile.size)} of your storage.
+                            </p>
+                            <ul className="space-y-1 mb-2">
+                                {duplicateCheck.duplicates.map((video) => (
+                                    <li key={video.id} className="flex items-center justify-between gap-2">
+                                        <span className="truncate">
+                                            {video.title} <span className="text-xs text-gray-500">by {video.userId}</span>
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleUseExisting(video)}
+                                            className="flex-shrink-0 text-blue-600 hover:text-blue-800"
+                                        >
+                                            Use existing video
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                            <button
+                                type="button"
+                                onClick={() => setAllowDuplicate(true)}
+                                className="text-xs text-gray-600 hover:text-gray-800 underline"
+                            >
+                                Upload anyway
+                            </button>
+                        </div>
+                    )}
                 </div>
 
                 <div>
@@ -279,7 +435,7 @@ const VideoUploadForm: React.FC = () => {
                         onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
                     >
                         <option value="">Select category</option>
-                        {categories.map((category) => (
+                        {VIDEO_CATEGORIES.map((category) => (
                             <option key={category} value={category.toLowerCase()}>{category}</option>
                         ))}
                     </select>
@@ -301,6 +457,59 @@ const VideoUploadForm: React.FC = () => {
                             className="hidden"
                         />
                     </div>
+                    {thumbnail && frameCandidates.length > 0 && (
+                        <button
+                            type="button"
+                            onClick={() => setThumbnail(null)}
+                            className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                        >
+                            Use a frame from the video instead
+                        </button>
+                    )}
+                    {!thumbnail && isCapturingFrames && (
+                        <p className="mt-2 text-xs text-gray-600">Generating thumbnail suggestions...</p>
+                    )}
+                    {!thumbnail && frameCandidates.length > 0 && (
+                        <div className="mt-2">
+                            <p className="text-xs mb-1">Or pick a frame from the video</p>
+                            <div className="grid grid-cols-4 gap-2">
+                                {frameCandidates.map((frame) => (
+                                    <button
+                                        type="button"
+                                        key={frame.previewUrl}
+                                        onClick={() => setSelectedFrame(frame)}
+                                        className={`rounded overflow-hidden ring-2 ${
+                                            selectedFrame === frame ? 'ring-blue-600' : 'ring-transparent hover:ring-blue-300'
+                                        }`}
+                                        aria-label={`Use frame at ${formatTimestamp(frame.time)}`}
+                                    >
+                                        <img src={frame.previewUrl} alt="" className="w-full h-14 object-cover" />
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex items-center gap-2 mt-2 text-xs">
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={videoLength}
+                                    step={0.1}
+                                    value={scrubTime}
+                                    onChange={(e) => setScrubTime(Number(e.target.value))}
+                                    className="flex-1"
+                                    aria-label="Frame position"
+                                />
+                                <span className="w-10 text-right">{formatTimestamp(scrubTime)}</span>
+                                <button
+                                    type="button"
+                                    onClick={handleCaptureAtScrub}
+                                    disabled={isCapturingFrames}
+                                    className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                                >
+                                    Use this frame
+                                </button>
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 <div className="flex items-center justify-between">
@@ -330,11 +539,18 @@ const VideoUploadForm: React.FC = () => {
                 <button
                     type="submit"
                     className="w-full bg-blue-600 text-white py-1.5 px-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 text-sm"
-                    disabled={isUploading}
+                    disabled={isQueueing}
                 >
-                    {isUploading ? 'Uploading...' : 'Upload Video'}
+                    {isQueueing ? 'Adding...' : 'Add to Upload Queue'}
                 </button>
             </form>
+
+            {openVideo && (
+                <VideoOverlay
+                    video={openVideo}
+                    onClose={() => setOpenVideo(null)}
+                />
+            )}
         </div>
     );
 };
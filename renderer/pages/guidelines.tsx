@@ -61,6 +61,39 @@ const Guidelines = () => {
                     </ul>
                 </div>
 
+                <div id="community-guidelines" className="bg-gray-800 p-6 rounded-lg">
+                    <h2 className="text-2xl font-semibold mb-4">Community Guidelines</h2>
+                    <p className="mb-4">
+                        Reviews, replies, video titles and descriptions are checked against these rules when they are saved.
+                        Text that breaks a rule is rejected, has the offending part masked, or waits for a moderator, and
+                        you are told which rule it broke. The limits below are the defaults.
+                    </p>
+                    <div className="ml-4 space-y-4">
+                        <div id="respectful-language">
+                            <h3 className="text-xl font-semibold mb-1">Be respectful</h3>
+                            <p>No insults, slurs or profanity. Blocked words are masked.</p>
+                        </div>
+                        <div id="no-links">
+                            <h3 className="text-xl font-semibold mb-1">No links or advertising</h3>
+                            <p>
+                                Reviews, replies and titles cannot contain links; descriptions can contain up to three.
+                                Reviews and replies with links wait for a moderator, and other text with too many is rejected.
+                            </p>
+                        </div>
+                        <div id="no-spam">
+                            <h3 className="text-xl font-semibold mb-1">No spam</h3>
+                            <p>
+                                No long runs of the same character, the same word over and over, or text written mostly in
+                                capitals. Reviews and replies that look like spam wait for a moderator, and other text is rejected.
+                            </p>
+                        </div>
+                        <div id="length-limits">
+                            <h3 className="text-xl font-semibold mb-1">Keep it concise</h3>
+                            <p>Reviews and replies up to 2,000 characters, titles up to 100 and descriptions up to 5,000.</p>
+                        </div>
+                    </div>
+                </div>
+
                 <div className="bg-gray-800 p-6 rounded-lg">
                     <h2 className="text-2xl font-semibold mb-4">Optional Enhancements</h2>
                     <ul className="ml-4 space-y-1">
@@ -0,0 +1,28 @@
+import React from 'react';
+import Head from 'next/head'
+import ConsistencyChecker from '@/components/ConsistencyChecker';
+import MetadataMigration from '@/components/MetadataMigration';
+import ReviewDeduplication from '@/components/ReviewDeduplication';
+
+/**
+ * Page component for administrator maintenance tools.
+ * @component
+ */
+const MaintenancePage = () => {
+    return (
+        <>
+            <Head>
+                <title>Maintenance</title>
+            </Head>
+            <div className="min-h-screen ">
+                <main className="container mx-auto px-4 py-8">
+                    <ConsistencyChecker />
+                    <MetadataMigration />
+                    <ReviewDeduplication />
+                </main>
+            </div>
+        </>
+    );
+};
+
+export default MaintenancePage;
@@ -0,0 +1,28 @@
+import React, { useState } from 'react';
+import Head from 'next/head'
+import ModerationQueue from '@/components/ModerationQueue';
+import ModerationLog from '@/components/ModerationLog';
+
+/**
+ * Page component for moderators: the queue of reported content and the moderation log.
+ * @component
+ */
+const ModerationPage = () => {
+    const [logVersion, setLogVersion] = useState(0);
+
+    return (
+        <>
+            <Head>
+                <title>Moderation</title>
+            </Head>
+            <div className="min-h-screen ">
+                <main className="container mx-auto px-4 py-8">
+                    <ModerationQueue onModerated={() => setLogVersion(version => version + 1)} />
+                    <ModerationLog refreshKey={logVersion} />
+                </main>
+            </div>
+        </>
+    );
+};
+
+export default ModerationPage;
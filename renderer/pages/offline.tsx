@@ -0,0 +1,24 @@
+import React from 'react';
+import Head from 'next/head'
+import OfflineLibrary from '@/components/OfflineLibrary';
+
+/**
+ * Page component listing the videos downloaded for offline playback.
+ * @component
+ */
+const OfflinePage = () => {
+    return (
+        <>
+            <Head>
+                <title>Offline Videos</title>
+            </Head>
+            <div className="min-h-screen ">
+                <main className="container mx-auto px-4 py-8">
+                    <OfflineLibrary />
+                </main>
+            </div>
+        </>
+    );
+};
+
+export default OfflinePage;
@@ -0,0 +1,24 @@
+import React from 'react';
+import Head from 'next/head'
+import Trash from '@/components/Trash';
+
+/**
+ * Page component listing the signed-in user's deleted videos.
+ * @component
+ */
+const TrashPage = () => {
+    return (
+        <>
+            <Head>
+                <title>Trash</title>
+            </Head>
+            <div className="min-h-screen ">
+                <main className="container mx-auto px-4 py-8">
+                    <Trash />
+                </main>
+            </div>
+        </>
+    );
+};
+
+export default TrashPage;
@@ -2,6 +2,8 @@ import React from 'react';
 import Head from 'next/head'
 import VideoUploadForm from '../components/VideoUploadForm';
 import StorageIndicator from '@/components/StorageIndicator';
+import UploadQueuePanel from '@/components/UploadQueuePanel';
+import ThumbnailBackfill from '@/components/ThumbnailBackfill';
 
 /**
  * Page component for video upload functionality.
@@ -17,6 +19,8 @@ const UploadPage = () => {
             <div className="min-h-screen ">
                 <main className="container mx-auto px-4 py-8">
                     <VideoUploadForm />
+                    <UploadQueuePanel />
+                    <ThumbnailBackfill />
                 </main>
             </div>
         </>
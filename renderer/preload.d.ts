@@ -1,7 +1,13 @@
-import { IpcHandler } from '../main/preload'
+import { IpcHandler, S3Api, ReviewsApi, MaintenanceApi, ModerationApi, OfflineApi, UploadQueueApi } from '../main/preload'
 
 declare global {
   interface Window {
     ipc: IpcHandler
+    s3: S3Api
+    reviews: ReviewsApi
+    maintenance: MaintenanceApi
+    moderation: ModerationApi
+    offline: OfflineApi
+    uploadQueue: UploadQueueApi
   }
 }
@@ -0,0 +1,50 @@
+import { ConsistencyIssue, ConsistencyReport, MetadataMigrationReport, RepairResult, ReviewMergeReport } from '@/types/types';
+import { getAccessToken } from '@/utils/auth';
+
+/**
+ * Maintenance tools for administrators. The checks run in the main process;
+ * these methods forward each call over IPC.
+ */
+export const maintenanceService = {
+    /**
+     * Scans storage, metadata and the Reviews table for orphans and dangling references
+     * @async
+     * @returns {Promise<ConsistencyReport>} Everything found to be inconsistent
+     * @throws {Error} If the user is not an administrator or the scan fails
+     */
+    async scanConsistency(): Promise<ConsistencyReport> {
+        return window.maintenance.scanConsistency(await getAccessToken());
+    },
+
+    /**
+     * Repairs issues found by a scan
+     * @async
+     * @param {ConsistencyIssue[]} issues - The issues to repair
+     * @returns {Promise<RepairResult>} What was repaired, skipped and failed
+     * @throws {Error} If the user is not an administrator or the repair cannot start
+     */
+    async repairConsistency(issues: ConsistencyIssue[]): Promise<RepairResult> {
+        return window.maintenance.repairConsistency(await getAccessToken(), issues);
+    },
+
+    /**
+     * Upgrades every stored video metadata record to the current schema version,
+     * quarantining records that fail validation
+     * @async
+     * @returns {Promise<MetadataMigrationReport>} What was upgraded, quarantined and failed
+     * @throws {Error} If the user is not an administrator or the migration cannot start
+     */
+    async migrateMetadata(): Promise<MetadataMigrationReport> {
+        return window.maintenance.migrateMetadata(await getAccessToken());
+    },
+
+    /**
+     * Merges the reviews of users who reviewed the same video more than once, keeping the latest
+     * @async
+     * @returns {Promise<ReviewMergeReport>} What was merged, and the reviews that could not be
+     * @throws {Error} If the user is not an administrator or the reviews cannot be read
+     */
+    async mergeDuplicateReviews(): Promise<ReviewMergeReport> {
+        return window.maintenance.mergeDuplicateReviews(await getAccessToken());
+    }
+};
@@ -0,0 +1,64 @@
+import {
+    ModerationTarget,
+    ModerationAction,
+    ModerationQueueItem,
+    ModerationLogPage,
+    ReportReason,
+    ReportResult
+} from '@/types/types';
+import { getAccessToken } from '@/utils/auth';
+
+/**
+ * Reporting and moderation of reviews and replies. The decisions run in the main process;
+ * these methods forward each call over IPC.
+ */
+export const moderationService = {
+    /**
+     * Reports a review or reply on behalf of the signed-in user
+     * @async
+     * @param {ModerationTarget} target - The review or reply
+     * @param {ReportReason} reason - Why it is reported
+     * @param {string} [note] - Anything the user adds
+     * @returns {Promise<ReportResult>} Whether the item is now hidden
+     * @throws {Error} If the item is the user's own or was already reported by them
+     */
+    async report(target: ModerationTarget, reason: ReportReason, note?: string): Promise<ReportResult> {
+        return window.moderation.report(await getAccessToken(), target, reason, note);
+    },
+
+    /**
+     * Lists the reported reviews and replies awaiting a decision
+     * @async
+     * @returns {Promise<ModerationQueueItem[]>} The queue, most reported first
+     * @throws {Error} If the user is not a moderator or the database operation fails
+     */
+    async getQueue(): Promise<ModerationQueueItem[]> {
+        return window.moderation.getQueue(await getAccessToken());
+    },
+
+    /**
+     * Approves, hides or deletes a reported review or reply
+     * @async
+     * @param {ModerationTarget} target - The review or reply
+     * @param {ModerationAction} action - The decision
+     * @param {string} [note] - Note recorded in the moderation log
+     * @returns {Promise<void>}
+     * @throws {Error} If the user is not a moderator or the item no longer exists
+     */
+    async moderate(target: ModerationTarget, action: ModerationAction, note?: string): Promise<void> {
+        await window.moderation.moderate(await getAccessToken(), target, action, note);
+    },
+
+    /**
+     * Reads the moderation log, newest first
+     * @async
+     * @param {string} [cursor] - Cursor returned with the previous page
+     * @returns {Promise<ModerationLogPage>} The page of entries
+     * @throws {Error} If the user is not a moderator or the database query fails
+     */
+    async getLog(cursor?: string): Promise<ModerationLogPage> {
+        return window.moderation.getLog(await getAccessToken(), { cursor });
+    }
+};
+
+export default moderationService;
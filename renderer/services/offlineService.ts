@@ -0,0 +1,68 @@
+import { Hub } from 'aws-amplify/utils';
+import { OfflineVideo, OfflineLibraryInfo, SaveVideoResult } from '@/types/types';
+import { getAccessToken } from '@/utils/auth';
+
+/** Hub channel notified whenever the offline library changes */
+export const OFFLINE_CHANNEL = 'offline';
+
+/**
+ * Offline library operations. Files are downloaded and kept by the main process;
+ * these methods forward each call over IPC.
+ */
+export const offlineService = {
+    /**
+     * Downloads a video and its thumbnail for offline playback
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<OfflineVideo>} The downloaded video
+     * @throws {Error} If the video cannot be downloaded
+     */
+    async download(videoId: string): Promise<OfflineVideo> {
+        const accessToken = await getAccessToken().catch(() => null);
+        const offlineVideo = await window.offline.download(accessToken, videoId);
+        Hub.dispatch(OFFLINE_CHANNEL, { event: 'libraryUpdated', data: { videoId } });
+        return offlineVideo;
+    },
+
+    /**
+     * Subscribes to progress of running downloads
+     * @param {(videoId: string, progress: number) => void} callback - Called with the percentage downloaded
+     * @returns {() => void} Function that removes the subscription
+     */
+    onDownloadProgress(callback: (videoId: string, progress: number) => void): () => void {
+        return window.offline.onDownloadProgress(callback);
+    },
+
+    /**
+     * Lists the videos the signed-in user downloaded and the disk space they use
+     * @async
+     * @returns {Promise<OfflineLibraryInfo>} The library
+     */
+    async getLibrary(): Promise<OfflineLibraryInfo> {
+        const accessToken = await getAccessToken().catch(() => null);
+        return window.offline.getLibrary(accessToken);
+    },
+
+    /**
+     * Removes a downloaded video from the library
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<void>}
+     */
+    async remove(videoId: string): Promise<void> {
+        const accessToken = await getAccessToken().catch(() => null);
+        await window.offline.remove(accessToken, videoId);
+        Hub.dispatch(OFFLINE_CHANNEL, { event: 'libraryUpdated', data: { videoId } });
+    },
+
+    /**
+     * Asks where to save a video's original file and saves it there
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<SaveVideoResult>} Where the file was saved, or why not
+     */
+    async saveAs(videoId: string): Promise<SaveVideoResult> {
+        const accessToken = await getAccessToken().catch(() => null);
+        return window.offline.saveAs(accessToken, videoId);
+    }
+};
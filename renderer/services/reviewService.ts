@@ -1,79 +1,91 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import {
-    DynamoDBDocumentClient,
-    PutCommand,
-    QueryCommand,
-    UpdateCommand,
-    DeleteCommand,
-    GetCommand
-} from '@aws-sdk/lib-dynamodb';
-import { ENV } from '@/config/env';
-import { getCurrentUser } from 'aws-amplify/auth';
-import { Review, Reply, UpdateReviewData } from '@/types/types'
+import { Review, Reply, NewReply, UpdateReviewData, HelpfulVote, ReviewListOptions, ReviewPage, ReviewChanges, RatingSummary, RatingHistoryPoint } from '@/types/types'
+import { getAccessToken } from '@/utils/auth';
+
+/** How often a followed review list asks for changes */
+const POLL_INTERVAL_MS = 15 * 1000;
 
 /**
- * Initialize DynamoDB client with ENV config
+ * Review operations. The DynamoDB calls run in the main process;
+ * these methods forward each call over IPC.
  */
-const client = new DynamoDBClient({
-    region: ENV.AWS_REGION,
-    credentials: {
-        accessKeyId: ENV.AWS_ACCESS_KEY_ID,
-        secretAccessKey: ENV.AWS_SECRET_ACCESS_KEY
-    }
-});
-
-if (!ENV.AWS_REGION || !ENV.AWS_ACCESS_KEY_ID || !ENV.AWS_SECRET_ACCESS_KEY) {
-    throw new Error('AWS configuration is missing. Please check your environment variables.');
-}
-
-const docClient = DynamoDBDocumentClient.from(client);
-
 export const reviewService = {
     /**
      * Creates a new review for a video
      * @async
      * @param {Omit<Review, 'id' | 'createdAt' | 'updatedAt'>} review - Review data without system-generated fields
      * @returns {Promise<Review>} The created review with all fields populated
-     * @throws {Error} If the database operation fails
+     * @throws {Error} If the user already reviewed the video or the database operation fails
      */
     async createReview(review: Omit<Review, 'id' | 'createdAt' | 'updatedAt'>): Promise<Review> {
-        const timestamp = new Date().toISOString();
-        const reviewId = `${review.videoId}#${timestamp}`;
-
-        const newReview: Review = {
-            ...review,
-            id: reviewId,
-            createdAt: timestamp,
-            updatedAt: timestamp,
-            replies: []
-        };
-
-        await docClient.send(new PutCommand({
-            TableName: 'Reviews',
-            Item: newReview
-        }));
-
-        return newReview;
+        return window.reviews.createReview(await getAccessToken(), review);
     },
 
     /**
-     * Retrieves all reviews for a specific video
+     * Retrieves one page of a video's reviews, with the signed-in user's own votes
      * @async
      * @param {string} videoId - ID of the video to get reviews for
-     * @returns {Promise<Review[]>} Array of reviews for the video
-     * @throws {Error} If the database query fails
+     * @param {ReviewListOptions} [options] - Order, rating filter, cursor of the previous page and page size
+     * @returns {Promise<ReviewPage>} The page of reviews and the cursor for the next one
+     * @throws {Error} If the cursor is malformed or the database query fails
+     */
+    async getVideoReviews(videoId: string, options: ReviewListOptions = {}): Promise<ReviewPage> {
+        const accessToken = await getAccessToken().catch(() => null);
+        return window.reviews.getVideoReviews(accessToken, videoId, options);
+    },
+
+    /**
+     * Follows changes to a video's reviews by polling with change tokens. Polls are skipped
+     * while the window is hidden or the previous poll is still running; a failed poll is
+     * retried at the next interval from the same token, so no change is lost.
+     * @param {string} videoId - ID of the video
+     * @param {string} changeToken - Token from the page the list was loaded from
+     * @param {() => string[]} getKnownIds - Returns the IDs of the reviews the caller has, checked for deletion
+     * @param {(changes: ReviewChanges) => void} onChanges - Called with the result of every poll
+     * @returns {() => void} Stops following the reviews
      */
-    async getVideoReviews(videoId: string): Promise<Review[]> {
-        const response = await docClient.send(new QueryCommand({
-            TableName: 'Reviews',
-            IndexName: 'videoId-index',
-            KeyConditionExpression: 'videoId = :videoId',
-            ExpressionAttributeValues: {
-                ':videoId': videoId
+    watchReviews(
+        videoId: string,
+        changeToken: string,
+        getKnownIds: () => string[],
+        onChanges: (changes: ReviewChanges) => void
+    ): () => void {
+        let token = changeToken;
+        let polling = false;
+        let stopped = false;
+
+        const poll = async () => {
+            if (polling || document.visibilityState === 'hidden') return;
+            polling = true;
+            try {
+                const accessToken = await getAccessToken().catch(() => null);
+                const changes = await window.reviews.getReviewChanges(accessToken, videoId, token, getKnownIds());
+                if (!stopped) {
+                    token = changes.changeToken;
+                    onChanges(changes);
+                }
+            } catch (error) {
+                console.error('Error fetching review changes:', error);
+            } finally {
+                polling = false;
             }
-        }));
+        };
 
-        return response.Items as Review[];
+        const timer = setInterval(poll, POLL_INTERVAL_MS);
+        return () => {
+            stopped = true;
+            clearInterval(timer);
+        };
+    },
+
+    /**
+     * Gets the signed-in user's review of a video
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<Review | null>} The review, or null if the user has not reviewed the video
+     * @throws {Error} If no user is signed in or the database operation fails
+     */
+    async getUserReview(videoId: string): Promise<Review | null> {
+        return window.reviews.getUserReview(await getAccessToken(), videoId);
     },
 
     /**
@@ -85,40 +97,7 @@ export const reviewService = {
      * @throws {Error} If review not found, user unauthorized, or database operation fails
      */
     async updateReview(reviewId: string, data: UpdateReviewData): Promise<Review> {
-        const getResult = await docClient.send(new GetCommand({
-            TableName: 'Reviews',
-            Key: { id: reviewId }
-        }));
-
-        const review = getResult.Item as Review;
-        if (!review) {
-            throw new Error('Review not found');
-        }
-
-        const currentUser = await getCurrentUser();
-        const currentUserId = currentUser.userId;
-
-        if (review.userId !== currentUserId) {
-            throw new Error('Unauthorized to edit this review');
-        }
-
-        const response = await docClient.send(new UpdateCommand({
-            TableName: 'Reviews',
-            Key: { id: reviewId },
-            UpdateExpression: 'set #c = :comment, #r = :rating, updatedAt = :updatedAt',
-            ExpressionAttributeNames: {
-                '#c': 'comment',
-                '#r': 'rating'
-            },
-            ExpressionAttributeValues: {
-                ':comment': data.comment,
-                ':rating': data.rating,
-                ':updatedAt': new Date().toISOString()
-            },
-            ReturnValues: 'ALL_NEW'
-        }));
-
-        return response.Attributes as Review;
+        return window.reviews.updateReview(await getAccessToken(), reviewId, data);
     },
 
     /**
@@ -129,74 +108,90 @@ export const reviewService = {
      * @throws {Error} If review not found, user unauthorized, or database operation fails
      */
     async deleteReview(reviewId: string): Promise<void> {
+        await window.reviews.deleteReview(await getAccessToken(), reviewId);
+    },
 
-        const getResult = await docClient.send(new GetCommand({
-            TableName: 'Reviews',
-            Key: { id: reviewId }
-        }));
-
-        const review = getResult.Item as Review;
-        if (!review) {
-            throw new Error('Review not found');
-        }
+    /**
+     * Adds a reply to a review, or to another reply of the same review
+     * @async
+     * @param {string} reviewId - ID of the review the conversation belongs to
+     * @param {NewReply} reply - Text of the reply and the reply it answers, if any
+     * @returns {Promise<Reply>} The new reply
+     * @throws {Error} If the thread is already nested as deep as allowed or the database operation fails
+     */
+    async addReply(reviewId: string, reply: NewReply): Promise<Reply> {
+        return window.reviews.addReply(await getAccessToken(), reviewId, reply);
+    },
 
-        const currentUser = await getCurrentUser();
-        const currentUserId = currentUser.userId;
+    /**
+     * Changes the text of one of the signed-in user's replies
+     * @async
+     * @param {string} reviewId - ID of the review the reply belongs to
+     * @param {string} replyId - ID of the reply
+     * @param {string} content - The new text
+     * @returns {Promise<Reply>} The updated reply
+     * @throws {Error} If the reply is not found, user unauthorized, or database operation fails
+     */
+    async editReply(reviewId: string, replyId: string, content: string): Promise<Reply> {
+        return window.reviews.editReply(await getAccessToken(), reviewId, replyId, content);
+    },
 
-        if (review.userId !== currentUserId) {
-            throw new Error('Unauthorized to delete this review');
-        }
+    /**
+     * Deletes one of the signed-in user's replies
+     * @async
+     * @param {string} reviewId - ID of the review the reply belongs to
+     * @param {string} replyId - ID of the reply
+     * @returns {Promise<Reply[]>} The review's remaining replies
+     * @throws {Error} If the reply is not found, user unauthorized, or database operation fails
+     */
+    async deleteReply(reviewId: string, replyId: string): Promise<Reply[]> {
+        return window.reviews.deleteReply(await getAccessToken(), reviewId, replyId);
+    },
 
-        await docClient.send(new DeleteCommand({
-            TableName: 'Reviews',
-            Key: { id: reviewId }
-        }));
+    /**
+     * Marks a review helpful or not helpful for the signed-in user, replacing their earlier vote
+     * @async
+     * @param {string} reviewId - ID of the review
+     * @param {HelpfulVote | null} vote - The vote, or null to withdraw it
+     * @returns {Promise<Review>} The review with the new counts
+     * @throws {Error} If the review is the user's own or the database operation fails
+     */
+    async voteOnReview(reviewId: string, vote: HelpfulVote | null): Promise<Review> {
+        return window.reviews.voteOnReview(await getAccessToken(), reviewId, vote);
     },
 
     /**
-     * Adds a reply to an existing review
+     * Gets a video's review count, average rating and number of reviews per star
      * @async
-     * @param {string} reviewId - ID of the review to add reply to
-     * @param {Omit<Reply, 'id' | 'createdAt'>} reply - Reply data without system-generated fields
-     * @returns {Promise<Review>} The review with the new reply added
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<RatingSummary>} The rating summary
      * @throws {Error} If the database operation fails
      */
-    async addReply(reviewId: string, reply: Omit<Reply, 'id' | 'createdAt'>): Promise<Review> {
-        const newReply: Reply = {
-            ...reply,
-            id: `${reviewId}#${Date.now()}`,
-            createdAt: new Date().toISOString()
-        };
+    async getRatingSummary(videoId: string): Promise<RatingSummary> {
+        return window.reviews.getRatingSummary(videoId);
+    },
 
-        const response = await docClient.send(new UpdateCommand({
-            TableName: 'Reviews',
-            Key: { id: reviewId },
-            UpdateExpression: 'set replies = list_append(if_not_exists(replies, :empty_list), :reply)',
-            ExpressionAttributeValues: {
-                ':reply': [newReply],
-                ':empty_list': []
-            },
-            ReturnValues: 'ALL_NEW'
-        }));
-
-        return response.Attributes as Review;
+    /**
+     * Gets how the ratings of one of the signed-in user's videos built up, month by month
+     * @async
+     * @param {string} videoId - ID of the video
+     * @returns {Promise<RatingHistoryPoint[]>} One point per month with reviews, oldest first
+     * @throws {Error} If the user does not own the video or the database query fails
+     */
+    async getRatingHistory(videoId: string): Promise<RatingHistoryPoint[]> {
+        return window.reviews.getRatingHistory(await getAccessToken(), videoId);
     },
 
     /**
-     * Calculates the average rating for a video
+     * Gets the average rating for a video
      * @async
      * @param {string} videoId - ID of the video to calculate average rating for
      * @returns {Promise<{average: number, count: number}>} Object containing average rating and total review count
      * @throws {Error} If the database query fails
      */
     async getAverageRating(videoId: string): Promise<{ average: number; count: number }> {
-        const reviews = await this.getVideoReviews(videoId);
-        const total = reviews.reduce((sum, review) => sum + review.rating, 0);
-        return {
-            average: reviews.length ? total / reviews.length : 0,
-            count: reviews.length
-        };
+        return window.reviews.getAverageRating(videoId);
     }
 };
 
-export default reviewService;
\ No newline at end of file
+export default reviewService;
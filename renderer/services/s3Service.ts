@@ -1,167 +1,143 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, ListObjectsV2Command, HeadObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { Upload } from '@aws-sdk/lib-storage';
-import { ENV } from '@/config/env';
-import { VideoMetadata, UploadResult } from "@/types/types";
+import { VideoListOptions, VideoPage, VideoMetadataUpdate, VideoEditBase, UpdateVideoResult, TranscodeStatus, UploadResult, NewVideoMetadata, PendingUpload, UploadProgress, StorageInfo, DuplicateCheck, VideoValidationResult } from "@/types/types";
+import { UploadController } from '@/services/videoUpload';
+import { getAccessToken } from '@/utils/auth';
 
-const s3Client = new S3Client({
-    region: ENV.AWS_REGION,
-    credentials: {
-        accessKeyId: ENV.AWS_ACCESS_KEY_ID,
-        secretAccessKey: ENV.AWS_SECRET_ACCESS_KEY
-    }
-});
-
-const BUCKET_NAME = ENV.AWS_BUCKET_NAME;
-const MAX_STORAGE_BYTES = 4 * 1024 * 1024 * 1024;
-
-if (!ENV.AWS_REGION || !ENV.AWS_ACCESS_KEY_ID || !ENV.AWS_SECRET_ACCESS_KEY) {
-    throw new Error('AWS configuration is missing. Please check your environment variables.');
+/**
+ * Options for a video upload
+ * @interface VideoUploadOptions
+ * @property {(progress: UploadProgress) => void} [onProgress] - Called with byte-level progress
+ * @property {UploadController} [controller] - Controller used to pause, resume or cancel the upload
+ */
+export interface VideoUploadOptions {
+    onProgress?: (progress: UploadProgress) => void;
+    controller?: UploadController;
 }
 
 /**
- * Service class for managing S3 operations
+ * Service class for S3 operations. The AWS SDK calls run in the main process;
+ * this class forwards each call over IPC.
  * @class S3Service
  */
 class S3Service {
     /**
-     * Gets a signed URL for an S3 object
-     * @private
+     * Uploads a video file to S3 as a resumable multipart upload
      * @async
-     * @param {string} key - The S3 key of the object
-     * @returns {Promise<string>} The signed URL
+     * @param {File} file - The video file to upload
+     * @param {string} key - The key to use for the file in S3
+     * @param {NewVideoMetadata} metadata - The video metadata
+     * @param {VideoUploadOptions} [options] - Progress callback and pause/resume/cancel controller
+     * @returns {Promise<UploadResult>} The result of the upload operation
      */
-    private async getSignedUrl(key: string): Promise<string> {
-        const command = new GetObjectCommand({
-            Bucket: BUCKET_NAME,
-            Key: key
-        });
-        return getSignedUrl(s3Client, command, { expiresIn: 3600 });
+    async uploadVideo(file: File, key: string, metadata: NewVideoMetadata, options: VideoUploadOptions = {}): Promise<UploadResult> {
+        const controller = options.controller ?? new UploadController();
+        return this.trackUpload(controller, options, async () =>
+            window.s3.uploadVideo(await getAccessToken(), controller.id, window.s3.getPathForFile(file), key, metadata)
+        );
     }
 
     /**
-     * Stores video metadata in S3
-     * @private
+     * Resumes an interrupted upload from its original file, e.g. after the app was restarted
      * @async
-     * @param {VideoMetadata} metadata - The video metadata to store
-     * @returns {Promise<void>}
+     * @param {PendingUpload} pending - The interrupted upload, as returned by getPendingUploads
+     * @param {VideoUploadOptions} [options] - Progress callback and pause/resume/cancel controller
+     * @returns {Promise<UploadResult>} The result of the upload operation
      */
-    private async storeVideoMetadata(metadata: VideoMetadata): Promise<void> {
-        const metadataKey = `metadata/${metadata.id}.json`;
-        const command = new PutObjectCommand({
-            Bucket: BUCKET_NAME,
-            Key: metadataKey,
-            Body: JSON.stringify(metadata),
-            ContentType: 'application/json'
-        });
-        await s3Client.send(command);
+    async resumeVideoUpload(pending: PendingUpload, options: VideoUploadOptions = {}): Promise<UploadResult> {
+        const controller = options.controller ?? new UploadController();
+        return this.trackUpload(controller, options, async () =>
+            window.s3.resumeVideoUpload(await getAccessToken(), controller.id, pending.videoKey)
+        );
     }
 
     /**
-     * Reads video metadata from S3
-     * @private
+     * Checks a video file's contents against the upload policy before anything is sent.
+     * The file is sniffed and probed in the main process.
      * @async
-     * @param {string} videoId - ID of the video to read metadata for
-     * @returns {Promise<VideoMetadata | null>} The video metadata or null if not found
+     * @param {File} file - The video file about to be uploaded
+     * @returns {Promise<VideoValidationResult>} Whether the file may be uploaded, and why not
      */
-    private async readVideoMetadata(videoId: string): Promise<VideoMetadata | null> {
-        try {
-            const metadataKey = `metadata/${videoId}.json`;
-            const command = new GetObjectCommand({
-                Bucket: BUCKET_NAME,
-                Key: metadataKey
-            });
-            const response = await s3Client.send(command);
-            const contents = await response.Body?.transformToString();
-            return contents ? JSON.parse(contents) : null;
-        } catch (error) {
-            console.error('Error reading video metadata:', error);
-            return null;
-        }
+    async validateVideo(file: File): Promise<VideoValidationResult> {
+        return window.s3.validateVideo(window.s3.getPathForFile(file));
     }
 
     /**
-     * Uploads a video file to S3
+     * Finds videos already stored with the same contents as a file, among the signed-in
+     * user's own videos and the public ones. The file is hashed in the main process.
      * @async
-     * @param {File} file - The video file to upload
-     * @param {string} key - The key to use for the file in S3
-     * @param {Omit<VideoMetadata, 'videoUrl' | 'thumbnailUrl' | 'thumbnailKey' | 'videoKey'>} metadata - The video metadata
-     * @returns {Promise<UploadResult>} The result of the upload operation
+     * @param {File} file - The video file about to be uploaded
+     * @returns {Promise<DuplicateCheck>} The file's hash and any duplicates
+     * @throws {Error} If the file cannot be read
      */
-    async uploadVideo(file: File, key: string, metadata: Omit<VideoMetadata, 'videoUrl' | 'thumbnailUrl' | 'thumbnailKey' | 'videoKey'>): Promise<UploadResult> {
-        try {
-            const withinLimit = await this.checkStorageLimit(file.size);
-            if (!withinLimit) {
-                throw new Error('Upload would exceed 4GB storage limit');
-            }
-
-            const videoKey = `videos/${key}`;
-            const fileBuffer = await file.arrayBuffer();
+    async findDuplicates(file: File): Promise<DuplicateCheck> {
+        return window.s3.findDuplicates(await getAccessToken(), window.s3.getPathForFile(file));
+    }
 
-            const uploadCommand = new PutObjectCommand({
-                Bucket: BUCKET_NAME,
-                Key: videoKey,
-                Body: Buffer.from(fileBuffer),
-                ContentType: file.type
-            });
+    /**
+     * Lists the signed-in user's uploads that were interrupted and can be resumed
+     * @async
+     * @returns {Promise<PendingUpload[]>} The interrupted uploads
+     */
+    async getPendingUploads(): Promise<PendingUpload[]> {
+        return window.s3.getPendingUploads(await getAccessToken());
+    }
 
-            await s3Client.send(uploadCommand);
-            const videoUrl = await this.getSignedUrl(videoKey);
+    /**
+     * Discards an interrupted upload and releases the parts already stored on S3
+     * @async
+     * @param {string} videoKey - Video key of the interrupted upload
+     * @returns {Promise<void>}
+     */
+    async discardPendingUpload(videoKey: string): Promise<void> {
+        await window.s3.discardPendingUpload(await getAccessToken(), videoKey);
+    }
 
-            const newVideo: VideoMetadata = {
-                ...metadata,
-                videoKey,
-                videoUrl,
-                thumbnailKey: '',
-                thumbnailUrl: ''
-            };
+    /**
+     * Forwards progress and status events for an upload while it runs in the main process
+     * @private
+     * @async
+     * @param {UploadController} controller - Controller of the upload
+     * @param {VideoUploadOptions} options - Progress callback
+     * @param {() => Promise<UploadResult>} start - Starts the upload in the main process
+     * @returns {Promise<UploadResult>} The result of the upload operation
+     */
+    private async trackUpload(
+        controller: UploadController,
+        options: VideoUploadOptions,
+        start: () => Promise<UploadResult>
+    ): Promise<UploadResult> {
+        const stopProgress = window.s3.onUploadProgress((uploadId, progress) => {
+            if (uploadId === controller.id) options.onProgress?.(progress);
+        });
+        const stopStatus = window.s3.onUploadStatus((uploadId, status) => {
+            if (uploadId === controller.id) controller.setStatus(status);
+        });
 
-            await this.storeVideoMetadata(newVideo);
-            return { success: true, key: videoKey, url: videoUrl };
+        try {
+            return await start();
         } catch (error) {
             console.error('Upload error:', error);
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error'
             };
+        } finally {
+            stopProgress();
+            stopStatus();
         }
     }
 
     /**
-     * Uploads a thumbnail image for a video
+     * Uploads a thumbnail image for one of the user's videos, replacing its current one. The
+     * storage key is chosen by the main process.
      * @async
      * @param {File} file - The thumbnail file to upload
-     * @param {string} key - The key to use for the file in S3
      * @param {string} videoId - ID of the video this thumbnail belongs to
      * @returns {Promise<UploadResult>} The result of the upload operation
      */
-    async uploadThumbnail(file: File, key: string, videoId: string): Promise<UploadResult> {
+    async uploadThumbnail(file: File, videoId: string): Promise<UploadResult> {
         try {
-            const thumbnailKey = `thumbnails/${key}`;
-            const fileBuffer = await file.arrayBuffer();
-
-            const uploadCommand = new PutObjectCommand({
-                Bucket: BUCKET_NAME,
-                Key: thumbnailKey,
-                Body: Buffer.from(fileBuffer),
-                ContentType: file.type
-            });
-
-            await s3Client.send(uploadCommand);
-            const thumbnailUrl = await this.getSignedUrl(thumbnailKey);
-
-            // Update the video metadata
-            const videoMetadata = await this.readVideoMetadata(videoId);
-            if (videoMetadata) {
-                const updatedMetadata = {
-                    ...videoMetadata,
-                    thumbnailKey,
-                    thumbnailUrl
-                };
-                await this.storeVideoMetadata(updatedMetadata);
-            }
-
-            return { success: true, key: thumbnailKey, url: thumbnailUrl };
+            const data = new Uint8Array(await file.arrayBuffer());
+            return await window.s3.uploadThumbnail(await getAccessToken(), data, file.type, file.name, videoId);
         } catch (error) {
             console.error('Thumbnail upload error:', error);
             return {
@@ -172,83 +148,86 @@ class S3Service {
     }
 
     /**
-     * Retrieves all videos with their metadata
+     * Lists one page of videos, newest first. Signed-out users only see public videos.
      * @async
-     * @returns {Promise<VideoMetadata[]>} Array of video metadata objects
+     * @param {VideoListOptions} [options] - Scope, cursor from the previous page and page size
+     * @returns {Promise<VideoPage>} The videos and the cursor of the next page
      */
-    async getAllVideos(): Promise<VideoMetadata[]> {
-        try {
-            const command = new ListObjectsV2Command({
-                Bucket: BUCKET_NAME,
-                Prefix: 'metadata/'
-            });
-
-            const response = await s3Client.send(command);
-            if (!response.Contents) return [];
-
-            // Read each metadata file and update URLs
-            const videos = await Promise.all(
-                response.Contents
-                    .filter(item => item.Key?.endsWith('.json'))
-                    .map(async (item) => {
-                        if (!item.Key) return null;
-                        const videoId = item.Key.split('/').pop()?.replace('.json', '');
-                        if (!videoId) return null;
+    async listVideos(options: VideoListOptions = {}): Promise<VideoPage> {
+        const accessToken = await getAccessToken().catch(() => null);
+        return window.s3.listVideos(accessToken, options);
+    }
 
-                        const metadata = await this.readVideoMetadata(videoId);
-                        if (!metadata) return null;
+    /**
+     * Updates the editable fields of a video the signed-in user owns
+     * @async
+     * @param {string} videoId - ID of the video to update
+     * @param {VideoMetadataUpdate} updates - Fields to change
+     * @param {File} [thumbnail] - Replacement thumbnail; the previous one is deleted
+     * @param {VideoEditBase} [expected] - The values the edit started from; fields left unchanged are not
+     * written, and fields someone else changed in the meantime are reported as a conflict instead of saved
+     * @returns {Promise<UpdateVideoResult>} The updated video, or the reason the update failed
+     */
+    async updateVideoMetadata(
+        videoId: string,
+        updates: VideoMetadataUpdate,
+        thumbnail?: File,
+        expected?: VideoEditBase
+    ): Promise<UpdateVideoResult> {
+        try {
+            const thumbnailFile = thumbnail && {
+                data: new Uint8Array(await thumbnail.arrayBuffer()),
+                contentType: thumbnail.type,
+                fileName: thumbnail.name
+            };
+            return await window.s3.updateVideoMetadata(await getAccessToken(), videoId, updates, thumbnailFile, expected);
+        } catch (error) {
+            console.error('Update error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
 
-                        // Update signed URLs
-                        return {
-                            ...metadata,
-                            videoUrl: await this.getSignedUrl(metadata.videoKey),
-                            thumbnailUrl: metadata.thumbnailKey ? await this.getSignedUrl(metadata.thumbnailKey) : ''
-                        };
-                    })
-            );
+    /**
+     * Subscribes to status and progress updates of transcoding jobs
+     * @param {(videoId: string, status: TranscodeStatus) => void} callback - Called with each update
+     * @returns {() => void} Function that removes the subscription
+     */
+    onTranscodeStatus(callback: (videoId: string, status: TranscodeStatus) => void): () => void {
+        return window.s3.onTranscodeStatus(callback);
+    }
 
-            return videos.filter((video): video is VideoMetadata => video !== null);
+    /**
+     * Moves a video to the signed-in user's trash
+     * @async
+     * @param {string} videoId - ID of the video to trash
+     * @returns {Promise<{success: boolean; error?: string}>} Result of the operation
+     */
+    async trashVideo(videoId: string): Promise<{ success: boolean; error?: string }> {
+        try {
+            return await window.s3.trashVideo(await getAccessToken(), videoId);
         } catch (error) {
-            console.error('Error getting videos:', error);
-            return [];
+            console.error('Trash error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
         }
     }
 
     /**
-     * Deletes a video and its associated files from S3
+     * Restores a video from the signed-in user's trash
      * @async
-     * @param {string} videoId - ID of the video to delete
-     * @returns {Promise<{success: boolean; error?: string}>} Result of the delete operation
+     * @param {string} videoId - ID of the video to restore
+     * @returns {Promise<{success: boolean; error?: string}>} Result of the operation
      */
-    async deleteVideo(videoId: string): Promise<{ success: boolean; error?: string }> {
+    async restoreVideo(videoId: string): Promise<{ success: boolean; error?: string }> {
         try {
-            const metadata = await this.readVideoMetadata(videoId);
-            if (!metadata) {
-                throw new Error('Video not found');
-            }
-
-            if (metadata.videoKey) {
-                await s3Client.send(new DeleteObjectCommand({
-                    Bucket: BUCKET_NAME,
-                    Key: metadata.videoKey
-                }));
-            }
-
-            if (metadata.thumbnailKey) {
-                await s3Client.send(new DeleteObjectCommand({
-                    Bucket: BUCKET_NAME,
-                    Key: metadata.thumbnailKey
-                }));
-            }
-
-            await s3Client.send(new DeleteObjectCommand({
-                Bucket: BUCKET_NAME,
-                Key: `metadata/${videoId}.json`
-            }));
-
-            return { success: true };
+            return await window.s3.restoreVideo(await getAccessToken(), videoId);
         } catch (error) {
-            console.error('Delete error:', error);
+            console.error('Restore error:', error);
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error'
@@ -257,76 +236,42 @@ class S3Service {
     }
 
     /**
-     * Calculates the total storage used in the S3 bucket
-     * @private
+     * Permanently deletes a video and its associated files
      * @async
-     * @returns {Promise<number>} Total storage used in bytes
+     * @param {string} videoId - ID of the video to delete
+     * @returns {Promise<{success: boolean; error?: string}>} Result of the delete operation
      */
-    private async calculateTotalStorage(): Promise<number> {
+    async deleteVideo(videoId: string): Promise<{ success: boolean; error?: string }> {
         try {
-            const command = new ListObjectsV2Command({
-                Bucket: BUCKET_NAME,
-                Prefix: 'videos/'
-            });
-
-            let totalSize = 0;
-            let isTruncated = true;
-            let continuationToken = undefined;
-
-            while (isTruncated) {
-                const response = await s3Client.send(command);
-
-                if (response.Contents) {
-                    for (const object of response.Contents) {
-                        totalSize += object.Size || 0;
-                    }
-                }
-
-                isTruncated = response.IsTruncated || false;
-                continuationToken = response.NextContinuationToken;
-
-                if (isTruncated && continuationToken) {
-                    command.input.ContinuationToken = continuationToken;
-                }
-            }
-
-            return totalSize;
+            return await window.s3.deleteVideo(await getAccessToken(), videoId);
         } catch (error) {
-            console.error('Error calculating storage:', error);
-            throw error;
+            console.error('Delete error:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
         }
     }
 
     /**
-     * Checks if uploading a file would exceed storage limits
+     * Checks if uploading a file would exceed the signed-in user's quota or the shared pool
      * @async
      * @param {number} fileSize - Size of the file to be uploaded in bytes
-     * @returns {Promise<boolean>} Whether the upload would exceed limits
+     * @returns {Promise<boolean>} Whether the upload fits
      */
     async checkStorageLimit(fileSize: number): Promise<boolean> {
-        try {
-            const currentStorage = await this.calculateTotalStorage();
-            return (currentStorage + fileSize) <= MAX_STORAGE_BYTES;
-        } catch (error) {
-            console.error('Error checking storage limit:', error);
-            throw error;
-        }
+        return window.s3.checkStorageLimit(await getAccessToken(), fileSize);
     }
 
     /**
-     * Gets current storage usage information
+     * Gets storage usage of the signed-in user together with the shared pool
      * @async
-     * @returns {Promise<{used: number, total: number, available: number}>} Storage usage in bytes
+     * @returns {Promise<StorageInfo>} Storage usage in bytes
      */
-    async getStorageInfo(): Promise<{used: number, total: number, available: number}> {
-        const used = await this.calculateTotalStorage();
-        return {
-            used,
-            total: MAX_STORAGE_BYTES,
-            available: MAX_STORAGE_BYTES - used
-        };
+    async getStorageInfo(): Promise<StorageInfo> {
+        return window.s3.getStorageInfo(await getAccessToken());
     }
 
 }
 
-export const s3Service = new S3Service();
\ No newline at end of file
+export const s3Service = new S3Service();
@@ -0,0 +1,97 @@
+import { UploadQueueItem, UploadQueueSettings, NewVideoMetadata } from '@/types/types';
+import { getAccessToken } from '@/utils/auth';
+
+/** Actions that can be taken on a queued video */
+export type UploadQueueAction = 'pause' | 'resume' | 'retry' | 'cancel' | 'remove';
+
+/**
+ * Background upload queue. Videos are uploaded by the main process, so the queue keeps
+ * going while the user moves between pages; these methods forward each call over IPC.
+ */
+export const uploadQueueService = {
+    /**
+     * Lists the signed-in user's queued videos
+     * @async
+     * @returns {Promise<UploadQueueItem[]>} The queue, in the order videos were added
+     */
+    async list(): Promise<UploadQueueItem[]> {
+        return window.uploadQueue.list(await getAccessToken());
+    },
+
+    /**
+     * Adds a video to the queue
+     * @async
+     * @param {File} file - The video file
+     * @param {NewVideoMetadata} metadata - Metadata to store once the video is uploaded
+     * @param {File | null} [thumbnail] - Thumbnail to upload with the video
+     * @returns {Promise<UploadQueueItem>} The queued video
+     * @throws {Error} If the file cannot be read
+     */
+    async add(file: File, metadata: NewVideoMetadata, thumbnail: File | null = null): Promise<UploadQueueItem> {
+        const thumbnailFile = thumbnail ? {
+            data: new Uint8Array(await thumbnail.arrayBuffer()),
+            contentType: thumbnail.type,
+            fileName: thumbnail.name
+        } : undefined;
+
+        return window.uploadQueue.add(await getAccessToken(), window.s3.getPathForFile(file), metadata, thumbnailFile);
+    },
+
+    /**
+     * Pauses, resumes, retries, cancels or removes a queued video
+     * @async
+     * @param {string} itemId - ID of the queue item
+     * @param {UploadQueueAction} action - What to do
+     * @returns {Promise<void>}
+     * @throws {Error} If the item does not exist or the action is not possible
+     */
+    async control(itemId: string, action: UploadQueueAction): Promise<void> {
+        await window.uploadQueue.control(await getAccessToken(), itemId, action);
+    },
+
+    /**
+     * Removes the signed-in user's completed and cancelled videos from the queue
+     * @async
+     * @returns {Promise<void>}
+     */
+    async clearFinished(): Promise<void> {
+        await window.uploadQueue.clearFinished(await getAccessToken());
+    },
+
+    /**
+     * Gets how many videos upload at once and the upload rate limit
+     * @async
+     * @returns {Promise<UploadQueueSettings>} The settings
+     */
+    async getSettings(): Promise<UploadQueueSettings> {
+        return window.uploadQueue.getSettings();
+    },
+
+    /**
+     * Changes how many videos upload at once and the upload rate limit
+     * @async
+     * @param {UploadQueueSettings} settings - The new settings
+     * @returns {Promise<UploadQueueSettings>} The settings as stored
+     */
+    async updateSettings(settings: UploadQueueSettings): Promise<UploadQueueSettings> {
+        return window.uploadQueue.updateSettings(settings);
+    },
+
+    /**
+     * Subscribes to videos being added, removed or changing state
+     * @param {() => void} callback - Called after each change
+     * @returns {() => void} Function that removes the subscription
+     */
+    onChanged(callback: () => void): () => void {
+        return window.uploadQueue.onChanged(callback);
+    },
+
+    /**
+     * Subscribes to upload progress of running videos
+     * @param {(itemId: string, progress: number) => void} callback - Called with the percentage uploaded
+     * @returns {() => void} Function that removes the subscription
+     */
+    onProgress(callback: (itemId: string, progress: number) => void): () => void {
+        return window.uploadQueue.onProgress(callback);
+    }
+};
@@ -0,0 +1,64 @@
+import { v4 as uuidv4 } from 'uuid';
+import { UploadStatus } from '@/types/types';
+
+/**
+ * Controls a video upload running in the main process. Create one, pass it to
+ * `s3Service.uploadVideo` and call `pause`, `resume` or `cancel` from the UI.
+ * @class UploadController
+ */
+export class UploadController {
+    /** ID the main process uses to refer to this upload */
+    readonly id = uuidv4();
+    private status: UploadStatus = 'pending';
+    private listeners = new Set<(status: UploadStatus) => void>();
+
+    /**
+     * Gets the current status of the upload
+     * @returns {UploadStatus} The current status
+     */
+    getStatus(): UploadStatus {
+        return this.status;
+    }
+
+    /**
+     * Subscribes to status changes
+     * @param {(status: UploadStatus) => void} listener - Called with the new status
+     * @returns {() => void} Function that removes the listener
+     */
+    onStatusChange(listener: (status: UploadStatus) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Pauses the upload. Parts already sent are kept on S3.
+     */
+    pause(): void {
+        window.s3.controlUpload(this.id, 'pause');
+    }
+
+    /**
+     * Resumes a paused upload from the last completed part
+     */
+    resume(): void {
+        window.s3.controlUpload(this.id, 'resume');
+    }
+
+    /**
+     * Cancels the upload and discards any parts already sent
+     */
+    cancel(): void {
+        window.s3.controlUpload(this.id, 'cancel');
+    }
+
+    /**
+     * Records a status reported by the main process and notifies listeners
+     * @param {UploadStatus} status - The new status
+     */
+    setStatus(status: UploadStatus): void {
+        this.status = status;
+        this.listeners.forEach(listener => listener(status));
+    }
+}
@@ -9,6 +9,15 @@
  * @property {string} thumbnailKey - S3 key for the thumbnail file
  * @property {string} videoUrl - Signed URL for the video file
  * @property {string} videoKey - S3 key for the video file
+ * @property {number} [fileSize] - Size of the video file in bytes, counted against the uploader's quota
+ * @property {string} [contentHash] - SHA-256 of the original file as hex, used to detect duplicate uploads
+ * @property {VideoRenditions} [renditions] - Transcoded copies of the video, once transcoding has finished
+ * @property {string} [mp4Url] - Signed URL of the transcoded MP4
+ * @property {string} [hlsUrl] - URL of the HLS master playlist
+ * @property {TranscodeStatus} [transcode] - Progress of the transcoding job
+ * @property {string} [deletedAt] - When the video was moved to the trash
+ * @property {string} [purgeAfter] - When a trashed video will be deleted permanently
+ * @property {RatingSummary} [rating] - Review count and average rating, attached to listings
  * @property {string} duration - Duration of the video
  * @property {string} category - Category of the video
  * @property {string} uploadDate - Date when the video was uploaded
@@ -23,12 +32,121 @@ export interface VideoMetadata {
     thumbnailKey: string;
     videoUrl: string;
     videoKey: string;
+    fileSize?: number;
+    contentHash?: string;
+    renditions?: VideoRenditions;
+    mp4Url?: string;
+    hlsUrl?: string;
+    transcode?: TranscodeStatus;
+    deletedAt?: string;
+    purgeAfter?: string;
+    rating?: RatingSummary;
     duration: string;
     category: string;
     uploadDate: string;
     isPublic: boolean;
 }
 
+/**
+ * Which videos a listing returns
+ * @typedef {'all' | 'mine' | 'trash'} VideoListScope
+ * - all: public videos plus the signed-in user's own
+ * - mine: only the signed-in user's videos
+ * - trash: the signed-in user's deleted videos awaiting purge
+ */
+export type VideoListScope = 'all' | 'mine' | 'trash';
+
+/**
+ * Options for listing videos
+ * @interface VideoListOptions
+ * @property {VideoListScope} [scope] - Which videos to return, defaults to `all`
+ * @property {string} [cursor] - Cursor returned with the previous page
+ * @property {number} [limit] - Maximum number of videos to return
+ */
+export interface VideoListOptions {
+    scope?: VideoListScope;
+    cursor?: string;
+    limit?: number;
+}
+
+/**
+ * A page of videos, newest first
+ * @interface VideoPage
+ * @property {VideoMetadata[]} videos - Videos on this page
+ * @property {string | null} nextCursor - Cursor for the next page, or null on the last page
+ */
+export interface VideoPage {
+    videos: VideoMetadata[];
+    nextCursor: string | null;
+}
+
+/**
+ * A still frame captured from a video, used as a thumbnail candidate
+ * @interface CapturedFrame
+ * @property {number} time - Position of the frame in seconds
+ * @property {Blob} blob - The frame as a JPEG image
+ * @property {string} previewUrl - Object URL of the image for previews; revoke when discarded
+ */
+export interface CapturedFrame {
+    time: number;
+    blob: Blob;
+    previewUrl: string;
+}
+
+/**
+ * One rung of the HLS ladder
+ * @interface HlsVariant
+ * @property {string} name - Name of the rung, e.g. `720p`
+ * @property {number} width - Frame width in pixels
+ * @property {number} height - Frame height in pixels
+ * @property {number} bandwidth - Peak bitrate in bits per second, as advertised in the master playlist
+ * @property {string} playlistKey - Storage key of the rung's media playlist
+ */
+export interface HlsVariant {
+    name: string;
+    width: number;
+    height: number;
+    bandwidth: number;
+    playlistKey: string;
+}
+
+/**
+ * Transcoded copies of a video that every browser engine can play
+ * @interface VideoRenditions
+ * @property {string} mp4Key - Storage key of the H.264/AAC MP4
+ * @property {string} hlsPlaylistKey - Storage key of the HLS master playlist
+ * @property {HlsVariant[]} variants - Rungs of the HLS ladder, highest first
+ * @property {number} [totalSize] - Bytes of every rendition file, counted against the owner's quota; missing for
+ *   renditions stored before their size was recorded
+ */
+export interface VideoRenditions {
+    mp4Key: string;
+    hlsPlaylistKey: string;
+    variants: HlsVariant[];
+    totalSize?: number;
+}
+
+/**
+ * State of a transcoding job
+ * @typedef {'queued' | 'running' | 'completed' | 'failed'} TranscodeState
+ */
+export type TranscodeState = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Progress of a transcoding job
+ * @interface TranscodeStatus
+ * @property {TranscodeState} state - State of the job
+ * @property {number} progress - Percentage complete, 0-100
+ * @property {string} [error] - Why the job failed
+ * @property {string} updatedAt - When the status last changed
+ */
+export interface TranscodeStatus {
+    state: TranscodeState;
+    progress: number;
+    error?: string;
+    updatedAt: string;
+}
+
 /**
  * Type for upload operation results
  * @typedef {Object} UploadResult
@@ -44,11 +162,159 @@ export type UploadResult = {
     error?: string;
 }
 
+/**
+ * Video metadata supplied by the uploader, before any storage keys or URLs exist
+ * @typedef {Object} NewVideoMetadata
+ */
+export type NewVideoMetadata = Omit<VideoMetadata, 'videoUrl' | 'thumbnailUrl' | 'thumbnailKey' | 'videoKey'>;
+
+/**
+ * Byte-level progress of a video upload
+ * @interface UploadProgress
+ * @property {number} loaded - Number of bytes uploaded so far
+ * @property {number} total - Total size of the file in bytes
+ * @property {number} percentage - Upload progress from 0 to 100
+ */
+export interface UploadProgress {
+    loaded: number;
+    total: number;
+    percentage: number;
+}
+
+/**
+ * Lifecycle state of a video upload
+ * @typedef {('pending' | 'uploading' | 'paused' | 'completed' | 'cancelled' | 'failed')} UploadStatus
+ */
+export type UploadStatus = 'pending' | 'uploading' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * An interrupted multipart upload that can be resumed, persisted across app restarts
+ * @interface PendingUpload
+ * @property {string} videoKey - S3 key the video is being uploaded to
+ * @property {string} [uploadId] - S3 multipart upload ID, set once the first part has been started
+ * @property {string} filePath - Absolute path of the local file being uploaded
+ * @property {string} fileName - Name of the local file being uploaded
+ * @property {number} fileSize - Size of the local file in bytes
+ * @property {number} lastModified - Last modified timestamp of the local file, used to match it on resume
+ * @property {string} [contentHash] - SHA-256 of the local file as hex, computed when the upload was created; missing on uploads started by older versions
+ * @property {string} contentType - MIME type of the video
+ * @property {number} partSize - Size in bytes of each multipart chunk
+ * @property {NewVideoMetadata} metadata - Metadata to store once the upload completes
+ * @property {string} startedAt - ISO timestamp of when the upload was started
+ */
+export interface PendingUpload {
+    videoKey: string;
+    uploadId?: string;
+    filePath: string;
+    fileName: string;
+    fileSize: number;
+    lastModified: number;
+    contentHash?: string;
+    contentType: string;
+    partSize: number;
+    metadata: NewVideoMetadata;
+    startedAt: string;
+}
+
+/**
+ * Videos already stored with the same contents as a file about to be uploaded
+ * @interface DuplicateCheck
+ * @property {string} contentHash - SHA-256 of the file as hex
+ * @property {VideoMetadata[]} duplicates - The user's own videos and public videos with the same contents
+ */
+export interface DuplicateCheck {
+    contentHash: string;
+    duplicates: VideoMetadata[];
+}
+
+/**
+ * Limits every uploaded video must stay within
+ * @interface VideoPolicy
+ * @property {number} maxFileSize - Largest file in bytes
+ * @property {number} maxDurationSeconds - Longest video in seconds
+ * @property {number} maxWidth - Widest frame in pixels, for landscape videos
+ * @property {number} maxHeight - Tallest frame in pixels, for landscape videos; portrait videos are checked rotated
+ * @property {number} maxBitrate - Highest overall bitrate in bits per second
+ */
+export interface VideoPolicy {
+    maxFileSize: number;
+    maxDurationSeconds: number;
+    maxWidth: number;
+    maxHeight: number;
+    maxBitrate: number;
+}
+
+/**
+ * Outcome of checking a video file's contents before it is uploaded
+ * @interface VideoValidationResult
+ * @property {boolean} valid - Whether the file may be uploaded
+ * @property {string[]} violations - Why the file may not be uploaded, one reason per entry
+ * @property {string} [container] - Container format found in the file's leading bytes, e.g. `mp4`
+ * @property {number} [duration] - Duration in seconds, if the video could be read
+ * @property {number} [width] - Frame width in pixels, if the video could be read
+ * @property {number} [height] - Frame height in pixels, if the video could be read
+ * @property {number} [bitrate] - Overall bitrate in bits per second, if the video could be read
+ */
+export interface VideoValidationResult {
+    valid: boolean;
+    violations: string[];
+    container?: string;
+    duration?: number;
+    width?: number;
+    height?: number;
+    bitrate?: number;
+}
+
+/**
+ * Where a video in the upload queue is up to
+ * @typedef {'queued' | 'uploading' | 'paused' | 'completed' | 'failed' | 'cancelled'} UploadQueueState
+ */
+export type UploadQueueState = 'queued' | 'uploading' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A video in the background upload queue, persisted across app restarts
+ * @interface UploadQueueItem
+ * @property {string} id - Unique identifier of the queue item
+ * @property {string} fileName - Name of the local video file
+ * @property {number} fileSize - Size of the local video file in bytes
+ * @property {NewVideoMetadata} metadata - Metadata stored once the video is uploaded
+ * @property {boolean} hasThumbnail - Whether a thumbnail is uploaded with the video
+ * @property {UploadQueueState} state - Where the upload is up to
+ * @property {number} progress - Upload progress from 0 to 100
+ * @property {string} [error] - Why the upload failed
+ * @property {string} addedAt - ISO timestamp of when the video was added to the queue
+ * @property {ContentViolation[]} [contentViolations] - Only in the response to adding: guidelines the title or description broke, which were masked
+ */
+export interface UploadQueueItem {
+    id: string;
+    fileName: string;
+    fileSize: number;
+    metadata: NewVideoMetadata;
+    hasThumbnail: boolean;
+    state: UploadQueueState;
+    progress: number;
+    error?: string;
+    addedAt: string;
+    contentViolations?: ContentViolation[];
+}
+
+/**
+ * How the upload queue shares the connection
+ * @interface UploadQueueSettings
+ * @property {number} concurrency - Number of videos uploaded at the same time
+ * @property {number} maxBytesPerSecond - Combined upload rate limit in bytes per second, or 0 for unlimited
+ */
+export interface UploadQueueSettings {
+    concurrency: number;
+    maxBytesPerSecond: number;
+}
+
 /**
  * Represents a review in the system
  *
  * @interface Review
- * @property {string} id - Unique identifier for the review, format: `${videoId}#${timestamp}`
+ * @property {string} id - Unique identifier for the review, format: `${videoId}#${userId}`, so each user has one review per video;
+ *   reviews written before that are keyed `${videoId}#${timestamp}`
  * @property {string} videoId - ID of the video being reviewed
  * @property {string} userId - ID of the user who created the review
  * @property {number} rating - Numerical rating, typically 1-5
@@ -56,7 +322,12 @@ export type UploadResult = {
  * @property {string} createdAt - ISO timestamp of review creation
  * @property {string} updatedAt - ISO timestamp of last update
  * @property {string} userEmail - Email of the user who created the review
- * @property {Reply[]} replies - Array of replies to this review
+ * @property {Reply[]} replies - Replies to this review and to each other, oldest first; threads are built from `parentId`
+ * @property {number} [helpfulCount] - Number of users who found the review helpful
+ * @property {number} [notHelpfulCount] - Number of users who found the review not helpful
+ * @property {HelpfulVote | null} [viewerVote] - How the signed-in user voted on the review, if at all
+ * @property {ModerationStatus} [moderationStatus] - Set once the review has been hidden or approved
+ * @property {ContentViolation[]} [contentViolations] - Only in the response to a write: guidelines the text broke, which were masked or held
  */
 export interface Review {
     id: string;
@@ -68,23 +339,281 @@ export interface Review {
     updatedAt: string;
     userEmail: string;
     replies: Reply[];
+    helpfulCount?: number;
+    notHelpfulCount?: number;
+    viewerVote?: HelpfulVote | null;
+    moderationStatus?: ModerationStatus;
+    contentViolations?: ContentViolation[];
+}
+
+/**
+ * A user's verdict on whether a review helped them
+ * @typedef {'helpful' | 'notHelpful'} HelpfulVote
+ */
+export type HelpfulVote = 'helpful' | 'notHelpful';
+
+/**
+ * Orders reviews can be listed in
+ * @typedef {'recent' | 'rating' | 'helpful'} ReviewSortOrder
+ * - recent: newest first
+ * - rating: highest rating first
+ * - helpful: most helpful first, by the lower bound of the share of helpful votes
+ */
+export type ReviewSortOrder = 'recent' | 'rating' | 'helpful';
+
+/**
+ * Options for listing a page of a video's reviews
+ *
+ * @interface ReviewListOptions
+ * @property {ReviewSortOrder} [sortBy] - Order of the reviews, newest first by default
+ * @property {number} [rating] - Only list reviews with this many stars
+ * @property {string} [cursor] - `nextCursor` of the previous page; omitted for the first page
+ * @property {number} [limit] - Number of reviews per page, at most 50
+ */
+export interface ReviewListOptions {
+    sortBy?: ReviewSortOrder;
+    rating?: number;
+    cursor?: string;
+    limit?: number;
 }
 
 /**
- * Represents a reply to a review
+ * One page of a video's reviews
+ *
+ * @interface ReviewPage
+ * @property {Review[]} reviews - The reviews on this page
+ * @property {string | null} nextCursor - Cursor for the next page, or null on the last page
+ * @property {ReplyPolicy} replyPolicy - Who may reply to the reviews
+ * @property {string} changeToken - Token for following changes to the video's reviews from this page on
+ */
+export interface ReviewPage {
+    reviews: Review[];
+    nextCursor: string | null;
+    replyPolicy: ReplyPolicy;
+    changeToken: string;
+}
+
+/**
+ * What changed in a video's reviews since a change token. The same change may be reported
+ * by two polls in a row.
+ * @interface ReviewChanges
+ * @property {Review[]} added - Reviews written since the token, with their replies
+ * @property {Review[]} updated - Older reviews edited, voted on or replied to since the token, with their replies
+ * @property {string[]} removedIds - Of the reviews the caller has, those deleted or hidden since
+ * @property {RatingSummary} summary - The video's current rating summary
+ * @property {string} changeToken - Token for the next poll
+ */
+export interface ReviewChanges {
+    added: Review[];
+    updated: Review[];
+    removedIds: string[];
+    summary: RatingSummary;
+    changeToken: string;
+}
+
+/**
+ * Who may reply to a review
+ * @typedef {'owner' | 'ownerAndReviewer' | 'everyone'} ReplyPolicy
+ * - owner: only the user who uploaded the video
+ * - ownerAndReviewer: the uploader, and the author of the review to answer them
+ * - everyone: anyone signed in
+ */
+export type ReplyPolicy = 'owner' | 'ownerAndReviewer' | 'everyone';
+
+/**
+ * A video's ratings, read from the aggregate kept alongside its reviews
+ *
+ * @interface RatingSummary
+ * @property {number} count - Number of reviews
+ * @property {number} average - Average rating, or 0 without reviews
+ * @property {number[]} histogram - Number of reviews per rating, from 1 star at index 0 to 5 stars at index 4
+ */
+export interface RatingSummary {
+    count: number;
+    average: number;
+    histogram: number[];
+}
+
+/**
+ * A video's ratings as they stood at the end of a month, counting the reviews written up to then
+ *
+ * @interface RatingHistoryPoint
+ * @extends RatingSummary
+ * @property {string} period - The month, as `YYYY-MM`
+ */
+export interface RatingHistoryPoint extends RatingSummary {
+    period: string;
+}
+
+/**
+ * Represents a reply to a review, or to another reply. Replies are stored in their own
+ * table rather than on the review, so a busy conversation does not grow the review item.
  *
  * @interface Reply
- * @property {string} id - Unique identifier for the reply, format: `${reviewId}#${timestamp}`
+ * @property {string} id - Unique identifier for the reply, format: `${reviewId}#${uuid}`
+ * @property {string} [reviewId] - ID of the review the conversation belongs to
+ * @property {string | null} [parentId] - ID of the reply this one answers, or null for a reply to the review
+ * @property {number} [depth] - Nesting level, 1 for a reply to the review
  * @property {string} userId - ID of the user who created the reply
- * @property {string} content - Text content of the reply
+ * @property {string} content - Text content of the reply; empty once deleted
  * @property {string} createdAt - ISO timestamp of reply creation
+ * @property {string} [updatedAt] - ISO timestamp of the last edit
+ * @property {boolean} [deleted] - Whether the author deleted the reply while others had answered it
+ * @property {ModerationStatus} [moderationStatus] - Set once the reply has been hidden or approved; hidden replies have no text for other users
+ * @property {boolean} [fromCreator] - Whether the author uploaded the video, shown as a Creator badge
  * @property {string} userEmail - Email of the user who created the reply
+ * @property {ContentViolation[]} [contentViolations] - Only in the response to a write: guidelines the text broke, which were masked or held
  */
 export interface Reply {
     id: string;
+    reviewId?: string;
+    parentId?: string | null;
+    depth?: number;
     userId: string;
     content: string;
     createdAt: string;
+    updatedAt?: string;
+    deleted?: boolean;
+    moderationStatus?: ModerationStatus;
+    fromCreator?: boolean;
+    userEmail: string;
+    contentViolations?: ContentViolation[];
+}
+
+/**
+ * Outcome of moderation for a review or reply
+ * @typedef {'hidden' | 'approved'} ModerationStatus
+ * - hidden: only the author and moderators can see it, after enough reports, a moderator's decision, or
+ *   the content filter holding it
+ * - approved: a moderator reviewed the reports and kept it
+ */
+export type ModerationStatus = 'hidden' | 'approved';
+
+/**
+ * Why a user reported a review or reply
+ * @typedef {'spam' | 'harassment' | 'hate' | 'offTopic' | 'spoiler' | 'other'} ReportReason
+ */
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'offTopic' | 'spoiler' | 'other';
+
+/**
+ * A review, or one of its replies when `replyId` is set
+ *
+ * @interface ModerationTarget
+ * @property {string} reviewId - ID of the review
+ * @property {string} [replyId] - ID of the reply, when the target is a reply
+ */
+export interface ModerationTarget {
+    reviewId: string;
+    replyId?: string;
+}
+
+/**
+ * Result of reporting a review or reply
+ *
+ * @interface ReportResult
+ * @property {boolean} hidden - Whether the item is now hidden, because the report took it over the threshold
+ */
+export interface ReportResult {
+    hidden: boolean;
+}
+
+/**
+ * One user's report of a review or reply, as shown to moderators
+ *
+ * @interface ContentReport
+ * @property {ReportReason} reason - Why it was reported
+ * @property {string} [note] - What the user added
+ * @property {string} reporterEmail - Email of the user who reported it
+ * @property {string} createdAt - ISO timestamp of the report
+ */
+export interface ContentReport {
+    reason: ReportReason;
+    note?: string;
+    reporterEmail: string;
+    createdAt: string;
+}
+
+/**
+ * A reported review or reply awaiting a moderator's decision
+ *
+ * @interface ModerationQueueItem
+ * @property {ModerationTarget} target - The reported review or reply
+ * @property {string} videoId - ID of the reviewed video
+ * @property {string} authorEmail - Email of the author
+ * @property {string} content - Text of the review or reply
+ * @property {number} [rating] - Rating, for reviews
+ * @property {ModerationStatus} [moderationStatus] - Current status; `hidden` if reports already hid it
+ * @property {ContentReport[]} reports - The open reports, newest first
+ */
+export interface ModerationQueueItem {
+    target: ModerationTarget;
+    videoId: string;
+    authorEmail: string;
+    content: string;
+    rating?: number;
+    moderationStatus?: ModerationStatus;
+    reports: ContentReport[];
+}
+
+/**
+ * A moderator's decision on a reported item
+ * @typedef {'approve' | 'hide' | 'delete'} ModerationAction
+ */
+export type ModerationAction = 'approve' | 'hide' | 'delete';
+
+/**
+ * An entry in the moderation log
+ *
+ * @interface ModerationLogEntry
+ * @property {string} id - Unique identifier, ordered by time
+ * @property {ModerationAction | 'autoHide'} action - What was done; `autoHide` when reports passed the threshold
+ * @property {ModerationTarget} target - The review or reply acted on
+ * @property {string} videoId - ID of the reviewed video
+ * @property {string} authorEmail - Email of the item's author
+ * @property {string} excerpt - Start of the item's text at the time
+ * @property {number} reportCount - Number of open reports at the time
+ * @property {ReportReason[]} reasons - Distinct reasons given in those reports
+ * @property {string | null} moderatorEmail - Email of the moderator, or null for automatic actions
+ * @property {string} [note] - The moderator's note
+ * @property {string} createdAt - ISO timestamp of the action
+ */
+export interface ModerationLogEntry {
+    id: string;
+    action: ModerationAction | 'autoHide';
+    target: ModerationTarget;
+    videoId: string;
+    authorEmail: string;
+    excerpt: string;
+    reportCount: number;
+    reasons: ReportReason[];
+    moderatorEmail: string | null;
+    note?: string;
+    createdAt: string;
+}
+
+/**
+ * One page of the moderation log, newest first
+ *
+ * @interface ModerationLogPage
+ * @property {ModerationLogEntry[]} entries - Entries on this page
+ * @property {string | null} nextCursor - Cursor for the next page, or null on the last page
+ */
+export interface ModerationLogPage {
+    entries: ModerationLogEntry[];
+    nextCursor: string | null;
+}
+
+/**
+ * Data for a new reply; the author and timestamps are filled in by the main process
+ *
+ * @interface NewReply
+ * @property {string} content - Text of the reply
+ * @property {string | null} [parentId] - ID of the reply being answered, or omitted to reply to the review
+ * @property {string} userEmail - Email shown when the signed-in user has none on record
+ */
+export interface NewReply {
+    content: string;
+    parentId?: string | null;
     userEmail: string;
 }
 
@@ -116,33 +645,61 @@ export interface FormData {
     duration: string;
 }
 
+/**
+ * Fields of a video its owner can change after upload
+ * @typedef {Partial<Pick<VideoMetadata, 'title' | 'description' | 'category' | 'isPublic'>>} VideoMetadataUpdate
+ */
+export type VideoMetadataUpdate = Partial<Pick<VideoMetadata, 'title' | 'description' | 'category' | 'isPublic'>>;
+
+/**
+ * The values of a video an edit started from, used to detect edits that overlap with
+ * someone else's
+ * @typedef {Pick<VideoMetadata, 'title' | 'description' | 'category' | 'isPublic' | 'thumbnailKey'>} VideoEditBase
+ */
+export type VideoEditBase = Pick<VideoMetadata, 'title' | 'description' | 'category' | 'isPublic' | 'thumbnailKey'>;
+
+/**
+ * A field two edits of the same video both changed
+ * @typedef {keyof VideoMetadataUpdate | 'thumbnail'} VideoConflictField
+ */
+export type VideoConflictField = keyof VideoMetadataUpdate | 'thumbnail';
+
+/**
+ * An edit that was not saved because someone else changed some of the same fields first
+ * @interface VideoEditConflict
+ * @property {VideoConflictField[]} fields - The fields both edits changed
+ * @property {VideoMetadata} current - The video as it is now stored, with signed URLs
+ */
+export interface VideoEditConflict {
+    fields: VideoConflictField[];
+    current: VideoMetadata;
+}
+
+/**
+ * Result of updating a video's metadata
+ * @interface UpdateVideoResult
+ * @property {boolean} success - Whether the update was successful
+ * @property {VideoMetadata} [video] - The updated video, with signed URLs
+ * @property {string} [error] - Error message if the update failed
+ * @property {VideoEditConflict} [conflict] - Set when the update overlapped with someone else's
+ * @property {ContentViolation[]} [contentViolations] - Guidelines the title or description broke, which were masked
+ */
+export interface UpdateVideoResult {
+    success: boolean;
+    video?: VideoMetadata;
+    error?: string;
+    conflict?: VideoEditConflict;
+    contentViolations?: ContentViolation[];
+}
+
 /**
  * Props interface for the VideoOverlay component
  * @interface VideoOverlayProps
- * @property {Object} video - Video metadata object
- * @property {string} video.id - Unique identifier for the video
- * @property {string} video.title - Title of the video
- * @property {string} video.description - Description of the video
- * @property {string} video.thumbnailUrl - URL for the video thumbnail
- * @property {string} video.videoUrl - URL for the video content
- * @property {string} video.duration - Duration of the video
- * @property {string} video.category - Category of the video
- * @property {string} video.uploadDate - Upload date of the video
- * @property {string} video.userId - ID of the user who uploaded the video
+ * @property {VideoMetadata} video - Metadata of the video to show
  * @property {() => void} onClose - Callback function to close the overlay
  */
 export interface VideoOverlayProps {
-    video: {
-        id: string;
-        title: string;
-        description: string;
-        thumbnailUrl: string;
-        videoUrl: string;
-        duration: string;
-        category: string;
-        uploadDate: string;
-        userId: string;
-    };
+    video: VideoMetadata;
     onClose: () => void;
 }
 
@@ -156,6 +713,7 @@ export interface VideoOverlayProps {
  * @property {string} duration - Duration of the video in string format
  * @property {string} category - Category of the video
  * @property {string} uploadDate - ISO date string of when the video was uploaded
+ * @property {RatingSummary} [rating] - Review count and average rating of the video
  * @property {() => void} onPlay - Callback function triggered when play button is clicked
  */
 export interface VideoCardProps {
@@ -166,6 +724,7 @@ export interface VideoCardProps {
     duration: string;
     category: string;
     uploadDate: string;
+    rating?: RatingSummary;
     onPlay: () => void;
 }
 
@@ -174,10 +733,51 @@ export interface VideoCardProps {
  * @interface ReviewSectionProps
  * @property {string} videoId - Unique identifier for the video being reviewed
  * @property {string} currentUserId - ID of the currently authenticated user
+ * @property {boolean} [isOwner] - Whether the signed-in user uploaded the video, which shows the rating history
  */
 export interface ReviewSectionProps {
     videoId: string;
     currentUserId: string;
+    isOwner?: boolean;
+}
+
+/**
+ * Props for the ReviewReplies component.
+ * @interface ReviewRepliesProps
+ * @property {Review} review - The review whose conversation is shown
+ * @property {string} currentUserId - ID of the currently authenticated user
+ * @property {string} currentUserEmail - Email of the currently authenticated user
+ * @property {boolean} isModerator - Whether the signed-in user is a moderator, who still sees hidden replies
+ * @property {boolean} canReply - Whether the reply policy lets the signed-in user reply to the review
+ * @property {(replies: Reply[]) => void} onRepliesChange - Called with the review's replies after any change
+ */
+export interface ReviewRepliesProps {
+    review: Review;
+    currentUserId: string;
+    currentUserEmail: string;
+    isModerator: boolean;
+    canReply: boolean;
+    onRepliesChange: (replies: Reply[]) => void;
+}
+
+/**
+ * Props for the ReportButton component.
+ * @interface ReportButtonProps
+ * @property {ModerationTarget} target - The review or reply to report
+ * @property {(result: ReportResult) => void} onReported - Called once the report is recorded
+ */
+export interface ReportButtonProps {
+    target: ModerationTarget;
+    onReported: (result: ReportResult) => void;
+}
+
+/**
+ * Props for the RatingHistory component.
+ * @interface RatingHistoryProps
+ * @property {string} videoId - ID of the signed-in user's video
+ */
+export interface RatingHistoryProps {
+    videoId: string;
 }
 
 /**
@@ -202,26 +802,271 @@ export interface DeleteVideoProps {
     onDelete?: () => void;
 }
 
+/**
+ * Interface for the EditVideoDetails component props.
+ * @interface EditVideoDetailsProps
+ * @property {VideoMetadata} video - The video being edited
+ * @property {(video: VideoMetadata) => void} onSaved - Called with the updated video after a successful save
+ * @property {() => void} onCancel - Called when the user leaves edit mode without saving
+ */
+export interface EditVideoDetailsProps {
+    video: VideoMetadata;
+    onSaved: (video: VideoMetadata) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Props for the VideoPlayer component
+ * @interface VideoPlayerProps
+ * @property {VideoMetadata} video - The video to play
+ */
+export interface VideoPlayerProps {
+    video: VideoMetadata;
+}
+
 /**
  * Props interface for the VideoCarousel component
  * @interface VideoCarouselProps
  * @property {string} title - The title to display above the carousel
  * @property {VideoMetadata[]} videos - Array of video metadata objects to display in the carousel
+ * @property {boolean} [hasMore] - Whether more videos can be loaded
+ * @property {boolean} [loadingMore] - Whether the next page is being loaded
+ * @property {() => void} [onLoadMore] - Loads the next page of videos
  */
 export interface VideoCarouselProps {
     title: string;
     videos: VideoMetadata[];
+    hasMore?: boolean;
+    loadingMore?: boolean;
+    onLoadMore?: () => void;
 }
 
 /**
  * Interface defining the structure of storage information
  * @interface StorageInfo
- * @property {number} used - Amount of storage currently in use (in bytes)
- * @property {number} total - Total available storage capacity (in bytes)
- * @property {number} available - Remaining storage space available (in bytes)
+ * @property {number} used - Storage used by the signed-in user's videos (in bytes)
+ * @property {number} total - The signed-in user's quota (in bytes)
+ * @property {number} available - Remaining space in the user's quota, capped by what is left in the shared pool (in bytes)
+ * @property {string} tier - Quota tier the user belongs to
+ * @property {StoragePoolInfo} pool - Usage of the storage pool shared by all users
+ * @property {number[]} warningThresholds - Fractions of the quota (e.g. 0.75, 0.9) at which users are warned, ascending
  */
 export interface StorageInfo {
     used: number;
     total: number;
     available: number;
-}
\ No newline at end of file
+    tier: string;
+    pool: StoragePoolInfo;
+    warningThresholds: number[];
+}
+
+/**
+ * Usage of the storage pool shared by all users
+ * @interface StoragePoolInfo
+ * @property {number} used - Storage used by all videos (in bytes)
+ * @property {number} total - Total capacity of the pool (in bytes)
+ * @property {number} available - Remaining capacity of the pool (in bytes)
+ */
+export interface StoragePoolInfo {
+    used: number;
+    total: number;
+    available: number;
+}
+
+/**
+ * Kind of inconsistency found between storage, metadata and the Reviews table
+ * @typedef {string} ConsistencyIssueKind
+ * - orphanVideo: a file under `videos/` that no metadata refers to
+ * - orphanThumbnail: a file under `thumbnails/` that no metadata refers to
+ * - orphanRenditions: transcoded renditions of a video that has no metadata
+ * - missingVideo: metadata whose video file does not exist
+ * - missingThumbnail: metadata whose thumbnail file does not exist
+ * - unreadableMetadata: a metadata file that cannot be parsed or fails validation
+ * - orphanReview: a review of a video that has no metadata
+ * - staleCatalogEntry: a catalog entry for a video that has no metadata
+ * - missingCatalogEntry: metadata of a video the catalog does not list
+ * - outdatedCatalogEntry: a catalog entry that differs from the video's metadata
+ */
+export type ConsistencyIssueKind =
+    | 'orphanVideo'
+    | 'orphanThumbnail'
+    | 'orphanRenditions'
+    | 'missingVideo'
+    | 'missingThumbnail'
+    | 'unreadableMetadata'
+    | 'orphanReview'
+    | 'staleCatalogEntry'
+    | 'missingCatalogEntry'
+    | 'outdatedCatalogEntry';
+
+/**
+ * One inconsistency found by the consistency checker
+ * @interface ConsistencyIssue
+ * @property {ConsistencyIssueKind} kind - What is wrong
+ * @property {string} key - Storage key, review ID or video ID the issue is about
+ * @property {string} [videoId] - ID of the video involved, where known
+ * @property {string} description - Human-readable explanation
+ * @property {boolean} repairable - Whether the repair tool can fix it
+ */
+export interface ConsistencyIssue {
+    kind: ConsistencyIssueKind;
+    key: string;
+    videoId?: string;
+    description: string;
+    repairable: boolean;
+}
+
+/**
+ * Result of a consistency scan
+ * @interface ConsistencyReport
+ * @property {string} scannedAt - When the scan finished
+ * @property {Record<string, number>} scanned - Number of items examined per source
+ * @property {ConsistencyIssue[]} issues - Everything found to be inconsistent
+ */
+export interface ConsistencyReport {
+    scannedAt: string;
+    scanned: Record<string, number>;
+    issues: ConsistencyIssue[];
+}
+
+/**
+ * Result of repairing inconsistencies
+ * @interface RepairResult
+ * @property {number} repaired - Number of issues fixed
+ * @property {number} skipped - Number of issues that were no longer present or cannot be repaired
+ * @property {Array<{issue: ConsistencyIssue; error: string}>} failed - Issues whose repair failed
+ */
+export interface RepairResult {
+    repaired: number;
+    skipped: number;
+    failed: Array<{ issue: ConsistencyIssue; error: string }>;
+}
+
+/**
+ * A video downloaded to this computer for offline playback
+ * @interface OfflineVideo
+ * @property {VideoMetadata} video - Metadata of the video, with URLs that play from disk
+ * @property {number} size - Disk space used by the video and its thumbnail (in bytes)
+ * @property {string} downloadedAt - When the video was downloaded
+ */
+export interface OfflineVideo {
+    video: VideoMetadata;
+    size: number;
+    downloadedAt: string;
+}
+
+/**
+ * Contents of the offline library
+ * @interface OfflineLibraryInfo
+ * @property {OfflineVideo[]} videos - Downloaded videos, newest download first
+ * @property {number} used - Disk space used by the library (in bytes)
+ */
+export interface OfflineLibraryInfo {
+    videos: OfflineVideo[];
+    used: number;
+}
+
+/**
+ * Result of saving a video's original file to disk
+ * @interface SaveVideoResult
+ * @property {boolean} success - Whether the file was saved
+ * @property {boolean} [canceled] - Whether the user closed the save dialog
+ * @property {string} [filePath] - Where the file was saved
+ * @property {string} [error] - Error message if saving failed
+ */
+export interface SaveVideoResult {
+    success: boolean;
+    canceled?: boolean;
+    filePath?: string;
+    error?: string;
+}
+
+/**
+ * Interface for the OfflineActions component props.
+ * @interface OfflineActionsProps
+ * @property {VideoMetadata} video - The video the actions apply to
+ * @property {OfflineVideo | null} offlineCopy - The downloaded copy of the video, if any
+ */
+export interface OfflineActionsProps {
+    video: VideoMetadata;
+    offlineCopy: OfflineVideo | null;
+}
+
+/**
+ * A metadata record moved aside by the bulk migration because it failed validation
+ * @interface QuarantinedMetadata
+ * @property {string} videoId - ID of the video the record belongs to
+ * @property {string} key - Storage key the record was moved to
+ * @property {string[]} problems - Why the record was rejected
+ */
+export interface QuarantinedMetadata {
+    videoId: string;
+    key: string;
+    problems: string[];
+}
+
+/**
+ * Result of upgrading every stored metadata record to the current schema version
+ * @interface MetadataMigrationReport
+ * @property {number} schemaVersion - Version the records were upgraded to
+ * @property {number} scanned - Number of records read
+ * @property {number} migrated - Number of records upgraded and stored back
+ * @property {number} current - Number of records already at the current version
+ * @property {QuarantinedMetadata[]} quarantined - Records that failed validation
+ * @property {Array<{videoId: string, error: string}>} failed - Records that could not be read or written
+ */
+export interface MetadataMigrationReport {
+    schemaVersion: number;
+    scanned: number;
+    migrated: number;
+    current: number;
+    quarantined: QuarantinedMetadata[];
+    failed: Array<{ videoId: string; error: string }>;
+}
+
+/**
+ * Result of merging duplicate reviews, where a user had reviewed the same video more than once
+ * @interface ReviewMergeReport
+ * @property {number} scanned - Number of reviews read
+ * @property {number} duplicateGroups - Number of (video, user) pairs with more than one review
+ * @property {number} removed - Number of older reviews removed
+ * @property {number} movedReplies - Number of replies moved from removed reviews to the one kept
+ * @property {number} rekeyed - Number of kept reviews moved from a timestamp ID to `<videoId>#<userId>`
+ * @property {Array<{reviewId: string, error: string}>} failed - Reviews that could not be merged
+ */
+export interface ReviewMergeReport {
+    scanned: number;
+    duplicateGroups: number;
+    removed: number;
+    movedReplies: number;
+    rekeyed: number;
+    failed: Array<{ reviewId: string; error: string }>;
+}
+
+/**
+ * Text checked by the content filter
+ * @typedef {'reviewComment' | 'reply' | 'videoTitle' | 'videoDescription'} ContentField
+ */
+export type ContentField = 'reviewComment' | 'reply' | 'videoTitle' | 'videoDescription';
+
+/**
+ * What the content filter does with text that breaks a guideline
+ * @typedef {'reject' | 'mask' | 'hold'} ContentFilterAction
+ * - reject: the text is not saved and the user is told why
+ * - mask: the offending part is replaced and the rest is saved
+ * - hold: the text is saved hidden until a moderator approves it; only reviews and replies can be held
+ */
+export type ContentFilterAction = 'reject' | 'mask' | 'hold';
+
+/**
+ * A community guideline that some text broke
+ * @interface ContentViolation
+ * @property {string} guideline - ID of the guideline, also its anchor on the guidelines page
+ * @property {ContentFilterAction} action - What was done about it
+ * @property {string} message - Explanation for the user, naming the guideline
+ */
+export interface ContentViolation {
+    guideline: string;
+    action: ContentFilterAction;
+    message: string;
+}
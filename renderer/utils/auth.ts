@@ -0,0 +1,40 @@
+import { fetchAuthSession } from 'aws-amplify/auth';
+
+/** Cognito group whose members may run maintenance tools; matches ADMIN_GROUP in main/services/auth.ts */
+export const ADMIN_GROUP = 'admin';
+
+/** Cognito group whose members review reported content; matches MODERATOR_GROUP in main/services/auth.ts */
+export const MODERATOR_GROUP = 'moderator';
+
+/**
+ * Gets the signed-in user's Cognito access token, which the main process verifies
+ * before acting on the user's behalf.
+ * @async
+ * @returns {Promise<string>} The access token
+ * @throws {Error} If no user is signed in
+ */
+export const getAccessToken = async (): Promise<string> => {
+    const session = await fetchAuthSession();
+    const token = session.tokens?.accessToken?.toString();
+    if (!token) {
+        throw new Error('Not signed in');
+    }
+    return token;
+};
+
+/**
+ * Checks whether the signed-in user belongs to a Cognito group. Only used to decide what to
+ * show; the main process checks group membership again before acting.
+ * @async
+ * @param {string} group - Name of the Cognito group
+ * @returns {Promise<boolean>} Whether the user is in the group; false when signed out
+ */
+export const isInGroup = async (group: string): Promise<boolean> => {
+    try {
+        const session = await fetchAuthSession();
+        const groups = session.tokens?.accessToken?.payload['cognito:groups'];
+        return Array.isArray(groups) && groups.includes(group);
+    } catch {
+        return false;
+    }
+};
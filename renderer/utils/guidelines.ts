@@ -0,0 +1,21 @@
+import toast from 'react-hot-toast';
+import { ContentViolation } from '@/types/types';
+
+/**
+ * Tells the user what the content filter did to text they saved: which guidelines it broke,
+ * and whether parts were masked or it is waiting for a moderator. Rejected text never gets
+ * here; its violations arrive as the error message.
+ * @param {ContentViolation[]} [violations] - The guidelines the text broke, if any
+ */
+export const notifyContentViolations = (violations?: ContentViolation[]): void => {
+    if (!violations || violations.length === 0) return;
+
+    const notes = violations.map(violation => violation.message);
+    if (violations.some(violation => violation.action === 'mask')) {
+        notes.push('The offending parts were masked.');
+    }
+    if (violations.some(violation => violation.action === 'hold')) {
+        notes.push('Only you can see it until a moderator approves it.');
+    }
+    toast(notes.join(' '), { icon: '⚠️', duration: 8000 });
+};
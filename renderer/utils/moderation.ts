@@ -0,0 +1,27 @@
+import { ModerationLogEntry, ModerationTarget, ReportReason } from '@/types/types';
+
+/** What each report reason is called in the report form and the moderation queue */
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+    spam: 'Spam or advertising',
+    harassment: 'Harassment or bullying',
+    hate: 'Hate speech',
+    offTopic: 'Off topic',
+    spoiler: 'Unmarked spoiler',
+    other: 'Something else'
+};
+
+/** How each action is described in the moderation log */
+export const MODERATION_ACTION_LABELS: Record<ModerationLogEntry['action'], string> = {
+    approve: 'Approved',
+    hide: 'Hidden',
+    delete: 'Deleted',
+    autoHide: 'Hidden automatically'
+};
+
+/**
+ * Builds a key that identifies a review or reply, for lists and per-item state
+ * @param {ModerationTarget} target - The review or reply
+ * @returns {string} The review ID, followed by the reply ID for replies
+ */
+export const targetKey = ({ reviewId, replyId }: ModerationTarget): string =>
+    replyId ? `${reviewId}/${replyId}` : reviewId;
@@ -0,0 +1,26 @@
+/**
+ * Formats a byte value into a human-readable string with appropriate unit.
+ * @param {number} bytes - The number of bytes to format
+ * @returns {string} Formatted string with appropriate unit (Bytes, KB, MB, or GB)
+ */
+export const formatBytes = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
+};
+
+/**
+ * Finds the highest warning threshold a usage level has reached
+ * @param {number} used - Bytes used
+ * @param {number} total - Bytes allowed
+ * @param {number[]} thresholds - Warning thresholds as fractions of the total, ascending
+ * @returns {number | null} The highest threshold reached, or null if none
+ */
+export const reachedWarningThreshold = (used: number, total: number, thresholds: number[]): number | null => {
+    if (total <= 0) return null;
+    const fraction = used / total;
+    const reached = thresholds.filter(threshold => fraction >= threshold);
+    return reached.length > 0 ? reached[reached.length - 1] : null;
+};
@@ -0,0 +1,24 @@
+/** Categories a video can be filed under, as shown to users. Stored in lower case. */
+export const VIDEO_CATEGORIES = [
+    'Education', 'Entertainment', 'Gaming', 'Music',
+    'Sports', 'Technology', 'Other'
+];
+
+/**
+ * Checks the details entered for a video
+ * @param {{title: string}} details - The entered details
+ * @returns {string | null} Message describing the first problem, or null if the details are valid
+ */
+export const validateVideoDetails = (details: { title: string }): string | null => {
+    if (!details.title.trim()) {
+        return 'Please enter a title';
+    }
+    return null;
+};
+
+/**
+ * Checks whether a file can be used as a thumbnail
+ * @param {File} file - The selected file
+ * @returns {boolean} Whether the file is an image
+ */
+export const isValidThumbnail = (file: File): boolean => file.type.startsWith('image/');
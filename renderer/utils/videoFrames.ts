@@ -0,0 +1,130 @@
+import { CapturedFrame } from '@/types/types';
+
+/** Widest thumbnail generated, in pixels; larger frames are scaled down */
+const MAX_FRAME_WIDTH = 1280;
+/** How long to wait for the first frame before giving up, e.g. on codecs Chromium cannot decode */
+const LOAD_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Captures still frames from a video using an offscreen video element and canvas.
+ * Remote sources must allow cross-origin reads, or the canvas cannot be exported.
+ * @class FrameGrabber
+ */
+export class FrameGrabber {
+    private readonly video: HTMLVideoElement;
+    private readonly ready: Promise<void>;
+
+    /**
+     * Starts loading the video
+     * @param {string} src - URL of the video, e.g. an object URL of a selected file
+     */
+    constructor(src: string) {
+        this.video = document.createElement('video');
+        this.video.crossOrigin = 'anonymous';
+        this.video.muted = true;
+        this.video.preload = 'auto';
+
+        this.ready = new Promise((resolve, reject) => {
+            const timeout = setTimeout(() => reject(new Error('Timed out loading video')), LOAD_TIMEOUT_MS);
+            this.video.onloadeddata = () => {
+                clearTimeout(timeout);
+                resolve();
+            };
+            this.video.onerror = () => {
+                clearTimeout(timeout);
+                reject(new Error('Could not load video'));
+            };
+        });
+        this.video.src = src;
+    }
+
+    /**
+     * Gets the duration of the video once it has loaded
+     * @async
+     * @returns {Promise<number>} Duration in seconds
+     */
+    async getDuration(): Promise<number> {
+        await this.ready;
+        return this.video.duration;
+    }
+
+    /**
+     * Captures the frame at a position
+     * @async
+     * @param {number} time - Position in seconds; clamped to the video
+     * @returns {Promise<CapturedFrame>} The captured frame
+     * @throws {Error} If the video cannot be loaded or drawn
+     */
+    async capture(time: number): Promise<CapturedFrame> {
+        await this.ready;
+
+        const target = Math.min(Math.max(time, 0), Math.max(this.video.duration - 0.1, 0));
+        await new Promise<void>((resolve, reject) => {
+            this.video.onseeked = () => resolve();
+            this.video.onerror = () => reject(new Error('Could not seek video'));
+            this.video.currentTime = target;
+        });
+
+        const scale = Math.min(1, MAX_FRAME_WIDTH / this.video.videoWidth);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(this.video.videoWidth * scale);
+        canvas.height = Math.round(this.video.videoHeight * scale);
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Canvas is not available');
+        }
+        context.drawImage(this.video, 0, 0, canvas.width, canvas.height);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+        if (!blob) {
+            throw new Error('Could not encode frame');
+        }
+
+        return { time: target, blob, previewUrl: URL.createObjectURL(blob) };
+    }
+
+    /**
+     * Captures frames spread evenly through the video, skipping the very start and end
+     * which are often black
+     * @async
+     * @param {number} count - Number of frames to capture
+     * @returns {Promise<CapturedFrame[]>} The captured frames, in order
+     */
+    async captureCandidates(count: number): Promise<CapturedFrame[]> {
+        const duration = await this.getDuration();
+        const frames: CapturedFrame[] = [];
+        // Seeks must run one at a time on a single video element
+        for (let i = 1; i <= count; i++) {
+            frames.push(await this.capture((duration * i) / (count + 1)));
+        }
+        return frames;
+    }
+
+    /**
+     * Releases the video. The grabber cannot be used afterwards.
+     */
+    close(): void {
+        this.video.removeAttribute('src');
+        this.video.load();
+    }
+}
+
+/**
+ * Wraps a captured frame as a file that can be passed to `s3Service.uploadThumbnail`
+ * @param {CapturedFrame} frame - The captured frame
+ * @param {string} baseName - Name to derive the file name from, e.g. the video file name
+ * @returns {File} The JPEG file
+ */
+export const frameToFile = (frame: CapturedFrame, baseName: string): File =>
+    new File([frame.blob], `${baseName.replace(/\.[^.]+$/, '')}-${Math.round(frame.time)}s.jpg`, { type: 'image/jpeg' });
+
+/**
+ * Formats a position in seconds as M:SS
+ * @param {number} seconds - The position
+ * @returns {string} The formatted position
+ */
+export const formatTimestamp = (seconds: number): string => {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};